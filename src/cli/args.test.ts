@@ -0,0 +1,47 @@
+import { parseArgs, parseSeeds } from './args';
+
+describe('CLI arguments', () => {
+  test('parses a run with its overrides', () => {
+    const options = parseArgs([
+      'run', '--seed', '42', '--generations', '10000', '--config', 'exp.json', '--out', 'results/',
+      '--set', 'predation=0.3', '--sweep', 'mating=0,0.5', '--format', 'csv', '--keep-going',
+      '--param', 'maxAge=200', '--strict'
+    ]);
+
+    expect(options).toEqual({
+      command: 'run',
+      configPath: 'exp.json',
+      out: 'results/',
+      format: 'csv',
+      quiet: false,
+      overrides: {
+        seeds: [42],
+        generations: 10000,
+        initialSettings: { predation: 0.3 },
+        sweep: { mating: [0, 0.5] },
+        simulation: { maxAge: 200 },
+        stopOnExtinction: false,
+        strict: true
+      }
+    });
+  });
+
+  test('expands seed lists and ranges', () => {
+    expect(parseSeeds('1,3,10-12')).toEqual([1, 3, 10, 11, 12]);
+    expect(() => parseSeeds('5-2')).toThrow('reversed');
+    expect(() => parseSeeds('a')).toThrow('non-negative integer');
+  });
+
+  test('shows help without a command', () => {
+    expect(parseArgs([]).command).toBe('help');
+    expect(parseArgs(['run', '--help']).command).toBe('help');
+  });
+
+  test('rejects unknown commands, options and missing values', () => {
+    expect(() => parseArgs(['walk'])).toThrow('Unknown command "walk"');
+    expect(() => parseArgs(['run', '--fast'])).toThrow('Unknown option "--fast"');
+    expect(() => parseArgs(['run', '--generations'])).toThrow('--generations expects a value');
+    expect(() => parseArgs(['run', '--set', 'predation'])).toThrow('<name>=<value>');
+    expect(() => parseArgs(['run', '--format', 'xml'])).toThrow('--format');
+  });
+});
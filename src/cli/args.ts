@@ -0,0 +1,194 @@
+import { ExperimentConfig } from '../simulation/experiment';
+
+/**
+ * Command-line argument parsing for the headless runner
+ */
+
+export type StatsFormat = 'ndjson' | 'csv';
+
+export interface CliOptions {
+  command: 'run' | 'help';
+  configPath: string | null;
+  out: string;
+  format: StatsFormat;
+  quiet: boolean;
+  overrides: Partial<ExperimentConfig>; // Applied on top of the config file
+}
+
+export const USAGE = `Usage: vibelife run [options]
+
+Runs headless simulations and writes per-generation statistics, snapshots
+and a summary of every run to the output directory.
+
+Options:
+  --config <file>           Experiment config JSON; flags override its fields
+  --seed <n>                Run a single seed
+  --seeds <list>            Run several seeds, e.g. 1,2,10-20
+  --generations <n>         Generations per run
+  --population <n>          Initial population per run
+  --preset <name>           World preset
+  --set <setting>=<value>   Initial organism setting, e.g. --set predation=0.3
+  --sweep <setting>=<list>  Run every value of a setting, e.g. --sweep mating=0,0.5,1
+  --param <name>=<value>    Simulation parameter, e.g. --param maxAge=200
+  --snapshot-every <n>      Write a snapshot every n generations (default: final only)
+  --keep-going              Keep simulating after the population dies out
+  --strict                  Check the engine's invariants every generation
+  --format <ndjson|csv>     Statistics format (default: ndjson)
+  --out <dir>               Output directory (default: results)
+  --quiet                   Only print the summary
+  -h, --help                Show this help
+`;
+
+export class CliError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CliError';
+  }
+}
+
+const parseInteger = (value: string, flag: string): number => {
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed) || parsed < 0) {
+    throw new CliError(`${flag} expects a non-negative integer, got "${value}"`);
+  }
+  return parsed;
+};
+
+const parseNumber = (value: string, flag: string): number => {
+  const parsed = Number(value);
+  if (value.trim() === '' || !Number.isFinite(parsed)) {
+    throw new CliError(`${flag} expects a number, got "${value}"`);
+  }
+  return parsed;
+};
+
+/**
+ * Parse a seed list such as "1,2,10-20"
+ */
+export const parseSeeds = (value: string): number[] => {
+  const seeds: number[] = [];
+  for (const part of value.split(',')) {
+    const range = part.match(/^(\d+)-(\d+)$/);
+    if (range) {
+      const from = Number(range[1]);
+      const to = Number(range[2]);
+      if (to < from) {
+        throw new CliError(`--seeds range "${part}" is reversed`);
+      }
+      for (let seed = from; seed <= to; seed++) {
+        seeds.push(seed);
+      }
+    } else {
+      seeds.push(parseInteger(part, '--seeds'));
+    }
+  }
+  return seeds;
+};
+
+// Split "name=value" for --set, --sweep and --param
+const parseAssignment = (value: string, flag: string): [string, string] => {
+  const separator = value.indexOf('=');
+  if (separator <= 0) {
+    throw new CliError(`${flag} expects <name>=<value>, got "${value}"`);
+  }
+  return [value.slice(0, separator), value.slice(separator + 1)];
+};
+
+export const parseArgs = (argv: string[]): CliOptions => {
+  const options: CliOptions = {
+    command: 'help',
+    configPath: null,
+    out: 'results',
+    format: 'ndjson',
+    quiet: false,
+    overrides: {}
+  };
+  const { overrides } = options;
+
+  const [command, ...rest] = argv;
+  if (command === undefined || command === 'help' || command === '-h' || command === '--help') {
+    return options;
+  }
+  if (command !== 'run') {
+    throw new CliError(`Unknown command "${command}"`);
+  }
+  options.command = 'run';
+
+  for (let i = 0; i < rest.length; i++) {
+    const flag = rest[i];
+    const value = () => {
+      const next = rest[++i];
+      if (next === undefined) {
+        throw new CliError(`${flag} expects a value`);
+      }
+      return next;
+    };
+
+    switch (flag) {
+      case '--config':
+        options.configPath = value();
+        break;
+      case '--seed':
+        overrides.seeds = [parseInteger(value(), flag)];
+        break;
+      case '--seeds':
+        overrides.seeds = parseSeeds(value());
+        break;
+      case '--generations':
+        overrides.generations = parseInteger(value(), flag);
+        break;
+      case '--population':
+        overrides.population = parseInteger(value(), flag);
+        break;
+      case '--preset':
+        overrides.worldPreset = value() as ExperimentConfig['worldPreset'];
+        break;
+      case '--set': {
+        const [setting, setValue] = parseAssignment(value(), flag);
+        overrides.initialSettings = { ...overrides.initialSettings, [setting]: parseNumber(setValue, flag) };
+        break;
+      }
+      case '--sweep': {
+        const [setting, list] = parseAssignment(value(), flag);
+        overrides.sweep = { ...overrides.sweep, [setting]: list.split(',').map(item => parseNumber(item, flag)) };
+        break;
+      }
+      case '--param': {
+        const [parameter, paramValue] = parseAssignment(value(), flag);
+        overrides.simulation = { ...overrides.simulation, [parameter]: parseNumber(paramValue, flag) };
+        break;
+      }
+      case '--snapshot-every':
+        overrides.snapshotEvery = parseInteger(value(), flag);
+        break;
+      case '--keep-going':
+        overrides.stopOnExtinction = false;
+        break;
+      case '--strict':
+        overrides.strict = true;
+        break;
+      case '--format': {
+        const format = value();
+        if (format !== 'ndjson' && format !== 'csv') {
+          throw new CliError(`--format must be ndjson or csv, got "${format}"`);
+        }
+        options.format = format;
+        break;
+      }
+      case '--out':
+        options.out = value();
+        break;
+      case '--quiet':
+        options.quiet = true;
+        break;
+      case '-h':
+      case '--help':
+        options.command = 'help';
+        break;
+      default:
+        throw new CliError(`Unknown option "${flag}"`);
+    }
+  }
+
+  return options;
+};
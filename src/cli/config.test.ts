@@ -0,0 +1,42 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { parseArgs } from './args';
+import { resolveConfig } from './config';
+import { DEFAULT_EXPERIMENT_CONFIG, ExperimentConfigError } from '../simulation/experiment';
+
+describe('CLI config', () => {
+  let directory: string;
+
+  beforeEach(() => {
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), 'vibelife-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(directory, { recursive: true, force: true });
+  });
+
+  const writeConfig = (contents: string): string => {
+    const configPath = path.join(directory, 'experiment.json');
+    fs.writeFileSync(configPath, contents);
+    return configPath;
+  };
+
+  test('flags override the config file, which overrides the defaults', () => {
+    const configPath = writeConfig(JSON.stringify({ generations: 50, initialSettings: { mating: 0.5 } }));
+
+    const config = resolveConfig(parseArgs(['run', '--config', configPath, '--set', 'predation=0.3']));
+
+    expect(config.generations).toBe(50);
+    expect(config.initialSettings).toEqual({ mating: 0.5, predation: 0.3 });
+    expect(config.population).toBe(DEFAULT_EXPERIMENT_CONFIG.population);
+  });
+
+  test('a config file that is not JSON is a config error naming the file', () => {
+    const configPath = writeConfig('{ "generations": 50,');
+    const options = parseArgs(['run', '--config', configPath]);
+
+    expect(() => resolveConfig(options)).toThrow(ExperimentConfigError);
+    expect(() => resolveConfig(options)).toThrow(`${configPath} is not valid JSON`);
+  });
+});
@@ -0,0 +1,37 @@
+import * as fs from 'fs';
+import { CliOptions } from './args';
+import {
+  DEFAULT_EXPERIMENT_CONFIG,
+  ExperimentConfig,
+  ExperimentConfigError,
+  parseExperimentConfig
+} from '../simulation/experiment';
+
+const readConfigFile = (configPath: string): unknown => {
+  const text = fs.readFileSync(configPath, 'utf8');
+  try {
+    return JSON.parse(text);
+  } catch (error) {
+    throw new ExperimentConfigError(
+      `${configPath} is not valid JSON: ${error instanceof Error ? error.message : String(error)}`
+    );
+  }
+};
+
+/**
+ * Defaults, then the config file, then the command-line flags. Initial
+ * settings, simulation parameters and sweeps are merged one by one.
+ */
+export const resolveConfig = (options: CliOptions): ExperimentConfig => {
+  const fromFile = options.configPath ? parseExperimentConfig(readConfigFile(options.configPath)) : {};
+  const fromFlags = parseExperimentConfig(options.overrides);
+
+  return {
+    ...DEFAULT_EXPERIMENT_CONFIG,
+    ...fromFile,
+    ...fromFlags,
+    initialSettings: { ...fromFile.initialSettings, ...fromFlags.initialSettings },
+    simulation: { ...fromFile.simulation, ...fromFlags.simulation },
+    sweep: { ...fromFile.sweep, ...fromFlags.sweep }
+  };
+};
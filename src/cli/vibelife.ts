@@ -0,0 +1,100 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { CliError, CliOptions, USAGE, parseArgs } from './args';
+import { resolveConfig } from './config';
+import { ExperimentConfigError, RunSummary, expandRuns, runExperiment } from '../simulation/experiment';
+import { statsCsvHeader, statsToCsvRow } from '../simulation/analytics';
+import { createSnapshot, serializeSnapshot } from '../simulation/snapshot';
+import { EngineState } from '../simulation/protocol';
+
+/**
+ * Headless command-line runner, so experiments can run in CI or on servers
+ * without a browser. Build it with `npm run build:cli`.
+ */
+
+// How often progress is reported while a run is going
+const PROGRESS_INTERVAL = 1000;
+
+const writeSnapshot = (directory: string, name: string, state: EngineState): void => {
+  const snapshot = createSnapshot({ ...state, simulationSpeed: 1 });
+  fs.writeFileSync(path.join(directory, `snapshot-${name}.json`), serializeSnapshot(snapshot));
+};
+
+const formatSummary = (summaries: RunSummary[]): string => {
+  const rows = summaries.map(summary => [
+    summary.name,
+    String(summary.generations),
+    String(summary.finalPopulation),
+    String(summary.peakPopulation),
+    summary.extinctAt === null ? '-' : String(summary.extinctAt),
+    `${(summary.elapsedMs / 1000).toFixed(1)}s`
+  ]);
+  const header = ['run', 'generations', 'population', 'peak', 'extinct at', 'time'];
+  const widths = header.map((title, column) => Math.max(title.length, ...rows.map(row => row[column].length)));
+  const format = (row: string[]) => row.map((cell, column) => cell.padEnd(widths[column])).join('  ');
+  return [format(header), ...rows.map(format)].join('\n');
+};
+
+const run = (options: CliOptions): void => {
+  const config = resolveConfig(options);
+  const runs = expandRuns(config);
+  const log = options.quiet ? () => {} : (message: string) => console.log(message);
+  fs.mkdirSync(options.out, { recursive: true });
+
+  const summaries: RunSummary[] = [];
+  runs.forEach((experimentRun, index) => {
+    const directory = path.join(options.out, experimentRun.name);
+    fs.mkdirSync(directory, { recursive: true });
+    log(`[${index + 1}/${runs.length}] ${experimentRun.name}`);
+
+    // Statistics are appended as they come so long runs don't build up in memory
+    const statsFile = fs.openSync(path.join(directory, `stats.${options.format}`), 'w');
+    if (options.format === 'csv') {
+      fs.writeSync(statsFile, statsCsvHeader() + '\n');
+    }
+
+    let finalState = null as EngineState | null;
+    try {
+      const summary = runExperiment(experimentRun, config, (stats, state) => {
+        fs.writeSync(statsFile, (options.format === 'csv' ? statsToCsvRow(stats) : JSON.stringify(stats)) + '\n');
+        if (config.snapshotEvery > 0 && state.currentGeneration % config.snapshotEvery === 0) {
+          writeSnapshot(directory, String(state.currentGeneration), state);
+        }
+        if (state.currentGeneration % PROGRESS_INTERVAL === 0) {
+          log(`  generation ${state.currentGeneration}: ${stats.population} organisms`);
+        }
+        finalState = state;
+      });
+      if (finalState) {
+        writeSnapshot(directory, 'final', finalState);
+      }
+      summaries.push(summary);
+    } finally {
+      fs.closeSync(statsFile);
+    }
+  });
+
+  fs.writeFileSync(path.join(options.out, 'summary.json'), JSON.stringify({ config, runs: summaries }, null, 2));
+  console.log(formatSummary(summaries));
+};
+
+/**
+ * Run the command line, returning the process exit code
+ */
+const main = (argv: string[]): number => {
+  try {
+    const options = parseArgs(argv);
+    if (options.command === 'help') {
+      console.log(USAGE);
+      return 0;
+    }
+    run(options);
+    return 0;
+  } catch (error) {
+    console.error(`vibelife: ${error instanceof Error ? error.message : String(error)}`);
+    // Usage mistakes are told apart from runs that failed
+    return error instanceof CliError || error instanceof ExperimentConfigError ? 2 : 1;
+  }
+};
+
+process.exitCode = main(process.argv.slice(2));
@@ -2,10 +2,17 @@ import React, { useEffect, useState } from 'react';
 import { initSimulation } from '../simulation/core';
 import SimulationRenderer from './components/SimulationRenderer';
 import ControlPanel from './components/ControlPanel';
+import LineagePanel from './components/LineagePanel';
+import AnalyticsPanel from './components/AnalyticsPanel';
+import BrainPanel from './components/BrainPanel';
+import InspectorPanel from './components/InspectorPanel';
+import GeneticsPanel from './components/GeneticsPanel';
+import { useUiStore } from './stores/uiStore';
 import './App.css';
 
 const App: React.FC = () => {
   const [isInitialized, setIsInitialized] = useState(false);
+  const openPanels = useUiStore(state => state.openPanels);
   
   // Initialize the simulation when the component mounts
   useEffect(() => {
@@ -29,6 +36,13 @@ const App: React.FC = () => {
     <div className="app-container">
       <SimulationRenderer />
       <ControlPanel />
+      <div className="panel-stack">
+        {openPanels.inspector && <InspectorPanel />}
+        {openPanels.genetics && <GeneticsPanel />}
+        {openPanels.analytics && <AnalyticsPanel />}
+        {openPanels.lineage && <LineagePanel />}
+        {openPanels.brain && <BrainPanel />}
+      </div>
     </div>
   );
 };
@@ -0,0 +1,217 @@
+import React, { useMemo } from 'react';
+import { useSimulationStore, OrganismTraits } from '../stores/simulationStore';
+import { useUiStore } from '../stores/uiStore';
+import { TRAIT_NAMES } from '../../simulation/traits';
+import { GenerationStats, statsToCsv } from '../../simulation/analytics';
+import { SpeciesRegistry, speciesColor } from '../../simulation/species';
+import { CATASTROPHES } from '../../simulation/climate';
+import { ENERGY_SINKS, ENERGY_SOURCES, EnergySink, EnergySource } from '../../simulation/energy';
+import LineChart, { ChartSeries } from './LineChart';
+import StackedAreaChart from './StackedAreaChart';
+import Histogram from './Histogram';
+
+const TRAIT_COLORS: Record<keyof OrganismTraits, string> = {
+  motility: '#4fc3f7',
+  photosynthesis: '#81c784',
+  predation: '#e57373',
+  defense: '#ffb74d',
+  sensory: '#ba68c8',
+  reproduction: '#f06292',
+  metabolism: '#fff176',
+  mating: '#4db6ac',
+  temperatureTolerance: '#90caf9'
+};
+
+// Sources in greens and yellows, sinks in reds and purples
+const ENERGY_COLORS: Record<EnergySource | EnergySink, string> = {
+  photosynthesis: '#81c784',
+  decomposition: '#a1887f',
+  bodies: '#fff176',
+  debts: '#dce775',
+  metabolism: '#e57373',
+  movement: '#ff8a65',
+  fighting: '#f06292',
+  scavenging: '#ba68c8',
+  reproduction: '#9575cd',
+  decay: '#90a4ae'
+};
+
+// Species drawn individually in the stacked chart; the rest are lumped together
+const MAX_CHARTED_SPECIES = 12;
+
+/**
+ * Population of the largest species over time, plus everyone else
+ */
+const speciesSeries = (stats: GenerationStats[], registry: SpeciesRegistry): ChartSeries[] => {
+  const peaks = new Map<string, number>();
+  for (const entry of stats) {
+    for (const [id, count] of Object.entries(entry.species)) {
+      peaks.set(id, Math.max(peaks.get(id) ?? 0, count));
+    }
+  }
+  const charted = Array.from(peaks.keys())
+    .sort((a, b) => peaks.get(b)! - peaks.get(a)! || Number(a) - Number(b))
+    .slice(0, MAX_CHARTED_SPECIES)
+    .sort((a, b) => Number(a) - Number(b));
+
+  const series = charted.map(id => ({
+    label: registry.species[id]?.name ?? `Species ${id}`,
+    color: registry.species[id]?.color ?? speciesColor(Number(id)),
+    values: stats.map(entry => entry.species[id] ?? 0)
+  }));
+  if (peaks.size > charted.length) {
+    series.push({
+      label: 'other species',
+      color: '#555',
+      values: stats.map(entry => charted.reduce((rest, id) => rest - (entry.species[id] ?? 0), entry.population))
+    });
+  }
+  return series;
+};
+
+const AnalyticsPanel: React.FC = () => {
+  const { analytics, analyticsVersion, seed, species } = useSimulationStore(state => ({
+    analytics: state.analytics,
+    analyticsVersion: state.analyticsVersion,
+    seed: state.seed,
+    species: state.species
+  }));
+  const togglePanel = useUiStore(state => state.togglePanel);
+
+  // The buffer is mutated in place; analyticsVersion tells us when to re-read it
+  const stats = useMemo(() => analytics.toArray(), [analytics, analyticsVersion]);
+  const latest = stats[stats.length - 1];
+  const generations = stats.map(entry => entry.generation);
+
+  const handleExport = () => {
+    const blob = new Blob([statsToCsv(stats)], { type: 'text/csv' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `vibelife-seed${seed}-stats.csv`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  return (
+    <div className="floating-panel analytics-panel">
+      <div className="panel-header">
+        <h3>Ecosystem Analytics</h3>
+        <div className="button-group">
+          <button onClick={handleExport} disabled={stats.length === 0}>Export CSV</button>
+          <button onClick={() => togglePanel('analytics')}>Close</button>
+        </div>
+      </div>
+
+      {!latest ? (
+        <p>No data yet. Start a simulation to collect statistics.</p>
+      ) : (
+        <>
+          <div className="chart-grid">
+            <LineChart
+              title="Population"
+              xValues={generations}
+              series={[
+                { label: 'population', color: '#4fc3f7', values: stats.map(entry => entry.population) },
+                { label: 'births', color: '#81c784', values: stats.map(entry => entry.births) },
+                {
+                  label: 'deaths',
+                  color: '#e57373',
+                  values: stats.map(entry => (
+                    entry.deaths.starvation + entry.deaths.old_age + entry.deaths.predation +
+                    entry.deaths.killed + entry.deaths.catastrophe
+                  ))
+                }
+              ]}
+            />
+            <StackedAreaChart
+              title={`Species (${Object.keys(latest.species).length} living)`}
+              xValues={generations}
+              series={speciesSeries(stats, species)}
+            />
+            <LineChart
+              title="Deaths by cause"
+              xValues={generations}
+              series={[
+                { label: 'starvation', color: '#ffb74d', values: stats.map(entry => entry.deaths.starvation) },
+                { label: 'old age', color: '#90a4ae', values: stats.map(entry => entry.deaths.old_age) },
+                { label: 'predation', color: '#e57373', values: stats.map(entry => entry.deaths.predation) },
+                { label: 'killed', color: '#ba68c8', values: stats.map(entry => entry.deaths.killed) },
+                { label: 'catastrophe', color: '#ff8a65', values: stats.map(entry => entry.deaths.catastrophe) }
+              ]}
+            />
+            <LineChart
+              title="Mean traits"
+              xValues={generations}
+              yMin={0}
+              yMax={1}
+              series={TRAIT_NAMES.map(trait => ({
+                label: trait,
+                color: TRAIT_COLORS[trait],
+                values: stats.map(entry => entry.traits[trait].mean)
+              }))}
+            />
+            <LineChart
+              title="Total energy"
+              xValues={generations}
+              series={[
+                { label: 'energy', color: '#fff176', values: stats.map(entry => entry.totalEnergy) }
+              ]}
+            />
+            <LineChart
+              title="Energy flows"
+              xValues={generations}
+              yMin={0}
+              series={[
+                ...ENERGY_SOURCES.map(source => ({
+                  label: `+ ${source}`,
+                  color: ENERGY_COLORS[source],
+                  values: stats.map(entry => entry.energy.sources[source])
+                })),
+                ...ENERGY_SINKS.map(sink => ({
+                  label: `- ${sink}`,
+                  color: ENERGY_COLORS[sink],
+                  values: stats.map(entry => entry.energy.sinks[sink])
+                }))
+              ]}
+            />
+            <LineChart
+              title="Environment resources"
+              xValues={generations}
+              yMin={0}
+              series={[
+                { label: 'organic', color: '#a1887f', values: stats.map(entry => entry.resources.organic) },
+                { label: 'minerals', color: '#90a4ae', values: stats.map(entry => entry.resources.minerals) },
+                { label: 'light', color: '#fff59d', values: stats.map(entry => entry.resources.light) }
+              ]}
+            />
+            <LineChart
+              title={`Climate${latest.catastrophes.length > 0 ? ` (${latest.catastrophes.map(kind => CATASTROPHES[kind].label).join(', ')})` : ''}`}
+              xValues={generations}
+              yMin={0}
+              yMax={1}
+              series={[
+                { label: 'temperature', color: '#ff8a65', values: stats.map(entry => entry.temperature) },
+                { label: 'moisture', color: '#4fc3f7', values: stats.map(entry => entry.moisture) }
+              ]}
+            />
+          </div>
+
+          <h4>Trait distributions (generation {latest.generation})</h4>
+          <div className="chart-grid">
+            {TRAIT_NAMES.map(trait => (
+              <Histogram
+                key={trait}
+                title={`${trait} ${latest.traits[trait].mean.toFixed(2)} ± ${Math.sqrt(latest.traits[trait].variance).toFixed(2)}`}
+                bins={latest.traits[trait].histogram}
+                color={TRAIT_COLORS[trait]}
+              />
+            ))}
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default AnalyticsPanel;
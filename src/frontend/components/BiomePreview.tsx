@@ -0,0 +1,72 @@
+import React, { useEffect, useMemo, useRef } from 'react';
+import { useSimulationStore } from '../stores/simulationStore';
+import { BIOMES, BIOME_NAMES, WorldPresetName, generateWorld } from '../../simulation/biomes';
+
+const PREVIEW_SIZE = 120;
+
+interface BiomePreviewProps {
+  preset: WorldPresetName;
+  seed: number;
+}
+
+/**
+ * Top-down map of the surface layer of the world a preset and seed generate
+ */
+const BiomePreview: React.FC<BiomePreviewProps> = ({ preset, seed }) => {
+  const environment = useSimulationStore(state => state.environment);
+  const worldSize = useSimulationStore(state => state.config.worldSize);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+
+  const fields = useMemo(
+    () => generateWorld(environment, preset, seed, worldSize),
+    // Only the preset, seed and world size decide the biome layout
+    [preset, seed, worldSize]
+  );
+
+  // Share of the whole world taken by each biome
+  const shares = useMemo(() => {
+    const counts = new Array(BIOME_NAMES.length).fill(0);
+    fields.biome?.forEach(biome => counts[biome]++);
+    return BIOME_NAMES
+      .map((name, index) => ({ name, share: counts[index] / (fields.biome?.length ?? 1) }))
+      .filter(entry => entry.share > 0);
+  }, [fields]);
+
+  useEffect(() => {
+    const context = canvasRef.current?.getContext('2d');
+    if (!context) return;
+
+    const { resolution, biome } = fields;
+    const cellSize = PREVIEW_SIZE / resolution;
+    // The layer just above the middle of the world gets the most light
+    const layer = Math.floor(resolution / 2) * resolution * resolution;
+
+    for (let y = 0; y < resolution; y++) {
+      for (let x = 0; x < resolution; x++) {
+        context.fillStyle = biome ? BIOMES[BIOME_NAMES[biome[layer + y * resolution + x]]].color : '#111122';
+        // Canvas rows run downwards, world y runs upwards
+        context.fillRect(x * cellSize, (resolution - 1 - y) * cellSize, cellSize, cellSize);
+      }
+    }
+  }, [fields]);
+
+  return (
+    <div className="biome-preview">
+      <canvas ref={canvasRef} width={PREVIEW_SIZE} height={PREVIEW_SIZE} />
+      <ul className="biome-legend">
+        {shares.length === 0 ? (
+          <li>No biomes</li>
+        ) : (
+          shares.map(({ name, share }) => (
+            <li key={name}>
+              <span className="chart-swatch" style={{ backgroundColor: BIOMES[name].color }} />
+              {BIOMES[name].label} {Math.round(share * 100)}%
+            </li>
+          ))
+        )}
+      </ul>
+    </div>
+  );
+};
+
+export default BiomePreview;
@@ -0,0 +1,139 @@
+import React, { useMemo } from 'react';
+import { useSimulationStore, Brain } from '../stores/simulationStore';
+import { useUiStore } from '../stores/uiStore';
+import { BRAIN_INPUTS, BRAIN_OUTPUTS } from '../../simulation/brain';
+
+const NETWORK_WIDTH = 420;
+const NETWORK_HEIGHT = 320;
+const LABEL_WIDTH = 50;
+const NETWORK_PADDING = 10;
+const NODE_RADIUS = 4;
+
+interface NetworkNode {
+  x: number;
+  y: number;
+  bias: number | null; // Inputs have no bias
+}
+
+/**
+ * Position every neuron: one column per layer, spread evenly down the column
+ */
+const layoutNetwork = (brain: Brain): NetworkNode[][] => {
+  const left = LABEL_WIDTH;
+  const right = NETWORK_WIDTH - LABEL_WIDTH;
+  const columns = brain.layerSizes.length;
+
+  return brain.layerSizes.map((size, layer) => {
+    const x = left + (columns > 1 ? layer / (columns - 1) : 0.5) * (right - left);
+    return Array.from({ length: size }, (_, neuron) => ({
+      x,
+      y: NETWORK_PADDING + ((neuron + 0.5) / size) * (NETWORK_HEIGHT - NETWORK_PADDING * 2),
+      bias: layer > 0 ? brain.biases[layer - 1][neuron] : null
+    }));
+  });
+};
+
+/**
+ * Excitatory weights are green and inhibitory ones red, stronger ones more opaque
+ */
+const weightColor = (weight: number): string => {
+  return weight >= 0 ? '#4caf50' : '#f44336';
+};
+
+const weightOpacity = (weight: number): number => Math.min(1, 0.1 + Math.abs(weight) * 0.6);
+
+const BrainPanel: React.FC = () => {
+  const organisms = useSimulationStore(state => state.organisms);
+  const { togglePanel, selectedOrganismId, selectOrganism } = useUiStore(state => ({
+    togglePanel: state.togglePanel,
+    selectedOrganismId: state.selectedOrganismId,
+    selectOrganism: state.selectOrganism
+  }));
+
+  const brainDriven = useMemo(
+    () => organisms.filter(organism => organism.brain).sort((a, b) => b.generation - a.generation),
+    [organisms]
+  );
+  const selected = organisms.find(organism => organism.id === selectedOrganismId);
+  const brain = selected?.brain;
+  const layers = useMemo(() => (brain ? layoutNetwork(brain) : []), [brain]);
+
+  return (
+    <div className="floating-panel brain-panel">
+      <div className="panel-header">
+        <h3>Brain Inspector</h3>
+        <button onClick={() => togglePanel('brain')}>Close</button>
+      </div>
+
+      <div className="panel-toolbar">
+        <label>
+          Brain-driven organism:
+          <select value={selectedOrganismId ?? ''} onChange={e => selectOrganism(e.target.value || null)}>
+            <option value="">Select...</option>
+            {brainDriven.map(organism => (
+              <option key={organism.id} value={organism.id}>
+                {organism.id.substring(0, 8)} (gen {organism.generation})
+              </option>
+            ))}
+          </select>
+        </label>
+        <span>{brainDriven.length} of {organisms.length} have a brain</span>
+      </div>
+
+      {!selected ? (
+        <p>Select an organism here or click one in the world.</p>
+      ) : !brain ? (
+        <p>Organism {selected.id.substring(0, 8)} has no brain and acts on its traits alone.</p>
+      ) : (
+        <>
+          <svg className="brain-network" width={NETWORK_WIDTH} height={NETWORK_HEIGHT}>
+            {layers.slice(1).map((nodes, index) => {
+              const previous = layers[index];
+              return nodes.map((node, neuron) => previous.map((source, input) => {
+                const weight = brain.weights[index][neuron * previous.length + input];
+                return (
+                  <line
+                    key={`${index}-${neuron}-${input}`}
+                    x1={source.x}
+                    y1={source.y}
+                    x2={node.x}
+                    y2={node.y}
+                    stroke={weightColor(weight)}
+                    strokeOpacity={weightOpacity(weight)}
+                    strokeWidth={0.5 + Math.min(2, Math.abs(weight))}
+                  />
+                );
+              }));
+            })}
+            {layers.map((nodes, layer) => nodes.map((node, neuron) => (
+              <circle
+                key={`${layer}-${neuron}`}
+                cx={node.x}
+                cy={node.y}
+                r={NODE_RADIUS}
+                fill={node.bias === null ? '#cccccc' : weightColor(node.bias)}
+                stroke="#000000"
+              />
+            )))}
+            {layers[0].map((node, input) => (
+              <text key={`in-${input}`} className="brain-label" x={node.x - 8} y={node.y + 3} textAnchor="end">
+                {BRAIN_INPUTS[input] ?? input}
+              </text>
+            ))}
+            {layers[layers.length - 1].map((node, output) => (
+              <text key={`out-${output}`} className="brain-label" x={node.x + 8} y={node.y + 3}>
+                {BRAIN_OUTPUTS[output] ?? output}
+              </text>
+            ))}
+          </svg>
+          <div className="brain-details">
+            <div>Layers: {brain.layerSizes.join(' → ')}</div>
+            <div>Last actions: {selected.actions.join(', ') || 'none'}</div>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default BrainPanel;
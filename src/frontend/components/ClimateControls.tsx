@@ -0,0 +1,88 @@
+import React, { useState } from 'react';
+import { useSimulationStore } from '../stores/simulationStore';
+import {
+  CATASTROPHES,
+  CATASTROPHE_KINDS,
+  CatastropheKind,
+  createClimateState,
+  daylightAt,
+  seasonName
+} from '../../simulation/climate';
+import { isInterventionAllowed } from '../../simulation/scenarios';
+
+/**
+ * Shows where the run is in its seasons and days, the climate's drift and
+ * catastrophes, and schedules new catastrophes
+ */
+const ClimateControls: React.FC = () => {
+  const { environment, config, currentGeneration, scenario, scheduleCatastrophe } = useSimulationStore(state => ({
+    environment: state.environment,
+    config: state.config,
+    currentGeneration: state.currentGeneration,
+    scenario: state.scenario?.definition ?? null,
+    scheduleCatastrophe: state.scheduleCatastrophe
+  }));
+
+  const [kind, setKind] = useState<CatastropheKind>('iceAge');
+  const [delay, setDelay] = useState(0);
+
+  const climate = environment.climate ?? createClimateState();
+  const allowed = isInterventionAllowed(scenario, 'catastrophes');
+  const yearProgress = (currentGeneration % config.seasonLength) / config.seasonLength;
+
+  return (
+    <div className="climate-controls">
+      <div className="climate-readout">
+        <div>
+          Season: {seasonName(config, currentGeneration)}
+          <progress value={yearProgress} max={1} />
+        </div>
+        <div>Daylight: {Math.round(daylightAt(config, currentGeneration) * 100)}% of average</div>
+        <div>Temperature: {environment.temperature.toFixed(2)} (drift {climate.drift >= 0 ? '+' : ''}{climate.drift.toFixed(3)})</div>
+        <div>Moisture: {environment.moisture.toFixed(2)}</div>
+      </div>
+
+      {climate.active.length > 0 && (
+        <ul className="climate-events active">
+          {climate.active.map(catastrophe => (
+            <li key={catastrophe.kind}>
+              {CATASTROPHES[catastrophe.kind].label}: {catastrophe.endsAt - currentGeneration} generations left
+            </li>
+          ))}
+        </ul>
+      )}
+      {climate.scheduled.length > 0 && (
+        <ul className="climate-events">
+          {climate.scheduled.map((scheduled, index) => (
+            <li key={index}>
+              {CATASTROPHES[scheduled.kind].label} at generation {scheduled.generation}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <fieldset className="sandbox-controls" disabled={!allowed}>
+        <div className="climate-schedule">
+          <select value={kind} onChange={e => setKind(e.target.value as CatastropheKind)}>
+            {CATASTROPHE_KINDS.map(entry => (
+              <option key={entry} value={entry}>{CATASTROPHES[entry].label}</option>
+            ))}
+          </select>
+          <label>
+            in
+            <input
+              type="number"
+              min="0"
+              value={delay}
+              onChange={e => setDelay(Math.max(0, Math.floor(Number(e.target.value))))}
+            />
+            generations
+          </label>
+          <button onClick={() => scheduleCatastrophe(kind, currentGeneration + delay)}>Schedule</button>
+        </div>
+      </fieldset>
+    </div>
+  );
+};
+
+export default ClimateControls;
@@ -0,0 +1,87 @@
+import React from 'react';
+import { OrganismTraits, useSimulationStore } from '../stores/simulationStore';
+import { OrganismColoring } from '../stores/uiStore';
+import { ValueRange, cssColor, rampGradient } from '../rendering/colorBy';
+import { RGB, traitColor } from '../rendering/appearance';
+import { TRAIT_NAMES } from '../../simulation/traits';
+import { livingSpecies } from '../../simulation/species';
+
+interface ColorLegendProps {
+  coloring: OrganismColoring;
+  range: ValueRange | null; // Of numeric colorings
+}
+
+const SPECIES_SHOWN = 8;
+
+const formatValue = (value: number): string => (Number.isInteger(value) ? String(value) : value.toFixed(2));
+
+// Colors of pure diets; the other traits don't affect color
+const dietColor = (photosynthesis: number, predation: number): RGB => {
+  const traits = Object.fromEntries(TRAIT_NAMES.map(trait => [trait, 0])) as Record<keyof OrganismTraits, number>;
+  return traitColor({ ...traits, photosynthesis, predation });
+};
+
+const DIET_SWATCHES = [
+  { label: 'photosynthesis', color: dietColor(1, 0) },
+  { label: 'predation', color: dietColor(0, 1) },
+  { label: 'neither', color: dietColor(0, 0) }
+];
+
+/**
+ * Key to the organism colors and the ground heatmap, drawn over the 3D view
+ */
+const ColorLegend: React.FC<ColorLegendProps> = ({ coloring, range }) => {
+  const species = useSimulationStore(state => state.species);
+  const { colorBy, ramp, heatmap } = coloring;
+
+  const topSpecies = colorBy === 'species' ?
+    livingSpecies(species).sort((a, b) => b.population - a.population).slice(0, SPECIES_SHOWN) :
+    [];
+
+  return (
+    <div className="color-legend">
+      <div className="color-legend-title">Color: {colorBy}</div>
+      {colorBy === 'appearance' && (
+        <div className="chart-legend">
+          {DIET_SWATCHES.map(swatch => (
+            <span key={swatch.label}>
+              <span className="chart-swatch" style={{ backgroundColor: cssColor(swatch.color) }} />
+              {swatch.label}
+            </span>
+          ))}
+        </div>
+      )}
+      {colorBy === 'species' && (
+        <div className="chart-legend">
+          {topSpecies.map(entry => (
+            <span key={entry.id}>
+              <span className="chart-swatch" style={{ backgroundColor: entry.color }} />
+              {entry.name}
+            </span>
+          ))}
+        </div>
+      )}
+      {range && (
+        <>
+          <div className="color-ramp" style={{ background: rampGradient(ramp) }} />
+          <div className="color-ramp-labels">
+            <span>{formatValue(range.min)}</span>
+            <span>{formatValue(range.max)}</span>
+          </div>
+        </>
+      )}
+      {heatmap && (
+        <>
+          <div className="color-legend-title">Ground: {heatmap === 'density' ? 'organism density' : `total ${heatmap}`}</div>
+          <div className="color-ramp" style={{ background: rampGradient(ramp) }} />
+          <div className="color-ramp-labels">
+            <span>low</span>
+            <span>high</span>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default ColorLegend;
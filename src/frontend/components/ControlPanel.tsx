@@ -1,5 +1,18 @@
-import React, { useState } from 'react';
+import React, { useRef, useState } from 'react';
 import { useSimulationStore } from '../stores/simulationStore';
+import { useUiStore } from '../stores/uiStore';
+import { randomSeed } from '../../simulation/random';
+import { serializeSnapshot } from '../../simulation/snapshot';
+import { FIELD_NAMES, FieldName } from '../../simulation/fields';
+import { WORLD_PRESETS, WorldPresetName } from '../../simulation/biomes';
+import { TRAIT_NAMES } from '../../simulation/traits';
+import { COLOR_RAMPS, ColorBy, ColorRamp, NUMERIC_COLOR_BY } from '../rendering/colorBy';
+import { HeatmapLayer } from '../rendering/groundHeatmap';
+import BiomePreview from './BiomePreview';
+import SandboxControls from './SandboxControls';
+import ScenarioControls from './ScenarioControls';
+import ClimateControls from './ClimateControls';
+import { isInterventionAllowed } from '../../simulation/scenarios';
 
 const ControlPanel: React.FC = () => {
   const { 
@@ -7,32 +20,70 @@ const ControlPanel: React.FC = () => {
     simulationSpeed, 
     startSimulation, 
     pauseSimulation, 
+    stepSimulation,
     setSimulationSpeed,
     fastForward,
+    cancelFastForward,
+    fastForwardProgress,
     currentGeneration,
     organismCount,
-    startNewSimulation
+    seed,
+    timeline,
+    seekGeneration,
+    branchFromHere,
+    startNewSimulation,
+    saveSlots,
+    exportSnapshot,
+    importSnapshot,
+    saveToSlot,
+    loadFromSlot,
+    deleteSlot,
+    timelineAllowed
   } = useSimulationStore(state => ({
     isRunning: state.isRunning,
     simulationSpeed: state.simulationSpeed,
     startSimulation: state.startSimulation,
     pauseSimulation: state.pauseSimulation,
+    stepSimulation: state.stepSimulation,
     setSimulationSpeed: state.setSimulationSpeed,
     fastForward: state.fastForward,
+    cancelFastForward: state.cancelFastForward,
+    fastForwardProgress: state.fastForwardProgress,
     currentGeneration: state.currentGeneration,
     organismCount: state.organisms.length,
-    startNewSimulation: state.startNewSimulation
+    seed: state.seed,
+    timeline: state.timeline,
+    seekGeneration: state.seekGeneration,
+    branchFromHere: state.branchFromHere,
+    startNewSimulation: state.startNewSimulation,
+    saveSlots: state.saveSlots,
+    exportSnapshot: state.exportSnapshot,
+    importSnapshot: state.importSnapshot,
+    saveToSlot: state.saveToSlot,
+    loadFromSlot: state.loadFromSlot,
+    deleteSlot: state.deleteSlot,
+    timelineAllowed: isInterventionAllowed(state.scenario?.definition ?? null, 'timeline')
   }));
   
+  const { openPanels, togglePanel, fieldOverlay, setFieldOverlay, organismColoring, setOrganismColoring } = useUiStore();
+  
   const [initialOrganismSettings, setInitialOrganismSettings] = useState({
     motility: 0.1,
     photosynthesis: 0.5,
     reproduction: 0.5,
-    size: 1.0
+    mating: 0,
+    temperatureTolerance: 0.1,
+    size: 1.0,
+    brainShare: 0
   });
   
   const [fastForwardGenerations, setFastForwardGenerations] = useState(100);
   const [initialPopulationCount, setInitialPopulationCount] = useState(5);
+  const [nextSeed, setNextSeed] = useState(() => randomSeed());
+  const [worldPreset, setWorldPreset] = useState<WorldPresetName>('uniform');
+  const [slotName, setSlotName] = useState('');
+  const [persistenceError, setPersistenceError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
   
   const handleSettingChange = (setting: string, value: number) => {
     setInitialOrganismSettings(prev => ({
@@ -42,7 +93,53 @@ const ControlPanel: React.FC = () => {
   };
   
   const handleNewSimulation = () => {
-    startNewSimulation(initialOrganismSettings, initialPopulationCount);
+    startNewSimulation(initialOrganismSettings, initialPopulationCount, nextSeed, worldPreset);
+  };
+  
+  // Run a persistence action, surfacing any failure in the panel
+  const withErrorReporting = async (action: () => void | Promise<void>) => {
+    try {
+      await action();
+      setPersistenceError(null);
+    } catch (error) {
+      setPersistenceError(error instanceof Error ? error.message : String(error));
+    }
+  };
+  
+  const handleSave = () => {
+    const name = slotName.trim() || `Generation ${currentGeneration}`;
+    withErrorReporting(() => saveToSlot(name));
+    setSlotName('');
+  };
+  
+  const handleDownload = () => withErrorReporting(async () => {
+    const snapshot = await exportSnapshot();
+    const blob = new Blob([serializeSnapshot(snapshot)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `vibelife-seed${snapshot.seed}-gen${snapshot.currentGeneration}.json`;
+    link.click();
+    URL.revokeObjectURL(url);
+  });
+  
+  const handleUpload = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    // Reset the input so the same file can be picked again
+    event.target.value = '';
+    if (!file) return;
+    
+    const text = await file.text();
+    withErrorReporting(() => {
+      let data: unknown;
+      try {
+        data = JSON.parse(text);
+      } catch (error) {
+        throw new Error(`${file.name} is not valid JSON`);
+      }
+      importSnapshot(data);
+    });
   };
   
   return (
@@ -52,6 +149,7 @@ const ControlPanel: React.FC = () => {
       <div className="stats-section">
         <div>Generation: {currentGeneration}</div>
         <div>Organisms: {organismCount}</div>
+        <div>Seed: {seed}</div>
       </div>
       
       <div className="control-section">
@@ -62,11 +160,25 @@ const ControlPanel: React.FC = () => {
           ) : (
             <button onClick={startSimulation}>Start</button>
           )}
-          <button onClick={() => fastForward(fastForwardGenerations)}>
+          <button onClick={stepSimulation} disabled={isRunning || fastForwardProgress !== null}>
+            Step
+          </button>
+          <button 
+            onClick={() => fastForward(fastForwardGenerations)}
+            disabled={fastForwardProgress !== null}
+          >
             Fast Forward
           </button>
         </div>
         
+        {fastForwardProgress && (
+          <div className="progress-control">
+            <progress value={fastForwardProgress.completed} max={fastForwardProgress.total} />
+            <span>{fastForwardProgress.completed} / {fastForwardProgress.total}</span>
+            <button onClick={cancelFastForward}>Cancel</button>
+          </div>
+        )}
+        
         <div className="slider-control">
           <label>
             Fast Forward Generations:
@@ -95,6 +207,157 @@ const ControlPanel: React.FC = () => {
             <span>{simulationSpeed}x</span>
           </label>
         </div>
+        
+        <div className="timeline-control">
+          <label>
+            Timeline:
+            <input 
+              type="range" 
+              min={timeline.start} 
+              max={timeline.end} 
+              step="1"
+              value={currentGeneration}
+              onChange={e => seekGeneration(Number(e.target.value))}
+              disabled={fastForwardProgress !== null || timeline.start === timeline.end || !timelineAllowed}
+            />
+            <span>{timeline.start}&ndash;{timeline.end}</span>
+          </label>
+          {currentGeneration < timeline.end && timelineAllowed && (
+            <div className="timeline-branch">
+              <span>Viewing the past; playing on replays the same future.</span>
+              <button onClick={() => branchFromHere()}>Branch from Here</button>
+            </div>
+          )}
+        </div>
+      </div>
+      
+      <div className="control-section">
+        <h3>Views</h3>
+        <div className="button-group">
+          <button 
+            className={openPanels.lineage ? 'active' : undefined}
+            onClick={() => togglePanel('lineage')}
+          >
+            Evolutionary Tree
+          </button>
+          <button 
+            className={openPanels.analytics ? 'active' : undefined}
+            onClick={() => togglePanel('analytics')}
+          >
+            Analytics
+          </button>
+          <button 
+            className={openPanels.brain ? 'active' : undefined}
+            onClick={() => togglePanel('brain')}
+          >
+            Brain Inspector
+          </button>
+          <button 
+            className={openPanels.inspector ? 'active' : undefined}
+            onClick={() => togglePanel('inspector')}
+          >
+            Organism Inspector
+          </button>
+          <button 
+            className={openPanels.genetics ? 'active' : undefined}
+            onClick={() => togglePanel('genetics')}
+          >
+            Genetic Engineering
+          </button>
+        </div>
+        
+        <div className="field-control">
+          <label>
+            Environment field:
+            <select 
+              value={fieldOverlay.field ?? ''}
+              onChange={e => setFieldOverlay({ field: (e.target.value || null) as FieldName | null })}
+            >
+              <option value="">None</option>
+              {FIELD_NAMES.map(field => (
+                <option key={field} value={field}>{field}</option>
+              ))}
+            </select>
+          </label>
+          {fieldOverlay.field && (
+            <div className="button-group">
+              <button 
+                className={fieldOverlay.mode === 'volume' ? 'active' : undefined}
+                onClick={() => setFieldOverlay({ mode: 'volume' })}
+              >
+                Volume
+              </button>
+              <button 
+                className={fieldOverlay.mode === 'slice' ? 'active' : undefined}
+                onClick={() => setFieldOverlay({ mode: 'slice' })}
+              >
+                Slice
+              </button>
+            </div>
+          )}
+          {fieldOverlay.field && fieldOverlay.mode === 'slice' && (
+            <div className="slider-control">
+              <label>
+                Slice depth:
+                <input 
+                  type="range" 
+                  min="0" 
+                  max="1" 
+                  step="0.05"
+                  value={fieldOverlay.slice}
+                  onChange={e => setFieldOverlay({ slice: Number(e.target.value) })}
+                />
+                <span>{fieldOverlay.slice}</span>
+              </label>
+            </div>
+          )}
+        </div>
+        
+        <div className="field-control">
+          <label>
+            Color organisms by:
+            <select 
+              value={organismColoring.colorBy}
+              onChange={e => setOrganismColoring({ colorBy: e.target.value as ColorBy })}
+            >
+              <option value="appearance">appearance</option>
+              <option value="species">species</option>
+              {NUMERIC_COLOR_BY.map(colorBy => (
+                <option key={colorBy} value={colorBy}>{colorBy}</option>
+              ))}
+            </select>
+          </label>
+        </div>
+        
+        <div className="field-control">
+          <label>
+            Ground heatmap:
+            <select 
+              value={organismColoring.heatmap ?? ''}
+              onChange={e => setOrganismColoring({ heatmap: (e.target.value || null) as HeatmapLayer | null })}
+            >
+              <option value="">None</option>
+              <option value="density">density</option>
+              {TRAIT_NAMES.map(trait => (
+                <option key={trait} value={trait}>{trait}</option>
+              ))}
+            </select>
+          </label>
+        </div>
+        
+        <div className="field-control">
+          <label>
+            Color ramp:
+            <select 
+              value={organismColoring.ramp}
+              onChange={e => setOrganismColoring({ ramp: e.target.value as ColorRamp })}
+            >
+              {Object.keys(COLOR_RAMPS).map(ramp => (
+                <option key={ramp} value={ramp}>{ramp}</option>
+              ))}
+            </select>
+          </label>
+        </div>
       </div>
       
       <div className="control-section">
@@ -159,6 +422,36 @@ const ControlPanel: React.FC = () => {
           </label>
         </div>
         
+        <div className="slider-control">
+          <label>
+            Initial Mating:
+            <input 
+              type="range" 
+              min="0" 
+              max="1" 
+              step="0.05"
+              value={initialOrganismSettings.mating}
+              onChange={e => handleSettingChange('mating', Number(e.target.value))}
+            />
+            <span>{initialOrganismSettings.mating}</span>
+          </label>
+        </div>
+        
+        <div className="slider-control">
+          <label>
+            Initial Temperature Tolerance:
+            <input 
+              type="range" 
+              min="0" 
+              max="1" 
+              step="0.05"
+              value={initialOrganismSettings.temperatureTolerance}
+              onChange={e => handleSettingChange('temperatureTolerance', Number(e.target.value))}
+            />
+            <span>{initialOrganismSettings.temperatureTolerance}</span>
+          </label>
+        </div>
+        
         <div className="slider-control">
           <label>
             Initial Size:
@@ -174,6 +467,48 @@ const ControlPanel: React.FC = () => {
           </label>
         </div>
         
+        <div className="slider-control">
+          <label>
+            Brain-Driven Share:
+            <input 
+              type="range" 
+              min="0" 
+              max="1" 
+              step="0.1"
+              value={initialOrganismSettings.brainShare}
+              onChange={e => handleSettingChange('brainShare', Number(e.target.value))}
+            />
+            <span>{initialOrganismSettings.brainShare}</span>
+          </label>
+        </div>
+        
+        <div className="seed-control">
+          <label>
+            Seed:
+            <input 
+              type="number" 
+              min="0" 
+              step="1"
+              value={nextSeed}
+              onChange={e => setNextSeed(Math.max(0, Math.floor(Number(e.target.value) || 0)))}
+            />
+          </label>
+          <button onClick={() => setNextSeed(randomSeed())}>Randomize</button>
+        </div>
+        
+        <div className="world-control">
+          <label>
+            World:
+            <select value={worldPreset} onChange={e => setWorldPreset(e.target.value as WorldPresetName)}>
+              {(Object.keys(WORLD_PRESETS) as WorldPresetName[]).map(preset => (
+                <option key={preset} value={preset}>{WORLD_PRESETS[preset].label}</option>
+              ))}
+            </select>
+          </label>
+          <p className="world-description">{WORLD_PRESETS[worldPreset].description}</p>
+          <BiomePreview preset={worldPreset} seed={nextSeed} />
+        </div>
+        
         <button 
           onClick={handleNewSimulation}
           className="primary-button"
@@ -181,6 +516,65 @@ const ControlPanel: React.FC = () => {
           Start New Simulation
         </button>
       </div>
+      
+      <div className="control-section">
+        <h3>Environment Timeline</h3>
+        <ClimateControls />
+      </div>
+      
+      <div className="control-section">
+        <h3>Scenario Challenges</h3>
+        <ScenarioControls />
+      </div>
+      
+      <div className="control-section">
+        <h3>Sandbox</h3>
+        <SandboxControls />
+      </div>
+      
+      <div className="control-section">
+        <h3>Save &amp; Load</h3>
+        <div className="save-control">
+          <input 
+            type="text" 
+            placeholder="Save name"
+            value={slotName}
+            onChange={e => setSlotName(e.target.value)}
+          />
+          <button onClick={handleSave}>Save</button>
+        </div>
+        
+        {saveSlots.length > 0 && (
+          <ul className="save-slot-list">
+            {saveSlots.map(slot => (
+              <li key={slot.name}>
+                <span className="save-slot-name">{slot.name}</span>
+                <span className="save-slot-details">
+                  Gen {slot.currentGeneration}, {slot.organismCount} organisms
+                </span>
+                <button onClick={() => withErrorReporting(() => loadFromSlot(slot.name))}>Load</button>
+                <button onClick={() => withErrorReporting(() => deleteSlot(slot.name))}>Delete</button>
+              </li>
+            ))}
+          </ul>
+        )}
+        
+        <div className="button-group">
+          <button onClick={handleDownload}>Download</button>
+          <button onClick={() => fileInputRef.current?.click()}>Upload</button>
+          <input 
+            ref={fileInputRef}
+            type="file" 
+            accept="application/json,.json"
+            style={{ display: 'none' }}
+            onChange={handleUpload}
+          />
+        </div>
+        
+        {persistenceError && (
+          <div className="error-message">{persistenceError}</div>
+        )}
+      </div>
     </div>
   );
 };
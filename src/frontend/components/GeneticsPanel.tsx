@@ -0,0 +1,231 @@
+import React, { useEffect, useState } from 'react';
+import { OrganismTraits, useSimulationStore } from '../stores/simulationStore';
+import { useUiStore } from '../stores/uiStore';
+import { TRAIT_NAMES } from '../../simulation/traits';
+import { InterventionRecord, OrganismDesign, TraitFilter, matchesFilter } from '../../simulation/interventions';
+import { isInterventionAllowed } from '../../simulation/scenarios';
+import { CATASTROPHES } from '../../simulation/climate';
+
+const LOG_ENTRIES_SHOWN = 15;
+
+const DEFAULT_DESIGN: OrganismDesign = {
+  motility: 0.5,
+  photosynthesis: 0.5,
+  predation: 0.1,
+  defense: 0.2,
+  sensory: 0.3,
+  reproduction: 0.3,
+  metabolism: 0.5,
+  mating: 0.3,
+  temperatureTolerance: 0.1,
+  size: 1
+};
+
+interface TraitSliderProps {
+  label: string;
+  value: number;
+  min?: number;
+  max?: number;
+  onChange: (value: number) => void;
+}
+
+const TraitSlider: React.FC<TraitSliderProps> = ({ label, value, min = 0, max = 1, onChange }) => (
+  <div className="slider-control">
+    <label>
+      {label}:
+      <input
+        type="range"
+        min={min}
+        max={max}
+        step="0.01"
+        value={value}
+        onChange={e => onChange(Number(e.target.value))}
+      />
+      <span>{value.toFixed(2)}</span>
+    </label>
+  </div>
+);
+
+const describeRecord = ({ intervention }: InterventionRecord): string => {
+  switch (intervention.type) {
+    case 'control':
+      return intervention.organismId ? `control ${intervention.organismId.substring(0, 8)}` : 'release control';
+    case 'move':
+      return `move ${intervention.direction.x.toFixed(1)}, ${intervention.direction.z.toFixed(1)}`;
+    case 'clone':
+    case 'kill':
+      return `${intervention.type} ${intervention.organismId.substring(0, 8)}`;
+    case 'editTraits':
+      return `edit ${intervention.organismId.substring(0, 8)} (${Object.keys(intervention.traits).join(', ')})`;
+    case 'inject':
+      return `inject at ${intervention.position.x.toFixed(0)}, ${intervention.position.z.toFixed(0)}`;
+    case 'geneDrive':
+      return `drive ${intervention.trait} ${intervention.amount > 0 ? '+' : ''}${intervention.amount} from ${intervention.organismId.substring(0, 8)}`;
+    case 'cull':
+      return `cull ${intervention.filter.trait} ${intervention.filter.comparison} ${intervention.filter.value}`;
+    case 'catastrophe':
+      return `${CATASTROPHES[intervention.kind].label.toLowerCase()} at generation ${intervention.generation}`;
+  }
+};
+
+/**
+ * Tools for editing genomes directly: trait edits, gene drives, designed
+ * organisms and culls, along with the log that makes them replayable
+ */
+const GeneticsPanel: React.FC = () => {
+  const { organisms, currentGeneration, seed, scenario } = useSimulationStore(state => ({
+    organisms: state.organisms,
+    currentGeneration: state.currentGeneration,
+    seed: state.seed,
+    scenario: state.scenario?.definition ?? null
+  }));
+  const { editOrganismTraits, applyGeneDrive, cullOrganisms, fetchInterventionLog } = useSimulationStore(state => ({
+    editOrganismTraits: state.editOrganismTraits,
+    applyGeneDrive: state.applyGeneDrive,
+    cullOrganisms: state.cullOrganisms,
+    fetchInterventionLog: state.fetchInterventionLog
+  }));
+  const { togglePanel, selectedOrganismId, placingDesign, setPlacingDesign } = useUiStore(state => ({
+    togglePanel: state.togglePanel,
+    selectedOrganismId: state.selectedOrganismId,
+    placingDesign: state.placingDesign,
+    setPlacingDesign: state.setPlacingDesign
+  }));
+
+  const [draftTraits, setDraftTraits] = useState<OrganismTraits | null>(null);
+  const [driveTrait, setDriveTrait] = useState<keyof OrganismTraits>('photosynthesis');
+  const [driveAmount, setDriveAmount] = useState(0.1);
+  const [design, setDesign] = useState<OrganismDesign>(DEFAULT_DESIGN);
+  const [filter, setFilter] = useState<TraitFilter>({ trait: 'predation', comparison: 'above', value: 0.8 });
+  const [log, setLog] = useState<InterventionRecord[]>([]);
+
+  const selected = organisms.find(organism => organism.id === selectedOrganismId);
+  const allowed = isInterventionAllowed(scenario, 'engineering');
+  const cullCount = organisms.filter(organism => matchesFilter(organism, filter)).length;
+
+  // Start editing from the selected organism's genome, not on every generation
+  const hasSelected = selected !== undefined;
+  useEffect(() => {
+    const organism = useSimulationStore.getState().organisms.find(entry => entry.id === selectedOrganismId);
+    setDraftTraits(organism ? { ...organism.traits } : null);
+  }, [selectedOrganismId, hasSelected]);
+
+  useEffect(() => {
+    fetchInterventionLog()
+      .then(setLog)
+      .catch(error => console.error('Failed to fetch intervention log:', error));
+  }, [currentGeneration, fetchInterventionLog]);
+
+  const handleDownloadLog = () => {
+    const blob = new Blob([JSON.stringify(log, null, 2)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `vibelife-seed${seed}-interventions.json`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  return (
+    <div className="floating-panel genetics-panel">
+      <div className="panel-header">
+        <h3>Genetic Engineering</h3>
+        <button onClick={() => togglePanel('genetics')}>Close</button>
+      </div>
+
+      {!allowed && <p>This scenario doesn't allow genetic engineering.</p>}
+
+      <fieldset className="sandbox-controls" disabled={!allowed}>
+        <h4>Edit Selected Organism</h4>
+        {selected && draftTraits ? (
+          <>
+            {TRAIT_NAMES.map(trait => (
+              <TraitSlider
+                key={trait}
+                label={trait}
+                value={draftTraits[trait]}
+                onChange={value => setDraftTraits({ ...draftTraits, [trait]: value })}
+              />
+            ))}
+            <div className="button-group">
+              <button onClick={() => editOrganismTraits(selected.id, draftTraits)}>Apply Traits</button>
+              <button onClick={() => setDraftTraits({ ...selected.traits })}>Revert</button>
+            </div>
+
+            <h4>Gene Drive</h4>
+            <p className="world-description">Shifts a trait in this organism and every living descendant.</p>
+            <label>
+              Trait:
+              <select value={driveTrait} onChange={e => setDriveTrait(e.target.value as keyof OrganismTraits)}>
+                {TRAIT_NAMES.map(trait => (
+                  <option key={trait} value={trait}>{trait}</option>
+                ))}
+              </select>
+            </label>
+            <TraitSlider label="Amount" value={driveAmount} min={-0.5} max={0.5} onChange={setDriveAmount} />
+            <button onClick={() => applyGeneDrive(selected.id, driveTrait, driveAmount)}>Drive Lineage</button>
+          </>
+        ) : (
+          <p>Select an organism in the world to edit its genome.</p>
+        )}
+
+        <h4>Design an Organism</h4>
+        {TRAIT_NAMES.map(trait => (
+          <TraitSlider
+            key={trait}
+            label={trait}
+            value={design[trait] ?? 0}
+            onChange={value => setDesign({ ...design, [trait]: value })}
+          />
+        ))}
+        <TraitSlider
+          label="size"
+          value={design.size ?? 1}
+          min={0.5}
+          max={2}
+          onChange={value => setDesign({ ...design, size: value })}
+        />
+        <button
+          className={placingDesign ? 'active' : undefined}
+          onClick={() => setPlacingDesign(placingDesign ? null : design)}
+        >
+          {placingDesign ? 'Cancel Placing' : 'Place in World'}
+        </button>
+
+        <h4>Cull</h4>
+        <div className="genetics-filter">
+          <select value={filter.trait} onChange={e => setFilter({ ...filter, trait: e.target.value as keyof OrganismTraits })}>
+            {TRAIT_NAMES.map(trait => (
+              <option key={trait} value={trait}>{trait}</option>
+            ))}
+          </select>
+          <select
+            value={filter.comparison}
+            onChange={e => setFilter({ ...filter, comparison: e.target.value as TraitFilter['comparison'] })}
+          >
+            <option value="above">above</option>
+            <option value="below">below</option>
+          </select>
+        </div>
+        <TraitSlider label="Value" value={filter.value} onChange={value => setFilter({ ...filter, value })} />
+        <button disabled={cullCount === 0} onClick={() => cullOrganisms(filter)}>
+          Cull {cullCount} Organism{cullCount === 1 ? '' : 's'}
+        </button>
+      </fieldset>
+
+      <div className="panel-header">
+        <h4>Intervention Log ({log.length})</h4>
+        <button onClick={handleDownloadLog} disabled={log.length === 0}>Download JSON</button>
+      </div>
+      <ul className="action-history">
+        {log.slice(-LOG_ENTRIES_SHOWN).reverse().map((record, index) => (
+          <li key={log.length - index}>
+            <span>gen {record.generation}:</span> {describeRecord(record)}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
+
+export default GeneticsPanel;
@@ -0,0 +1,42 @@
+import React from 'react';
+
+interface HistogramProps {
+  title: string;
+  bins: number[];
+  color: string;
+  width?: number;
+  height?: number;
+}
+
+/**
+ * Minimal SVG bar chart for binned counts over [0, 1]
+ */
+const Histogram: React.FC<HistogramProps> = ({ title, bins, color, width = 120, height = 60 }) => {
+  const max = Math.max(1, ...bins);
+  const barWidth = width / bins.length;
+
+  return (
+    <div className="chart">
+      <div className="chart-title">{title}</div>
+      <svg width={width} height={height}>
+        {bins.map((count, i) => {
+          const barHeight = (count / max) * (height - 2);
+          return (
+            <rect
+              key={i}
+              x={i * barWidth + 0.5}
+              y={height - barHeight}
+              width={barWidth - 1}
+              height={barHeight}
+              fill={color}
+            >
+              <title>{`${(i / bins.length).toFixed(1)}-${((i + 1) / bins.length).toFixed(1)}: ${count}`}</title>
+            </rect>
+          );
+        })}
+      </svg>
+    </div>
+  );
+};
+
+export default Histogram;
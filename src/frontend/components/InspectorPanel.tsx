@@ -0,0 +1,175 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { useSimulationStore } from '../stores/simulationStore';
+import { useUiStore } from '../stores/uiStore';
+import { TRAIT_NAMES } from '../../simulation/traits';
+import { LineageRegistry, getAncestors } from '../../simulation/lineage';
+import { ScenarioIntervention, isInterventionAllowed } from '../../simulation/scenarios';
+import RadarChart from './RadarChart';
+
+const REFRESH_INTERVAL_MS = 1000;
+const ACTION_HISTORY_LENGTH = 20; // Generations of actions kept for the selected organism
+const ANCESTORS_SHOWN = 12;
+
+interface ActionEntry {
+  generation: number;
+  actions: string[];
+}
+
+const InspectorPanel: React.FC = () => {
+  const { organisms, currentGeneration, species, playerControlledOrganism, scenario, fetchLineage } = useSimulationStore(state => ({
+    organisms: state.organisms,
+    currentGeneration: state.currentGeneration,
+    species: state.species,
+    playerControlledOrganism: state.playerControlledOrganism,
+    scenario: state.scenario?.definition ?? null,
+    fetchLineage: state.fetchLineage
+  }));
+  const { takeControlOfOrganism, cloneOrganism, killOrganism } = useSimulationStore(state => ({
+    takeControlOfOrganism: state.takeControlOfOrganism,
+    cloneOrganism: state.cloneOrganism,
+    killOrganism: state.killOrganism
+  }));
+  const { togglePanel, selectedOrganismId, selectOrganism, followSelected, setFollowSelected } = useUiStore(state => ({
+    togglePanel: state.togglePanel,
+    selectedOrganismId: state.selectedOrganismId,
+    selectOrganism: state.selectOrganism,
+    followSelected: state.followSelected,
+    setFollowSelected: state.setFollowSelected
+  }));
+
+  const [lineage, setLineage] = useState<LineageRegistry | null>(null);
+  const [actionHistory, setActionHistory] = useState<ActionEntry[]>([]);
+  const lastFetchRef = useRef(0);
+
+  const selected = organisms.find(organism => organism.id === selectedOrganismId);
+
+  // Refresh at most once per interval while the simulation advances
+  useEffect(() => {
+    const refresh = () => {
+      lastFetchRef.current = Date.now();
+      fetchLineage()
+        .then(setLineage)
+        .catch(error => console.error('Failed to fetch lineage:', error));
+    };
+
+    const elapsed = Date.now() - lastFetchRef.current;
+    const timeout = setTimeout(refresh, Math.max(0, REFRESH_INTERVAL_MS - elapsed));
+    return () => clearTimeout(timeout);
+  }, [currentGeneration, selectedOrganismId, fetchLineage]);
+
+  // Organisms only carry the current generation's actions, so collect them as they arrive
+  useEffect(() => {
+    setActionHistory([]);
+  }, [selectedOrganismId]);
+
+  useEffect(() => {
+    if (!selected) return;
+    setActionHistory(history => {
+      if (history[0]?.generation === currentGeneration) return history;
+      return [{ generation: currentGeneration, actions: selected.actions }, ...history].slice(0, ACTION_HISTORY_LENGTH);
+    });
+  }, [selected, currentGeneration]);
+
+  const record = selectedOrganismId && lineage ? lineage.records[selectedOrganismId] : undefined;
+  const ancestors = useMemo(
+    () => (lineage && selectedOrganismId ? getAncestors(lineage, selectedOrganismId) : []),
+    [lineage, selectedOrganismId]
+  );
+  const offspringCount = useMemo(() => {
+    if (!lineage || !selectedOrganismId) return 0;
+    return Object.values(lineage.records).filter(entry => entry.parentId === selectedOrganismId).length;
+  }, [lineage, selectedOrganismId]);
+
+  const organismSpecies = selected?.speciesId !== undefined ? species.species[selected.speciesId] : undefined;
+  const isControlled = selected !== undefined && selected.id === playerControlledOrganism;
+  const allows = (intervention: ScenarioIntervention) => isInterventionAllowed(scenario, intervention);
+
+  return (
+    <div className="floating-panel inspector-panel">
+      <div className="panel-header">
+        <h3>Organism Inspector</h3>
+        <button onClick={() => togglePanel('inspector')}>Close</button>
+      </div>
+
+      {!selectedOrganismId ? (
+        <p>Click an organism in the world to inspect it.</p>
+      ) : !selected ? (
+        <div className="inspector-details">
+          <h4>Organism {selectedOrganismId.substring(0, 8)}</h4>
+          {record?.diedAt !== undefined ? (
+            <div>Died: generation {record.diedAt} ({record.deathCause}, lived {record.lifespan})</div>
+          ) : (
+            <div>No longer in the simulation.</div>
+          )}
+          <div>Offspring on record: {offspringCount}</div>
+          <button onClick={() => selectOrganism(null)}>Clear Selection</button>
+        </div>
+      ) : (
+        <>
+          <div className="inspector-details">
+            <h4>
+              Organism {selected.id.substring(0, 8)}
+              {organismSpecies && (
+                <span style={{ color: organismSpecies.color }}> {organismSpecies.name}</span>
+              )}
+            </h4>
+            <div>Energy: {selected.energy.toFixed(1)}</div>
+            <div>Age: {selected.age}</div>
+            <div>Generation: {selected.generation}</div>
+            <div>Size: {selected.size.toFixed(2)}</div>
+            <div>Brain: {selected.brain ? selected.brain.layerSizes.join(' → ') : 'none'}</div>
+            <div>Offspring on record: {offspringCount}</div>
+          </div>
+
+          <RadarChart
+            axes={TRAIT_NAMES.map(trait => ({ label: trait, value: selected.traits[trait] }))}
+            color={organismSpecies?.color ?? '#4fc3f7'}
+          />
+
+          <div className="button-group">
+            <button
+              className={isControlled ? 'active' : undefined}
+              disabled={isControlled || !allows('control')}
+              onClick={() => takeControlOfOrganism(selected.id)}
+            >
+              Take Control
+            </button>
+            <button disabled={!allows('clone')} onClick={() => cloneOrganism(selected.id)}>Clone</button>
+            <button disabled={!allows('kill')} onClick={() => killOrganism(selected.id)}>Kill</button>
+          </div>
+          <label className="inspector-follow">
+            <input type="checkbox" checked={followSelected} onChange={e => setFollowSelected(e.target.checked)} />
+            Follow with camera
+          </label>
+
+          <h4>Recent actions</h4>
+          <ul className="action-history">
+            {actionHistory.map(entry => (
+              <li key={entry.generation}>
+                <span>gen {entry.generation}:</span> {entry.actions.join(', ') || 'none'}
+              </li>
+            ))}
+          </ul>
+        </>
+      )}
+
+      {selectedOrganismId && ancestors.length > 0 && (
+        <>
+          <h4>Ancestry ({ancestors.length})</h4>
+          <ol className="ancestor-list">
+            {ancestors.slice(0, ANCESTORS_SHOWN).map(ancestor => (
+              <li key={ancestor.id}>
+                <button onClick={() => selectOrganism(ancestor.id)}>{ancestor.id.substring(0, 8)}</button>
+                {' '}born {ancestor.bornAt}
+                {ancestor.diedAt !== undefined ? `, died ${ancestor.diedAt} (${ancestor.deathCause})` : ', alive'}
+                {ancestor.splicedAncestors ? ` · ${ancestor.splicedAncestors} older ancestors compacted` : ''}
+              </li>
+            ))}
+          </ol>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default InspectorPanel;
@@ -0,0 +1,85 @@
+import React from 'react';
+
+export interface ChartSeries {
+  label: string;
+  color: string;
+  values: number[];
+}
+
+interface LineChartProps {
+  title: string;
+  xValues: number[];
+  series: ChartSeries[];
+  width?: number;
+  height?: number;
+  yMin?: number; // Defaults to the smallest value, or 0 if all values are positive
+  yMax?: number; // Defaults to the largest value
+}
+
+const PADDING = { top: 8, right: 8, bottom: 18, left: 40 };
+
+const formatTick = (value: number): string => {
+  if (Math.abs(value) >= 1000) return `${(value / 1000).toFixed(1)}k`;
+  if (Number.isInteger(value)) return String(value);
+  return value.toFixed(2);
+};
+
+/**
+ * Minimal SVG line chart for time series
+ */
+const LineChart: React.FC<LineChartProps> = ({ title, xValues, series, width = 260, height = 120, yMin, yMax }) => {
+  const allValues = series.flatMap(s => s.values);
+  const low = yMin ?? Math.min(0, ...allValues);
+  const high = Math.max(yMax ?? Math.max(...allValues, 1), low + 1e-9);
+  const firstX = xValues[0] ?? 0;
+  const lastX = xValues[xValues.length - 1] ?? 1;
+
+  const plotWidth = width - PADDING.left - PADDING.right;
+  const plotHeight = height - PADDING.top - PADDING.bottom;
+  const toX = (x: number) => PADDING.left + ((x - firstX) / Math.max(1, lastX - firstX)) * plotWidth;
+  const toY = (y: number) => PADDING.top + (1 - (y - low) / (high - low)) * plotHeight;
+
+  // Never draw more points than there are horizontal pixels
+  const step = Math.max(1, Math.ceil(xValues.length / plotWidth));
+
+  const toPoints = (values: number[]): string => {
+    const points: string[] = [];
+    for (let i = 0; i < values.length; i += step) {
+      points.push(`${toX(xValues[i]).toFixed(1)},${toY(values[i]).toFixed(1)}`);
+    }
+    if (values.length > 0 && (values.length - 1) % step !== 0) {
+      const last = values.length - 1;
+      points.push(`${toX(xValues[last]).toFixed(1)},${toY(values[last]).toFixed(1)}`);
+    }
+    return points.join(' ');
+  };
+
+  return (
+    <div className="chart">
+      <div className="chart-title">{title}</div>
+      <svg width={width} height={height}>
+        <line x1={PADDING.left} y1={PADDING.top} x2={PADDING.left} y2={height - PADDING.bottom} stroke="#555" />
+        <line x1={PADDING.left} y1={height - PADDING.bottom} x2={width - PADDING.right} y2={height - PADDING.bottom} stroke="#555" />
+        <text x={PADDING.left - 4} y={PADDING.top + 8} textAnchor="end" className="chart-tick">{formatTick(high)}</text>
+        <text x={PADDING.left - 4} y={height - PADDING.bottom} textAnchor="end" className="chart-tick">{formatTick(low)}</text>
+        <text x={PADDING.left} y={height - 4} className="chart-tick">{firstX}</text>
+        <text x={width - PADDING.right} y={height - 4} textAnchor="end" className="chart-tick">{lastX}</text>
+        {series.map(s => (
+          <polyline key={s.label} points={toPoints(s.values)} fill="none" stroke={s.color} strokeWidth={1.5} />
+        ))}
+      </svg>
+      {series.length > 1 && (
+        <div className="chart-legend">
+          {series.map(s => (
+            <span key={s.label}>
+              <span className="chart-swatch" style={{ backgroundColor: s.color }} />
+              {s.label}
+            </span>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default LineChart;
@@ -0,0 +1,236 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { useSimulationStore, OrganismTraits } from '../stores/simulationStore';
+import { useUiStore } from '../stores/uiStore';
+import { TRAIT_NAMES } from '../../simulation/traits';
+import { LineageRegistry, LineageRecord, getAncestors, getChildren } from '../../simulation/lineage';
+
+// Fetching the registry copies it out of the worker, so don't do it every tick
+const REFRESH_INTERVAL_MS = 1000;
+const TREE_WIDTH = 520;
+const TREE_HEIGHT = 320;
+const TREE_PADDING = 10;
+const MAX_LISTED_ANCESTORS = 25;
+
+interface TreeNode {
+  record: LineageRecord;
+  x: number;      // Birth
+  endX: number;   // Death, or now if still alive
+  y: number;
+  parentY: number | null;
+}
+
+/**
+ * Color a trait value from blue (0) to red (1)
+ */
+const traitColor = (value: number): string => {
+  return `hsl(${Math.round(240 * (1 - value))}, 80%, 55%)`;
+};
+
+/**
+ * Lay the registry out as a phylogram: time runs left to right, and every
+ * leaf gets its own row with parents centered over their children
+ */
+const layoutTree = (lineage: LineageRegistry, currentGeneration: number): TreeNode[] => {
+  const records = Object.values(lineage.records);
+  if (records.length === 0) return [];
+
+  const children = getChildren(lineage);
+  const byBirth = (a: LineageRecord, b: LineageRecord) => a.bornAt - b.bornAt;
+  const roots = records.filter(record => !record.parentId || !lineage.records[record.parentId]).sort(byBirth);
+
+  // Post-order traversal without recursion; chains can be thousands deep
+  const rows = new Map<string, number>();
+  let leafCount = 0;
+  const stack: { record: LineageRecord, visited: boolean }[] = roots.reverse().map(record => ({ record, visited: false }));
+
+  while (stack.length > 0) {
+    const entry = stack.pop() as { record: LineageRecord, visited: boolean };
+    const kids = children.get(entry.record.id);
+
+    if (!kids) {
+      rows.set(entry.record.id, leafCount++);
+    } else if (entry.visited) {
+      const kidRows = kids.map(kid => rows.get(kid.id) as number);
+      rows.set(entry.record.id, (Math.min(...kidRows) + Math.max(...kidRows)) / 2);
+    } else {
+      stack.push({ record: entry.record, visited: true });
+      [...kids].sort(byBirth).reverse().forEach(kid => stack.push({ record: kid, visited: false }));
+    }
+  }
+
+  const minGeneration = Math.min(...records.map(record => record.bornAt));
+  const span = Math.max(1, currentGeneration - minGeneration);
+  const toX = (generation: number) => TREE_PADDING + ((generation - minGeneration) / span) * (TREE_WIDTH - TREE_PADDING * 2);
+  const toY = (row: number) => TREE_PADDING + (leafCount > 1 ? row / (leafCount - 1) : 0.5) * (TREE_HEIGHT - TREE_PADDING * 2);
+
+  return records.map(record => {
+    const parent = record.parentId ? lineage.records[record.parentId] : undefined;
+    return {
+      record,
+      x: toX(record.bornAt),
+      endX: toX(record.diedAt ?? currentGeneration),
+      y: toY(rows.get(record.id) as number),
+      parentY: parent ? toY(rows.get(parent.id) as number) : null
+    };
+  });
+};
+
+const LineagePanel: React.FC = () => {
+  const { organisms, currentGeneration, fetchLineage } = useSimulationStore(state => ({
+    organisms: state.organisms,
+    currentGeneration: state.currentGeneration,
+    fetchLineage: state.fetchLineage
+  }));
+  const togglePanel = useUiStore(state => state.togglePanel);
+
+  const [lineage, setLineage] = useState<LineageRegistry | null>(null);
+  const [colorTrait, setColorTrait] = useState<keyof OrganismTraits>('photosynthesis');
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const lastFetchRef = useRef(0);
+
+  // Refresh at most once per interval while the simulation advances
+  useEffect(() => {
+    const refresh = () => {
+      lastFetchRef.current = Date.now();
+      fetchLineage()
+        .then(setLineage)
+        .catch(error => console.error('Failed to fetch lineage:', error));
+    };
+
+    const elapsed = Date.now() - lastFetchRef.current;
+    const timeout = setTimeout(refresh, Math.max(0, REFRESH_INTERVAL_MS - elapsed));
+    return () => clearTimeout(timeout);
+  }, [currentGeneration, fetchLineage]);
+
+  const nodes = useMemo(
+    () => (lineage ? layoutTree(lineage, currentGeneration) : []),
+    [lineage, currentGeneration]
+  );
+
+  const selected = selectedId && lineage ? lineage.records[selectedId] : undefined;
+  const ancestors = useMemo(
+    () => (lineage && selectedId ? getAncestors(lineage, selectedId) : []),
+    [lineage, selectedId]
+  );
+  const highlighted = useMemo(
+    () => new Set([selectedId, ...ancestors.map(ancestor => ancestor.id)]),
+    [selectedId, ancestors]
+  );
+  const childCount = useMemo(() => {
+    if (!lineage || !selectedId) return 0;
+    return Object.values(lineage.records).filter(record => record.parentId === selectedId).length;
+  }, [lineage, selectedId]);
+
+  const livingOrganisms = useMemo(
+    () => [...organisms].sort((a, b) => b.generation - a.generation),
+    [organisms]
+  );
+
+  return (
+    <div className="floating-panel lineage-panel">
+      <div className="panel-header">
+        <h3>Evolutionary Tree</h3>
+        <button onClick={() => togglePanel('lineage')}>Close</button>
+      </div>
+
+      <div className="panel-toolbar">
+        <label>
+          Color by:
+          <select value={colorTrait} onChange={e => setColorTrait(e.target.value as keyof OrganismTraits)}>
+            {TRAIT_NAMES.map(trait => (
+              <option key={trait} value={trait}>{trait}</option>
+            ))}
+          </select>
+        </label>
+        <label>
+          Living organism:
+          <select value={selectedId ?? ''} onChange={e => setSelectedId(e.target.value || null)}>
+            <option value="">Select...</option>
+            {livingOrganisms.map(organism => (
+              <option key={organism.id} value={organism.id}>
+                {organism.id.substring(0, 8)} (gen {organism.generation})
+              </option>
+            ))}
+          </select>
+        </label>
+      </div>
+
+      {!lineage ? (
+        <p>Loading lineage...</p>
+      ) : (
+        <svg className="lineage-tree" width={TREE_WIDTH} height={TREE_HEIGHT}>
+          {nodes.map(node => {
+            const isHighlighted = highlighted.has(node.record.id);
+            const color = traitColor(node.record.traits[colorTrait]);
+            const path = node.parentY === null ?
+              `M ${node.x} ${node.y} H ${node.endX}` :
+              `M ${node.x} ${node.parentY} V ${node.y} H ${node.endX}`;
+            return (
+              <g key={node.record.id} onClick={() => setSelectedId(node.record.id)}>
+                <path
+                  d={path}
+                  fill="none"
+                  stroke={isHighlighted ? '#ffffff' : color}
+                  strokeWidth={isHighlighted ? 2.5 : 1}
+                  opacity={node.record.diedAt === undefined ? 1 : 0.6}
+                />
+                <circle cx={node.x} cy={node.y} r={isHighlighted ? 3.5 : 2} fill={color} />
+              </g>
+            );
+          })}
+        </svg>
+      )}
+
+      {selected && (
+        <div className="lineage-details">
+          <h4>Organism {selected.id.substring(0, 8)}</h4>
+          <div>Lineage depth: {selected.lineageDepth}</div>
+          <div>Born: generation {selected.bornAt}</div>
+          {selected.mateId && <div>Second parent: {selected.mateId.substring(0, 8)}</div>}
+          {selected.diedAt !== undefined ? (
+            <div>Died: generation {selected.diedAt} ({selected.deathCause}, lived {selected.lifespan})</div>
+          ) : (
+            <div>Alive</div>
+          )}
+          <div>Offspring on record: {childCount}</div>
+
+          <div className="trait-bars">
+            {TRAIT_NAMES.map(trait => (
+              <div key={trait} className="trait-bar">
+                <span>{trait}</span>
+                <div className="trait-bar-track">
+                  <div
+                    className="trait-bar-fill"
+                    style={{ width: `${selected.traits[trait] * 100}%`, backgroundColor: traitColor(selected.traits[trait]) }}
+                  />
+                </div>
+              </div>
+            ))}
+          </div>
+
+          <h4>Ancestors</h4>
+          {ancestors.length === 0 ? (
+            <div>None on record</div>
+          ) : (
+            <ol className="ancestor-list">
+              {ancestors.slice(0, MAX_LISTED_ANCESTORS).map(ancestor => (
+                <li key={ancestor.id}>
+                  <button onClick={() => setSelectedId(ancestor.id)}>
+                    {ancestor.id.substring(0, 8)}
+                  </button>
+                  <span> born gen {ancestor.bornAt}</span>
+                  {ancestor.splicedAncestors ? <span> (+{ancestor.splicedAncestors} compacted)</span> : null}
+                </li>
+              ))}
+              {ancestors.length > MAX_LISTED_ANCESTORS && (
+                <li>...and {ancestors.length - MAX_LISTED_ANCESTORS} more</li>
+              )}
+            </ol>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default LineagePanel;
@@ -0,0 +1,68 @@
+import React from 'react';
+
+export interface RadarAxis {
+  label: string;
+  value: number; // 0-1
+}
+
+interface RadarChartProps {
+  axes: RadarAxis[];
+  color: string;
+  size?: number;
+}
+
+const LABEL_MARGIN = 42;
+const RINGS = [0.25, 0.5, 0.75, 1];
+
+/**
+ * Minimal SVG radar chart for values between 0 and 1, one spoke per axis
+ */
+const RadarChart: React.FC<RadarChartProps> = ({ axes, color, size = 240 }) => {
+  const center = size / 2;
+  const radius = center - LABEL_MARGIN;
+  // Start at the top and go round clockwise
+  const pointAt = (index: number, value: number) => {
+    const angle = (index / axes.length) * Math.PI * 2 - Math.PI / 2;
+    return { x: center + Math.cos(angle) * radius * value, y: center + Math.sin(angle) * radius * value };
+  };
+  const polygon = (value: (index: number) => number): string => {
+    return axes.map((_, index) => {
+      const point = pointAt(index, value(index));
+      return `${point.x},${point.y}`;
+    }).join(' ');
+  };
+
+  return (
+    <svg className="radar-chart" width={size} height={size}>
+      {RINGS.map(ring => (
+        <polygon key={ring} points={polygon(() => ring)} fill="none" stroke="#444" />
+      ))}
+      {axes.map((axis, index) => {
+        const end = pointAt(index, 1);
+        const label = pointAt(index, 1.15);
+        return (
+          <g key={axis.label}>
+            <line x1={center} y1={center} x2={end.x} y2={end.y} stroke="#444" />
+            <text
+              className="chart-tick"
+              x={label.x}
+              y={label.y + 3}
+              textAnchor={Math.abs(label.x - center) < 1 ? 'middle' : label.x > center ? 'start' : 'end'}
+            >
+              {axis.label}
+            </text>
+          </g>
+        );
+      })}
+      <polygon
+        points={polygon(index => Math.max(0, Math.min(1, axes[index].value)))}
+        fill={color}
+        fillOpacity={0.35}
+        stroke={color}
+        strokeWidth={1.5}
+      />
+    </svg>
+  );
+};
+
+export default RadarChart;
@@ -0,0 +1,104 @@
+import React from 'react';
+import { useSimulationStore } from '../stores/simulationStore';
+import {
+  CONFIG_PARAMETERS,
+  NumericParameter,
+  PARAMETER_GROUPS,
+  ParameterSpec,
+  STEERING_WEIGHT_SPEC
+} from '../../simulation/config';
+import { STEERING_BEHAVIORS, SteeringBehavior } from '../../simulation/steering';
+import { isInterventionAllowed } from '../../simulation/scenarios';
+
+const STEERING_LABELS: Record<SteeringBehavior, string> = {
+  seekFood: 'Seek food',
+  fleePredators: 'Flee predators',
+  seekLight: 'Seek light',
+  flockKin: 'Flock with kin',
+  wander: 'Wander'
+};
+
+// Keep typed values inside the range validation accepts
+const clampToSpec = (value: number, spec: { min: number, max: number, integer?: boolean }): number => {
+  const clamped = Math.min(spec.max, Math.max(spec.min, value));
+  return spec.integer ? Math.round(clamped) : clamped;
+};
+
+interface ParameterInputProps {
+  label: string;
+  value: number;
+  spec: { min: number, max: number, step: number, integer?: boolean };
+  onChange: (value: number) => void;
+}
+
+const ParameterInput: React.FC<ParameterInputProps> = ({ label, value, spec, onChange }) => (
+  <label className="sandbox-parameter">
+    <span>{label}</span>
+    <input
+      type="number"
+      min={spec.min}
+      max={spec.max}
+      step={spec.step}
+      value={value}
+      onChange={e => {
+        if (e.target.value === '') return;
+        onChange(clampToSpec(Number(e.target.value), spec));
+      }}
+    />
+  </label>
+);
+
+/**
+ * Editors for every simulation parameter. Changes reach the running
+ * simulation from its next generation.
+ */
+const SandboxControls: React.FC = () => {
+  const { config, setConfig, resetConfig, allowed } = useSimulationStore(state => ({
+    config: state.config,
+    setConfig: state.setConfig,
+    resetConfig: state.resetConfig,
+    allowed: isInterventionAllowed(state.scenario?.definition ?? null, 'sandbox')
+  }));
+
+  const parameters = Object.entries(CONFIG_PARAMETERS) as [NumericParameter, ParameterSpec][];
+
+  return (
+    <fieldset className="sandbox-controls" disabled={!allowed}>
+      {!allowed && (
+        <p className="sandbox-note">The current scenario doesn't allow changing parameters.</p>
+      )}
+      {PARAMETER_GROUPS.map(group => (
+        <details key={group} className="sandbox-group">
+          <summary>{group}</summary>
+          {parameters.filter(([, spec]) => spec.group === group).map(([name, spec]) => (
+            <ParameterInput
+              key={name}
+              label={spec.label}
+              value={config[name]}
+              spec={spec}
+              onChange={value => setConfig({ [name]: value })}
+            />
+          ))}
+          {group === 'World' && (
+            <p className="sandbox-note">World size applies to the next new simulation.</p>
+          )}
+        </details>
+      ))}
+      <details className="sandbox-group">
+        <summary>Steering</summary>
+        {STEERING_BEHAVIORS.map(behavior => (
+          <ParameterInput
+            key={behavior}
+            label={STEERING_LABELS[behavior]}
+            value={config.steeringWeights[behavior]}
+            spec={STEERING_WEIGHT_SPEC}
+            onChange={value => setConfig({ steeringWeights: { [behavior]: value } })}
+          />
+        ))}
+      </details>
+      <button onClick={resetConfig}>Reset Defaults</button>
+    </fieldset>
+  );
+};
+
+export default SandboxControls;
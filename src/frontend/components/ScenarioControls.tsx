@@ -0,0 +1,144 @@
+import React, { useRef, useState } from 'react';
+import { useSimulationStore } from '../stores/simulationStore';
+import {
+  BUILT_IN_SCENARIOS,
+  ObjectiveProgress,
+  ScenarioDefinition,
+  ScenarioObjective,
+  parseScenario
+} from '../../simulation/scenarios';
+
+const STATUS_LABELS = {
+  active: 'In progress',
+  won: 'Met',
+  lost: 'Failed'
+};
+
+const formatValue = (value: number | null): string => {
+  if (value === null) return '–';
+  return Number.isInteger(value) ? String(value) : value.toFixed(2);
+};
+
+interface ObjectiveRowProps {
+  objective: ScenarioObjective;
+  progress?: ObjectiveProgress;
+  generation: number;
+}
+
+const ObjectiveRow: React.FC<ObjectiveRowProps> = ({ objective, progress, generation }) => (
+  <li className={`scenario-objective ${progress?.status ?? ''}`}>
+    <div>{objective.description}</div>
+    {progress && (
+      <div className="scenario-objective-progress">
+        <progress value={Math.min(generation, objective.generations)} max={objective.generations} />
+        <span>
+          {STATUS_LABELS[progress.status]} · now {formatValue(progress.value)}
+        </span>
+      </div>
+    )}
+  </li>
+);
+
+/**
+ * Picks and starts scenario challenges, and follows the one being played
+ */
+const ScenarioControls: React.FC = () => {
+  const { scenario, currentGeneration, startScenario, abandonScenario } = useSimulationStore(state => ({
+    scenario: state.scenario,
+    currentGeneration: state.currentGeneration,
+    startScenario: state.startScenario,
+    abandonScenario: state.abandonScenario
+  }));
+
+  const [scenarios, setScenarios] = useState<ScenarioDefinition[]>(BUILT_IN_SCENARIOS);
+  const [selectedId, setSelectedId] = useState(BUILT_IN_SCENARIOS[0].id);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const handleUpload = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    // Reset the input so the same file can be picked again
+    event.target.value = '';
+    if (!file) return;
+
+    try {
+      const loaded = parseScenario(JSON.parse(await file.text()));
+      setScenarios(current => [...current.filter(entry => entry.id !== loaded.id), loaded]);
+      setSelectedId(loaded.id);
+      setLoadError(null);
+    } catch (error) {
+      setLoadError(`${file.name}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  };
+
+  if (scenario) {
+    const { definition, progress } = scenario;
+    return (
+      <div className="scenario-controls">
+        <h4>{definition.name}</h4>
+        <div className={`scenario-status ${progress.status}`}>
+          {progress.status === 'active' && 'In progress'}
+          {progress.status === 'won' && `Won at generation ${progress.endedAt}!`}
+          {progress.status === 'lost' && `Lost at generation ${progress.endedAt}. ${progress.reason}`}
+        </div>
+        <ul className="scenario-objectives">
+          {definition.objectives.map((objective, index) => (
+            <ObjectiveRow
+              key={index}
+              objective={objective}
+              progress={progress.objectives[index]}
+              generation={currentGeneration}
+            />
+          ))}
+        </ul>
+        <div className="scenario-interventions">
+          Allowed: {definition.allowedInterventions.join(', ') || 'no interventions'}
+        </div>
+        <div className="button-group">
+          <button onClick={() => startScenario(definition)}>Restart</button>
+          <button onClick={abandonScenario}>Abandon</button>
+        </div>
+      </div>
+    );
+  }
+
+  const selected = scenarios.find(entry => entry.id === selectedId) ?? scenarios[0];
+
+  return (
+    <div className="scenario-controls">
+      <label>
+        Scenario:
+        <select value={selected.id} onChange={e => setSelectedId(e.target.value)}>
+          {scenarios.map(entry => (
+            <option key={entry.id} value={entry.id}>{entry.name}</option>
+          ))}
+        </select>
+      </label>
+      <p className="world-description">{selected.description}</p>
+      <ul className="scenario-objectives">
+        {selected.objectives.map((objective, index) => (
+          <ObjectiveRow key={index} objective={objective} generation={0} />
+        ))}
+      </ul>
+      <div className="scenario-interventions">
+        Allowed: {selected.allowedInterventions.join(', ') || 'no interventions'}
+      </div>
+      <div className="button-group">
+        <button className="primary-button" onClick={() => startScenario(selected)}>Start Scenario</button>
+        <button onClick={() => fileInputRef.current?.click()}>Load File</button>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept="application/json,.json"
+          style={{ display: 'none' }}
+          onChange={handleUpload}
+        />
+      </div>
+      {loadError && (
+        <div className="error-message">{loadError}</div>
+      )}
+    </div>
+  );
+};
+
+export default ScenarioControls;
@@ -1,14 +1,19 @@
-import React, { useEffect, useRef, useState } from 'react';
+import React, { useEffect, useMemo, useRef, useState } from 'react';
 import * as THREE from 'three';
 import { OrbitControls } from 'three/examples/jsm/controls/OrbitControls';
 import { useSimulationStore } from '../stores/simulationStore';
-import { Organism } from '../stores/simulationStore';
+import { useUiStore } from '../stores/uiStore';
+import { createFieldSlice, createFieldVolume, disposeFieldOverlay } from '../rendering/fieldOverlay';
+import { OrganismInstances, createOrganismInstances } from '../rendering/organismInstances';
+import { CarcassInstances, createCarcassInstances } from '../rendering/carcassInstances';
+import { createColoring, valueRange } from '../rendering/colorBy';
+import { createGroundHeatmap } from '../rendering/groundHeatmap';
+import { climateConditions, createClimateState } from '../../simulation/climate';
+import ColorLegend from './ColorLegend';
 
-interface OrganismMesh {
-  id: string;
-  mesh: THREE.Mesh;
-  organism: Organism;
-}
+const GROUND_SEGMENTS = 10;
+const SUN_INTENSITY = 0.5; // At noon in a clear sky
+const FOLLOW_SMOOTHING = 0.1; // Share of the distance to the followed organism the camera closes each frame
 
 const SimulationRenderer: React.FC = () => {
   const canvasRef = useRef<HTMLDivElement>(null);
@@ -16,28 +21,50 @@ const SimulationRenderer: React.FC = () => {
   const sceneRef = useRef<THREE.Scene | null>(null);
   const cameraRef = useRef<THREE.PerspectiveCamera | null>(null);
   const controlsRef = useRef<OrbitControls | null>(null);
-  const organismMeshesRef = useRef<OrganismMesh[]>([]);
+  const instancesRef = useRef<OrganismInstances | null>(null);
   const lastTickTimeRef = useRef<number>(Date.now());
   const raycasterRef = useRef<THREE.Raycaster>(new THREE.Raycaster());
   const mouseRef = useRef<THREE.Vector2>(new THREE.Vector2());
+  const fieldOverlayRef = useRef<THREE.Points | THREE.Mesh | null>(null);
+  const heatmapRef = useRef<THREE.Mesh | null>(null);
+  const groundRef = useRef<THREE.Mesh | null>(null);
+  const carcassInstancesRef = useRef<CarcassInstances | null>(null);
+  const sunRef = useRef<THREE.DirectionalLight | null>(null);
   
   // Get organisms and simulation state
   const { 
     organisms, 
+    carcasses,
+    environment,
     isRunning, 
     simulationSpeed, 
     playerControlledOrganism,
-    takeControlOfOrganism,
     releaseControlOfOrganism,
-    movePlayerOrganism
+    movePlayerOrganism,
+    injectOrganism
   } = useSimulationStore(state => ({
     organisms: state.organisms,
+    carcasses: state.carcasses,
+    environment: state.environment,
     isRunning: state.isRunning,
     simulationSpeed: state.simulationSpeed,
     playerControlledOrganism: state.playerControlledOrganism,
-    takeControlOfOrganism: state.takeControlOfOrganism,
     releaseControlOfOrganism: state.releaseControlOfOrganism,
-    movePlayerOrganism: state.movePlayerOrganism
+    movePlayerOrganism: state.movePlayerOrganism,
+    injectOrganism: state.injectOrganism
+  }));
+  const carcassBodyEnergy = useSimulationStore(state => state.config.carcassBodyEnergy);
+  // The size of the running world; a changed setting only applies to the next new simulation
+  const worldSize = useSimulationStore(state => state.environment.fields?.worldSize ?? state.config.worldSize);
+  const lightScale = useSimulationStore(state => (
+    climateConditions(state.environment.climate ?? createClimateState(), state.config, state.currentGeneration).lightScale
+  ));
+  const organismColoring = useUiStore(state => state.organismColoring);
+  const { selectOrganism, openPanel, placingDesign, setPlacingDesign } = useUiStore(state => ({
+    selectOrganism: state.selectOrganism,
+    openPanel: state.openPanel,
+    placingDesign: state.placingDesign,
+    setPlacingDesign: state.setPlacingDesign
   }));
   
   // Initialize Three.js scene
@@ -61,9 +88,10 @@ const SimulationRenderer: React.FC = () => {
     scene.add(ambientLight);
     
     // Add directional light
-    const directionalLight = new THREE.DirectionalLight(0xffffff, 0.5);
+    const directionalLight = new THREE.DirectionalLight(0xffffff, SUN_INTENSITY);
     directionalLight.position.set(1, 1, 1);
     scene.add(directionalLight);
+    sunRef.current = directionalLight;
     
     // Initialize camera
     const camera = new THREE.PerspectiveCamera(
@@ -80,15 +108,12 @@ const SimulationRenderer: React.FC = () => {
     controls.enableDamping = true;
     controlsRef.current = controls;
     
-    // Add ground plane
-    const groundGeometry = new THREE.PlaneGeometry(100, 100, 10, 10);
-    const groundMaterial = new THREE.MeshStandardMaterial({
-      color: 0x111122,
-      wireframe: true,
-    });
-    const ground = new THREE.Mesh(groundGeometry, groundMaterial);
-    ground.rotation.x = -Math.PI / 2;
-    scene.add(ground);
+    // Organisms are drawn as instances of shared meshes
+    const instances = createOrganismInstances(scene);
+    instances.sync(useSimulationStore.getState().organisms);
+    instancesRef.current = instances;
+    const carcassInstances = createCarcassInstances(scene);
+    carcassInstancesRef.current = carcassInstances;
     
     // Add click handler to select organisms
     const handleClick = (event: MouseEvent) => {
@@ -102,28 +127,35 @@ const SimulationRenderer: React.FC = () => {
       // Update the picking ray with the camera and mouse position
       raycasterRef.current.setFromCamera(mouseRef.current, cameraRef.current);
       
-      // Calculate objects intersecting the picking ray
-      const intersects = raycasterRef.current.intersectObjects(sceneRef.current.children);
+      // A designed organism waiting to be placed goes where the ground was clicked
+      const { placingDesign: design } = useUiStore.getState();
+      if (design) {
+        const [hit] = groundRef.current ? raycasterRef.current.intersectObject(groundRef.current) : [];
+        if (hit) {
+          injectOrganism(design, { x: hit.point.x, y: hit.point.y, z: hit.point.z });
+          setPlacingDesign(null);
+        }
+        return;
+      }
       
       // Check if we clicked on an organism
-      for (let i = 0; i < intersects.length; i++) {
-        const userData = intersects[i].object.userData;
-        if (userData.type === 'organism') {
-          // Take control of the clicked organism
-          takeControlOfOrganism(userData.id);
-          return;
-        }
+      const id = instancesRef.current?.pick(raycasterRef.current);
+      if (id) {
+        // Select the clicked organism; control is taken from the inspector
+        selectOrganism(id);
+        openPanel('inspector');
+        return;
       }
       
       // If clicked elsewhere, release control
-      if (playerControlledOrganism) {
+      if (useSimulationStore.getState().playerControlledOrganism) {
         releaseControlOfOrganism();
       }
     };
     
     // Add keyboard controls for movement
     const handleKeyDown = (event: KeyboardEvent) => {
-      if (!playerControlledOrganism) return;
+      if (!useSimulationStore.getState().playerControlledOrganism) return;
       
       const direction = { x: 0, y: 0, z: 0 };
       
@@ -183,99 +215,145 @@ const SimulationRenderer: React.FC = () => {
       window.removeEventListener('keydown', handleKeyDown);
       window.removeEventListener('resize', handleResize);
       
+      instances.dispose();
+      instancesRef.current = null;
+      carcassInstances.dispose();
+      carcassInstancesRef.current = null;
+      controls.dispose();
+      
       if (rendererRef.current && canvasRef.current) {
         canvasRef.current.removeChild(rendererRef.current.domElement);
       }
       
       rendererRef.current?.dispose();
     };
-  }, [takeControlOfOrganism, releaseControlOfOrganism, movePlayerOrganism, playerControlledOrganism]);
+  }, [releaseControlOfOrganism, movePlayerOrganism, injectOrganism, selectOrganism, openPanel, setPlacingDesign]);
   
-  // Update meshes with organisms from the simulation state
+  // The ground covers the world, rebuilt when a new run changes its size
   useEffect(() => {
-    if (!sceneRef.current) return;
+    const scene = sceneRef.current;
+    if (!scene) return;
     
-    // Remove meshes for organisms that no longer exist
-    const currentIds = organisms.map(org => org.id);
-    organismMeshesRef.current = organismMeshesRef.current.filter(item => {
-      if (!currentIds.includes(item.id)) {
-        sceneRef.current?.remove(item.mesh);
-        return false;
-      }
-      return true;
-    });
+    const ground = new THREE.Mesh(
+      new THREE.PlaneGeometry(worldSize, worldSize, GROUND_SEGMENTS, GROUND_SEGMENTS),
+      new THREE.MeshStandardMaterial({ color: 0x111122, wireframe: true })
+    );
+    ground.rotation.x = -Math.PI / 2;
+    scene.add(ground);
+    groundRef.current = ground;
     
-    // Add or update meshes for current organisms
-    organisms.forEach(organism => {
-      // Check if we already have a mesh for this organism
-      let meshItem = organismMeshesRef.current.find(item => item.id === organism.id);
-      
-      if (!meshItem) {
-        // Create new mesh for this organism
-        const geometry = new THREE.SphereGeometry(organism.size, 16, 16);
-        const material = new THREE.MeshStandardMaterial({
-          color: new THREE.Color().setHSL(
-            organism.traits.photosynthesis ? 0.3 : 0.0, 
-            0.8, 
-            0.5
-          ),
-        });
-        const mesh = new THREE.Mesh(geometry, material);
-        // Set initial position
-        mesh.position.set(
-          organism.position.x,
-          organism.position.y,
-          organism.position.z
-        );
-        mesh.userData = { type: 'organism', id: organism.id };
-        sceneRef.current?.add(mesh);
-        
-        // Add to our tracking array
-        meshItem = { id: organism.id, mesh, organism };
-        organismMeshesRef.current.push(meshItem);
-      } else {
-        // Update the stored organism reference
-        meshItem.organism = organism;
-      }
-    });
+    return () => {
+      scene.remove(ground);
+      ground.geometry.dispose();
+      (ground.material as THREE.Material).dispose();
+      groundRef.current = null;
+    };
+  }, [worldSize]);
+  
+  // Numeric colorings span the current population's range, which the legend shows
+  const { colorBy, ramp, heatmap } = organismColoring;
+  const colorRange = useMemo(
+    () => (colorBy === 'appearance' || colorBy === 'species' ? null : valueRange(organisms, colorBy)),
+    [organisms, colorBy]
+  );
+  
+  // Keep the instances in step with the organisms from the simulation state
+  useEffect(() => {
+    instancesRef.current?.sync(organisms, createColoring(colorBy, ramp, colorRange ?? { min: 0, max: 1 }));
     
     // Reset the last tick time when organisms change
     lastTickTimeRef.current = Date.now();
-  }, [organisms]);
+  }, [organisms, colorBy, ramp, colorRange]);
+  
+  // Project the chosen heatmap onto the ground, rebuilt as the organisms change
+  useEffect(() => {
+    const scene = sceneRef.current;
+    if (!scene) return;
+    
+    if (heatmapRef.current) {
+      scene.remove(heatmapRef.current);
+      disposeFieldOverlay(heatmapRef.current);
+      heatmapRef.current = null;
+    }
+    
+    if (!heatmap) return;
+    
+    const mesh = createGroundHeatmap(organisms, heatmap, ramp, worldSize);
+    scene.add(mesh);
+    heatmapRef.current = mesh;
+  }, [organisms, heatmap, ramp, worldSize]);
+  
+  // The sun dims at night and under a meteor's dust, as the light field does
+  useEffect(() => {
+    if (sunRef.current) {
+      sunRef.current.intensity = SUN_INTENSITY * lightScale;
+    }
+  }, [lightScale]);
+  
+  // Carcasses are drawn as instances too, shrinking as they're eaten and decay
+  useEffect(() => {
+    carcassInstancesRef.current?.sync(carcasses, carcassBodyEnergy);
+  }, [carcasses, carcassBodyEnergy]);
+  
+  // Show the selected environment field, rebuilt whenever the environment changes
+  const fieldOverlay = useUiStore(state => state.fieldOverlay);
+  useEffect(() => {
+    const scene = sceneRef.current;
+    if (!scene) return;
+    
+    if (fieldOverlayRef.current) {
+      scene.remove(fieldOverlayRef.current);
+      disposeFieldOverlay(fieldOverlayRef.current);
+      fieldOverlayRef.current = null;
+    }
+    
+    if (!fieldOverlay.field || !environment.fields) return;
+    
+    const overlay = fieldOverlay.mode === 'volume' ?
+      createFieldVolume(environment.fields, fieldOverlay.field) :
+      createFieldSlice(environment.fields, fieldOverlay.field, fieldOverlay.slice);
+    scene.add(overlay);
+    fieldOverlayRef.current = overlay;
+  }, [environment, fieldOverlay]);
+  
+  // The animation loop reads these through refs so that it never has to restart
+  const isRunningRef = useRef(isRunning);
+  const simulationSpeedRef = useRef(simulationSpeed);
+  isRunningRef.current = isRunning;
+  simulationSpeedRef.current = simulationSpeed;
   
   // Animation loop for smooth movement
   useEffect(() => {
+    let frameId = 0;
+    
     const animate = () => {
-      requestAnimationFrame(animate);
+      frameId = requestAnimationFrame(animate);
       
       if (controlsRef.current) {
         controlsRef.current.update();
       }
       
-      // Calculate interpolation factor based on time
+      // Calculate interpolation factor based on time; paused organisms rest at their targets
       const now = Date.now();
-      const tickDuration = 1000 / simulationSpeed; // Duration between simulation ticks
+      const tickDuration = 1000 / simulationSpeedRef.current; // Duration between simulation ticks
       const timeSinceLastTick = now - lastTickTimeRef.current;
-      const interpolationFactor = Math.min(timeSinceLastTick / tickDuration, 1);
+      const interpolationFactor = isRunningRef.current ? Math.min(timeSinceLastTick / tickDuration, 1) : 1;
+      
+      const instances = instancesRef.current;
+      if (instances && cameraRef.current) {
+        instances.update(cameraRef.current, interpolationFactor, performance.now() / 1000);
+      }
       
-      // Update organism positions with interpolation
-      organismMeshesRef.current.forEach(({ mesh, organism }) => {
-        if (organism.isPlayerControlled) {
-          // For player-controlled organisms, we directly set position without interpolation
-          mesh.position.set(
-            organism.position.x,
-            organism.position.y,
-            organism.position.z
-          );
-        } else if (isRunning) {
-          // For AI-controlled organisms, interpolate between positions
-          mesh.position.set(
-            organism.position.x + (organism.targetPosition.x - organism.position.x) * interpolationFactor,
-            organism.position.y + (organism.targetPosition.y - organism.position.y) * interpolationFactor,
-            organism.position.z + (organism.targetPosition.z - organism.position.z) * interpolationFactor
-          );
+      // Keep the selected organism at the center of the view while it's inspected
+      const { selectedOrganismId, followSelected, openPanels } = useUiStore.getState();
+      if (followSelected && openPanels.inspector && selectedOrganismId && instances && controlsRef.current && cameraRef.current) {
+        const followed = instances.positionOf(selectedOrganismId);
+        if (followed) {
+          const offset = followed.sub(controlsRef.current.target).multiplyScalar(FOLLOW_SMOOTHING);
+          controlsRef.current.target.add(offset);
+          cameraRef.current.position.add(offset);
         }
-      });
+      }
       
       if (rendererRef.current && sceneRef.current && cameraRef.current) {
         rendererRef.current.render(sceneRef.current, cameraRef.current);
@@ -284,13 +362,20 @@ const SimulationRenderer: React.FC = () => {
     
     animate();
     
-    // This is a persistent animation loop, no need for cleanup
-  }, [isRunning, simulationSpeed]);
+    return () => cancelAnimationFrame(frameId);
+  }, []);
   
   return (
     <div className="simulation-container">
       <div ref={canvasRef} className="canvas-container" />
-      {playerControlledOrganism && (
+      <ColorLegend coloring={organismColoring} range={colorRange} />
+      {placingDesign && (
+        <div className="controls-overlay">
+          <p>Click the ground to place the designed organism</p>
+          <button onClick={() => setPlacingDesign(null)}>Cancel</button>
+        </div>
+      )}
+      {playerControlledOrganism && !placingDesign && (
         <div className="controls-overlay">
           <p>Controlling organism: {playerControlledOrganism.substring(0, 8)}...</p>
           <p>Use arrow keys or WASD to move, Q/E for up/down</p>
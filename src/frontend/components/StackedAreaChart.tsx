@@ -0,0 +1,75 @@
+import React from 'react';
+import { ChartSeries } from './LineChart';
+
+interface StackedAreaChartProps {
+  title: string;
+  xValues: number[];
+  series: ChartSeries[]; // Stacked bottom to top in order
+  width?: number;
+  height?: number;
+}
+
+const PADDING = { top: 8, right: 8, bottom: 18, left: 40 };
+
+/**
+ * Minimal SVG stacked area chart for time series that add up to a total
+ */
+const StackedAreaChart: React.FC<StackedAreaChartProps> = ({ title, xValues, series, width = 260, height = 120 }) => {
+  const totals = xValues.map((_, i) => series.reduce((sum, s) => sum + (s.values[i] ?? 0), 0));
+  const high = Math.max(1, ...totals);
+  const firstX = xValues[0] ?? 0;
+  const lastX = xValues[xValues.length - 1] ?? 1;
+
+  const plotWidth = width - PADDING.left - PADDING.right;
+  const plotHeight = height - PADDING.top - PADDING.bottom;
+  const toX = (x: number) => PADDING.left + ((x - firstX) / Math.max(1, lastX - firstX)) * plotWidth;
+  const toY = (y: number) => PADDING.top + (1 - y / high) * plotHeight;
+
+  // Never draw more points than there are horizontal pixels
+  const step = Math.max(1, Math.ceil(xValues.length / plotWidth));
+  const indices: number[] = [];
+  for (let i = 0; i < xValues.length; i += step) {
+    indices.push(i);
+  }
+  if (xValues.length > 0 && indices[indices.length - 1] !== xValues.length - 1) {
+    indices.push(xValues.length - 1);
+  }
+
+  // Each band runs along the top of the stack so far, then back along its bottom
+  const baseline = new Array(xValues.length).fill(0);
+  const bands = series.map(s => {
+    const bottom = indices.map(i => `${toX(xValues[i]).toFixed(1)},${toY(baseline[i]).toFixed(1)}`);
+    indices.forEach(i => { baseline[i] += s.values[i] ?? 0; });
+    const top = indices.map(i => `${toX(xValues[i]).toFixed(1)},${toY(baseline[i]).toFixed(1)}`);
+    return { ...s, points: [...top, ...bottom.reverse()].join(' ') };
+  });
+
+  return (
+    <div className="chart">
+      <div className="chart-title">{title}</div>
+      <svg width={width} height={height}>
+        {bands.map(band => (
+          <polygon key={band.label} points={band.points} fill={band.color} stroke="none" />
+        ))}
+        <line x1={PADDING.left} y1={PADDING.top} x2={PADDING.left} y2={height - PADDING.bottom} stroke="#555" />
+        <line x1={PADDING.left} y1={height - PADDING.bottom} x2={width - PADDING.right} y2={height - PADDING.bottom} stroke="#555" />
+        <text x={PADDING.left - 4} y={PADDING.top + 8} textAnchor="end" className="chart-tick">{high}</text>
+        <text x={PADDING.left - 4} y={height - PADDING.bottom} textAnchor="end" className="chart-tick">0</text>
+        <text x={PADDING.left} y={height - 4} className="chart-tick">{firstX}</text>
+        <text x={width - PADDING.right} y={height - 4} textAnchor="end" className="chart-tick">{lastX}</text>
+      </svg>
+      {series.length > 1 && (
+        <div className="chart-legend">
+          {series.map(s => (
+            <span key={s.label}>
+              <span className="chart-swatch" style={{ backgroundColor: s.color }} />
+              {s.label}
+            </span>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default StackedAreaChart;
@@ -0,0 +1,47 @@
+import { OrganismTraits } from '../stores/simulationStore';
+import { organismAppearance, traitColor } from './appearance';
+
+const traits = (changes: Partial<OrganismTraits> = {}): OrganismTraits => ({
+  motility: 0.1,
+  photosynthesis: 0,
+  predation: 0,
+  defense: 0.1,
+  sensory: 0.1,
+  reproduction: 0.3,
+  metabolism: 0.5,
+  mating: 0,
+  temperatureTolerance: 0.1,
+  ...changes
+});
+
+describe('Organism appearance', () => {
+  test('diet sets the hue: green for photosynthesis, red for predation', () => {
+    const [plantR, plantG] = traitColor(traits({ photosynthesis: 1 }));
+    const [hunterR, hunterG] = traitColor(traits({ predation: 1 }));
+    const mixed = traitColor(traits({ photosynthesis: 0.5, predation: 0.5 }));
+
+    expect(plantG).toBeGreaterThan(plantR);
+    expect(hunterR).toBeGreaterThan(hunterG);
+    expect(mixed[0]).toBeGreaterThan(plantR);
+    expect(mixed[0]).toBeLessThan(hunterR);
+  });
+
+  test('features appear once their traits are pronounced', () => {
+    expect(organismAppearance(traits())).toMatchObject({ defense: null, tailLength: 0, eyeSize: 0 });
+
+    const evolved = organismAppearance(traits({ defense: 0.8, motility: 0.9, sensory: 0.6 }));
+    expect(evolved.defense).toBe('spikes');
+    expect(evolved.tailLength).toBeGreaterThan(organismAppearance(traits({ motility: 0.5 })).tailLength);
+    expect(evolved.eyeSize).toBeGreaterThan(0);
+
+    expect(organismAppearance(traits({ defense: 0.8, motility: 0 })).defense).toBe('shell');
+  });
+
+  test('a faster metabolism pulses faster and harder', () => {
+    const slow = organismAppearance(traits({ metabolism: 0.1 }));
+    const fast = organismAppearance(traits({ metabolism: 0.9 }));
+
+    expect(fast.pulseRate).toBeGreaterThan(slow.pulseRate);
+    expect(fast.pulseAmount).toBeGreaterThan(slow.pulseAmount);
+  });
+});
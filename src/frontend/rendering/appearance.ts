@@ -0,0 +1,66 @@
+import { OrganismTraits } from '../stores/simulationStore';
+
+/**
+ * Procedural organism appearance.
+ *
+ * Maps a trait vector to how an organism looks: photosynthesizers are
+ * green, predators red and decomposers a dull blue-grey, with blends in
+ * between. Defensive organisms grow spikes, or a shell if they hardly move;
+ * motile ones trail a tail, keen senses show as eyes, and a fast
+ * metabolism makes the body pulse quickly. Features only appear once their
+ * trait passes FEATURE_THRESHOLD, so the founding population looks plain.
+ */
+
+export type RGB = [number, number, number]; // sRGB components, 0-1
+
+export const FEATURE_THRESHOLD = 0.2;
+const SESSILE_MOTILITY = 0.3; // Defensive organisms slower than this grow a shell instead of spikes
+
+const PHOTOSYNTHESIS_COLOR: RGB = [0.3, 0.8, 0.25];
+const PREDATION_COLOR: RGB = [0.9, 0.2, 0.15];
+const NEUTRAL_COLOR: RGB = [0.45, 0.5, 0.65];
+const MIN_NEUTRAL_WEIGHT = 0.15; // Keeps pure photosynthesizers and predators from going fully saturated
+
+export interface Appearance {
+  color: RGB;
+  defense: 'spikes' | 'shell' | null;
+  defenseScale: number; // 0-1, how pronounced the spikes or shell are
+  tailLength: number;   // In body radii; 0 for no tail
+  eyeSize: number;      // In body radii; 0 for no eyes
+  pulseRate: number;    // Radians per second
+  pulseAmount: number;  // Share of the body size the pulse swells by
+}
+
+// How far a trait is past the threshold, rescaled to 0-1
+const feature = (value: number): number => {
+  return Math.max(0, (value - FEATURE_THRESHOLD) / (1 - FEATURE_THRESHOLD));
+};
+
+/**
+ * Blend the diet colors by how much the organism relies on each
+ */
+export const traitColor = (traits: OrganismTraits): RGB => {
+  const neutral = Math.max(MIN_NEUTRAL_WEIGHT, 1 - traits.photosynthesis - traits.predation);
+  const total = traits.photosynthesis + traits.predation + neutral;
+  return [0, 1, 2].map(channel => (
+    PHOTOSYNTHESIS_COLOR[channel] * traits.photosynthesis +
+    PREDATION_COLOR[channel] * traits.predation +
+    NEUTRAL_COLOR[channel] * neutral
+  ) / total) as RGB;
+};
+
+export const organismAppearance = (traits: OrganismTraits): Appearance => {
+  const defense = feature(traits.defense);
+  const motility = feature(traits.motility);
+  const sensory = feature(traits.sensory);
+
+  return {
+    color: traitColor(traits),
+    defense: defense === 0 ? null : traits.motility < SESSILE_MOTILITY ? 'shell' : 'spikes',
+    defenseScale: defense,
+    tailLength: motility === 0 ? 0 : 0.5 + motility * 1.5,
+    eyeSize: sensory === 0 ? 0 : 0.12 + sensory * 0.18,
+    pulseRate: Math.PI * (0.5 + traits.metabolism * 3),
+    pulseAmount: 0.02 + traits.metabolism * 0.08
+  };
+};
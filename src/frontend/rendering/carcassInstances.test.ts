@@ -0,0 +1,55 @@
+import * as THREE from 'three';
+import { Carcass } from '../stores/simulationStore';
+import { createCarcassInstances } from './carcassInstances';
+
+const BODY_ENERGY = 10;
+
+const carcassAt = (x: number, size: number, energy: number): Carcass => ({
+  id: `carcass-${x}`,
+  position: { x, y: 0, z: 0 },
+  size,
+  energy,
+  diedAt: 0
+});
+
+const instancedMeshes = (scene: THREE.Scene): THREE.InstancedMesh[] => {
+  return scene.children.filter((child): child is THREE.InstancedMesh => child instanceof THREE.InstancedMesh);
+};
+
+describe('Carcass instances', () => {
+  test('carcasses share one mesh, scaled by their size and remaining energy', () => {
+    const scene = new THREE.Scene();
+    const instances = createCarcassInstances(scene);
+
+    instances.sync([carcassAt(0, 2, 20), carcassAt(5, 2, 0)], BODY_ENERGY);
+
+    const [mesh] = instancedMeshes(scene);
+    expect(instancedMeshes(scene)).toHaveLength(1);
+    expect(mesh.count).toBe(2);
+    const matrix = new THREE.Matrix4();
+    const position = new THREE.Vector3();
+    const scale = new THREE.Vector3();
+    mesh.getMatrixAt(0, matrix);
+    matrix.decompose(position, new THREE.Quaternion(), scale);
+    expect(scale.x).toBeCloseTo(2);
+    mesh.getMatrixAt(1, matrix);
+    matrix.decompose(position, new THREE.Quaternion(), scale);
+    expect(position.x).toBe(5);
+    expect(scale.x).toBeCloseTo(0.6);
+  });
+
+  test('growing past the capacity replaces the mesh', () => {
+    const scene = new THREE.Scene();
+    const instances = createCarcassInstances(scene, 2);
+    const carcasses = [0, 1, 2, 3, 4].map(x => carcassAt(x, 1, BODY_ENERGY));
+
+    instances.sync(carcasses, BODY_ENERGY);
+    instances.sync(carcasses.slice(0, 1), BODY_ENERGY);
+
+    expect(instancedMeshes(scene)).toHaveLength(1);
+    expect(instances.count()).toBe(1);
+
+    instances.dispose();
+    expect(instancedMeshes(scene)).toHaveLength(0);
+  });
+});
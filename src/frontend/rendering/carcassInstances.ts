@@ -0,0 +1,73 @@
+import * as THREE from 'three';
+import { Carcass } from '../stores/simulationStore';
+
+/**
+ * Instanced carcass rendering.
+ *
+ * Carcasses are translucent brown octahedra, all instances of one shared
+ * unit mesh scaled to their size, that shrink as they're eaten and decay.
+ * Carcasses don't move, so the instances are only rebuilt when the
+ * carcasses change.
+ */
+
+const CARCASS_COLOR = 0x6d4c41;
+const CARCASS_OPACITY = 0.6;
+const MIN_SCALE = 0.3; // Share of its size a carcass keeps once nothing is left of it
+
+export interface CarcassInstances {
+  // bodyEnergy is the energy a fresh carcass holds per unit of size
+  sync: (carcasses: Carcass[], bodyEnergy: number) => void;
+  count: () => number;
+  dispose: () => void;
+}
+
+export const createCarcassInstances = (scene: THREE.Scene, initialCapacity = 256): CarcassInstances => {
+  const geometry = new THREE.OctahedronGeometry(1);
+  const material = new THREE.MeshStandardMaterial({ color: CARCASS_COLOR, transparent: true, opacity: CARCASS_OPACITY });
+
+  let capacity = initialCapacity;
+  let mesh: THREE.InstancedMesh;
+
+  const createMesh = (): void => {
+    mesh = new THREE.InstancedMesh(geometry, material, capacity);
+    mesh.instanceMatrix.setUsage(THREE.DynamicDrawUsage);
+    mesh.userData = { type: 'carcass' };
+    mesh.count = 0;
+    scene.add(mesh);
+  };
+
+  createMesh();
+
+  const matrix = new THREE.Matrix4();
+  const position = new THREE.Vector3();
+  const rotation = new THREE.Quaternion();
+  const scale = new THREE.Vector3();
+
+  const sync = (carcasses: Carcass[], bodyEnergy: number): void => {
+    if (carcasses.length > capacity) {
+      while (capacity < carcasses.length) capacity *= 2;
+      scene.remove(mesh);
+      mesh.dispose();
+      createMesh();
+    }
+
+    carcasses.forEach((carcass, index) => {
+      // Relative to the energy a fresh carcass of this size holds
+      const remaining = Math.min(1, carcass.energy / (carcass.size * bodyEnergy));
+      position.set(carcass.position.x, carcass.position.y, carcass.position.z);
+      scale.setScalar(carcass.size * (MIN_SCALE + (1 - MIN_SCALE) * remaining));
+      mesh.setMatrixAt(index, matrix.compose(position, rotation, scale));
+    });
+    mesh.count = carcasses.length;
+    mesh.instanceMatrix.needsUpdate = true;
+  };
+
+  const dispose = (): void => {
+    scene.remove(mesh);
+    mesh.dispose();
+    geometry.dispose();
+    material.dispose();
+  };
+
+  return { sync, count: () => mesh.count, dispose };
+};
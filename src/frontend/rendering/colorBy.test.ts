@@ -0,0 +1,41 @@
+import { Organism } from '../stores/simulationStore';
+import { createInitialOrganism } from '../../simulation/core';
+import { createRng, seedToState } from '../../simulation/random';
+import { COLOR_RAMPS, createColoring, sampleRamp, valueRange } from './colorBy';
+
+const rng = createRng(seedToState(2));
+
+const organismWith = (changes: Partial<Organism>): Organism => ({ ...createInitialOrganism({}, rng), ...changes });
+
+describe('Color by', () => {
+  test('ramps run from their first stop to their last', () => {
+    expect(sampleRamp('heat', 0)).toEqual(COLOR_RAMPS.heat[0]);
+    expect(sampleRamp('heat', 1)).toEqual(COLOR_RAMPS.heat[COLOR_RAMPS.heat.length - 1]);
+    expect(sampleRamp('grayscale', 0.5)[0]).toBeCloseTo(0.525);
+    expect(sampleRamp('grayscale', 2)).toEqual(sampleRamp('grayscale', 1));
+  });
+
+  test('traits span 0-1 while other values span the population', () => {
+    const organisms = [organismWith({ energy: 4 }), organismWith({ energy: 12 }), organismWith({ energy: 7 })];
+
+    expect(valueRange(organisms, 'predation')).toEqual({ min: 0, max: 1 });
+    expect(valueRange(organisms, 'energy')).toEqual({ min: 4, max: 12 });
+    expect(valueRange([], 'age')).toEqual({ min: 0, max: 1 });
+  });
+
+  test('numeric colorings follow the ramp and appearance needs none', () => {
+    const low = organismWith({ age: 0 });
+    const high = organismWith({ age: 10 });
+    const coloring = createColoring('age', 'grayscale', { min: 0, max: 10 });
+
+    expect(createColoring('appearance', 'viridis', { min: 0, max: 1 })).toBeNull();
+    expect(coloring!(high).r).toBeGreaterThan(coloring!(low).r);
+  });
+
+  test('organisms of a species share its color', () => {
+    const coloring = createColoring('species', 'viridis', { min: 0, max: 1 })!;
+
+    expect(coloring(organismWith({ speciesId: 3 }))).toEqual(coloring(organismWith({ speciesId: 3 })));
+    expect(coloring(organismWith({ speciesId: 3 }))).not.toEqual(coloring(organismWith({ speciesId: 4 })));
+  });
+});
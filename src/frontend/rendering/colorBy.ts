@@ -0,0 +1,112 @@
+import * as THREE from 'three';
+import { Organism, OrganismTraits } from '../stores/simulationStore';
+import { TRAIT_NAMES } from '../../simulation/traits';
+import { speciesColor } from '../../simulation/species';
+import { RGB } from './appearance';
+
+/**
+ * Coloring organisms by data.
+ *
+ * Organisms can be colored by their appearance, their species, or any
+ * numeric property mapped through a color ramp. Traits always span 0-1;
+ * the other properties are scaled to the range of the current population,
+ * which the legend shows.
+ */
+
+export type NumericColorBy = keyof OrganismTraits | 'energy' | 'age' | 'generation' | 'size';
+
+export type ColorBy = 'appearance' | 'species' | NumericColorBy;
+
+export const NUMERIC_COLOR_BY: NumericColorBy[] = [...TRAIT_NAMES, 'energy', 'age', 'generation', 'size'];
+
+// Evenly spaced stops from low to high, in sRGB
+export const COLOR_RAMPS = {
+  viridis: [[0.27, 0, 0.33], [0.23, 0.32, 0.55], [0.13, 0.57, 0.55], [0.37, 0.79, 0.38], [0.99, 0.91, 0.14]],
+  heat: [[0.05, 0.05, 0.2], [0.55, 0.05, 0.3], [0.9, 0.3, 0.1], [1, 0.75, 0.1], [1, 1, 0.8]],
+  coolwarm: [[0.23, 0.3, 0.75], [0.55, 0.69, 1], [0.87, 0.87, 0.87], [0.96, 0.6, 0.48], [0.71, 0.02, 0.15]],
+  grayscale: [[0.1, 0.1, 0.1], [0.95, 0.95, 0.95]]
+} satisfies Record<string, RGB[]>;
+
+export type ColorRamp = keyof typeof COLOR_RAMPS;
+
+export interface ValueRange {
+  min: number;
+  max: number;
+}
+
+const isTrait = (colorBy: NumericColorBy): colorBy is keyof OrganismTraits => {
+  return (TRAIT_NAMES as string[]).includes(colorBy);
+};
+
+export const organismValue = (organism: Organism, colorBy: NumericColorBy): number => {
+  return isTrait(colorBy) ? organism.traits[colorBy] : organism[colorBy];
+};
+
+/**
+ * The values a ramp spans: 0-1 for traits, otherwise the population's own range
+ */
+export const valueRange = (organisms: Organism[], colorBy: NumericColorBy): ValueRange => {
+  if (isTrait(colorBy)) return { min: 0, max: 1 };
+
+  let min = Infinity;
+  let max = -Infinity;
+  for (const organism of organisms) {
+    const value = organismValue(organism, colorBy);
+    min = Math.min(min, value);
+    max = Math.max(max, value);
+  }
+  return organisms.length > 0 ? { min, max } : { min: 0, max: 1 };
+};
+
+/**
+ * Interpolate a ramp at t (clamped to 0-1)
+ */
+export const sampleRamp = (ramp: ColorRamp, t: number): RGB => {
+  const stops: RGB[] = COLOR_RAMPS[ramp];
+  const position = Math.max(0, Math.min(1, t)) * (stops.length - 1);
+  const index = Math.min(stops.length - 2, Math.floor(position));
+  const fraction = position - index;
+  const [low, high] = [stops[index], stops[index + 1]];
+  return [0, 1, 2].map(channel => low[channel] + (high[channel] - low[channel]) * fraction) as RGB;
+};
+
+export const cssColor = (color: RGB): string => `rgb(${color.map(channel => Math.round(channel * 255)).join(', ')})`;
+
+/**
+ * A CSS gradient running through a ramp, for legends
+ */
+export const rampGradient = (ramp: ColorRamp): string => {
+  const stops: RGB[] = COLOR_RAMPS[ramp];
+  return `linear-gradient(to right, ${stops.map(cssColor).join(', ')})`;
+};
+
+/**
+ * A function giving each organism's color, or null to keep their appearance
+ */
+export const createColoring = (
+  colorBy: ColorBy,
+  ramp: ColorRamp,
+  range: ValueRange
+): ((organism: Organism) => THREE.Color) | null => {
+  if (colorBy === 'appearance') return null;
+
+  if (colorBy === 'species') {
+    const cache = new Map<number, THREE.Color>();
+    const unclassified = new THREE.Color(0x888888);
+    return organism => {
+      if (organism.speciesId === undefined) return unclassified;
+      let color = cache.get(organism.speciesId);
+      if (!color) {
+        color = new THREE.Color(speciesColor(organism.speciesId));
+        cache.set(organism.speciesId, color);
+      }
+      return color;
+    };
+  }
+
+  const span = range.max - range.min;
+  return organism => {
+    const t = span > 0 ? (organismValue(organism, colorBy) - range.min) / span : 0.5;
+    return new THREE.Color().setRGB(...sampleRamp(ramp, t), THREE.SRGBColorSpace);
+  };
+};
@@ -0,0 +1,103 @@
+import * as THREE from 'three';
+import { EnvironmentFields, FieldName, cellCenter } from '../../simulation/fields';
+
+/**
+ * Three.js objects that visualize an environment field, either as a
+ * translucent volume of points or as a single horizontal slice.
+ */
+
+/**
+ * Normalize values to [0, 1] over their own range so that every field is visible
+ */
+const normalize = (values: number[]): number[] => {
+  let min = Infinity;
+  let max = -Infinity;
+  for (const value of values) {
+    min = Math.min(min, value);
+    max = Math.max(max, value);
+  }
+  const range = max - min;
+  return values.map(value => (range > 0 ? (value - min) / range : 0.5));
+};
+
+/**
+ * Color a normalized value from blue (low) to red (high)
+ */
+const fieldColor = (value: number): THREE.Color => {
+  return new THREE.Color().setHSL((2 / 3) * (1 - value), 0.9, 0.5);
+};
+
+/**
+ * A point per cell; brighter points are higher values. Additive blending
+ * makes low values fade out so the volume stays see-through.
+ */
+export const createFieldVolume = (fields: EnvironmentFields, field: FieldName): THREE.Points => {
+  const normalized = normalize(fields.values[field]);
+  const positions = new Float32Array(normalized.length * 3);
+  const colors = new Float32Array(normalized.length * 3);
+
+  normalized.forEach((value, index) => {
+    const center = cellCenter(fields, index);
+    positions.set([center.x, center.y, center.z], index * 3);
+    const color = fieldColor(value).multiplyScalar(0.2 + 0.8 * value);
+    colors.set([color.r, color.g, color.b], index * 3);
+  });
+
+  const geometry = new THREE.BufferGeometry();
+  geometry.setAttribute('position', new THREE.BufferAttribute(positions, 3));
+  geometry.setAttribute('color', new THREE.BufferAttribute(colors, 3));
+
+  const material = new THREE.PointsMaterial({
+    size: (fields.worldSize / fields.resolution) * 0.6,
+    vertexColors: true,
+    transparent: true,
+    opacity: 0.35,
+    blending: THREE.AdditiveBlending,
+    depthWrite: false
+  });
+
+  return new THREE.Points(geometry, material);
+};
+
+/**
+ * A textured plane through the layer of cells at the given depth (0 bottom, 1 top)
+ */
+export const createFieldSlice = (fields: EnvironmentFields, field: FieldName, slice: number): THREE.Mesh => {
+  const { resolution, worldSize } = fields;
+  const layer = Math.max(0, Math.min(resolution - 1, Math.floor(slice * resolution)));
+  const layerSize = resolution * resolution;
+  const normalized = normalize(fields.values[field]);
+
+  const data = new Uint8Array(layerSize * 4);
+  for (let i = 0; i < layerSize; i++) {
+    const color = fieldColor(normalized[layer * layerSize + i]);
+    data.set([color.r * 255, color.g * 255, color.b * 255, 255], i * 4);
+  }
+
+  const texture = new THREE.DataTexture(data, resolution, resolution, THREE.RGBAFormat);
+  texture.magFilter = THREE.NearestFilter;
+  texture.needsUpdate = true;
+
+  const mesh = new THREE.Mesh(
+    new THREE.PlaneGeometry(worldSize, worldSize),
+    new THREE.MeshBasicMaterial({
+      map: texture,
+      transparent: true,
+      opacity: 0.5,
+      side: THREE.DoubleSide,
+      depthWrite: false
+    })
+  );
+  mesh.position.z = cellCenter(fields, layer * layerSize).z;
+  return mesh;
+};
+
+/**
+ * Release the GPU resources held by an overlay object
+ */
+export const disposeFieldOverlay = (object: THREE.Points | THREE.Mesh): void => {
+  object.geometry.dispose();
+  const material = object.material as THREE.Material & { map?: THREE.Texture | null };
+  material.map?.dispose();
+  material.dispose();
+};
@@ -0,0 +1,48 @@
+import * as THREE from 'three';
+import { Organism } from '../stores/simulationStore';
+import { createInitialOrganism } from '../../simulation/core';
+import { createRng, seedToState } from '../../simulation/random';
+import { createGroundHeatmap, heatmapGrid } from './groundHeatmap';
+
+const rng = createRng(seedToState(3));
+
+const organismAt = (x: number, z: number, predation: number): Organism => ({
+  ...createInitialOrganism({ predation }, rng),
+  position: { x, y: 20, z }
+});
+
+describe('Ground heatmap', () => {
+  const organisms = [organismAt(-40, -40, 0.9), organismAt(-39, -41, 0.8), organismAt(40, 10, 0.1)];
+
+  test('density counts the organisms over each column', () => {
+    const grid = heatmapGrid(organisms, 'density', 100, 4);
+
+    expect(grid[0]).toBe(2);              // x and z both in the first quarter
+    expect(grid[2 * 4 + 3]).toBe(1);      // z in the third quarter, x in the last
+    expect(grid.reduce((sum, value) => sum + value, 0)).toBe(3);
+  });
+
+  test('trait maps sum the trait, so strong clusters stand out', () => {
+    const grid = heatmapGrid(organisms, 'predation', 100, 4);
+
+    expect(grid[0]).toBeCloseTo(1.7);
+    expect(grid[2 * 4 + 3]).toBeCloseTo(0.1);
+  });
+
+  test('organisms outside the world land in the edge columns', () => {
+    const grid = heatmapGrid([organismAt(80, -80, 0.5)], 'density', 100, 4);
+
+    expect(grid[3]).toBe(1);
+  });
+
+  test('the heatmap lies flat over the ground', () => {
+    const mesh = createGroundHeatmap(organisms, 'density', 'heat', 100);
+    mesh.updateMatrixWorld();
+
+    const positions = mesh.geometry.getAttribute('position');
+    const point = mesh.localToWorld(new THREE.Vector3().fromBufferAttribute(positions, 0));
+    expect(Math.abs(point.x)).toBeCloseTo(50);
+    expect(Math.abs(point.z)).toBeCloseTo(50);
+    expect(point.y).toBeLessThan(1);
+  });
+});
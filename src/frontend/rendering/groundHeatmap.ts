@@ -0,0 +1,80 @@
+import * as THREE from 'three';
+import { Organism, OrganismTraits } from '../stores/simulationStore';
+import { ColorRamp, sampleRamp } from './colorBy';
+
+/**
+ * Heatmaps of the population projected onto the ground plane.
+ *
+ * Organisms are binned by their horizontal position into a grid of
+ * columns. A density map counts them; a trait map sums a trait over them,
+ * so a column full of strong predators stands out from one with a few
+ * weak ones. Values are scaled to the busiest column and empty columns are
+ * left transparent.
+ */
+
+export type HeatmapLayer = 'density' | keyof OrganismTraits;
+
+export const HEATMAP_RESOLUTION = 32;
+const HEATMAP_OPACITY = 0.75;
+const GROUND_OFFSET = 0.05; // Above the ground grid so the two don't flicker
+
+/**
+ * Sum the layer over each column, row by row along z
+ */
+export const heatmapGrid = (
+  organisms: Organism[],
+  layer: HeatmapLayer,
+  worldSize: number,
+  resolution: number = HEATMAP_RESOLUTION
+): Float32Array => {
+  const grid = new Float32Array(resolution * resolution);
+  const cell = (value: number): number => {
+    return Math.max(0, Math.min(resolution - 1, Math.floor((value / worldSize + 0.5) * resolution)));
+  };
+
+  for (const organism of organisms) {
+    const weight = layer === 'density' ? 1 : organism.traits[layer];
+    grid[cell(organism.position.z) * resolution + cell(organism.position.x)] += weight;
+  }
+  return grid;
+};
+
+/**
+ * A plane over the ground showing the layer through the given ramp
+ */
+export const createGroundHeatmap = (
+  organisms: Organism[],
+  layer: HeatmapLayer,
+  ramp: ColorRamp,
+  worldSize: number
+): THREE.Mesh => {
+  const grid = heatmapGrid(organisms, layer, worldSize);
+  const peak = grid.reduce((max, value) => Math.max(max, value), 0);
+
+  const data = new Uint8Array(grid.length * 4);
+  grid.forEach((value, index) => {
+    if (value <= 0) return;
+    const [r, g, b] = sampleRamp(ramp, value / peak);
+    data.set([r * 255, g * 255, b * 255, 255], index * 4);
+  });
+
+  const texture = new THREE.DataTexture(data, HEATMAP_RESOLUTION, HEATMAP_RESOLUTION, THREE.RGBAFormat);
+  texture.colorSpace = THREE.SRGBColorSpace;
+  texture.magFilter = THREE.LinearFilter;
+  texture.needsUpdate = true;
+
+  const mesh = new THREE.Mesh(
+    new THREE.PlaneGeometry(worldSize, worldSize),
+    new THREE.MeshBasicMaterial({
+      map: texture,
+      transparent: true,
+      opacity: HEATMAP_OPACITY,
+      side: THREE.DoubleSide,
+      depthWrite: false
+    })
+  );
+  // Texture rows run along z, like the ground grid once it is laid flat
+  mesh.rotation.x = Math.PI / 2;
+  mesh.position.y = GROUND_OFFSET;
+  return mesh;
+};
@@ -0,0 +1,38 @@
+import * as THREE from 'three';
+import { createInitialOrganism } from '../../simulation/core';
+import { createRng, seedToState } from '../../simulation/random';
+import { createOrganismInstances } from './organismInstances';
+
+/**
+ * CPU cost of the instanced renderer per frame. Excluded from `npm test`;
+ * run with `npm run bench`.
+ */
+
+describe('Renderer Benchmarks', () => {
+  test('placing 10000 organism instances per frame', () => {
+    const rng = createRng(seedToState(1));
+    const organisms = Array.from({ length: 10000 }, () => createInitialOrganism({}, rng));
+    const scene = new THREE.Scene();
+    const instances = createOrganismInstances(scene);
+    const camera = new THREE.PerspectiveCamera(75, 1, 0.1, 1000);
+    camera.position.set(0, 0, 50);
+
+    let start = performance.now();
+    instances.sync(organisms);
+    instances.sync(organisms.slice(500).map(organism => ({ ...organism })));
+    const syncMs = (performance.now() - start) / 2;
+
+    const frames = 60;
+    start = performance.now();
+    for (let frame = 0; frame < frames; frame++) {
+      instances.update(camera, frame / frames);
+    }
+    const frameMs = (performance.now() - start) / frames;
+
+    console.log(`10000 organisms: sync ${syncMs.toFixed(1)}ms, ${frameMs.toFixed(2)}ms per frame`);
+
+    // Leave most of a 60fps frame for the GPU and everything else
+    expect(frameMs).toBeLessThan(8);
+    instances.dispose();
+  });
+});
@@ -0,0 +1,114 @@
+import * as THREE from 'three';
+import { InitialOrganismSettings, Organism } from '../stores/simulationStore';
+import { createInitialOrganism } from '../../simulation/core';
+import { createRng, seedToState } from '../../simulation/random';
+import { LOD_DISTANCE, createOrganismInstances } from './organismInstances';
+
+const rng = createRng(seedToState(1));
+
+const organismAt = (x: number, settings: InitialOrganismSettings = {}): Organism => {
+  const position = { x, y: 0, z: 0 };
+  return { ...createInitialOrganism(settings, rng), position, previousPosition: position, targetPosition: position };
+};
+
+const camera = (): THREE.PerspectiveCamera => {
+  const result = new THREE.PerspectiveCamera(75, 1, 0.1, 1000);
+  result.position.set(0, 0, 20);
+  result.lookAt(0, 0, 0);
+  result.updateMatrixWorld();
+  return result;
+};
+
+const instancedMeshes = (scene: THREE.Scene): THREE.InstancedMesh[] => {
+  return scene.children.filter((child): child is THREE.InstancedMesh => child instanceof THREE.InstancedMesh);
+};
+
+describe('Organism instances', () => {
+  test('removals keep every id mapped to its own organism', () => {
+    const scene = new THREE.Scene();
+    const instances = createOrganismInstances(scene, 4);
+    const organisms = [0, 1, 2, 3, 4, 5].map(x => organismAt(x * 3));
+
+    instances.sync(organisms);
+    instances.sync([organisms[5], organisms[1], organisms[3]]);
+    instances.update(camera(), 0);
+
+    expect(instances.count()).toBe(3);
+    expect(instances.positionOf(organisms[0].id)).toBeNull();
+    [1, 3, 5].forEach(i => expect(instances.positionOf(organisms[i].id)?.x).toBe(i * 3));
+  });
+
+  test('distant organisms are drawn as impostors', () => {
+    const scene = new THREE.Scene();
+    const instances = createOrganismInstances(scene);
+    instances.sync([organismAt(0), organismAt(LOD_DISTANCE * 2), organismAt(-LOD_DISTANCE * 2)]);
+
+    instances.update(camera(), 0);
+
+    const [near, far] = instancedMeshes(scene);
+    expect(near.count).toBe(1);
+    expect(far.count).toBe(2);
+  });
+
+  test('positions move towards their targets and stop when finished', () => {
+    const scene = new THREE.Scene();
+    const instances = createOrganismInstances(scene);
+    const organism = { ...organismAt(0), targetPosition: { x: 10, y: 0, z: 0 } };
+    instances.sync([organism]);
+
+    instances.update(camera(), 0.5);
+    expect(instances.positionOf(organism.id)?.x).toBe(5);
+    instances.update(camera(), 1);
+    expect(instances.positionOf(organism.id)?.x).toBe(10);
+  });
+
+  test('picking finds the organism under the cursor', () => {
+    const scene = new THREE.Scene();
+    const instances = createOrganismInstances(scene, 2);
+    const organisms = [organismAt(-6), organismAt(0), organismAt(6), organismAt(12)];
+    instances.sync(organisms);
+    instances.update(camera(), 0);
+
+    const raycaster = new THREE.Raycaster();
+    const view = camera();
+    raycaster.setFromCamera(new THREE.Vector2(0, 0), view);
+    expect(instances.pick(raycaster)).toBe(organisms[1].id);
+
+    raycaster.set(new THREE.Vector3(12, 0, 20), new THREE.Vector3(0, 0, -1));
+    expect(instances.pick(raycaster)).toBe(organisms[3].id);
+
+    raycaster.set(new THREE.Vector3(3, 30, 20), new THREE.Vector3(0, 0, -1));
+    expect(instances.pick(raycaster)).toBeNull();
+  });
+
+  test('growing past capacity replaces the meshes and dispose removes them', () => {
+    const scene = new THREE.Scene();
+    const instances = createOrganismInstances(scene, 2);
+    const [before] = instancedMeshes(scene);
+
+    instances.sync([0, 1, 2, 3, 4].map(x => organismAt(x)));
+    instances.update(camera(), 0);
+    const [after] = instancedMeshes(scene);
+    expect(after).not.toBe(before);
+    expect(after.count).toBe(5);
+
+    instances.dispose();
+    expect(instancedMeshes(scene)).toHaveLength(0);
+  });
+
+  test('near organisms get the parts their traits call for', () => {
+    const scene = new THREE.Scene();
+    const instances = createOrganismInstances(scene);
+    instances.sync([
+      organismAt(0, { defense: 0.9, motility: 0.8, sensory: 0.9 }), // Spikes, tail and eyes
+      organismAt(4, { defense: 0.9, motility: 0 }),                 // Shell
+      organismAt(-4),                                               // Plain
+      organismAt(LOD_DISTANCE * 2, { defense: 0.9, sensory: 0.9 })  // Too far for parts
+    ]);
+
+    instances.update(camera(), 0);
+
+    const [, , spikes, shell, tail, eyes] = instancedMeshes(scene);
+    expect([spikes.count, shell.count, tail.count, eyes.count]).toEqual([1, 1, 1, 2]);
+  });
+});
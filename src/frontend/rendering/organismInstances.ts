@@ -0,0 +1,417 @@
+import * as THREE from 'three';
+import { Organism } from '../stores/simulationStore';
+import { Appearance, organismAppearance } from './appearance';
+
+/**
+ * Instanced organism rendering.
+ *
+ * Every organism is an instance of one of two shared body meshes: a lit
+ * sphere for organisms near the camera and an unlit icosahedron impostor
+ * for the rest, so the population costs a fixed number of draw calls
+ * however large it is. Near organisms also get the parts of their
+ * procedural appearance (spikes, shell, tail and eyes), each part an
+ * instanced mesh of its own. Organisms live in dense arrays indexed through
+ * an id→index map; each frame the instances are rebuilt from those arrays,
+ * with the instance ids of the body meshes mapped back to organism ids for
+ * picking.
+ */
+
+export const INITIAL_CAPACITY = 1024;
+export const LOD_DISTANCE = 60; // Organisms farther than this from the camera are drawn as impostors
+
+const SPHERE_SEGMENTS = 16;
+const SPHERE_RINGS = 12;
+const PART_SHADE = 0.6;           // Spikes and shells are a darker shade of the body
+const EYE_COLOR = 0xf5f5f5;
+const EYE_OFFSETS = [new THREE.Vector3(-0.4, 0.35, 0.85), new THREE.Vector3(0.4, 0.35, 0.85)];
+const FORWARD = new THREE.Vector3(0, 0, 1); // Organisms face +z in their own frame
+
+export type Coloring = (organism: Organism) => THREE.Color;
+
+export interface OrganismInstances {
+  // Colored by their appearance unless a coloring is given
+  sync: (organisms: Organism[], coloring?: Coloring | null) => void;
+  // Place every instance, moving organisms a fraction of the way to their
+  // targets; time, in seconds, drives the pulsing
+  update: (camera: THREE.Camera, interpolation: number, time?: number) => void;
+  pick: (raycaster: THREE.Raycaster) => string | null;
+  positionOf: (id: string) => THREE.Vector3 | null;
+  count: () => number;
+  dispose: () => void;
+}
+
+interface BodyMesh {
+  mesh: THREE.InstancedMesh;
+  indices: Int32Array; // Organism index of every instance drawn this frame
+}
+
+interface PartMeshes {
+  spikes: THREE.InstancedMesh;
+  shell: THREE.InstancedMesh;
+  tail: THREE.InstancedMesh;
+  eyes: THREE.InstancedMesh; // Two instances per organism
+}
+
+const createInstancedMesh = (
+  geometry: THREE.BufferGeometry,
+  material: THREE.Material,
+  capacity: number,
+  colored: boolean
+): THREE.InstancedMesh => {
+  const mesh = new THREE.InstancedMesh(geometry, material, capacity);
+  mesh.instanceMatrix.setUsage(THREE.DynamicDrawUsage);
+  if (colored) {
+    mesh.instanceColor = new THREE.InstancedBufferAttribute(new Float32Array(capacity * 3), 3);
+    mesh.instanceColor.setUsage(THREE.DynamicDrawUsage);
+  }
+  // Instances spread over the whole world, so the geometry's bounds say nothing
+  mesh.frustumCulled = false;
+  mesh.count = 0;
+  return mesh;
+};
+
+/**
+ * Join geometries into one, so a part made of several pieces is still a single instance
+ */
+const mergeGeometries = (geometries: THREE.BufferGeometry[]): THREE.BufferGeometry => {
+  const pieces = geometries.map(geometry => geometry.toNonIndexed());
+  const merged = new THREE.BufferGeometry();
+  for (const name of ['position', 'normal']) {
+    const arrays = pieces.map(piece => piece.getAttribute(name).array as Float32Array);
+    const combined = new Float32Array(arrays.reduce((length, array) => length + array.length, 0));
+    let offset = 0;
+    for (const array of arrays) {
+      combined.set(array, offset);
+      offset += array.length;
+    }
+    merged.setAttribute(name, new THREE.BufferAttribute(combined, 3));
+  }
+  [...geometries, ...pieces].forEach(geometry => geometry.dispose());
+  return merged;
+};
+
+/**
+ * Cones pointing out of a unit sphere along the vertices of an icosahedron
+ */
+const createSpikeGeometry = (): THREE.BufferGeometry => {
+  const icosahedron = new THREE.IcosahedronGeometry(1, 0);
+  const position = icosahedron.getAttribute('position');
+  const directions: THREE.Vector3[] = [];
+  for (let i = 0; i < position.count; i++) {
+    const direction = new THREE.Vector3().fromBufferAttribute(position, i).normalize();
+    if (!directions.some(existing => existing.distanceToSquared(direction) < 1e-6)) {
+      directions.push(direction);
+    }
+  }
+  icosahedron.dispose();
+
+  return mergeGeometries(directions.map(direction => {
+    const cone = new THREE.ConeGeometry(0.18, 0.7, 5);
+    cone.translate(0, 1.15, 0); // Base just inside the body, tip well outside
+    cone.applyQuaternion(new THREE.Quaternion().setFromUnitVectors(new THREE.Vector3(0, 1, 0), direction));
+    return cone;
+  }));
+};
+
+// A dome over the top half of the body
+const createShellGeometry = (): THREE.BufferGeometry => {
+  return new THREE.SphereGeometry(1, 10, 5, 0, Math.PI * 2, 0, Math.PI / 2);
+};
+
+// A cone with its base at the origin, tapering to a point at z = -1
+const createTailGeometry = (): THREE.BufferGeometry => {
+  const tail = new THREE.ConeGeometry(0.3, 1, 6);
+  tail.rotateX(-Math.PI / 2);
+  tail.translate(0, 0, -0.5);
+  return tail;
+};
+
+/**
+ * Create the instanced meshes and add them to the scene
+ */
+export const createOrganismInstances = (scene: THREE.Scene, initialCapacity = INITIAL_CAPACITY): OrganismInstances => {
+  const geometries = {
+    sphere: new THREE.SphereGeometry(1, SPHERE_SEGMENTS, SPHERE_RINGS),
+    impostor: new THREE.IcosahedronGeometry(1, 0),
+    spikes: createSpikeGeometry(),
+    shell: createShellGeometry(),
+    tail: createTailGeometry(),
+    eye: new THREE.SphereGeometry(1, 8, 6)
+  };
+  const materials = {
+    body: new THREE.MeshStandardMaterial(),
+    impostor: new THREE.MeshBasicMaterial(),
+    part: new THREE.MeshStandardMaterial({ flatShading: true }),
+    eye: new THREE.MeshStandardMaterial({ color: EYE_COLOR })
+  };
+
+  let capacity = initialCapacity;
+  let near: BodyMesh;
+  let far: BodyMesh;
+  let parts: PartMeshes;
+
+  const allMeshes = (): THREE.InstancedMesh[] => [near.mesh, far.mesh, parts.spikes, parts.shell, parts.tail, parts.eyes];
+
+  const createMeshes = (): void => {
+    near = { mesh: createInstancedMesh(geometries.sphere, materials.body, capacity, true), indices: new Int32Array(capacity) };
+    far = { mesh: createInstancedMesh(geometries.impostor, materials.impostor, capacity, true), indices: new Int32Array(capacity) };
+    near.mesh.userData = { type: 'organism' };
+    far.mesh.userData = { type: 'organism' };
+    parts = {
+      spikes: createInstancedMesh(geometries.spikes, materials.part, capacity, true),
+      shell: createInstancedMesh(geometries.shell, materials.part, capacity, true),
+      tail: createInstancedMesh(geometries.tail, materials.body, capacity, true),
+      eyes: createInstancedMesh(geometries.eye, materials.eye, capacity * 2, false)
+    };
+    scene.add(...allMeshes());
+  };
+
+  // Instanced buffers can't be resized in place; the shared geometries and materials survive
+  const disposeMeshes = (): void => {
+    const meshes = allMeshes();
+    scene.remove(...meshes);
+    meshes.forEach(mesh => mesh.dispose());
+  };
+
+  createMeshes();
+
+  // Dense per-organism arrays; removals move the last organism into the gap
+  let organisms: Organism[] = [];
+  let appearances: Appearance[] = [];
+  const indexById = new Map<string, number>();
+  let colors = new Float32Array(capacity * 3);
+  let positions = new Float32Array(capacity * 3); // Where each organism was drawn last frame
+  let headings = new Float32Array(capacity * 3);  // Last direction each organism moved in
+  let phases = new Float32Array(capacity);        // Offsets that keep organisms from pulsing in step
+
+  const grow = (needed: number): void => {
+    while (capacity < needed) capacity *= 2;
+
+    const resize = (array: Float32Array, size: number) => {
+      const grown = new Float32Array(capacity * size);
+      grown.set(array);
+      return grown;
+    };
+    colors = resize(colors, 3);
+    positions = resize(positions, 3);
+    headings = resize(headings, 3);
+    phases = resize(phases, 1);
+
+    disposeMeshes();
+    createMeshes();
+  };
+
+  let coloring: Coloring | null = null;
+  const appearanceColor = new THREE.Color();
+
+  const setColor = (index: number): void => {
+    const color = coloring ?
+      coloring(organisms[index]) :
+      appearanceColor.setRGB(...appearances[index].color, THREE.SRGBColorSpace);
+    colors[index * 3] = color.r;
+    colors[index * 3 + 1] = color.g;
+    colors[index * 3 + 2] = color.b;
+  };
+
+  const setAppearance = (index: number, organism: Organism): void => {
+    appearances[index] = organismAppearance(organism.traits);
+    if (!coloring) setColor(index);
+  };
+
+  const moveIndex = (from: number, to: number): void => {
+    organisms[to] = organisms[from];
+    appearances[to] = appearances[from];
+    indexById.set(organisms[to].id, to);
+    colors.copyWithin(to * 3, from * 3, from * 3 + 3);
+    positions.copyWithin(to * 3, from * 3, from * 3 + 3);
+    headings.copyWithin(to * 3, from * 3, from * 3 + 3);
+    phases[to] = phases[from];
+  };
+
+  const sync = (next: Organism[], nextColoring: Coloring | null = null): void => {
+    const present = new Set<string>();
+    for (const organism of next) present.add(organism.id);
+
+    // Remove organisms that are gone
+    for (let index = organisms.length - 1; index >= 0; index--) {
+      const id = organisms[index].id;
+      if (present.has(id)) continue;
+      const last = organisms.length - 1;
+      if (index !== last) moveIndex(last, index);
+      organisms.pop();
+      appearances.pop();
+      indexById.delete(id);
+    }
+
+    if (next.length > capacity) grow(next.length);
+
+    // Update survivors and append newcomers
+    for (const organism of next) {
+      const index = indexById.get(organism.id);
+      if (index !== undefined) {
+        // Traits can be edited during an organism's life
+        if (organisms[index].traits !== organism.traits) setAppearance(index, organism);
+        organisms[index] = organism;
+      } else {
+        const added = organisms.length;
+        organisms.push(organism);
+        indexById.set(organism.id, added);
+        setAppearance(added, organism);
+        positions.set([organism.position.x, organism.position.y, organism.position.z], added * 3);
+        headings.set([0, 0, 1], added * 3);
+        phases[added] = Math.random() * Math.PI * 2;
+      }
+    }
+
+    // Colors by data change along with the organisms
+    if (nextColoring || coloring) {
+      coloring = nextColoring;
+      for (let index = 0; index < organisms.length; index++) setColor(index);
+    }
+  };
+
+  // Scratch objects for composing part matrices
+  const matrix = new THREE.Matrix4();
+  const center = new THREE.Vector3();
+  const heading = new THREE.Vector3();
+  const orientation = new THREE.Quaternion();
+  const partPosition = new THREE.Vector3();
+  const partScale = new THREE.Vector3();
+
+  const setBodyInstance = (body: BodyMesh, slot: number, index: number, x: number, y: number, z: number, s: number): void => {
+    const matrices = body.mesh.instanceMatrix.array as Float32Array;
+    const instanceColors = body.mesh.instanceColor!.array as Float32Array;
+    body.indices[slot] = index;
+
+    // Uniform scale by size, then translate
+    const m = slot * 16;
+    matrices[m] = s; matrices[m + 1] = 0; matrices[m + 2] = 0; matrices[m + 3] = 0;
+    matrices[m + 4] = 0; matrices[m + 5] = s; matrices[m + 6] = 0; matrices[m + 7] = 0;
+    matrices[m + 8] = 0; matrices[m + 9] = 0; matrices[m + 10] = s; matrices[m + 11] = 0;
+    matrices[m + 12] = x; matrices[m + 13] = y; matrices[m + 14] = z; matrices[m + 15] = 1;
+
+    instanceColors[slot * 3] = colors[index * 3];
+    instanceColors[slot * 3 + 1] = colors[index * 3 + 1];
+    instanceColors[slot * 3 + 2] = colors[index * 3 + 2];
+  };
+
+  const setPartColor = (mesh: THREE.InstancedMesh, slot: number, index: number, shade: number): void => {
+    const instanceColors = mesh.instanceColor!.array as Float32Array;
+    instanceColors[slot * 3] = colors[index * 3] * shade;
+    instanceColors[slot * 3 + 1] = colors[index * 3 + 1] * shade;
+    instanceColors[slot * 3 + 2] = colors[index * 3 + 2] * shade;
+  };
+
+  const update = (camera: THREE.Camera, interpolation: number, time = 0): void => {
+    const cameraPosition = camera.position;
+    const lodDistanceSquared = LOD_DISTANCE * LOD_DISTANCE;
+    let nearCount = 0;
+    let farCount = 0;
+    let spikeCount = 0;
+    let shellCount = 0;
+    let tailCount = 0;
+    let eyeCount = 0;
+
+    for (let index = 0; index < organisms.length; index++) {
+      const organism = organisms[index];
+      const appearance = appearances[index];
+      const { position, targetPosition } = organism;
+      // Player-controlled organisms are placed directly, without interpolation
+      const t = organism.isPlayerControlled ? 0 : interpolation;
+      const x = position.x + (targetPosition.x - position.x) * t;
+      const y = position.y + (targetPosition.y - position.y) * t;
+      const z = position.z + (targetPosition.z - position.z) * t;
+      positions[index * 3] = x;
+      positions[index * 3 + 1] = y;
+      positions[index * 3 + 2] = z;
+
+      const size = organism.size * (1 + appearance.pulseAmount * Math.sin(time * appearance.pulseRate + phases[index]));
+      const dx = x - cameraPosition.x;
+      const dy = y - cameraPosition.y;
+      const dz = z - cameraPosition.z;
+      if (dx * dx + dy * dy + dz * dz >= lodDistanceSquared) {
+        setBodyInstance(far, farCount++, index, x, y, z, size);
+        continue;
+      }
+      setBodyInstance(near, nearCount++, index, x, y, z, size);
+
+      // Face the way the organism is moving, or kept facing when it stops
+      heading.set(targetPosition.x - position.x, targetPosition.y - position.y, targetPosition.z - position.z);
+      if (heading.lengthSq() > 1e-8) {
+        heading.normalize();
+        headings[index * 3] = heading.x;
+        headings[index * 3 + 1] = heading.y;
+        headings[index * 3 + 2] = heading.z;
+      } else {
+        heading.fromArray(headings, index * 3);
+      }
+      orientation.setFromUnitVectors(FORWARD, heading);
+      center.set(x, y, z);
+
+      if (appearance.defense === 'spikes') {
+        partScale.setScalar(size * (0.7 + 0.5 * appearance.defenseScale));
+        parts.spikes.setMatrixAt(spikeCount, matrix.compose(center, orientation, partScale));
+        setPartColor(parts.spikes, spikeCount++, index, PART_SHADE);
+      } else if (appearance.defense === 'shell') {
+        partScale.setScalar(size * (1.05 + 0.15 * appearance.defenseScale));
+        parts.shell.setMatrixAt(shellCount, matrix.compose(center, orientation, partScale));
+        setPartColor(parts.shell, shellCount++, index, PART_SHADE);
+      }
+
+      if (appearance.tailLength > 0) {
+        partPosition.copy(heading).multiplyScalar(-size * 0.9).add(center);
+        partScale.set(size, size, size * appearance.tailLength);
+        parts.tail.setMatrixAt(tailCount, matrix.compose(partPosition, orientation, partScale));
+        setPartColor(parts.tail, tailCount++, index, 1);
+      }
+
+      if (appearance.eyeSize > 0) {
+        partScale.setScalar(size * appearance.eyeSize);
+        for (const offset of EYE_OFFSETS) {
+          partPosition.copy(offset).applyQuaternion(orientation).multiplyScalar(size).add(center);
+          parts.eyes.setMatrixAt(eyeCount++, matrix.compose(partPosition, orientation, partScale));
+        }
+      }
+    }
+
+    const counts: [THREE.InstancedMesh, number][] = [
+      [near.mesh, nearCount],
+      [far.mesh, farCount],
+      [parts.spikes, spikeCount],
+      [parts.shell, shellCount],
+      [parts.tail, tailCount],
+      [parts.eyes, eyeCount]
+    ];
+    for (const [mesh, count] of counts) {
+      mesh.count = count;
+      mesh.instanceMatrix.needsUpdate = true;
+      if (mesh.instanceColor) mesh.instanceColor.needsUpdate = true;
+      // Raycasting tests against the instance bounds, which move every frame
+      mesh.boundingSphere = null;
+    }
+  };
+
+  const pick = (raycaster: THREE.Raycaster): string | null => {
+    const [hit] = raycaster.intersectObjects([near.mesh, far.mesh], false);
+    if (!hit || hit.instanceId === undefined) return null;
+    const body = hit.object === near.mesh ? near : far;
+    return organisms[body.indices[hit.instanceId]]?.id ?? null;
+  };
+
+  const positionOf = (id: string): THREE.Vector3 | null => {
+    const index = indexById.get(id);
+    if (index === undefined) return null;
+    return new THREE.Vector3().fromArray(positions, index * 3);
+  };
+
+  const dispose = (): void => {
+    disposeMeshes();
+    Object.values(geometries).forEach(geometry => geometry.dispose());
+    Object.values(materials).forEach(material => material.dispose());
+    organisms = [];
+    appearances = [];
+    indexById.clear();
+  };
+
+  return { sync, update, pick, positionOf, count: () => organisms.length, dispose };
+};
@@ -0,0 +1,76 @@
+import { createEngineHost } from '../../simulation/engine';
+import { EngineCommand, EngineEvent, EngineState } from '../../simulation/protocol';
+import { LineageRegistry } from '../../simulation/lineage';
+import { InterventionRecord } from '../../simulation/interventions';
+
+/**
+ * Main-thread handle on the simulation engine.
+ *
+ * Runs the engine in a dedicated Web Worker, falling back to an in-thread
+ * host when workers aren't available. Either way the store talks to it
+ * through the same typed protocol.
+ */
+
+export interface EngineClient {
+  send: (command: EngineCommand) => void;
+  requestSnapshot: () => Promise<EngineState>;
+  requestLineage: () => Promise<LineageRegistry>;
+  requestInterventionLog: () => Promise<InterventionRecord[]>;
+}
+
+export const createEngineClient = (onEvent: (event: EngineEvent) => void): EngineClient => {
+  let nextRequestId = 1;
+  const pendingRequests = new Map<number, { resolve: (value: any) => void, reject: (error: Error) => void }>();
+
+  const receive = (event: EngineEvent): void => {
+    if (event.type === 'snapshot' || event.type === 'lineage' || event.type === 'interventionLog' ||
+        (event.type === 'error' && event.requestId !== undefined)) {
+      const pending = pendingRequests.get(event.requestId as number);
+      if (pending) {
+        pendingRequests.delete(event.requestId as number);
+        if (event.type === 'snapshot') {
+          pending.resolve(event.state);
+        } else if (event.type === 'lineage') {
+          pending.resolve(event.lineage);
+        } else if (event.type === 'interventionLog') {
+          pending.resolve(event.log);
+        } else {
+          pending.reject(new Error(event.message));
+        }
+        return;
+      }
+    }
+    onEvent(event);
+  };
+
+  let send: (command: EngineCommand) => void;
+
+  if (typeof Worker !== 'undefined') {
+    const worker = new Worker(new URL('../../simulation/worker.ts', import.meta.url));
+    worker.onmessage = (event: MessageEvent<EngineEvent>) => receive(event.data);
+    worker.onerror = (event: ErrorEvent) => {
+      console.error('Simulation worker error:', event.message);
+    };
+    send = command => worker.postMessage(command);
+  } else {
+    console.warn('Web Workers are unavailable, running the simulation engine on the main thread');
+    const host = createEngineHost(receive);
+    // Stay asynchronous like postMessage so callers see the same ordering
+    send = command => setTimeout(() => host.handle(command), 0);
+  }
+
+  const request = <T>(type: 'snapshot' | 'lineage' | 'interventionLog'): Promise<T> => {
+    const requestId = nextRequestId++;
+    return new Promise((resolve, reject) => {
+      pendingRequests.set(requestId, { resolve, reject });
+      send({ type, requestId });
+    });
+  };
+
+  return {
+    send,
+    requestSnapshot: () => request<EngineState>('snapshot'),
+    requestLineage: () => request<LineageRegistry>('lineage'),
+    requestInterventionLog: () => request<InterventionRecord[]>('interventionLog')
+  };
+};
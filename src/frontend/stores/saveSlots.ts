@@ -0,0 +1,85 @@
+import { SimulationSnapshot, serializeSnapshot, deserializeSnapshot } from '../../simulation/snapshot';
+
+/**
+ * Named save slots backed by localStorage.
+ *
+ * Each slot is stored under its own key so that one oversized or corrupt
+ * save can't take the others down with it. Slots are validated on load, not
+ * on listing, so that the list stays cheap to build.
+ */
+
+const SLOT_PREFIX = 'vibelife:save:';
+
+export interface SaveSlotInfo {
+  name: string;
+  savedAt: string;
+  currentGeneration: number;
+  organismCount: number;
+}
+
+const getStorage = (): Storage | null => {
+  try {
+    return typeof window !== 'undefined' ? window.localStorage : null;
+  } catch (error) {
+    // Access to localStorage can throw when storage is disabled
+    return null;
+  }
+};
+
+/**
+ * List all save slots, most recent first
+ */
+export const listSaveSlots = (): SaveSlotInfo[] => {
+  const storage = getStorage();
+  if (!storage) return [];
+
+  const slots: SaveSlotInfo[] = [];
+  for (let i = 0; i < storage.length; i++) {
+    const key = storage.key(i);
+    if (!key || !key.startsWith(SLOT_PREFIX)) continue;
+
+    try {
+      const snapshot = JSON.parse(storage.getItem(key) as string);
+      slots.push({
+        name: key.substring(SLOT_PREFIX.length),
+        savedAt: String(snapshot.savedAt),
+        currentGeneration: Number(snapshot.currentGeneration),
+        organismCount: Array.isArray(snapshot.organisms) ? snapshot.organisms.length : 0
+      });
+    } catch (error) {
+      console.warn(`Ignoring unreadable save slot "${key}"`);
+    }
+  }
+
+  return slots.sort((a, b) => b.savedAt.localeCompare(a.savedAt));
+};
+
+/**
+ * Write a snapshot to the named slot, replacing any existing save
+ */
+export const writeSaveSlot = (name: string, snapshot: SimulationSnapshot): void => {
+  const storage = getStorage();
+  if (!storage) {
+    throw new Error('Browser storage is not available');
+  }
+  storage.setItem(SLOT_PREFIX + name, serializeSnapshot(snapshot));
+};
+
+/**
+ * Read, migrate and validate the snapshot in the named slot
+ */
+export const readSaveSlot = (name: string): SimulationSnapshot => {
+  const storage = getStorage();
+  const json = storage?.getItem(SLOT_PREFIX + name);
+  if (!json) {
+    throw new Error(`Save slot "${name}" does not exist`);
+  }
+  return deserializeSnapshot(json);
+};
+
+/**
+ * Remove the named slot
+ */
+export const deleteSaveSlot = (name: string): void => {
+  getStorage()?.removeItem(SLOT_PREFIX + name);
+};
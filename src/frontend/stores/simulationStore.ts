@@ -1,5 +1,34 @@
 import { create } from 'zustand';
-import { simulateGeneration, fastForward, createInitialOrganism, createInitialPopulation } from '../../simulation/core';
+import { createInitialPopulation, DEFAULT_ENVIRONMENT } from '../../simulation/core';
+import { createRng, seedToState, randomSeed } from '../../simulation/random';
+import { SimulationSnapshot, createSnapshot, loadSnapshot } from '../../simulation/snapshot';
+import { EngineDiff, EngineEvent } from '../../simulation/protocol';
+import { LineageRegistry, createLineage } from '../../simulation/lineage';
+import { EnvironmentFields, createEnvironmentFields } from '../../simulation/fields';
+import { WorldPresetName, generateWorld } from '../../simulation/biomes';
+import { GenerationStats, RingBuffer, createRingBuffer, DEFAULT_ANALYTICS_CAPACITY } from '../../simulation/analytics';
+import { SaveSlotInfo, listSaveSlots, writeSaveSlot, readSaveSlot, deleteSaveSlot } from './saveSlots';
+import { createEngineClient } from './engineClient';
+import { Timeline } from '../../simulation/history';
+import { SpeciesRegistry, createSpeciesRegistry, updateSpecies } from '../../simulation/species';
+import { Intervention, InterventionRecord, OrganismDesign, TraitFilter } from '../../simulation/interventions';
+import { CatastropheKind, ClimateState } from '../../simulation/climate';
+import {
+  ScenarioDefinition,
+  ScenarioIntervention,
+  ScenarioProgress,
+  createScenarioProgress,
+  createScenarioState,
+  evaluateScenario,
+  isInterventionAllowed
+} from '../../simulation/scenarios';
+import {
+  DEFAULT_SIMULATION_CONFIG,
+  SimulationConfig,
+  SimulationConfigChanges,
+  resolveSimulationConfig,
+  validateConfigChanges
+} from '../../simulation/config';
 
 export interface Position {
   x: number;
@@ -15,6 +44,18 @@ export interface OrganismTraits {
   sensory: number;
   reproduction: number;
   metabolism: number;
+  mating: number; // Chance of seeking a partner instead of reproducing asexually
+  temperatureTolerance: number; // Widens the range of temperatures lived in without stress
+}
+
+/**
+ * Lifetime behavior counters that bias mutations in offspring
+ */
+export interface BehaviorCounters {
+  predationSuccesses: number;
+  photosynthesisTicks: number; // Generations in which photosynthesis produced energy
+  defensesSurvived: number;
+  distanceMoved: number;
 }
 
 export interface Organism {
@@ -28,10 +69,34 @@ export interface Organism {
   age: number;
   generation: number;
   parentId?: string;
+  parentIds?: [string, string]; // Both parents of sexually produced offspring; parentId is the first
   actions: string[];
+  behavior: BehaviorCounters;
+  brain?: Brain; // Organisms without one act on their traits alone
+  speciesId?: number; // Assigned at birth by species clustering
   isPlayerControlled?: boolean; // Flag to indicate if this organism is being controlled by the player
 }
 
+/**
+ * Feed-forward neural network that decides what an organism does
+ */
+export interface Brain {
+  layerSizes: number[]; // Neurons per layer, inputs first
+  weights: number[][];  // Per layer after the inputs, row-major by neuron
+  biases: number[][];
+}
+
+/**
+ * The remains of a dead organism, which scavengers eat and which decay over time
+ */
+export interface Carcass {
+  id: string;       // Id of the organism that died
+  position: Position;
+  size: number;
+  energy: number;   // Energy left to eat or decay
+  diedAt: number;   // Generation of death
+}
+
 export interface InitialOrganismSettings {
   motility?: number;
   photosynthesis?: number;
@@ -40,193 +105,444 @@ export interface InitialOrganismSettings {
   sensory?: number;
   reproduction?: number;
   metabolism?: number;
+  mating?: number;
+  temperatureTolerance?: number;
   size?: number;
+  brainShare?: number; // Share of the initial population born with a brain
+}
+
+export interface Environment {
+  fields?: EnvironmentFields; // Per-cell values; created from the global values when missing
+  climate?: ClimateState;     // Seasons, drift and catastrophes; a calm climate when missing
+  temperature: number;
+  lightLevel: number;
+  moisture: number;
+  resources: {
+    organic: number;
+    minerals: number;
+    light: number;
+  };
+}
+
+export interface FastForwardProgress {
+  completed: number;
+  total: number;
+}
+
+export interface ActiveScenario {
+  definition: ScenarioDefinition;
+  progress: ScenarioProgress;
 }
 
 interface SimulationState {
   organisms: Organism[];
+  carcasses: Carcass[];
   isRunning: boolean;
   simulationSpeed: number;
   currentGeneration: number;
-  environment: {
-    temperature: number;
-    lightLevel: number;
-    moisture: number;
-    resources: {
-      organic: number;
-      minerals: number;
-      light: number;
-    }
-  };
-  simulationInterval: number | null;
+  seed: number;      // Seed the current run was started from
+  rngState: number;  // PRNG state carried between generations
+  environment: Environment;
+  config: SimulationConfig; // Parameters of the running simulation
+  species: SpeciesRegistry;
+  fastForwardProgress: FastForwardProgress | null; // Set while a fast-forward is in flight
+  timeline: Timeline; // Generations that can be rewound or replayed to
   playerControlledOrganism: string | null; // ID of the organism being controlled
+  scenario: ActiveScenario | null; // Challenge being played, if any
+  saveSlots: SaveSlotInfo[];
+  // Per-generation statistics. The buffer is mutated in place, so components
+  // subscribe to analyticsVersion to find out when it changed.
+  analytics: RingBuffer<GenerationStats>;
+  analyticsVersion: number;
   
   // Actions
   startSimulation: () => void;
   pauseSimulation: () => void;
+  stepSimulation: () => void;
   setSimulationSpeed: (speed: number) => void;
   fastForward: (generations: number) => void;
-  startNewSimulation: (initialTraits: InitialOrganismSettings, initialPopulationCount?: number) => void;
+  cancelFastForward: () => void;
+  seekGeneration: (generation: number) => void;
+  branchFromHere: (seed?: number) => void;
+  setConfig: (changes: SimulationConfigChanges) => void;
+  resetConfig: () => void;
+  startNewSimulation: (
+    initialTraits: InitialOrganismSettings,
+    initialPopulationCount?: number,
+    seed?: number,
+    worldPreset?: WorldPresetName
+  ) => void;
+  startScenario: (definition: ScenarioDefinition, seed?: number) => void;
+  abandonScenario: () => void;
+  
+  // Persistence actions
+  exportSnapshot: () => Promise<SimulationSnapshot>;
+  importSnapshot: (data: unknown) => void;
+  fetchLineage: () => Promise<LineageRegistry>;
+  fetchInterventionLog: () => Promise<InterventionRecord[]>;
+  saveToSlot: (name: string) => Promise<void>;
+  loadFromSlot: (name: string) => void;
+  deleteSlot: (name: string) => void;
   
   // Player control actions
   takeControlOfOrganism: (organismId: string) => void;
   releaseControlOfOrganism: () => void;
   movePlayerOrganism: (direction: { x: number, y: number, z: number }) => void;
+  
+  // Intervention actions
+  cloneOrganism: (organismId: string) => void;
+  killOrganism: (organismId: string) => void;
+  
+  // Genetic engineering actions
+  editOrganismTraits: (organismId: string, traits: Partial<OrganismTraits>) => void;
+  injectOrganism: (design: OrganismDesign, position: Position) => void;
+  applyGeneDrive: (organismId: string, trait: keyof OrganismTraits, amount: number) => void;
+  cullOrganisms: (filter: TraitFilter) => void;
+  
+  // Environment timeline actions
+  scheduleCatastrophe: (kind: CatastropheKind, generation: number) => void;
 }
 
-export const useSimulationStore = create<SimulationState>((set, get) => ({
-  organisms: [],
-  isRunning: false,
-  simulationSpeed: 1,
-  currentGeneration: 0,
-  playerControlledOrganism: null,
-  environment: {
-    temperature: 0.5, // Normalized value 0-1
-    lightLevel: 0.8,
-    moisture: 0.6,
-    resources: {
-      organic: 100,
-      minerals: 100,
-      light: 100
-    }
-  },
-  simulationInterval: null,
+/**
+ * Apply an engine diff to the organism list, keeping existing order stable
+ */
+const applyDiff = (organisms: Organism[], diff: EngineDiff): Organism[] => {
+  if (diff.reset) return diff.added;
   
-  startSimulation: () => {
-    const intervalId = window.setInterval(() => {
-      set(state => {
-        const nextState = simulateGeneration(state);
-        return {
-          ...nextState,
-          currentGeneration: state.currentGeneration + 1
-        };
-      });
-    }, 1000 / get().simulationSpeed);
-    
-    set({ isRunning: true, simulationInterval: intervalId });
-  },
+  const removed = new Set(diff.removed);
+  const updated = new Map(diff.updated.map(organism => [organism.id, organism]));
   
-  pauseSimulation: () => {
-    if (get().simulationInterval !== null) {
-      window.clearInterval(get().simulationInterval as number);
-    }
-    set({ isRunning: false, simulationInterval: null });
-  },
+  const next: Organism[] = [];
+  for (const organism of organisms) {
+    if (removed.has(organism.id)) continue;
+    next.push(updated.get(organism.id) ?? organism);
+  }
   
-  setSimulationSpeed: (speed) => {
-    set({ simulationSpeed: speed });
-    
-    // Restart simulation with new speed if it's running
-    if (get().isRunning) {
-      get().pauseSimulation();
-      get().startSimulation();
+  return next.concat(diff.added);
+};
+
+export const useSimulationStore = create<SimulationState>((set, get) => {
+  // The engine runs in a worker and owns the authoritative simulation state;
+  // the store only mirrors it from the diffs it sends back
+  const engine = createEngineClient((event: EngineEvent) => {
+    switch (event.type) {
+      case 'diff': {
+        const wasActive = get().scenario?.progress.status === 'active';
+        set(state => {
+          const organisms = applyDiff(state.organisms, event.diff);
+          let scenario = state.scenario;
+          if (event.diff.replayedFrom !== undefined) {
+            // Keep the statistics up to where the replay started; it resends the rest
+            const kept = state.analytics.toArray().filter(stats => stats.generation <= event.diff.replayedFrom!);
+            state.analytics.clear();
+            kept.forEach(stats => state.analytics.push(stats));
+            // Later generations no longer happened, so judge the scenario again from the kept ones
+            if (scenario) {
+              const { definition } = scenario;
+              const progress = kept.reduce(
+                (current, stats) => evaluateScenario(definition, current, stats),
+                createScenarioProgress(definition)
+              );
+              scenario = { definition, progress };
+            }
+          } else if (event.diff.reset) {
+            state.analytics.clear();
+          }
+          event.diff.stats.forEach(stats => state.analytics.push(stats));
+          if (scenario) {
+            const { definition } = scenario;
+            const progress = event.diff.stats.reduce(
+              (current, stats) => evaluateScenario(definition, current, stats),
+              scenario.progress
+            );
+            scenario = { definition, progress };
+          }
+          const controlledRemoved = state.playerControlledOrganism !== null &&
+                                   !organisms.some(organism => organism.id === state.playerControlledOrganism);
+          return {
+            organisms,
+            carcasses: event.diff.carcasses,
+            species: event.diff.species,
+            currentGeneration: event.diff.currentGeneration,
+            rngState: event.diff.rngState,
+            environment: event.diff.environment,
+            timeline: event.diff.timeline,
+            config: event.diff.config ?? state.config,
+            seed: event.diff.seed ?? state.seed,
+            analyticsVersion: state.analyticsVersion + 1,
+            playerControlledOrganism: controlledRemoved ? null : state.playerControlledOrganism,
+            scenario
+          };
+        });
+        // Stop to show the outcome once a scenario is won or lost
+        if (wasActive && get().scenario?.progress.status !== 'active') {
+          get().pauseSimulation();
+        }
+        break;
+      }
+      case 'fastForwardProgress':
+        set({ fastForwardProgress: { completed: event.completed, total: event.total } });
+        break;
+      case 'fastForwardDone':
+        set({ fastForwardProgress: null });
+        break;
+      case 'error':
+        console.error('Simulation engine error:', event.message);
+        break;
     }
-  },
+  });
+  
+  const environment = DEFAULT_ENVIRONMENT;
   
-  fastForward: async (generations) => {
-    const isRunningBefore = get().isRunning;
-    if (isRunningBefore) {
+  const initialState = {
+    organisms: [] as Organism[],
+    carcasses: [] as Carcass[],
+    currentGeneration: 0,
+    seed: 0,
+    rngState: seedToState(0),
+    config: DEFAULT_SIMULATION_CONFIG,
+    species: createSpeciesRegistry(),
+    environment: { ...environment, fields: createEnvironmentFields(environment, DEFAULT_SIMULATION_CONFIG.worldSize) }
+  };
+  engine.send({ type: 'load', state: { ...initialState, lineage: createLineage([], 0), interventionLog: [] } });
+  
+  // Interventions are only limited while a scenario is being played
+  const allows = (intervention: ScenarioIntervention): boolean => {
+    return isInterventionAllowed(get().scenario?.definition ?? null, intervention);
+  };
+  
+  const intervene = (intervention: Intervention): void => {
+    engine.send({ type: 'intervene', intervention });
+  };
+  
+  return {
+    ...initialState,
+    isRunning: false,
+    simulationSpeed: 1,
+    fastForwardProgress: null,
+    timeline: { start: 0, end: 0 },
+    playerControlledOrganism: null,
+    scenario: null,
+    saveSlots: listSaveSlots(),
+    analytics: createRingBuffer<GenerationStats>(DEFAULT_ANALYTICS_CAPACITY),
+    analyticsVersion: 0,
+    
+    startSimulation: () => {
+      engine.send({ type: 'start', speed: get().simulationSpeed });
+      set({ isRunning: true });
+    },
+    
+    pauseSimulation: () => {
+      engine.send({ type: 'pause' });
+      set({ isRunning: false });
+    },
+    
+    stepSimulation: () => {
+      engine.send({ type: 'step' });
+    },
+    
+    setSimulationSpeed: (speed) => {
+      engine.send({ type: 'setSpeed', speed });
+      set({ simulationSpeed: speed });
+    },
+    
+    fastForward: (generations) => {
+      if (get().fastForwardProgress) return;
+      
+      set({ fastForwardProgress: { completed: 0, total: generations } });
+      engine.send({ type: 'fastForward', generations });
+    },
+    
+    cancelFastForward: () => {
+      engine.send({ type: 'cancelFastForward' });
+    },
+    
+    seekGeneration: (generation) => {
+      if (!allows('timeline')) return;
       get().pauseSimulation();
-    }
+      engine.send({ type: 'seek', generation });
+    },
     
-    // Use the new fast-forward function
-    const newState = fastForward(get(), generations);
-    set(newState);
+    // A fresh seed makes the new branch diverge from the generations it replaces
+    branchFromHere: (seed = randomSeed()) => {
+      if (!allows('timeline')) return;
+      engine.send({ type: 'branch', seed });
+      set({ seed });
+    },
     
-    if (isRunningBefore) {
-      get().startSimulation();
-    }
-  },
-  
-  startNewSimulation: (initialTraits, initialPopulationCount = 5) => {
-    // Stop any running simulation
-    get().pauseSimulation();
-    
-    // Create initial population of organisms
-    const initialPopulation = createInitialPopulation(initialTraits, initialPopulationCount);
-    
-    set({
-      organisms: initialPopulation,
-      currentGeneration: 0
-    });
-  },
-  
-  // Player control methods
-  takeControlOfOrganism: (organismId: string) => {
-    set(state => {
-      const organisms = state.organisms.map(org => {
-        if (org.id === organismId) {
-          return { ...org, isPlayerControlled: true };
-        } else if (org.isPlayerControlled) {
-          // Remove control from any other organism
-          return { ...org, isPlayerControlled: false };
-        }
-        return org;
-      });
+    // Takes effect from the next generation; the world size only applies to new simulations
+    setConfig: (changes) => {
+      if (!allows('sandbox')) return;
+      const config = resolveSimulationConfig(validateConfigChanges(changes), get().config);
+      set({ config });
+      engine.send({ type: 'setConfig', config });
+    },
+    
+    resetConfig: () => {
+      if (!allows('sandbox')) return;
+      set({ config: DEFAULT_SIMULATION_CONFIG });
+      engine.send({ type: 'setConfig', config: DEFAULT_SIMULATION_CONFIG });
+    },
+    
+    startNewSimulation: (initialTraits, initialPopulationCount = 5, seed = randomSeed(), worldPreset = 'uniform') => {
+      // Stop any running simulation
+      get().pauseSimulation();
       
-      return {
-        ...state,
-        organisms,
-        playerControlledOrganism: organismId
-      };
-    });
-  },
-  
-  releaseControlOfOrganism: () => {
-    set(state => {
-      const organisms = state.organisms.map(org => {
-        if (org.isPlayerControlled) {
-          return { ...org, isPlayerControlled: false };
+      // Create initial population of organisms from a fresh random sequence
+      const rng = createRng(seedToState(seed));
+      const { config } = get();
+      const { organisms: initialPopulation, species } = updateSpecies(
+        createSpeciesRegistry(),
+        createInitialPopulation(initialTraits, initialPopulationCount, rng, config),
+        [],
+        0,
+        config.speciesThreshold
+      );
+      
+      set({ seed, playerControlledOrganism: null, scenario: null });
+      engine.send({
+        type: 'load',
+        state: {
+          organisms: initialPopulation,
+          carcasses: [],
+          environment: { ...environment, fields: generateWorld(environment, worldPreset, seed, config.worldSize) },
+          currentGeneration: 0,
+          seed,
+          rngState: rng.getState(),
+          config,
+          lineage: createLineage(initialPopulation, 0),
+          species,
+          interventionLog: []
         }
-        return org;
       });
+    },
+    
+    startScenario: (definition, seed = definition.seed ?? randomSeed()) => {
+      get().pauseSimulation();
       
-      return {
-        ...state,
-        organisms,
-        playerControlledOrganism: null
-      };
-    });
-  },
-  
-  movePlayerOrganism: (direction: { x: number, y: number, z: number }) => {
-    set(state => {
-      const { playerControlledOrganism } = state;
-      if (!playerControlledOrganism) return state;
+      const state = createScenarioState(definition, seed);
+      set({
+        seed,
+        config: state.config,
+        playerControlledOrganism: null,
+        scenario: { definition, progress: createScenarioProgress(definition) }
+      });
+      engine.send({ type: 'load', state });
+    },
+    
+    abandonScenario: () => {
+      set({ scenario: null });
+    },
+    
+    // Persistence methods
+    exportSnapshot: async () => {
+      // Snapshot the engine's own state; the store's copy may be a diff behind
+      const state = await engine.requestSnapshot();
+      return createSnapshot({ ...state, simulationSpeed: get().simulationSpeed });
+    },
+    
+    importSnapshot: (data: unknown) => {
+      // Validate before touching the running simulation so a bad file changes nothing
+      const snapshot = loadSnapshot(data);
       
-      const organisms = state.organisms.map(org => {
-        if (org.id === playerControlledOrganism) {
-          // Calculate new position
-          const movementSpeed = org.traits.motility * 3; // Use motility for movement speed
-          const newPosition = {
-            x: org.position.x + direction.x * movementSpeed,
-            y: org.position.y + direction.y * movementSpeed,
-            z: org.position.z + direction.z * movementSpeed
-          };
-          
-          // Keep within world bounds (assuming WORLD_SIZE from core.ts)
-          const WORLD_SIZE = { x: 100, y: 100, z: 100 };
-          newPosition.x = Math.max(-WORLD_SIZE.x/2, Math.min(WORLD_SIZE.x/2, newPosition.x));
-          newPosition.y = Math.max(-WORLD_SIZE.y/2, Math.min(WORLD_SIZE.y/2, newPosition.y));
-          newPosition.z = Math.max(-WORLD_SIZE.z/2, Math.min(WORLD_SIZE.z/2, newPosition.z));
-          
-          // Update organism with new position and energy cost
-          return {
-            ...org,
-            previousPosition: org.position,
-            position: newPosition,
-            targetPosition: newPosition,
-            energy: org.energy - (org.traits.motility * 0.3), // Small energy cost for movement
-            actions: [...org.actions, 'player_moved']
-          };
+      get().pauseSimulation();
+      get().setSimulationSpeed(snapshot.simulationSpeed);
+      set({ seed: snapshot.seed, config: snapshot.config, playerControlledOrganism: null, scenario: null });
+      engine.send({
+        type: 'load',
+        state: {
+          organisms: snapshot.organisms,
+          carcasses: snapshot.carcasses,
+          environment: snapshot.environment,
+          currentGeneration: snapshot.currentGeneration,
+          seed: snapshot.seed,
+          rngState: snapshot.rngState,
+          config: snapshot.config,
+          lineage: snapshot.lineage,
+          species: snapshot.species,
+          interventionLog: snapshot.interventionLog
         }
-        return org;
       });
-      
-      return {
-        ...state,
-        organisms
-      };
-    });
-  }
-})); 
\ No newline at end of file
+    },
+    
+    fetchLineage: () => {
+      return engine.requestLineage();
+    },
+    
+    fetchInterventionLog: () => {
+      return engine.requestInterventionLog();
+    },
+    
+    saveToSlot: async (name: string) => {
+      writeSaveSlot(name, await get().exportSnapshot());
+      set({ saveSlots: listSaveSlots() });
+    },
+    
+    loadFromSlot: (name: string) => {
+      get().importSnapshot(readSaveSlot(name));
+    },
+    
+    deleteSlot: (name: string) => {
+      deleteSaveSlot(name);
+      set({ saveSlots: listSaveSlots() });
+    },
+    
+    // Player control methods
+    takeControlOfOrganism: (organismId: string) => {
+      if (!allows('control')) return;
+      intervene({ type: 'control', organismId });
+      set({ playerControlledOrganism: organismId });
+    },
+    
+    releaseControlOfOrganism: () => {
+      intervene({ type: 'control', organismId: null });
+      set({ playerControlledOrganism: null });
+    },
+    
+    movePlayerOrganism: (direction: { x: number, y: number, z: number }) => {
+      if (!get().playerControlledOrganism || !allows('control')) return;
+      intervene({ type: 'move', direction });
+    },
+    
+    // Intervention methods
+    cloneOrganism: (organismId: string) => {
+      if (!allows('clone')) return;
+      intervene({ type: 'clone', organismId });
+    },
+    
+    killOrganism: (organismId: string) => {
+      if (!allows('kill')) return;
+      intervene({ type: 'kill', organismId });
+      if (get().playerControlledOrganism === organismId) {
+        set({ playerControlledOrganism: null });
+      }
+    },
+    
+    // Genetic engineering methods
+    editOrganismTraits: (organismId, traits) => {
+      if (!allows('engineering')) return;
+      intervene({ type: 'editTraits', organismId, traits });
+    },
+    
+    injectOrganism: (design, position) => {
+      if (!allows('engineering')) return;
+      intervene({ type: 'inject', design, position });
+    },
+    
+    applyGeneDrive: (organismId, trait, amount) => {
+      if (!allows('engineering')) return;
+      intervene({ type: 'geneDrive', organismId, trait, amount });
+    },
+    
+    cullOrganisms: (filter) => {
+      if (!allows('engineering')) return;
+      intervene({ type: 'cull', filter });
+    },
+    
+    // Environment timeline methods
+    scheduleCatastrophe: (kind, generation) => {
+      if (!allows('catastrophes')) return;
+      intervene({ type: 'catastrophe', kind, generation });
+    }
+  };
+});
@@ -0,0 +1,103 @@
+import { create } from 'zustand';
+import { FieldName } from '../../simulation/fields';
+import { ColorBy, ColorRamp } from '../rendering/colorBy';
+import { HeatmapLayer } from '../rendering/groundHeatmap';
+import { OrganismDesign } from '../../simulation/interventions';
+
+/**
+ * UI-only state that has no bearing on the simulation itself
+ */
+
+export type PanelName = 'lineage' | 'analytics' | 'brain' | 'inspector' | 'genetics';
+
+export interface FieldOverlay {
+  field: FieldName | null; // Field to show in the renderer, if any
+  mode: 'volume' | 'slice';
+  slice: number;           // Depth of the slice from 0 (bottom) to 1 (top)
+}
+
+export interface OrganismColoring {
+  colorBy: ColorBy;
+  ramp: ColorRamp;              // Used by numeric colorings and the heatmap
+  heatmap: HeatmapLayer | null; // Layer projected onto the ground, if any
+}
+
+interface UiState {
+  openPanels: Record<PanelName, boolean>;
+  fieldOverlay: FieldOverlay;
+  organismColoring: OrganismColoring;
+  selectedOrganismId: string | null; // Organism shown in the inspector panels
+  followSelected: boolean;           // Keep the camera on the selected organism while the inspector is open
+  placingDesign: OrganismDesign | null; // Design injected where the world is clicked next, if any
+  togglePanel: (panel: PanelName) => void;
+  openPanel: (panel: PanelName) => void;
+  setFieldOverlay: (overlay: Partial<FieldOverlay>) => void;
+  setOrganismColoring: (coloring: Partial<OrganismColoring>) => void;
+  selectOrganism: (id: string | null) => void;
+  setFollowSelected: (follow: boolean) => void;
+  setPlacingDesign: (design: OrganismDesign | null) => void;
+}
+
+export const useUiStore = create<UiState>((set) => ({
+  openPanels: {
+    lineage: false,
+    analytics: false,
+    brain: false,
+    inspector: false,
+    genetics: false
+  },
+  
+  fieldOverlay: {
+    field: null,
+    mode: 'volume',
+    slice: 0.5
+  },
+  
+  organismColoring: {
+    colorBy: 'appearance',
+    ramp: 'viridis',
+    heatmap: null
+  },
+  
+  selectedOrganismId: null,
+  
+  followSelected: true,
+  
+  placingDesign: null,
+  
+  togglePanel: (panel) => {
+    set(state => ({
+      openPanels: { ...state.openPanels, [panel]: !state.openPanels[panel] }
+    }));
+  },
+  
+  openPanel: (panel) => {
+    set(state => ({
+      openPanels: { ...state.openPanels, [panel]: true }
+    }));
+  },
+  
+  setFieldOverlay: (overlay) => {
+    set(state => ({
+      fieldOverlay: { ...state.fieldOverlay, ...overlay }
+    }));
+  },
+  
+  setOrganismColoring: (coloring) => {
+    set(state => ({
+      organismColoring: { ...state.organismColoring, ...coloring }
+    }));
+  },
+  
+  selectOrganism: (id) => {
+    set({ selectedOrganismId: id });
+  },
+  
+  setFollowSelected: (follow) => {
+    set({ followSelected: follow });
+  },
+  
+  setPlacingDesign: (design) => {
+    set({ placingDesign: design });
+  }
+}));
@@ -0,0 +1,114 @@
+import { createInitialPopulation } from './core';
+import { createRng, seedToState } from './random';
+import { HISTOGRAM_BINS, computeGenerationStats, createRingBuffer, statsToCsv } from './analytics';
+import { createEnergyLedger, recordSource } from './energy';
+
+const environment = {
+  temperature: 0.5,
+  lightLevel: 0.8,
+  moisture: 0.6,
+  resources: {
+    organic: 80,
+    minerals: 90,
+    light: 100
+  }
+};
+
+const createOrganisms = (seed: number, count: number) => {
+  return createInitialPopulation({ motility: 0.5, reproduction: 0.6 }, count, createRng(seedToState(seed)));
+};
+
+describe('Generation Analytics', () => {
+  test('summarizes population, traits and energy', () => {
+    const organisms = createOrganisms(1, 6);
+    organisms[0].traits.motility = 0;
+    organisms[1].traits.motility = 1;
+    for (let i = 2; i < organisms.length; i++) {
+      organisms[i].traits.motility = 0.5;
+    }
+
+    const stats = computeGenerationStats(organisms, { births: [], deaths: [] }, environment, 7);
+
+    expect(stats.generation).toBe(7);
+    expect(stats.population).toBe(6);
+    expect(stats.traits.motility.mean).toBeCloseTo(0.5);
+    expect(stats.traits.motility.variance).toBeCloseTo(1 / 12);
+    expect(stats.traits.motility.histogram).toHaveLength(HISTOGRAM_BINS);
+    expect(stats.traits.motility.histogram[0]).toBe(1);
+    expect(stats.traits.motility.histogram[HISTOGRAM_BINS / 2]).toBe(4);
+    // A value of exactly 1 falls into the last bin
+    expect(stats.traits.motility.histogram[HISTOGRAM_BINS - 1]).toBe(1);
+    expect(stats.totalEnergy).toBeCloseTo(organisms.reduce((sum, organism) => sum + organism.energy, 0));
+    expect(stats.resources).toEqual(environment.resources);
+  });
+
+  test('counts births and deaths by cause', () => {
+    const organisms = createOrganisms(2, 3);
+    const stats = computeGenerationStats(organisms, {
+      births: [organisms[2]],
+      deaths: [
+        { id: 'a', cause: 'starvation', age: 3 },
+        { id: 'b', cause: 'predation', age: 1, killerId: organisms[0].id },
+        { id: 'c', cause: 'predation', age: 2, killerId: organisms[1].id }
+      ]
+    }, environment, 1);
+
+    expect(stats.births).toBe(1);
+    expect(stats.deaths).toEqual({ starvation: 1, old_age: 0, predation: 2, killed: 0, catastrophe: 0 });
+  });
+
+  test('copies the energy flows of the generation', () => {
+    const ledger = createEnergyLedger(10);
+    recordSource(ledger, 'photosynthesis', 4);
+
+    const stats = computeGenerationStats([], { births: [], deaths: [], energy: ledger }, environment, 2);
+    recordSource(ledger, 'photosynthesis', 1);
+
+    expect(stats.energy.sources.photosynthesis).toBe(4);
+    expect(stats.energy.sinks.metabolism).toBe(0);
+  });
+
+  test('an empty population has zeroed statistics', () => {
+    const stats = computeGenerationStats([], { births: [], deaths: [] }, environment, 3);
+
+    expect(stats.population).toBe(0);
+    expect(stats.totalEnergy).toBe(0);
+    expect(stats.traits.defense).toEqual({ mean: 0, variance: 0, histogram: new Array(HISTOGRAM_BINS).fill(0) });
+  });
+
+  test('ring buffer keeps the newest entries once full', () => {
+    const buffer = createRingBuffer<number>(3);
+    expect(buffer.last()).toBeUndefined();
+
+    [1, 2, 3, 4, 5].forEach(buffer.push);
+
+    expect(buffer.size()).toBe(3);
+    expect(buffer.toArray()).toEqual([3, 4, 5]);
+    expect(buffer.last()).toBe(5);
+
+    buffer.clear();
+    expect(buffer.toArray()).toEqual([]);
+  });
+
+  test('exports one CSV row per generation under a header', () => {
+    const organisms = createOrganisms(3, 4);
+    const stats = [1, 2, 3].map(generation =>
+      computeGenerationStats(organisms, { births: [], deaths: [] }, environment, generation)
+    );
+
+    const lines = statsToCsv(stats).trim().split('\n');
+    const header = lines[0].split(',');
+
+    expect(lines).toHaveLength(4);
+    expect(header.slice(0, 3)).toEqual(['generation', 'population', 'births']);
+    expect(header).toContain('motility_mean');
+    expect(header).toContain('energy_from_photosynthesis');
+    expect(header).toContain('energy_to_reproduction');
+    expect(header).toContain(`metabolism_hist_${HISTOGRAM_BINS - 1}`);
+    lines.slice(1).forEach((line, index) => {
+      const row = line.split(',');
+      expect(row).toHaveLength(header.length);
+      expect(row[0]).toBe(String(index + 1));
+    });
+  });
+});
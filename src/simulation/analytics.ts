@@ -0,0 +1,211 @@
+import { Organism, OrganismTraits, Environment } from '../frontend/stores/simulationStore';
+import { DeathCause, GenerationEvents } from './core';
+import { TRAIT_NAMES } from './traits';
+import { CatastropheKind } from './climate';
+import { ENERGY_SINKS, ENERGY_SOURCES, EnergyFlows, createEnergyFlows } from './energy';
+
+/**
+ * Per-generation population statistics.
+ *
+ * The engine computes one GenerationStats entry from the output of every
+ * simulateGeneration call. Entries are kept in fixed-capacity ring buffers
+ * so that long runs don't grow memory, and can be exported as CSV.
+ */
+
+export const HISTOGRAM_BINS = 10;
+export const DEFAULT_ANALYTICS_CAPACITY = 2000;
+
+const DEATH_CAUSES: DeathCause[] = ['starvation', 'old_age', 'predation', 'killed', 'catastrophe'];
+
+export interface TraitStats {
+  mean: number;
+  variance: number;
+  histogram: number[]; // Organism counts in HISTOGRAM_BINS equal bins over [0, 1]
+}
+
+export interface GenerationStats {
+  generation: number;
+  population: number;
+  births: number;
+  deaths: Record<DeathCause, number>;
+  traits: Record<keyof OrganismTraits, TraitStats>;
+  totalEnergy: number;
+  energy: EnergyFlows;             // Where energy came from and went during the generation
+  resources: Environment['resources'];
+  temperature: number;               // Mean over the world
+  moisture: number;                  // Mean over the world
+  catastrophes: CatastropheKind[];   // Active during the generation
+  species: Record<string, number>; // Population by species id
+  speciesFounded: number;
+  speciesExtinct: number;
+}
+
+/**
+ * Summarize the population after a generation
+ */
+export const computeGenerationStats = (
+  organisms: Organism[],
+  events: GenerationEvents,
+  environment: Environment,
+  generation: number
+): GenerationStats => {
+  const deaths = { starvation: 0, old_age: 0, predation: 0, killed: 0, catastrophe: 0 };
+  for (const death of events.deaths) {
+    deaths[death.cause]++;
+  }
+
+  const traits = {} as Record<keyof OrganismTraits, TraitStats>;
+  for (const trait of TRAIT_NAMES) {
+    const histogram = new Array(HISTOGRAM_BINS).fill(0);
+    let sum = 0;
+    let sumOfSquares = 0;
+
+    for (const organism of organisms) {
+      const value = organism.traits[trait];
+      sum += value;
+      sumOfSquares += value * value;
+      histogram[Math.min(HISTOGRAM_BINS - 1, Math.max(0, Math.floor(value * HISTOGRAM_BINS)))]++;
+    }
+
+    const count = organisms.length;
+    const mean = count > 0 ? sum / count : 0;
+    traits[trait] = {
+      mean,
+      // Guard against tiny negative values from floating point error
+      variance: count > 0 ? Math.max(0, sumOfSquares / count - mean * mean) : 0,
+      histogram
+    };
+  }
+
+  let totalEnergy = 0;
+  const species: Record<string, number> = {};
+  for (const organism of organisms) {
+    totalEnergy += organism.energy;
+    if (organism.speciesId !== undefined) {
+      species[organism.speciesId] = (species[organism.speciesId] ?? 0) + 1;
+    }
+  }
+  const speciesEvents = events.species ?? [];
+
+  return {
+    generation,
+    population: organisms.length,
+    births: events.births.length,
+    deaths,
+    traits,
+    totalEnergy,
+    energy: events.energy ?
+      { sources: { ...events.energy.sources }, sinks: { ...events.energy.sinks } } :
+      createEnergyFlows(),
+    resources: { ...environment.resources },
+    temperature: environment.temperature,
+    moisture: environment.moisture,
+    catastrophes: environment.climate?.active.map(catastrophe => catastrophe.kind) ?? [],
+    species,
+    speciesFounded: speciesEvents.filter(event => event.type === 'founded').length,
+    speciesExtinct: speciesEvents.filter(event => event.type === 'extinct').length
+  };
+};
+
+export interface RingBuffer<T> {
+  capacity: number;
+  size: () => number;
+  push: (item: T) => void;
+  /** Entries from oldest to newest */
+  toArray: () => T[];
+  last: () => T | undefined;
+  clear: () => void;
+}
+
+/**
+ * Create a fixed-capacity buffer that overwrites its oldest entries once full
+ */
+export const createRingBuffer = <T>(capacity: number): RingBuffer<T> => {
+  let items: T[] = [];
+  let start = 0;
+
+  return {
+    capacity,
+    size: () => items.length,
+    push: (item: T) => {
+      if (items.length < capacity) {
+        items.push(item);
+      } else {
+        items[start] = item;
+        start = (start + 1) % capacity;
+      }
+    },
+    toArray: () => [...items.slice(start), ...items.slice(0, start)],
+    last: () => (items.length > 0 ? items[(start + items.length - 1) % items.length] : undefined),
+    clear: () => {
+      items = [];
+      start = 0;
+    }
+  };
+};
+
+/**
+ * Column names of the CSV export
+ */
+export const statsCsvHeader = (): string => {
+  const header = [
+    'generation',
+    'population',
+    'births',
+    ...DEATH_CAUSES.map(cause => `deaths_${cause}`),
+    'total_energy',
+    ...ENERGY_SOURCES.map(source => `energy_from_${source}`),
+    ...ENERGY_SINKS.map(sink => `energy_to_${sink}`),
+    'organic',
+    'minerals',
+    'light',
+    'temperature',
+    'moisture',
+    'catastrophes',
+    'species',
+    'species_founded',
+    'species_extinct'
+  ];
+  for (const trait of TRAIT_NAMES) {
+    header.push(`${trait}_mean`, `${trait}_variance`);
+    for (let bin = 0; bin < HISTOGRAM_BINS; bin++) {
+      header.push(`${trait}_hist_${bin}`);
+    }
+  }
+  return header.join(',');
+};
+
+/**
+ * One generation as a CSV row, matching statsCsvHeader
+ */
+export const statsToCsvRow = (entry: GenerationStats): string => {
+  const row: (number | string)[] = [
+    entry.generation,
+    entry.population,
+    entry.births,
+    ...DEATH_CAUSES.map(cause => entry.deaths[cause]),
+    entry.totalEnergy,
+    ...ENERGY_SOURCES.map(source => entry.energy.sources[source]),
+    ...ENERGY_SINKS.map(sink => entry.energy.sinks[sink]),
+    entry.resources.organic,
+    entry.resources.minerals,
+    entry.resources.light,
+    entry.temperature,
+    entry.moisture,
+    entry.catastrophes.join(' '),
+    Object.keys(entry.species).length,
+    entry.speciesFounded,
+    entry.speciesExtinct
+  ];
+  for (const trait of TRAIT_NAMES) {
+    row.push(entry.traits[trait].mean, entry.traits[trait].variance, ...entry.traits[trait].histogram);
+  }
+  return row.join(',');
+};
+
+/**
+ * Export statistics as CSV, one row per generation
+ */
+export const statsToCsv = (stats: GenerationStats[]): string => {
+  return [statsCsvHeader(), ...stats.map(statsToCsvRow)].join('\n') + '\n';
+};
@@ -0,0 +1,106 @@
+import { createInitialOrganism, simulateGeneration } from './core';
+import { createRng, seedToState } from './random';
+import { MutationBiasTable, computeMutationBias, createBehaviorCounters } from './behavior';
+import { BehaviorCounters, Organism } from '../frontend/stores/simulationStore';
+
+const environment = {
+  temperature: 0.5,
+  lightLevel: 0.8,
+  moisture: 0.6,
+  resources: {
+    organic: 100,
+    minerals: 100,
+    light: 100
+  }
+};
+
+// Parents that reproduce asexually every generation and never meet each other
+const createParents = (seed: number, count: number, behavior: Partial<BehaviorCounters>) => {
+  const rng = createRng(seedToState(seed));
+  const organisms = Array.from({ length: count }, () => {
+    const organism = createInitialOrganism({
+      reproduction: 1,
+      predation: 0.5,
+      defense: 0.5,
+      motility: 0.5,
+      sensory: 0
+    }, rng);
+    organism.energy = 100;
+    organism.behavior = { ...createBehaviorCounters(), ...behavior };
+    return organism;
+  });
+  return { organisms, environment, currentGeneration: 0, rngState: rng.getState() };
+};
+
+const meanOffspringTrait = (state: any, trait: keyof Organism['traits'], seeds = 5): number => {
+  let sum = 0;
+  let count = 0;
+  for (let seed = 1; seed <= seeds; seed++) {
+    const births: Organism[] = simulateGeneration({ ...state, rngState: seedToState(seed) }).events.births;
+    births.forEach(offspring => {
+      sum += offspring.traits[trait];
+      count++;
+    });
+  }
+  return sum / count;
+};
+
+describe('Behavior-Influenced Mutation', () => {
+  test('rules saturate and directions are clamped to one side', () => {
+    const table: MutationBiasTable = [
+      { behavior: 'predationSuccesses', trait: 'predation', saturation: 4, direction: 0.8, rateBoost: 0.2 },
+      { behavior: 'defensesSurvived', trait: 'predation', saturation: 1, direction: 0.8, rateBoost: 0.1 }
+    ];
+
+    const half = computeMutationBias({ ...createBehaviorCounters(), predationSuccesses: 2 }, table);
+    expect(half.predation?.direction).toBeCloseTo(0.4);
+    expect(half.predation?.rateBoost).toBeCloseTo(0.1);
+
+    const saturated = computeMutationBias({ ...createBehaviorCounters(), predationSuccesses: 40, defensesSurvived: 9 }, table);
+    expect(saturated.predation?.direction).toBe(1);
+    expect(saturated.predation?.rateBoost).toBeCloseTo(0.3);
+
+    expect(computeMutationBias(createBehaviorCounters(), table)).toEqual({});
+  });
+
+  test('organisms accumulate lifetime counters and offspring start from zero', () => {
+    let state: any = createParents(1, 3, {});
+    for (let i = 0; i < 3; i++) {
+      state = simulateGeneration(state);
+    }
+
+    const parent = state.organisms.find((organism: Organism) => organism.generation === 0);
+    expect(parent.behavior.distanceMoved).toBeGreaterThan(0);
+    expect(parent.behavior.photosynthesisTicks).toBeGreaterThan(0);
+    state.events.births.forEach((offspring: Organism) => {
+      expect(offspring.behavior).toEqual(createBehaviorCounters());
+    });
+  });
+
+  test('successful hunters have offspring with stronger predation', () => {
+    const hunters = meanOffspringTrait(createParents(2, 200, { predationSuccesses: 10 }), 'predation');
+    const others = meanOffspringTrait(createParents(2, 200, {}), 'predation');
+
+    expect(others).toBeCloseTo(0.5, 1);
+    expect(hunters - others).toBeGreaterThan(0.01);
+  });
+
+  test('surviving attacks shifts defense upwards', () => {
+    const survivors = meanOffspringTrait(createParents(3, 200, { defensesSurvived: 5 }), 'defense');
+    const others = meanOffspringTrait(createParents(3, 200, {}), 'defense');
+
+    expect(survivors - others).toBeGreaterThan(0.01);
+  });
+
+  test('a custom mapping table replaces the default biases', () => {
+    const mutationBias: MutationBiasTable = [
+      { behavior: 'distanceMoved', trait: 'motility', saturation: 1, direction: -1, rateBoost: 0.9 }
+    ];
+    const state = { ...createParents(4, 200, { distanceMoved: 50 }), mutationBias };
+
+    const mean = meanOffspringTrait(state, 'motility');
+
+    // Nearly every offspring mutates, always downwards by up to twice the mutation strength
+    expect(mean).toBeLessThan(0.45);
+  });
+});
@@ -0,0 +1,81 @@
+import { BehaviorCounters, OrganismTraits } from '../frontend/stores/simulationStore';
+
+/**
+ * Behavior-influenced mutation.
+ *
+ * Organisms keep lifetime counters of what they have done. At reproduction a
+ * mapping table turns those counters into a per-trait bias: a shift of the
+ * mutation direction and a boost to the mutation probability. A predator that
+ * has eaten a lot is more likely to have offspring with stronger predation.
+ */
+
+export interface MutationBiasRule {
+  behavior: keyof BehaviorCounters;
+  trait: keyof OrganismTraits;
+  saturation: number; // Counter value at which the rule has its full effect
+  direction: number;  // Shift of the mutation direction at saturation, from -1 to 1
+  rateBoost: number;  // Added mutation probability at saturation
+}
+
+export type MutationBiasTable = MutationBiasRule[];
+
+export interface TraitBias {
+  direction: number; // -1 always mutates down, 1 always mutates up
+  rateBoost: number;
+}
+
+export type MutationBias = Partial<Record<keyof OrganismTraits, TraitBias>>;
+
+export const DEFAULT_MUTATION_BIAS: MutationBiasTable = [
+  // Frequent hunters develop stronger predation
+  { behavior: 'predationSuccesses', trait: 'predation', saturation: 5, direction: 0.6, rateBoost: 0.2 },
+  // Staying out in the light favors photosynthesis over movement
+  { behavior: 'photosynthesisTicks', trait: 'photosynthesis', saturation: 50, direction: 0.4, rateBoost: 0.1 },
+  { behavior: 'photosynthesisTicks', trait: 'motility', saturation: 50, direction: -0.2, rateBoost: 0 },
+  // Surviving attacks favors defense
+  { behavior: 'defensesSurvived', trait: 'defense', saturation: 3, direction: 0.6, rateBoost: 0.2 },
+  { behavior: 'distanceMoved', trait: 'motility', saturation: 100, direction: 0.4, rateBoost: 0.1 }
+];
+
+export const createBehaviorCounters = (): BehaviorCounters => ({
+  predationSuccesses: 0,
+  photosynthesisTicks: 0,
+  defensesSurvived: 0,
+  distanceMoved: 0
+});
+
+/**
+ * Average two parents' counters for sexually produced offspring
+ */
+export const combineBehavior = (a: BehaviorCounters, b: BehaviorCounters): BehaviorCounters => ({
+  predationSuccesses: (a.predationSuccesses + b.predationSuccesses) / 2,
+  photosynthesisTicks: (a.photosynthesisTicks + b.photosynthesisTicks) / 2,
+  defensesSurvived: (a.defensesSurvived + b.defensesSurvived) / 2,
+  distanceMoved: (a.distanceMoved + b.distanceMoved) / 2
+});
+
+/**
+ * Turn lifetime counters into per-trait mutation biases using a mapping table
+ */
+export const computeMutationBias = (behavior: BehaviorCounters, table: MutationBiasTable): MutationBias => {
+  const bias: MutationBias = {};
+
+  for (const rule of table) {
+    const intensity = rule.saturation > 0 ? Math.min(1, behavior[rule.behavior] / rule.saturation) : 0;
+    if (intensity <= 0) continue;
+
+    const current = bias[rule.trait] ?? { direction: 0, rateBoost: 0 };
+    bias[rule.trait] = {
+      direction: current.direction + rule.direction * intensity,
+      rateBoost: current.rateBoost + rule.rateBoost * intensity
+    };
+  }
+
+  // Rules for the same trait add up, but the direction can't go past one-sided
+  for (const trait in bias) {
+    const traitBias = bias[trait as keyof OrganismTraits] as TraitBias;
+    traitBias.direction = Math.max(-1, Math.min(1, traitBias.direction));
+  }
+
+  return bias;
+};
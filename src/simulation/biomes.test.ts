@@ -0,0 +1,106 @@
+import { createInitialOrganism, simulateGeneration } from './core';
+import { DEFAULT_SIMULATION_CONFIG } from './config';
+import { createRng, seedToState } from './random';
+import { createEnvironmentFields, EnvironmentFields } from './fields';
+import { BIOMES, BIOME_NAMES, BiomeName, WORLD_PRESETS, generateWorld } from './biomes';
+
+const environment = {
+  temperature: 0.5,
+  lightLevel: 0.8,
+  moisture: 0.6,
+  resources: {
+    organic: 100,
+    minerals: 100,
+    light: 100
+  }
+};
+
+// A world made entirely of one biome
+const singleBiomeWorld = (name: BiomeName): EnvironmentFields => {
+  const fields = createEnvironmentFields(environment, DEFAULT_SIMULATION_CONFIG.worldSize);
+  const cellCount = fields.resolution ** 3;
+  return {
+    ...fields,
+    biome: new Array(cellCount).fill(BIOME_NAMES.indexOf(name)),
+    regenerationScale: new Array(cellCount).fill(BIOMES[name].resourceRegeneration)
+  };
+};
+
+// Energy left after one generation for an organism that moves but can't feed
+const energyAfterGeneration = (fields: EnvironmentFields): number => {
+  const organism = createInitialOrganism({ motility: 1, photosynthesis: 0, reproduction: 0 }, createRng(seedToState(1)));
+  const next = simulateGeneration({ organisms: [organism], environment: { ...environment, fields }, rngState: 7 });
+  // The move is paid for in this generation but carried out in the next
+  return next.organisms[0].energy;
+};
+
+describe('World Generation', () => {
+  test('the same seed generates the same world and different seeds differ', () => {
+    const world = generateWorld(environment, 'temperate', 3, DEFAULT_SIMULATION_CONFIG.worldSize);
+
+    expect(generateWorld(environment, 'temperate', 3, DEFAULT_SIMULATION_CONFIG.worldSize)).toEqual(world);
+    expect(generateWorld(environment, 'temperate', 4, DEFAULT_SIMULATION_CONFIG.worldSize).biome).not.toEqual(world.biome);
+  });
+
+  test('biomes take up the share of the world set by the preset weights', () => {
+    const world = generateWorld(environment, 'archipelago', 1, DEFAULT_SIMULATION_CONFIG.worldSize);
+    const weights = WORLD_PRESETS.archipelago.biomeWeights;
+    const totalWeight = Object.values(weights).reduce((sum, weight) => sum + (weight ?? 0), 0);
+    const cellCount = (world.biome as number[]).length;
+
+    BIOME_NAMES.forEach((name, index) => {
+      const share = (world.biome as number[]).filter(biome => biome === index).length / cellCount;
+      expect(share).toBeCloseTo((weights[name] ?? 0) / totalWeight, 2);
+    });
+  });
+
+  test('neighboring cells tend to share a biome', () => {
+    const world = generateWorld(environment, 'temperate', 5, DEFAULT_SIMULATION_CONFIG.worldSize);
+    const biome = world.biome as number[];
+    let same = 0;
+    let pairs = 0;
+    for (let index = 0; index < biome.length; index++) {
+      if ((index + 1) % world.resolution === 0) continue;
+      pairs++;
+      if (biome[index] === biome[index + 1]) same++;
+    }
+
+    // Scattered at random, these weights would match less than a third of the time
+    expect(same / pairs).toBeGreaterThan(0.5);
+  });
+
+  test('the uniform preset has no biomes', () => {
+    const world = generateWorld(environment, 'uniform', 2, DEFAULT_SIMULATION_CONFIG.worldSize);
+
+    expect(world.biome).toBeUndefined();
+    expect(world).toEqual(createEnvironmentFields(environment, DEFAULT_SIMULATION_CONFIG.worldSize));
+  });
+
+  test('biome parameters shape the field capacities', () => {
+    const world = generateWorld(environment, 'mosaic', 6, DEFAULT_SIMULATION_CONFIG.worldSize);
+    const uniform = createEnvironmentFields(environment, DEFAULT_SIMULATION_CONFIG.worldSize);
+    const biome = world.biome as number[];
+
+    for (let index = 0; index < biome.length; index++) {
+      const parameters = BIOMES[BIOME_NAMES[biome[index]]];
+      expect(world.capacity.light[index]).toBeCloseTo(uniform.capacity.light[index] * parameters.lightAttenuation);
+      expect(world.capacity.moisture[index]).toBe(parameters.moisture);
+      expect((world.regenerationScale as number[])[index]).toBe(parameters.resourceRegeneration);
+      expect(world.values.light[index]).toBe(world.capacity.light[index]);
+    }
+  });
+
+  test('moving through difficult biomes costs more energy', () => {
+    const grassland = energyAfterGeneration(singleBiomeWorld('grassland'));
+    const subterranean = energyAfterGeneration(singleBiomeWorld('subterranean'));
+
+    expect(subterranean).toBeLessThan(grassland);
+  });
+
+  test('temperatures away from comfortable raise metabolism', () => {
+    const comfortable = createEnvironmentFields(environment, DEFAULT_SIMULATION_CONFIG.worldSize);
+    const cold = createEnvironmentFields({ ...environment, temperature: 0 }, DEFAULT_SIMULATION_CONFIG.worldSize);
+
+    expect(energyAfterGeneration(cold)).toBeLessThan(energyAfterGeneration(comfortable));
+  });
+});
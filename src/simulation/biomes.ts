@@ -0,0 +1,210 @@
+import { Environment } from '../frontend/stores/simulationStore';
+import { Rng, createRng, seedToState } from './random';
+import { EnvironmentFields, FIELD_RESOLUTION, cellCenter, cloneFields, createEnvironmentFields } from './fields';
+
+/**
+ * Biomes and world generation.
+ *
+ * A world preset partitions the field grid into biome regions using seeded
+ * value noise. Each biome scales the light reaching its cells, sets their
+ * temperature and moisture, and changes how quickly resources regenerate
+ * and how costly it is to move through them.
+ */
+
+export const BIOME_NAMES = ['forest', 'grassland', 'wetland', 'deepWater', 'subterranean'] as const;
+
+export type BiomeName = typeof BIOME_NAMES[number];
+
+export interface BiomeParameters {
+  label: string;
+  color: string;                // Used by previews and overlays
+  lightAttenuation: number;     // Fraction of the light that reaches the biome
+  movementCost: number;         // Multiplier of the energy spent moving
+  temperature: number;          // Surface temperature, 0-1
+  moisture: number;
+  resourceRegeneration: number; // Multiplier of resource regeneration rates
+}
+
+export const BIOMES: Record<BiomeName, BiomeParameters> = {
+  forest: {
+    label: 'Forest',
+    color: '#2e7d32',
+    lightAttenuation: 0.6,
+    movementCost: 1.3,
+    temperature: 0.55,
+    moisture: 0.7,
+    resourceRegeneration: 1.5
+  },
+  grassland: {
+    label: 'Grassland',
+    color: '#c0ca33',
+    lightAttenuation: 1,
+    movementCost: 0.8,
+    temperature: 0.6,
+    moisture: 0.4,
+    resourceRegeneration: 1
+  },
+  wetland: {
+    label: 'Wetland',
+    color: '#00897b',
+    lightAttenuation: 0.85,
+    movementCost: 1.5,
+    temperature: 0.5,
+    moisture: 1,
+    resourceRegeneration: 2
+  },
+  deepWater: {
+    label: 'Deep Water',
+    color: '#1a237e',
+    lightAttenuation: 0.3,
+    movementCost: 1,
+    temperature: 0.3,
+    moisture: 1,
+    resourceRegeneration: 0.5
+  },
+  subterranean: {
+    label: 'Subterranean',
+    color: '#5d4037',
+    lightAttenuation: 0.05,
+    movementCost: 1.8,
+    temperature: 0.4,
+    moisture: 0.5,
+    resourceRegeneration: 0.3
+  }
+};
+
+export interface WorldPreset {
+  label: string;
+  description: string;
+  biomeWeights: Partial<Record<BiomeName, number>>; // Relative share of the world; empty for a uniform world
+  noiseScale: number;                               // Noise lattice cells across the world; higher is patchier
+}
+
+export type WorldPresetName = 'uniform' | 'temperate' | 'archipelago' | 'underworld' | 'mosaic';
+
+export const WORLD_PRESETS: Record<WorldPresetName, WorldPreset> = {
+  uniform: {
+    label: 'Uniform',
+    description: 'A single open cube with no biomes',
+    biomeWeights: {},
+    noiseScale: 1
+  },
+  temperate: {
+    label: 'Temperate',
+    description: 'Forests and grasslands broken up by wetlands',
+    biomeWeights: { forest: 3, grassland: 4, wetland: 2, deepWater: 1 },
+    noiseScale: 3
+  },
+  archipelago: {
+    label: 'Archipelago',
+    description: 'Deep water with scattered wetland and grassland islands',
+    biomeWeights: { deepWater: 6, wetland: 2, grassland: 2 },
+    noiseScale: 5
+  },
+  underworld: {
+    label: 'Underworld',
+    description: 'Mostly caves, with a few flooded chambers and overgrown openings',
+    biomeWeights: { subterranean: 6, deepWater: 2, forest: 1 },
+    noiseScale: 4
+  },
+  mosaic: {
+    label: 'Mosaic',
+    description: 'Every biome in small patches',
+    biomeWeights: { forest: 1, grassland: 1, wetland: 1, deepWater: 1, subterranean: 1 },
+    noiseScale: 5
+  }
+};
+
+// Keeps world generation from consuming the simulation's own random sequence
+const WORLD_SEED_SALT = 0x5EED;
+
+/**
+ * Smoothly interpolated random values on a cubic lattice, in [0, 1]
+ */
+const createValueNoise = (rng: Rng, latticeSize: number) => {
+  const size = latticeSize + 1;
+  const lattice = Array.from({ length: size * size * size }, () => rng.next());
+  const at = (x: number, y: number, z: number) => lattice[(z * size + y) * size + x];
+  const smooth = (t: number) => t * t * (3 - 2 * t);
+  const lerp = (a: number, b: number, t: number) => a + (b - a) * t;
+
+  // Coordinates are in [0, 1]
+  return (u: number, v: number, w: number): number => {
+    const [x, y, z] = [u, v, w].map(value => Math.min(value, 1 - 1e-9) * latticeSize);
+    const [x0, y0, z0] = [Math.floor(x), Math.floor(y), Math.floor(z)];
+    const [tx, ty, tz] = [smooth(x - x0), smooth(y - y0), smooth(z - z0)];
+
+    const front = lerp(
+      lerp(at(x0, y0, z0), at(x0 + 1, y0, z0), tx),
+      lerp(at(x0, y0 + 1, z0), at(x0 + 1, y0 + 1, z0), tx),
+      ty
+    );
+    const back = lerp(
+      lerp(at(x0, y0, z0 + 1), at(x0 + 1, y0, z0 + 1), tx),
+      lerp(at(x0, y0 + 1, z0 + 1), at(x0 + 1, y0 + 1, z0 + 1), tx),
+      ty
+    );
+    return lerp(front, back, tz);
+  };
+};
+
+/**
+ * Generate the environment fields for a world preset. Cells are ranked by
+ * their noise value and handed out to biomes in proportion to the preset's
+ * weights, so neighboring cells tend to share a biome.
+ */
+export const generateWorld = (
+  environment: Environment,
+  presetName: WorldPresetName,
+  seed: number,
+  worldSize: number,
+  resolution = FIELD_RESOLUTION
+): EnvironmentFields => {
+  const fields = createEnvironmentFields(environment, worldSize, resolution);
+  const preset = WORLD_PRESETS[presetName];
+  const weighted = BIOME_NAMES.filter(name => (preset.biomeWeights[name] ?? 0) > 0);
+  if (weighted.length === 0) return fields;
+
+  const noise = createValueNoise(createRng(seedToState(seed ^ WORLD_SEED_SALT)), preset.noiseScale);
+  const cellCount = fields.capacity.light.length;
+  const noiseValues = new Array(cellCount);
+  for (let index = 0; index < cellCount; index++) {
+    const center = cellCenter(fields, index);
+    noiseValues[index] = noise(center.x / worldSize + 0.5, center.y / worldSize + 0.5, center.z / worldSize + 0.5);
+  }
+  const ranked = Array.from({ length: cellCount }, (_, index) => index)
+    .sort((a, b) => noiseValues[a] - noiseValues[b]);
+
+  const totalWeight = weighted.reduce((sum, name) => sum + (preset.biomeWeights[name] as number), 0);
+  const biome = new Array(cellCount);
+  let rank = 0;
+  let cumulativeWeight = 0;
+  for (const name of weighted) {
+    cumulativeWeight += preset.biomeWeights[name] as number;
+    const end = Math.round((cumulativeWeight / totalWeight) * cellCount);
+    for (; rank < end; rank++) {
+      biome[ranked[rank]] = BIOME_NAMES.indexOf(name);
+    }
+  }
+
+  const regenerationScale = new Array(cellCount);
+  const { capacity } = fields;
+  for (let index = 0; index < cellCount; index++) {
+    const parameters = BIOMES[BIOME_NAMES[biome[index]]];
+    const depthFactor = 1 - Math.abs(cellCenter(fields, index).z / (worldSize / 2));
+    capacity.light[index] *= parameters.lightAttenuation;
+    capacity.temperature[index] = parameters.temperature * (0.75 + 0.25 * depthFactor);
+    capacity.moisture[index] = parameters.moisture;
+    regenerationScale[index] = parameters.resourceRegeneration;
+  }
+
+  // Every cell starts out full
+  return cloneFields({ ...fields, values: capacity, biome, regenerationScale });
+};
+
+/**
+ * Parameters of the biome at a cell, or null in a uniform world
+ */
+export const biomeAt = (fields: EnvironmentFields, index: number): BiomeParameters | null => {
+  return fields.biome ? BIOMES[BIOME_NAMES[fields.biome[index]]] : null;
+};
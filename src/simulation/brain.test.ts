@@ -0,0 +1,126 @@
+import { createInitialOrganism, createInitialPopulation, simulateGeneration } from './core';
+import { DEFAULT_SIMULATION_CONFIG } from './config';
+import { createRng, seedToState } from './random';
+import { cellIndexAt, createEnvironmentFields } from './fields';
+import {
+  BRAIN_INPUTS,
+  BRAIN_OUTPUTS,
+  brainInputs,
+  createBrain,
+  crossoverBrains,
+  decide,
+  inheritBrain,
+  mutateBrain,
+  think
+} from './brain';
+import { Brain, Organism } from '../frontend/stores/simulationStore';
+
+const environment = {
+  temperature: 0.5,
+  lightLevel: 0.8,
+  moisture: 0.6,
+  resources: {
+    organic: 100,
+    minerals: 100,
+    light: 100
+  }
+};
+
+// A brain that ignores its inputs and always gives the same outputs
+const fixedBrain = (outputs: number[]): Brain => {
+  const brain = createBrain(createRng(1));
+  return {
+    ...brain,
+    weights: brain.weights.map(layer => layer.map(() => 0)),
+    biases: [brain.biases[0].map(() => 0), outputs]
+  };
+};
+
+describe('Brains', () => {
+  test('the network maps every input to every output', () => {
+    const brain = createBrain(createRng(seedToState(1)));
+    const activations = think(brain, BRAIN_INPUTS.map(() => 0.5));
+
+    expect(activations.map(layer => layer.length)).toEqual(brain.layerSizes);
+    expect(activations[activations.length - 1]).toHaveLength(BRAIN_OUTPUTS.length);
+    activations[activations.length - 1].forEach(output => {
+      expect(output).toBeGreaterThanOrEqual(-1);
+      expect(output).toBeLessThanOrEqual(1);
+    });
+  });
+
+  test('inputs describe what the organism senses and its internal state', () => {
+    const organism = createInitialOrganism({}, createRng(seedToState(1)));
+    const fields = createEnvironmentFields(environment, DEFAULT_SIMULATION_CONFIG.worldSize);
+    const perception = { neighbors: [], carcasses: [], fields, cell: cellIndexAt(fields, organism.position) };
+
+    const inputs = brainInputs({ ...organism, age: 50 }, perception, 100);
+
+    expect(inputs).toHaveLength(BRAIN_INPUTS.length);
+    expect(inputs[BRAIN_INPUTS.indexOf('age')]).toBeCloseTo(0.5);
+    expect(inputs[BRAIN_INPUTS.indexOf('energy')]).toBeGreaterThan(0);
+  });
+
+  test('decisions follow the output layer', () => {
+    const decision = decide(fixedBrain([5, 0, 0, 5, 5, -5, -5]), BRAIN_INPUTS.map(() => 0));
+
+    expect(decision.direction.x).toBeCloseTo(1);
+    expect(decision.throttle).toBeGreaterThan(0.99);
+    expect(decision).toMatchObject({ eat: true, mate: false, rest: false });
+  });
+
+  test('mutation and crossover keep the shape and are deterministic', () => {
+    const a = createBrain(createRng(seedToState(1)));
+    const b = createBrain(createRng(seedToState(2)));
+
+    const mutated = mutateBrain(a, createRng(3));
+    expect(mutated.weights.map(layer => layer.length)).toEqual(a.weights.map(layer => layer.length));
+    expect(mutated).not.toEqual(a);
+    expect(mutateBrain(a, createRng(3))).toEqual(mutated);
+
+    const child = crossoverBrains(a, b, createRng(3));
+    child.biases.forEach((layer, index) => layer.forEach((bias, neuron) => {
+      expect([a.biases[index][neuron], b.biases[index][neuron]]).toContain(bias);
+    }));
+  });
+
+  test('offspring inherit a brain only from parents that have one', () => {
+    const rng = createRng(seedToState(1));
+    const thinker = { ...createInitialOrganism({}, rng), brain: createBrain(rng) };
+    const plain = createInitialOrganism({}, rng);
+
+    expect(inheritBrain(plain, null, rng)).toBeUndefined();
+    expect(inheritBrain(plain, thinker, rng)?.layerSizes).toEqual(thinker.brain.layerSizes);
+
+    // Brainless parents leave the random sequence untouched
+    const state = rng.getState();
+    inheritBrain(plain, plain, rng);
+    expect(rng.getState()).toBe(state);
+  });
+
+  test('resting organisms stay put', () => {
+    const organism = createInitialOrganism({ motility: 1, reproduction: 0 }, createRng(seedToState(1)));
+    const resting = { ...organism, brain: fixedBrain([1, 0, 0, 1, 0, 0, 5]) };
+
+    const next = simulateGeneration({ organisms: [resting], environment, rngState: 7 });
+    const [rested] = next.organisms;
+
+    expect(rested.actions).toContain('rested');
+    expect(rested.targetPosition).toEqual(resting.position);
+  });
+
+  test('brain-driven and traits-only organisms evolve side by side', () => {
+    const rng = createRng(seedToState(5));
+    const organisms = createInitialPopulation({ reproduction: 0.8, brainShare: 0.5 }, 10, rng);
+    expect(organisms.filter(organism => organism.brain)).toHaveLength(5);
+
+    let state: any = { organisms, environment, rngState: rng.getState() };
+    for (let generation = 0; generation < 20; generation++) {
+      state = simulateGeneration(state);
+    }
+
+    const born = state.organisms.filter((organism: Organism) => organism.generation > 0);
+    expect(born.some((organism: Organism) => organism.brain)).toBe(true);
+    expect(born.some((organism: Organism) => !organism.brain)).toBe(true);
+  });
+});
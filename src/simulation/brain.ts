@@ -0,0 +1,186 @@
+import { Brain, Organism, Position } from '../frontend/stores/simulationStore';
+import { Rng } from './random';
+import { Perception, senseStimuli } from './steering';
+import { DEFAULT_SIMULATION_CONFIG, SimulationConfig } from './config';
+
+/**
+ * Evolvable neural-network brains.
+ *
+ * A brain is a small feed-forward network. Its inputs are the stimuli the
+ * organism senses and its own internal state; its outputs decide where it
+ * heads, how fast, and whether it eats, mates or rests this generation.
+ * Offspring inherit their parents' brains with mutations, so the network
+ * evolves alongside the traits. Organisms without a brain keep following
+ * their fixed steering behaviors.
+ */
+
+export const BRAIN_INPUTS = [
+  'foodX', 'foodY', 'foodZ',
+  'threatX', 'threatY', 'threatZ',
+  'lightX', 'lightY', 'lightZ',
+  'kinX', 'kinY', 'kinZ',
+  'energy', 'age'
+] as const;
+
+export const BRAIN_OUTPUTS = ['moveX', 'moveY', 'moveZ', 'speed', 'eat', 'mate', 'rest'] as const;
+
+export const HIDDEN_NEURONS = 8;
+const ENERGY_SCALE = 20; // Energy at which the energy input is about three quarters on
+
+export interface BrainDecision {
+  direction: Position; // Unit vector, or zero when the movement outputs cancel out
+  throttle: number;    // Fraction of top speed, 0-1
+  eat: boolean;
+  mate: boolean;
+  rest: boolean;
+}
+
+const randomWeights = (count: number, rng: Rng): number[] => {
+  const weights = new Array(count);
+  for (let i = 0; i < count; i++) {
+    weights[i] = rng.next() * 2 - 1;
+  }
+  return weights;
+};
+
+/**
+ * Create a brain with random weights
+ */
+export const createBrain = (rng: Rng): Brain => {
+  const layerSizes = [BRAIN_INPUTS.length, HIDDEN_NEURONS, BRAIN_OUTPUTS.length];
+  const weights: number[][] = [];
+  const biases: number[][] = [];
+
+  for (let layer = 1; layer < layerSizes.length; layer++) {
+    weights.push(randomWeights(layerSizes[layer] * layerSizes[layer - 1], rng));
+    biases.push(randomWeights(layerSizes[layer], rng));
+  }
+
+  return { layerSizes, weights, biases };
+};
+
+/**
+ * Input activations for an organism: the sensed stimuli as vectors, then
+ * its energy and how far through its life it is
+ */
+export const brainInputs = (organism: Organism, perception: Perception, maxAge: number): number[] => {
+  const { seekFood, fleePredators, seekLight, flockKin } = senseStimuli(organism, perception);
+  // Threats are sensed as where they are, not which way to run
+  return [
+    seekFood.x, seekFood.y, seekFood.z,
+    -fleePredators.x, -fleePredators.y, -fleePredators.z,
+    seekLight.x, seekLight.y, seekLight.z,
+    flockKin.x, flockKin.y, flockKin.z,
+    Math.tanh(Math.max(0, organism.energy) / ENERGY_SCALE),
+    Math.min(1, organism.age / maxAge)
+  ];
+};
+
+/**
+ * Run the network forwards, returning the activations of every layer, inputs first
+ */
+export const think = (brain: Brain, inputs: number[]): number[][] => {
+  const activations = [inputs];
+
+  for (let layer = 0; layer < brain.weights.length; layer++) {
+    const previous = activations[layer];
+    const weights = brain.weights[layer];
+    const biases = brain.biases[layer];
+    const next = new Array(biases.length);
+
+    for (let neuron = 0; neuron < biases.length; neuron++) {
+      let sum = biases[neuron];
+      const row = neuron * previous.length;
+      for (let input = 0; input < previous.length; input++) {
+        sum += weights[row + input] * previous[input];
+      }
+      next[neuron] = Math.tanh(sum);
+    }
+    activations.push(next);
+  }
+
+  return activations;
+};
+
+/**
+ * Turn the output layer into what the organism does this generation
+ */
+export const decide = (brain: Brain, inputs: number[]): BrainDecision => {
+  const activations = think(brain, inputs);
+  const [moveX, moveY, moveZ, speed, eat, mate, rest] = activations[activations.length - 1];
+  const magnitude = Math.sqrt(moveX * moveX + moveY * moveY + moveZ * moveZ);
+
+  return {
+    direction: magnitude > 0 ?
+      { x: moveX / magnitude, y: moveY / magnitude, z: moveZ / magnitude } :
+      { x: 0, y: 0, z: 0 },
+    throttle: (speed + 1) / 2,
+    eat: eat > 0,
+    mate: mate > 0,
+    rest: rest > 0
+  };
+};
+
+const mutateValues = (values: number[], config: SimulationConfig, rng: Rng): number[] => {
+  return values.map(value => rng.next() < config.brainMutationRate ?
+    value + (rng.next() * 2 - 1) * config.brainMutationStrength :
+    value
+  );
+};
+
+/**
+ * Copy a brain with some of its weights and biases nudged
+ */
+export const mutateBrain = (brain: Brain, rng: Rng, config: SimulationConfig = DEFAULT_SIMULATION_CONFIG): Brain => ({
+  layerSizes: [...brain.layerSizes],
+  weights: brain.weights.map(layer => mutateValues(layer, config, rng)),
+  biases: brain.biases.map(layer => mutateValues(layer, config, rng))
+});
+
+const sameShape = (a: Brain, b: Brain): boolean => {
+  return a.layerSizes.length === b.layerSizes.length &&
+    a.layerSizes.every((size, layer) => size === b.layerSizes[layer]);
+};
+
+/**
+ * Combine two brains neuron by neuron: each neuron takes its incoming
+ * weights and bias from one parent or the other, so it keeps working as a unit
+ */
+export const crossoverBrains = (a: Brain, b: Brain, rng: Rng): Brain => {
+  const weights: number[][] = [];
+  const biases: number[][] = [];
+
+  for (let layer = 0; layer < a.weights.length; layer++) {
+    const inputs = a.layerSizes[layer];
+    const layerWeights: number[] = [];
+    const layerBiases: number[] = [];
+
+    for (let neuron = 0; neuron < a.biases[layer].length; neuron++) {
+      const source = rng.next() < 0.5 ? a : b;
+      const row = neuron * inputs;
+      layerWeights.push(...source.weights[layer].slice(row, row + inputs));
+      layerBiases.push(source.biases[layer][neuron]);
+    }
+    weights.push(layerWeights);
+    biases.push(layerBiases);
+  }
+
+  return { layerSizes: [...a.layerSizes], weights, biases };
+};
+
+/**
+ * The brain an offspring is born with, if either parent has one. Brainless
+ * parents don't draw from the generator, keeping traits-only runs unchanged.
+ */
+export const inheritBrain = (
+  parent: Organism,
+  mate: Organism | null,
+  rng: Rng,
+  config: SimulationConfig = DEFAULT_SIMULATION_CONFIG
+): Brain | undefined => {
+  if (parent.brain && mate?.brain && sameShape(parent.brain, mate.brain)) {
+    return mutateBrain(crossoverBrains(parent.brain, mate.brain, rng), rng, config);
+  }
+  const inherited = parent.brain ?? mate?.brain;
+  return inherited ? mutateBrain(inherited, rng, config) : undefined;
+};
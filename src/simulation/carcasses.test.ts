@@ -0,0 +1,86 @@
+import { createInitialOrganism, simulateGeneration } from './core';
+import { DEFAULT_SIMULATION_CONFIG } from './config';
+import { createRng, seedToState } from './random';
+import { cellIndexAt, createEnvironmentFields, sampleField } from './fields';
+import { carcassEnergy, createCarcass, decayCarcasses } from './carcasses';
+import { InitialOrganismSettings } from '../frontend/stores/simulationStore';
+
+const environment = {
+  temperature: 0.5,
+  lightLevel: 0.8,
+  moisture: 0.6,
+  resources: {
+    organic: 100,
+    minerals: 100,
+    light: 100
+  }
+};
+
+const position = { x: 2, y: 2, z: 2 };
+
+// An organism that stays put at the shared position
+const createStationary = (settings: InitialOrganismSettings, seed = 1) => {
+  const organism = createInitialOrganism({ motility: 0, reproduction: 0, ...settings }, createRng(seedToState(seed)));
+  organism.position = position;
+  organism.targetPosition = position;
+  return organism;
+};
+
+describe('Carcasses', () => {
+  test('organisms that die leave a carcass holding their energy and body', () => {
+    const dying = { ...createStationary({ size: 2 }), energy: 0 };
+    const next = simulateGeneration({ organisms: [dying], environment, rngState: 7 });
+
+    expect(next.organisms).toHaveLength(0);
+    expect(next.carcasses).toHaveLength(1);
+    expect(next.carcasses[0]).toMatchObject({ id: dying.id, position, size: 2, diedAt: 1 });
+    // The carcass has already decayed for one generation
+    expect(next.carcasses[0].energy).toBeLessThan(2 * DEFAULT_SIMULATION_CONFIG.carcassBodyEnergy);
+    expect(next.carcasses[0].energy).toBeGreaterThan(0);
+  });
+
+  test('decay returns organic matter to the cell the carcass lies in', () => {
+    const fields = createEnvironmentFields(environment, DEFAULT_SIMULATION_CONFIG.worldSize);
+    const organism = createStationary({});
+    const carcass = createCarcass(organism, carcassEnergy(organism), 0);
+    const before = sampleField(fields, 'organic', position);
+
+    const [decayed] = decayCarcasses([carcass], fields);
+
+    expect(decayed.energy).toBeLessThan(carcass.energy);
+    expect(sampleField(fields, 'organic', position) - before).toBeCloseTo(carcass.energy - decayed.energy);
+  });
+
+  test('carcasses decay away completely', () => {
+    const fields = createEnvironmentFields(environment, DEFAULT_SIMULATION_CONFIG.worldSize);
+    let carcasses = [createCarcass(createStationary({}), 10, 0)];
+
+    for (let generation = 0; generation < 100 && carcasses.length > 0; generation++) {
+      carcasses = decayCarcasses(carcasses, fields);
+    }
+
+    expect(carcasses).toHaveLength(0);
+  });
+
+  test('scavengers eat from nearby carcasses', () => {
+    const scavenger = createStationary({ predation: 1, sensory: 1, photosynthesis: 1, metabolism: 0 });
+    const carcass = createCarcass(createStationary({}, 2), 20, 0);
+
+    const next = simulateGeneration({ organisms: [scavenger], carcasses: [carcass], environment, rngState: 7 });
+    const [fed] = next.organisms;
+
+    expect(fed.actions).toContain('scavenged');
+    expect(next.carcasses[0].energy).toBeLessThan(carcass.energy * 0.9);
+  });
+
+  test('organisms that do not photosynthesize absorb organic matter', () => {
+    const fields = createEnvironmentFields(environment, DEFAULT_SIMULATION_CONFIG.worldSize);
+    const decomposer = createStationary({ photosynthesis: 0, predation: 0 });
+
+    const next = simulateGeneration({ organisms: [decomposer], environment: { ...environment, fields }, rngState: 7 });
+    const cell = cellIndexAt(fields, position);
+
+    expect(next.organisms[0].actions).toContain('decomposed');
+    expect(next.environment.fields.values.organic[cell]).toBeLessThan(fields.values.organic[cell]);
+  });
+});
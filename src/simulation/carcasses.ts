@@ -0,0 +1,60 @@
+import { Carcass, Organism } from '../frontend/stores/simulationStore';
+import { EnvironmentFields, cellIndexAt, enrichField } from './fields';
+import { DEFAULT_SIMULATION_CONFIG, SimulationConfig } from './config';
+
+/**
+ * Carcasses left behind by dead organisms.
+ *
+ * A carcass holds the energy that was left in the organism plus the energy
+ * locked up in its body. Scavengers can eat it; whatever they leave decays
+ * a little every generation, returning organic matter and minerals to the
+ * cell the carcass lies in.
+ */
+
+const MIN_CARCASS_ENERGY = 0.1; // Carcasses below this are fully decomposed
+const ORGANIC_PER_ENERGY = 1;
+const MINERALS_PER_ENERGY = 0.05;
+
+/**
+ * Energy a carcass holds when an organism dies of starvation or old age
+ */
+export const carcassEnergy = (organism: Organism, config: SimulationConfig = DEFAULT_SIMULATION_CONFIG): number => {
+  return Math.max(0, organism.energy) + organism.size * config.carcassBodyEnergy;
+};
+
+export const createCarcass = (organism: Organism, energy: number, generation: number): Carcass => ({
+  id: organism.id,
+  position: { ...organism.position },
+  size: organism.size,
+  energy,
+  diedAt: generation
+});
+
+/**
+ * Decay every carcass by one generation, depositing the decayed energy into
+ * the fields as organic matter and minerals. Returns the carcasses that remain.
+ */
+export const decayCarcasses = (
+  carcasses: Carcass[],
+  fields: EnvironmentFields,
+  config: SimulationConfig = DEFAULT_SIMULATION_CONFIG
+): Carcass[] => {
+  const remaining: Carcass[] = [];
+  const rate = config.carcassDecayRate;
+
+  for (const carcass of carcasses) {
+    const decayed = carcass.energy * (1 - rate) < MIN_CARCASS_ENERGY ?
+      carcass.energy :
+      carcass.energy * rate;
+
+    const cell = cellIndexAt(fields, carcass.position);
+    enrichField(fields, 'organic', cell, decayed * ORGANIC_PER_ENERGY);
+    enrichField(fields, 'minerals', cell, decayed * MINERALS_PER_ENERGY);
+
+    if (decayed < carcass.energy) {
+      remaining.push({ ...carcass, energy: carcass.energy - decayed });
+    }
+  }
+
+  return remaining;
+};
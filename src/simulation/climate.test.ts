@@ -0,0 +1,146 @@
+import { createInitialOrganism, simulateGeneration } from './core';
+import { DEFAULT_SIMULATION_CONFIG, SimulationConfig } from './config';
+import { createRng, seedToState } from './random';
+import {
+  ClimateError,
+  advanceClimate,
+  climateConditions,
+  createClimateState,
+  daylightAt,
+  scheduleCatastrophe,
+  seasonAt,
+  seasonName,
+  validateClimateState,
+  validateScheduledCatastrophes
+} from './climate';
+
+// No drift and no random catastrophes, so only what a test schedules happens
+const calm: SimulationConfig = { ...DEFAULT_SIMULATION_CONFIG, climateDrift: 0, catastropheChance: 0 };
+
+const environment = {
+  temperature: 0.5,
+  lightLevel: 0.8,
+  moisture: 0.6,
+  resources: {
+    organic: 100,
+    minerals: 100,
+    light: 100
+  }
+};
+
+// Well-fed organisms that stay at the given positions
+const createState = (positions: { x: number; y: number; z: number }[], config: SimulationConfig) => {
+  const rng = createRng(seedToState(6));
+  const organisms = positions.map(position => {
+    const organism = createInitialOrganism({ motility: 0, reproduction: 0, defense: 0 }, rng);
+    organism.position = position;
+    organism.targetPosition = position;
+    return organism;
+  });
+  return { organisms, environment, currentGeneration: 0, rngState: rng.getState(), config };
+};
+
+describe('Climate', () => {
+  test('seasons and days follow their cycles', () => {
+    const { seasonLength, dayLength } = calm;
+
+    expect(seasonAt(calm, seasonLength / 4)).toBeCloseTo(1);
+    expect(seasonAt(calm, (3 * seasonLength) / 4)).toBeCloseTo(-1);
+    expect(seasonName(calm, 0)).toBe('spring');
+    expect(seasonName(calm, seasonLength / 4)).toBe('summer');
+    expect(seasonName(calm, seasonLength / 2)).toBe('autumn');
+    expect(seasonName(calm, (3 * seasonLength) / 4)).toBe('winter');
+
+    expect(daylightAt(calm, 0)).toBeCloseTo(1 + calm.daylightAmplitude);
+    expect(daylightAt(calm, dayLength / 2)).toBeCloseTo(1 - calm.daylightAmplitude);
+    // Over a whole day the light averages out
+    const day = Array.from({ length: dayLength }, (_, generation) => daylightAt(calm, generation));
+    expect(day.reduce((sum, light) => sum + light, 0) / dayLength).toBeCloseTo(1);
+  });
+
+  test('catastrophes shift the conditions while they last', () => {
+    const climate = createClimateState([{ kind: 'drought', generation: 2 }, { kind: 'meteor', generation: 2 }]);
+    const rng = createRng(seedToState(1));
+
+    const before = advanceClimate(climate, calm, 1, rng);
+    expect(before.active).toEqual([]);
+
+    const during = advanceClimate(before, calm, 2, rng);
+    expect(during.active.map(catastrophe => catastrophe.kind)).toEqual(['drought', 'meteor']);
+    expect(during.active[1].impact).toBeDefined();
+    expect(during.scheduled).toEqual([]);
+
+    const normal = climateConditions(before, calm, 2);
+    const dry = climateConditions(during, calm, 2);
+    expect(dry.moistureScale).toBeCloseTo(normal.moistureScale * 0.2);
+    expect(dry.lightScale).toBeCloseTo(normal.lightScale * 0.4);
+    expect(dry.temperatureOffset).toBeCloseTo(normal.temperatureOffset);
+
+    const after = advanceClimate(during, calm, 42, rng);
+    expect(after.active.map(catastrophe => catastrophe.kind)).toEqual(['drought']);
+  });
+
+  test('a catastrophe that strikes again starts over', () => {
+    const rng = createRng(seedToState(1));
+    const climate = advanceClimate(createClimateState([{ kind: 'plague', generation: 1 }]), calm, 1, rng);
+
+    const again = advanceClimate(scheduleCatastrophe(climate, { kind: 'plague', generation: 10 }), calm, 10, rng);
+
+    expect(again.active).toEqual([{ kind: 'plague', startedAt: 10, endsAt: 40 }]);
+  });
+
+  test('the climate only draws random numbers for drift and random catastrophes', () => {
+    const rng = createRng(seedToState(1));
+    const state = rng.getState();
+
+    advanceClimate(createClimateState(), calm, 1, rng);
+    expect(rng.getState()).toEqual(state);
+
+    const drifted = advanceClimate(createClimateState(), { ...calm, climateDrift: 0.1 }, 1, rng);
+    expect(rng.getState()).not.toEqual(state);
+    expect(Math.abs(drifted.drift)).toBeLessThanOrEqual(0.1);
+
+    const struck = advanceClimate(createClimateState(), { ...calm, catastropheChance: 1 }, 1, rng);
+    expect(struck.active).toHaveLength(1);
+  });
+
+  test('meteors kill organisms near the impact', () => {
+    const state = createState([{ x: 0, y: 0, z: 0 }, { x: 40, y: 0, z: 40 }], calm);
+    const scheduled = { ...state, environment: { ...environment, climate: createClimateState([{ kind: 'meteor', generation: 1 }]) } };
+    const impact = advanceClimate(scheduled.environment.climate, calm, 1, createRng(state.rngState)).active[0].impact!;
+    scheduled.organisms[0].position = impact;
+    scheduled.organisms[0].targetPosition = impact;
+
+    const next = simulateGeneration(scheduled);
+
+    expect(next.events.deaths).toContainEqual({ id: state.organisms[0].id, cause: 'catastrophe', age: 0 });
+    expect(next.organisms.map((organism: { id: string }) => organism.id)).toEqual([state.organisms[1].id]);
+    expect(next.environment.climate.active[0].kind).toBe('meteor');
+  });
+
+  test('plagues kill organisms without defense', () => {
+    const positions = Array.from({ length: 20 }, (_, index) => ({ x: index * 2 - 20, y: 0, z: 0 }));
+    const state = createState(positions, { ...calm, plagueMortality: 1 });
+    const climate = createClimateState([{ kind: 'plague', generation: 1 }]);
+
+    const next = simulateGeneration({ ...state, environment: { ...environment, climate } });
+
+    expect(next.organisms).toHaveLength(0);
+    expect(next.events.deaths.every((death: { cause: string }) => death.cause === 'catastrophe')).toBe(true);
+  });
+
+  test('rejects malformed climates and schedules', () => {
+    const climate = createClimateState([{ kind: 'iceAge', generation: 5 }]);
+
+    expect(validateClimateState(JSON.parse(JSON.stringify(climate)))).toEqual(climate);
+    expect(() => validateClimateState([])).toThrow(ClimateError);
+    expect(() => validateClimateState({ ...climate, drift: 'warm' })).toThrow('climate.drift');
+    expect(() => validateClimateState({ ...climate, active: [{ kind: 'flood', startedAt: 0, endsAt: 1 }] }))
+      .toThrow('climate.active[0].kind');
+    expect(() => validateClimateState({ ...climate, active: [{ kind: 'meteor', startedAt: 0, endsAt: 1, impact: { x: 0 } }] }))
+      .toThrow('climate.active[0].impact');
+    expect(() => validateScheduledCatastrophes([{ kind: 'drought', generation: -1 }], 'catastrophes'))
+      .toThrow('catastrophes[0].generation must be a non-negative integer');
+    expect(() => validateScheduledCatastrophes({}, 'catastrophes')).toThrow('catastrophes must be an array');
+  });
+});
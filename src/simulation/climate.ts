@@ -0,0 +1,269 @@
+import { Position } from '../frontend/stores/simulationStore';
+import { Rng } from './random';
+import { SimulationConfig } from './config';
+import { CapacityShift } from './fields';
+
+/**
+ * The environment timeline.
+ *
+ * On top of the world's own fields, the climate varies with the seasons,
+ * a day/night cycle, a slow random drift, and catastrophes that are either
+ * scheduled for a generation or strike at random. Between generations the
+ * fields move towards the levels the climate sets; meteors and plagues
+ * also kill organisms outright. The climate state lives in the environment,
+ * so it is saved and restored with the rest of a run.
+ */
+
+export const CATASTROPHE_KINDS = ['iceAge', 'meteor', 'drought', 'plague'] as const;
+
+export type CatastropheKind = typeof CATASTROPHE_KINDS[number];
+
+export interface CatastropheSpec {
+  label: string;
+  duration: number;          // Generations it lasts
+  temperatureOffset: number; // Added to the temperature fields regenerate towards
+  lightScale: number;        // Multiplies the light fields regenerate towards
+  moistureScale: number;     // Multiplies the moisture fields regenerate towards
+}
+
+export const CATASTROPHES: Record<CatastropheKind, CatastropheSpec> = {
+  iceAge: { label: 'Ice age', duration: 200, temperatureOffset: -0.35, lightScale: 1, moistureScale: 0.8 },
+  // The impact kills everything nearby; the dust it throws up dims and cools the world
+  meteor: { label: 'Meteor strike', duration: 40, temperatureOffset: -0.1, lightScale: 0.4, moistureScale: 1 },
+  drought: { label: 'Drought', duration: 100, temperatureOffset: 0.1, lightScale: 1, moistureScale: 0.2 },
+  plague: { label: 'Plague', duration: 30, temperatureOffset: 0, lightScale: 1, moistureScale: 1 }
+};
+
+export const SEASON_NAMES = ['spring', 'summer', 'autumn', 'winter'] as const;
+
+export type SeasonName = typeof SEASON_NAMES[number];
+
+const MAX_DRIFT = 0.3; // Largest temperature change the drift can build up
+
+export interface Catastrophe {
+  kind: CatastropheKind;
+  startedAt: number;
+  endsAt: number;     // First generation no longer affected
+  impact?: Position;  // Where a meteor struck
+}
+
+export interface ScheduledCatastrophe {
+  kind: CatastropheKind;
+  generation: number;
+}
+
+export interface ClimateState {
+  drift: number;                     // Temperature change built up by the random drift
+  active: Catastrophe[];
+  scheduled: ScheduledCatastrophe[]; // In generation order
+}
+
+/**
+ * The climate during one generation
+ */
+export interface ClimateConditions {
+  season: number;   // From -1 at midwinter to 1 at midsummer
+  daylight: number; // Light relative to the daily average
+  temperatureOffset: number;
+  lightScale: number;
+  moistureScale: number;
+}
+
+export class ClimateError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ClimateError';
+  }
+}
+
+const byGeneration = (a: ScheduledCatastrophe, b: ScheduledCatastrophe): number => a.generation - b.generation;
+
+export const createClimateState = (scheduled: ScheduledCatastrophe[] = []): ClimateState => ({
+  drift: 0,
+  active: [],
+  scheduled: [...scheduled].sort(byGeneration)
+});
+
+/**
+ * Plan a catastrophe; one planned for a generation already simulated strikes in the next
+ */
+export const scheduleCatastrophe = (climate: ClimateState, catastrophe: ScheduledCatastrophe): ClimateState => ({
+  ...climate,
+  scheduled: [...climate.scheduled, catastrophe].sort(byGeneration)
+});
+
+export const seasonAt = (config: SimulationConfig, generation: number): number => {
+  return Math.sin((2 * Math.PI * generation) / config.seasonLength);
+};
+
+export const seasonName = (config: SimulationConfig, generation: number): SeasonName => {
+  // Each season is centered on its turning point: spring on the rising equinox, summer on the peak
+  const phase = (generation % config.seasonLength) / config.seasonLength;
+  return SEASON_NAMES[Math.floor(((phase + 0.125) % 1) * 4)];
+};
+
+/**
+ * Light relative to the daily average, brightest at noon
+ */
+export const daylightAt = (config: SimulationConfig, generation: number): number => {
+  return 1 + config.daylightAmplitude * Math.cos((2 * Math.PI * generation) / config.dayLength);
+};
+
+/**
+ * Combine the cycles, the drift and the active catastrophes
+ */
+export const climateConditions = (
+  climate: ClimateState,
+  config: SimulationConfig,
+  generation: number
+): ClimateConditions => {
+  const season = seasonAt(config, generation);
+  const daylight = daylightAt(config, generation);
+  let temperatureOffset = config.seasonalAmplitude * season + climate.drift;
+  let lightScale = daylight;
+  let moistureScale = 1;
+  for (const catastrophe of climate.active) {
+    const spec = CATASTROPHES[catastrophe.kind];
+    temperatureOffset += spec.temperatureOffset;
+    lightScale *= spec.lightScale;
+    moistureScale *= spec.moistureScale;
+  }
+  return { season, daylight, temperatureOffset, lightScale, moistureScale };
+};
+
+/**
+ * How the conditions shift the levels the fields regenerate towards
+ */
+export const climateShift = (conditions: ClimateConditions): CapacityShift => ({
+  temperature: { scale: 1, offset: conditions.temperatureOffset },
+  light: { scale: conditions.lightScale, offset: 0 },
+  moisture: { scale: conditions.moistureScale, offset: 0 }
+});
+
+const startCatastrophe = (kind: CatastropheKind, generation: number, config: SimulationConfig, rng: Rng): Catastrophe => {
+  const catastrophe: Catastrophe = { kind, startedAt: generation, endsAt: generation + CATASTROPHES[kind].duration };
+  if (kind === 'meteor') {
+    const half = config.worldSize / 2;
+    catastrophe.impact = {
+      x: rng.next() * config.worldSize - half,
+      y: rng.next() * config.worldSize - half,
+      z: rng.next() * config.worldSize - half
+    };
+  }
+  return catastrophe;
+};
+
+/**
+ * Move the climate on to a generation: end expired catastrophes, let the
+ * temperature drift and start scheduled or random catastrophes. A
+ * catastrophe that strikes again while active starts over.
+ */
+export const advanceClimate = (
+  climate: ClimateState,
+  config: SimulationConfig,
+  generation: number,
+  rng: Rng
+): ClimateState => {
+  let active = climate.active.filter(catastrophe => catastrophe.endsAt > generation);
+  const start = (kind: CatastropheKind) => {
+    active = [...active.filter(catastrophe => catastrophe.kind !== kind), startCatastrophe(kind, generation, config, rng)];
+  };
+
+  // Only draw from the rng for what is switched on, so runs without it keep their sequence
+  let drift = climate.drift;
+  if (config.climateDrift > 0) {
+    drift = Math.max(-MAX_DRIFT, Math.min(MAX_DRIFT, drift + (rng.next() * 2 - 1) * config.climateDrift));
+  }
+
+  let due = 0;
+  while (due < climate.scheduled.length && climate.scheduled[due].generation <= generation) {
+    start(climate.scheduled[due++].kind);
+  }
+  if (config.catastropheChance > 0 && rng.next() < config.catastropheChance) {
+    start(CATASTROPHE_KINDS[Math.floor(rng.next() * CATASTROPHE_KINDS.length)]);
+  }
+
+  return { drift, active, scheduled: due > 0 ? climate.scheduled.slice(due) : climate.scheduled };
+};
+
+/**
+ * Meteors that struck in the given generation
+ */
+export const impactsAt = (climate: ClimateState, generation: number): Position[] => {
+  return climate.active
+    .filter(catastrophe => catastrophe.kind === 'meteor' && catastrophe.startedAt === generation && catastrophe.impact)
+    .map(catastrophe => catastrophe.impact as Position);
+};
+
+export const isActive = (climate: ClimateState, kind: CatastropheKind): boolean => {
+  return climate.active.some(catastrophe => catastrophe.kind === kind);
+};
+
+const isObject = (value: unknown): value is Record<string, any> => {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+};
+
+const isFiniteNumber = (value: unknown): value is number => {
+  return typeof value === 'number' && Number.isFinite(value);
+};
+
+const expectKind = (value: unknown, path: string): void => {
+  if (!CATASTROPHE_KINDS.includes(value as CatastropheKind)) {
+    throw new ClimateError(`${path} must be one of ${CATASTROPHE_KINDS.join(', ')}`);
+  }
+};
+
+const expectGeneration = (value: unknown, path: string): void => {
+  if (!Number.isInteger(value) || (value as number) < 0) {
+    throw new ClimateError(`${path} must be a non-negative integer`);
+  }
+};
+
+/**
+ * Check a list of scheduled catastrophes read from JSON, e.g. from an experiment config
+ */
+export const validateScheduledCatastrophes = (value: unknown, path: string): ScheduledCatastrophe[] => {
+  if (!Array.isArray(value)) {
+    throw new ClimateError(`${path} must be an array`);
+  }
+  value.forEach((entry: unknown, index: number) => {
+    if (!isObject(entry)) {
+      throw new ClimateError(`${path}[${index}] must be an object`);
+    }
+    expectKind(entry.kind, `${path}[${index}].kind`);
+    expectGeneration(entry.generation, `${path}[${index}].generation`);
+  });
+  return value as ScheduledCatastrophe[];
+};
+
+/**
+ * Check a climate state read from JSON, e.g. from a snapshot
+ */
+export const validateClimateState = (value: unknown, path = 'climate'): ClimateState => {
+  if (!isObject(value)) {
+    throw new ClimateError(`${path} must be an object`);
+  }
+  if (!isFiniteNumber(value.drift)) {
+    throw new ClimateError(`${path}.drift must be a finite number`);
+  }
+  if (!Array.isArray(value.active)) {
+    throw new ClimateError(`${path}.active must be an array`);
+  }
+  value.active.forEach((catastrophe: unknown, index: number) => {
+    const entryPath = `${path}.active[${index}]`;
+    if (!isObject(catastrophe)) {
+      throw new ClimateError(`${entryPath} must be an object`);
+    }
+    expectKind(catastrophe.kind, `${entryPath}.kind`);
+    expectGeneration(catastrophe.startedAt, `${entryPath}.startedAt`);
+    expectGeneration(catastrophe.endsAt, `${entryPath}.endsAt`);
+    if (catastrophe.impact !== undefined && (
+      !isObject(catastrophe.impact) ||
+      !isFiniteNumber(catastrophe.impact.x) || !isFiniteNumber(catastrophe.impact.y) || !isFiniteNumber(catastrophe.impact.z)
+    )) {
+      throw new ClimateError(`${entryPath}.impact must have finite x, y and z`);
+    }
+  });
+  validateScheduledCatastrophes(value.scheduled, `${path}.scheduled`);
+  return value as unknown as ClimateState;
+};
@@ -0,0 +1,77 @@
+import { createInitialPopulation, fastForward } from './core';
+import { createRng, seedToState } from './random';
+import {
+  CONFIG_PARAMETERS,
+  DEFAULT_SIMULATION_CONFIG,
+  resolveSimulationConfig,
+  validateConfigChanges,
+  validateSimulationConfig
+} from './config';
+
+const environment = {
+  temperature: 0.5,
+  lightLevel: 0.8,
+  moisture: 0.6,
+  resources: {
+    organic: 100,
+    minerals: 100,
+    light: 100
+  }
+};
+
+const createState = (seed: number, config?: object) => {
+  const rng = createRng(seedToState(seed));
+  return {
+    organisms: createInitialPopulation({ reproduction: 0.6 }, 8, rng),
+    environment,
+    currentGeneration: 0,
+    rngState: rng.getState(),
+    config
+  };
+};
+
+describe('Simulation Config', () => {
+  test('the defaults are a valid config within every range', () => {
+    expect(validateSimulationConfig(DEFAULT_SIMULATION_CONFIG)).toBe(DEFAULT_SIMULATION_CONFIG);
+    for (const [name, spec] of Object.entries(CONFIG_PARAMETERS)) {
+      const value = DEFAULT_SIMULATION_CONFIG[name as keyof typeof CONFIG_PARAMETERS];
+      expect(value).toBeGreaterThanOrEqual(spec.min);
+      expect(value).toBeLessThanOrEqual(spec.max);
+    }
+  });
+
+  test('rejects unknown parameters and values out of range', () => {
+    expect(() => validateConfigChanges({ gravity: 1 })).toThrow('config.gravity is not a simulation parameter');
+    expect(() => validateConfigChanges({ mutationRate: 2 })).toThrow('config.mutationRate must be a number from 0 to 1');
+    expect(() => validateConfigChanges({ maxAge: 10.5 })).toThrow('config.maxAge must be an integer');
+    expect(() => validateConfigChanges({ steeringWeights: { dance: 1 } }))
+      .toThrow('config.steeringWeights.dance is not a steering behavior');
+    expect(() => validateConfigChanges('fast')).toThrow('config must be an object');
+  });
+
+  test('changes are applied on top of a base config', () => {
+    const tuned = resolveSimulationConfig({ maxAge: 50, steeringWeights: { seekFood: 3 } });
+
+    expect(tuned.maxAge).toBe(50);
+    expect(tuned.mutationRate).toBe(DEFAULT_SIMULATION_CONFIG.mutationRate);
+    expect(tuned.steeringWeights).toEqual({ ...DEFAULT_SIMULATION_CONFIG.steeringWeights, seekFood: 3 });
+    expect(resolveSimulationConfig({ mutationRate: 0.5 }, tuned).maxAge).toBe(50);
+  });
+
+  test('a state without a config runs with the defaults', () => {
+    const withDefaults = fastForward(createState(3, DEFAULT_SIMULATION_CONFIG), 15);
+    const withoutConfig = fastForward(createState(3), 15);
+
+    expect(withDefaults.organisms).toEqual(withoutConfig.organisms);
+  });
+
+  test('parameters change the course of a running simulation', () => {
+    const midway = fastForward(createState(9), 10);
+
+    const original = fastForward(midway, 10);
+    const shortLived = fastForward({ ...midway, config: resolveSimulationConfig({ maxAge: 12 }) }, 10);
+
+    expect(original.organisms.some((organism: { age: number }) => organism.age >= 12)).toBe(true);
+    expect(shortLived.organisms.every((organism: { age: number }) => organism.age < 12)).toBe(true);
+  });
+});
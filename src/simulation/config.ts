@@ -0,0 +1,242 @@
+import { DEFAULT_STEERING_WEIGHTS, STEERING_BEHAVIORS, SteeringWeights } from './steering';
+
+/**
+ * Tunable simulation parameters.
+ *
+ * The config lives in the simulation state and is passed to every process
+ * function, so it can be edited between generations of a running
+ * simulation. Every numeric parameter has a range in CONFIG_PARAMETERS,
+ * which validation enforces and the sandbox controls offer.
+ */
+
+export interface SimulationConfig {
+  worldSize: number;                   // Edge length of the world cube
+  initialEnergy: number;               // Energy of organisms in a new population
+  baseEnergyConsumption: number;       // Metabolism per generation before traits and size
+  maxAge: number;
+  comfortTemperature: number;
+  temperatureStress: number;           // Extra metabolism per unit of temperature away from comfortable
+  toleranceRange: number;              // Temperature difference tolerated without stress at full temperature tolerance
+  toleranceCost: number;               // Energy per generation at full temperature tolerance
+  reproductionEnergyCost: number;
+  reproductionEnergyThreshold: number; // Energy needed before reproducing
+  mateSimilarityThreshold: number;     // Minimum trait similarity for a mate to be accepted
+  speciesThreshold: number;            // Largest trait distance from a species' representative to belong to it
+  mutationRate: number;                // Chance of each trait mutating in offspring
+  mutationStrength: number;            // Largest change of a mutated trait
+  brainMutationRate: number;           // Chance of each brain weight mutating
+  brainMutationStrength: number;       // Largest change of a mutated brain weight
+  lightShading: number;                // Light absorbed from a cell per unit of energy photosynthesized
+  mineralUptake: number;               // Minerals taken from a cell per unit of energy photosynthesized
+  mineralSaturation: number;           // Mineral level below which photosynthesis slows down
+  moistureSaturation: number;          // Moisture level below which photosynthesis slows down
+  predationScraps: number;             // Share of a prey's energy left behind in its carcass
+  scavengeBite: number;                // Energy a pure predator can tear from a carcass per generation
+  scavengeEfficiency: number;          // Share of a bite that is digested; the rest is wasted
+  decompositionRate: number;           // Organic matter absorbed per generation by a non-photosynthetic organism
+  organicEnergy: number;               // Energy per unit of organic matter absorbed
+  carcassBodyEnergy: number;           // Energy a carcass holds per unit of body size
+  carcassDecayRate: number;            // Fraction of a carcass's energy that decays per generation
+  maxSpeed: number;                    // Distance covered per generation at full motility
+  movementCost: number;                // Energy per unit of distance moved
+  sensingCost: number;                 // Energy per generation at full sensory acuity
+  seasonLength: number;                // Generations in a year
+  seasonalAmplitude: number;           // Temperature swing from the mean to midsummer or midwinter
+  dayLength: number;                   // Generations in a day/night cycle
+  daylightAmplitude: number;           // Share light rises by at noon and falls by at midnight
+  climateDrift: number;                // Largest random temperature change per generation
+  catastropheChance: number;           // Chance per generation of a random catastrophe
+  meteorRadius: number;                // Distance from a meteor impact within which everything dies
+  plagueMortality: number;             // Chance per generation of an undefended organism dying of a plague
+  steeringWeights: SteeringWeights;
+}
+
+export type NumericParameter = Exclude<keyof SimulationConfig, 'steeringWeights'>;
+
+/**
+ * Changes to a config; steering weights can be changed one at a time
+ */
+export type SimulationConfigChanges = Partial<Omit<SimulationConfig, 'steeringWeights'>> & {
+  steeringWeights?: Partial<SteeringWeights>;
+};
+
+export const DEFAULT_SIMULATION_CONFIG: SimulationConfig = {
+  worldSize: 100,
+  initialEnergy: 25, // Enough to reproduce right away
+  baseEnergyConsumption: 0.1,
+  maxAge: 100,
+  comfortTemperature: 0.5,
+  temperatureStress: 1.5,
+  toleranceRange: 0.3,
+  toleranceCost: 0.02,
+  reproductionEnergyCost: 10,
+  reproductionEnergyThreshold: 20,
+  mateSimilarityThreshold: 0.8,
+  speciesThreshold: 0.3,
+  mutationRate: 0.1,
+  mutationStrength: 0.1,
+  brainMutationRate: 0.1,
+  brainMutationStrength: 0.5,
+  lightShading: 5,
+  mineralUptake: 0.1,
+  mineralSaturation: 20,
+  moistureSaturation: 0.3,
+  predationScraps: 0.3,
+  scavengeBite: 2,
+  scavengeEfficiency: 0.5,
+  decompositionRate: 0.5,
+  organicEnergy: 0.5,
+  carcassBodyEnergy: 3,
+  carcassDecayRate: 0.1,
+  maxSpeed: 2,
+  movementCost: 0.25,
+  sensingCost: 0.05,
+  seasonLength: 100,
+  seasonalAmplitude: 0.15,
+  dayLength: 10,
+  daylightAmplitude: 0.3,
+  climateDrift: 0.002,
+  catastropheChance: 0.001,
+  meteorRadius: 20,
+  plagueMortality: 0.05,
+  steeringWeights: DEFAULT_STEERING_WEIGHTS
+};
+
+export const PARAMETER_GROUPS = ['World', 'Life cycle', 'Reproduction', 'Mutation', 'Feeding', 'Movement', 'Climate'] as const;
+
+export type ParameterGroup = typeof PARAMETER_GROUPS[number];
+
+export interface ParameterSpec {
+  group: ParameterGroup;
+  label: string;
+  min: number;
+  max: number;
+  step: number;
+  integer?: boolean;
+}
+
+export const CONFIG_PARAMETERS: Record<NumericParameter, ParameterSpec> = {
+  worldSize: { group: 'World', label: 'World size', min: 20, max: 500, step: 10 },
+  initialEnergy: { group: 'Life cycle', label: 'Initial energy', min: 1, max: 100, step: 1 },
+  baseEnergyConsumption: { group: 'Life cycle', label: 'Base metabolism', min: 0, max: 1, step: 0.01 },
+  maxAge: { group: 'Life cycle', label: 'Max age', min: 1, max: 1000, step: 1, integer: true },
+  comfortTemperature: { group: 'Life cycle', label: 'Comfort temperature', min: 0, max: 1, step: 0.05 },
+  temperatureStress: { group: 'Life cycle', label: 'Temperature stress', min: 0, max: 5, step: 0.1 },
+  toleranceRange: { group: 'Life cycle', label: 'Tolerance range', min: 0, max: 1, step: 0.05 },
+  toleranceCost: { group: 'Life cycle', label: 'Tolerance cost', min: 0, max: 1, step: 0.01 },
+  reproductionEnergyCost: { group: 'Reproduction', label: 'Reproduction cost', min: 0, max: 100, step: 1 },
+  reproductionEnergyThreshold: { group: 'Reproduction', label: 'Reproduction threshold', min: 0, max: 200, step: 1 },
+  mateSimilarityThreshold: { group: 'Reproduction', label: 'Mate similarity', min: 0, max: 1, step: 0.05 },
+  speciesThreshold: { group: 'Reproduction', label: 'Species distance', min: 0.01, max: 3, step: 0.01 },
+  mutationRate: { group: 'Mutation', label: 'Mutation rate', min: 0, max: 1, step: 0.01 },
+  mutationStrength: { group: 'Mutation', label: 'Mutation strength', min: 0, max: 1, step: 0.01 },
+  brainMutationRate: { group: 'Mutation', label: 'Brain mutation rate', min: 0, max: 1, step: 0.01 },
+  brainMutationStrength: { group: 'Mutation', label: 'Brain mutation strength', min: 0, max: 2, step: 0.05 },
+  lightShading: { group: 'Feeding', label: 'Light shading', min: 0, max: 50, step: 0.5 },
+  mineralUptake: { group: 'Feeding', label: 'Mineral uptake', min: 0, max: 5, step: 0.05 },
+  mineralSaturation: { group: 'Feeding', label: 'Mineral saturation', min: 0.1, max: 200, step: 1 },
+  moistureSaturation: { group: 'Feeding', label: 'Moisture saturation', min: 0.01, max: 1, step: 0.01 },
+  predationScraps: { group: 'Feeding', label: 'Predation scraps', min: 0, max: 1, step: 0.05 },
+  scavengeBite: { group: 'Feeding', label: 'Scavenge bite', min: 0, max: 20, step: 0.5 },
+  scavengeEfficiency: { group: 'Feeding', label: 'Scavenge efficiency', min: 0, max: 1, step: 0.05 },
+  decompositionRate: { group: 'Feeding', label: 'Decomposition rate', min: 0, max: 10, step: 0.1 },
+  organicEnergy: { group: 'Feeding', label: 'Organic energy', min: 0, max: 5, step: 0.05 },
+  carcassBodyEnergy: { group: 'Feeding', label: 'Carcass body energy', min: 0, max: 20, step: 0.5 },
+  carcassDecayRate: { group: 'Feeding', label: 'Carcass decay rate', min: 0.01, max: 1, step: 0.01 },
+  maxSpeed: { group: 'Movement', label: 'Max speed', min: 0, max: 20, step: 0.5 },
+  movementCost: { group: 'Movement', label: 'Movement cost', min: 0, max: 5, step: 0.05 },
+  sensingCost: { group: 'Movement', label: 'Sensing cost', min: 0, max: 1, step: 0.01 },
+  seasonLength: { group: 'Climate', label: 'Year length', min: 2, max: 2000, step: 1, integer: true },
+  seasonalAmplitude: { group: 'Climate', label: 'Seasonal swing', min: 0, max: 0.5, step: 0.01 },
+  dayLength: { group: 'Climate', label: 'Day length', min: 2, max: 200, step: 1, integer: true },
+  daylightAmplitude: { group: 'Climate', label: 'Day/night swing', min: 0, max: 1, step: 0.05 },
+  climateDrift: { group: 'Climate', label: 'Climate drift', min: 0, max: 0.05, step: 0.001 },
+  catastropheChance: { group: 'Climate', label: 'Catastrophe chance', min: 0, max: 0.1, step: 0.001 },
+  meteorRadius: { group: 'Climate', label: 'Meteor radius', min: 0, max: 200, step: 1 },
+  plagueMortality: { group: 'Climate', label: 'Plague mortality', min: 0, max: 1, step: 0.01 }
+};
+
+export const STEERING_WEIGHT_SPEC = { min: 0, max: 5, step: 0.1 };
+
+export class ConfigError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ConfigError';
+  }
+}
+
+const isObject = (value: unknown): value is Record<string, any> => {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+};
+
+const checkInRange = (
+  value: unknown,
+  spec: { min: number, max: number, integer?: boolean },
+  path: string
+): void => {
+  if (typeof value !== 'number' || !Number.isFinite(value) || value < spec.min || value > spec.max) {
+    throw new ConfigError(`${path} must be a number from ${spec.min} to ${spec.max}`);
+  }
+  if (spec.integer && !Number.isInteger(value)) {
+    throw new ConfigError(`${path} must be an integer`);
+  }
+};
+
+/**
+ * Check a set of config changes, any of which may be missing
+ */
+export const validateConfigChanges = (data: unknown, path = 'config'): SimulationConfigChanges => {
+  if (!isObject(data)) {
+    throw new ConfigError(`${path} must be an object`);
+  }
+
+  for (const [key, value] of Object.entries(data)) {
+    if (key === 'steeringWeights') {
+      if (!isObject(value)) {
+        throw new ConfigError(`${path}.steeringWeights must be an object`);
+      }
+      for (const [behavior, weight] of Object.entries(value)) {
+        if (!STEERING_BEHAVIORS.includes(behavior as typeof STEERING_BEHAVIORS[number])) {
+          throw new ConfigError(`${path}.steeringWeights.${behavior} is not a steering behavior`);
+        }
+        checkInRange(weight, STEERING_WEIGHT_SPEC, `${path}.steeringWeights.${behavior}`);
+      }
+    } else if (key in CONFIG_PARAMETERS) {
+      checkInRange(value, CONFIG_PARAMETERS[key as NumericParameter], `${path}.${key}`);
+    } else {
+      throw new ConfigError(`${path}.${key} is not a simulation parameter`);
+    }
+  }
+
+  return data as SimulationConfigChanges;
+};
+
+/**
+ * Check a complete config, such as one saved in a snapshot
+ */
+export const validateSimulationConfig = (data: unknown, path = 'config'): SimulationConfig => {
+  const changes = validateConfigChanges(data, path);
+  for (const key of Object.keys(CONFIG_PARAMETERS)) {
+    if (!(key in changes)) {
+      throw new ConfigError(`${path}.${key} is missing`);
+    }
+  }
+  for (const behavior of STEERING_BEHAVIORS) {
+    if (changes.steeringWeights?.[behavior] === undefined) {
+      throw new ConfigError(`${path}.steeringWeights.${behavior} is missing`);
+    }
+  }
+  return changes as SimulationConfig;
+};
+
+/**
+ * Apply changes on top of a config, the defaults unless given
+ */
+export const resolveSimulationConfig = (
+  changes: SimulationConfigChanges = {},
+  base: SimulationConfig = DEFAULT_SIMULATION_CONFIG
+): SimulationConfig => ({
+  ...base,
+  ...changes,
+  steeringWeights: { ...base.steeringWeights, ...changes.steeringWeights }
+});
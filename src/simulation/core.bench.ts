@@ -0,0 +1,84 @@
+import { createInitialOrganism, simulateGeneration } from './core';
+import { createRng, seedToState } from './random';
+import { createSpatialIndex } from './spatialIndex';
+
+/**
+ * Engine throughput benchmarks. These are excluded from `npm test`;
+ * run them with `npm run bench`.
+ */
+
+const createLargeState = (count: number, seed: number) => {
+  const rng = createRng(seedToState(seed));
+  const organisms = Array.from({ length: count }, () => createInitialOrganism({
+    motility: 0.5,
+    predation: 0.5,
+    defense: 0.3,
+    sensory: 0.8,
+    reproduction: 0.2
+  }, rng));
+  
+  return {
+    organisms,
+    environment: {
+      temperature: 0.5,
+      lightLevel: 0.8,
+      moisture: 0.6,
+      resources: {
+        organic: 100,
+        minerals: 100,
+        light: 100
+      }
+    },
+    currentGeneration: 0,
+    rngState: rng.getState()
+  };
+};
+
+describe('Simulation Benchmarks', () => {
+  test.each([1000, 10000])('simulateGeneration with %i organisms', count => {
+    let state = createLargeState(count, 1);
+    const generations = 5;
+    
+    const start = performance.now();
+    for (let i = 0; i < generations; i++) {
+      state = simulateGeneration(state);
+    }
+    const perGeneration = (performance.now() - start) / generations;
+    
+    console.log(`${count} organisms: ${perGeneration.toFixed(1)}ms per generation`);
+    
+    // A generation has to fit comfortably inside the one second tick at 1x speed
+    expect(perGeneration).toBeLessThan(500);
+  });
+  
+  test('spatial index neighbor queries versus a linear scan', () => {
+    const { organisms } = createLargeState(10000, 2);
+    const radius = 8;
+    
+    let start = performance.now();
+    const index = createSpatialIndex<typeof organisms[number]>(10);
+    organisms.forEach(organism => index.insert(organism.id, organism.position, organism));
+    let indexedMatches = 0;
+    for (const organism of organisms) {
+      indexedMatches += index.queryRadius(organism.position, radius).length;
+    }
+    const indexedTime = performance.now() - start;
+    
+    start = performance.now();
+    let scannedMatches = 0;
+    for (const organism of organisms) {
+      for (const other of organisms) {
+        const dx = other.position.x - organism.position.x;
+        const dy = other.position.y - organism.position.y;
+        const dz = other.position.z - organism.position.z;
+        if (dx * dx + dy * dy + dz * dz <= radius * radius) scannedMatches++;
+      }
+    }
+    const scannedTime = performance.now() - start;
+    
+    console.log(`10000 radius queries: ${indexedTime.toFixed(1)}ms indexed, ${scannedTime.toFixed(1)}ms linear scan`);
+    
+    expect(indexedMatches).toBe(scannedMatches);
+    expect(indexedTime).toBeLessThan(scannedTime);
+  });
+});
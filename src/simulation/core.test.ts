@@ -1,8 +1,9 @@
-import { createInitialOrganism, simulateGeneration } from './core';
+import { createInitialOrganism, createInitialPopulation, simulateGeneration, fastForward } from './core';
+import { createRng, seedToState } from './random';
 
 describe('Simulation Core', () => {
   test('createInitialOrganism creates organism with default traits', () => {
-    const organism = createInitialOrganism({});
+    const organism = createInitialOrganism({}, createRng(seedToState(1)));
     
     expect(organism).toBeDefined();
     expect(organism.id).toBeDefined();
@@ -20,7 +21,7 @@ describe('Simulation Core', () => {
       size: 2.0
     };
     
-    const organism = createInitialOrganism(customTraits);
+    const organism = createInitialOrganism(customTraits, createRng(seedToState(1)));
     
     expect(organism.traits.motility).toBe(0.8);
     expect(organism.traits.photosynthesis).toBe(0.2);
@@ -32,7 +33,7 @@ describe('Simulation Core', () => {
       motility: 0.5,
       photosynthesis: 0.5,
       size: 1.0
-    });
+    }, createRng(seedToState(1)));
     
     const state = {
       organisms: [initialOrganism],
@@ -64,7 +65,7 @@ describe('Simulation Core', () => {
     const initialOrganism = createInitialOrganism({
       reproduction: 1.0, // Max reproduction trait
       size: 1.0
-    });
+    }, createRng(seedToState(1)));
     
     // Give the organism lots of energy to ensure reproduction
     initialOrganism.energy = 100;
@@ -96,4 +97,140 @@ describe('Simulation Core', () => {
     const offspring = currentState.organisms.filter(o => o.generation > 0);
     expect(offspring.length).toBeGreaterThan(0);
   });
-}); 
\ No newline at end of file
+  
+  describe('sexual reproduction', () => {
+    const environment = {
+      temperature: 0.5,
+      lightLevel: 0.8,
+      moisture: 0.6,
+      resources: {
+        organic: 100,
+        minerals: 100,
+        light: 100
+      }
+    };
+    
+    // Organisms that always reproduce sexually, placed side by side
+    const createMates = (seed: number, count: number, traits = {}) => {
+      const rng = createRng(seedToState(seed));
+      const organisms = Array.from({ length: count }, () => {
+        const organism = createInitialOrganism({ reproduction: 1, mating: 1, sensory: 1, motility: 0, ...traits }, rng);
+        organism.position = { x: 0, y: 0, z: 0 };
+        organism.targetPosition = organism.position;
+        organism.energy = 100;
+        return organism;
+      });
+      return { organisms, environment, currentGeneration: 0, rngState: rng.getState() };
+    };
+    
+    test('offspring record both parents, who share the energy cost', () => {
+      const state = createMates(1, 2);
+      const [first, second] = state.organisms;
+      
+      const nextState = simulateGeneration(state);
+      const offspring = nextState.events.births[0];
+      
+      expect(offspring).toBeDefined();
+      // The first organism processed finds its partner before the partner's turn
+      expect(offspring.parentIds).toEqual([first.id, second.id]);
+      expect(offspring.parentId).toBe(first.id);
+      
+      const mate = nextState.organisms.find((organism: { id: string }) => organism.id === second.id);
+      expect(mate.actions).toContain('mated');
+      expect(mate.energy).toBeLessThan(100);
+    });
+    
+    test('organisms seeking a mate do not reproduce alone', () => {
+      const nextState = simulateGeneration(createMates(2, 1));
+      
+      expect(nextState.events.births).toHaveLength(0);
+    });
+    
+    test('dissimilar partners are rejected', () => {
+      const state = createMates(3, 2);
+      state.organisms[1].traits = { ...state.organisms[1].traits, photosynthesis: 1, predation: 1, defense: 1, metabolism: 0 };
+      
+      const nextState = simulateGeneration(state);
+      
+      expect(nextState.events.births).toHaveLength(0);
+    });
+    
+    test('each trait is inherited from one of the two parents', () => {
+      for (let seed = 1; seed <= 10; seed++) {
+        const state = createMates(seed, 2);
+        state.organisms[0].traits.motility = 0.2;
+        state.organisms[1].traits.motility = 0.6;
+        
+        const offspring = simulateGeneration(state).events.births[0];
+        const distance = Math.min(
+          Math.abs(offspring.traits.motility - 0.2),
+          Math.abs(offspring.traits.motility - 0.6)
+        );
+        
+        // Mutation moves a trait by at most 0.1
+        expect(distance).toBeLessThanOrEqual(0.1 + 1e-9);
+      }
+    });
+    
+    test('asexual organisms never seek mates', () => {
+      const state = createMates(4, 2, { mating: 0 });
+      
+      const births = simulateGeneration(state).events.births;
+      
+      expect(births).toHaveLength(2);
+      births.forEach((offspring: { parentIds?: string[] }) => expect(offspring.parentIds).toBeUndefined());
+    });
+  });
+  
+  describe('seeded runs', () => {
+    const createSeededState = (seed: number) => {
+      const rng = createRng(seedToState(seed));
+      return {
+        organisms: createInitialPopulation({ motility: 0.5, predation: 0.4, reproduction: 0.6 }, 10, rng),
+        environment: {
+          temperature: 0.5,
+          lightLevel: 0.8,
+          moisture: 0.6,
+          resources: {
+            organic: 100,
+            minerals: 100,
+            light: 100
+          }
+        },
+        currentGeneration: 0,
+        seed,
+        rngState: rng.getState()
+      };
+    };
+    
+    test('the same seed produces identical initial populations', () => {
+      expect(createSeededState(42)).toEqual(createSeededState(42));
+    });
+    
+    test('the same seed produces identical generations', () => {
+      const runA = fastForward(createSeededState(42), 50);
+      const runB = fastForward(createSeededState(42), 50);
+      
+      expect(runA.organisms.length).toBeGreaterThan(0);
+      expect(runA).toEqual(runB);
+    });
+    
+    test('stepping generation by generation matches fast forward', () => {
+      let stepped = createSeededState(7);
+      for (let i = 0; i < 20; i++) {
+        stepped = { ...simulateGeneration(stepped), currentGeneration: stepped.currentGeneration + 1 };
+      }
+      const forwarded = fastForward(createSeededState(7), 20);
+      
+      expect(stepped.organisms).toEqual(forwarded.organisms);
+      expect(stepped.rngState).toBe(forwarded.rngState);
+    });
+    
+    test('different seeds diverge', () => {
+      const runA = fastForward(createSeededState(1), 10);
+      const runB = fastForward(createSeededState(2), 10);
+      
+      expect(runA.organisms).not.toEqual(runB.organisms);
+    });
+  });
+});
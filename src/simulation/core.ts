@@ -1,42 +1,116 @@
-import { Organism, Position, OrganismTraits, InitialOrganismSettings } from '../frontend/stores/simulationStore';
+import { Organism, Position, OrganismTraits, InitialOrganismSettings, Carcass, Environment } from '../frontend/stores/simulationStore';
+import { Rng, createRng, seedToState } from './random';
+import { SpatialIndex, createSpatialIndex } from './spatialIndex';
+import { updateLineage } from './lineage';
+import { SpeciesEvent, updateSpecies } from './species';
+import {
+  MutationBias,
+  MutationBiasTable,
+  DEFAULT_MUTATION_BIAS,
+  computeMutationBias,
+  combineBehavior,
+  createBehaviorCounters
+} from './behavior';
+import {
+  EnvironmentFields,
+  cellIndexAt,
+  cloneFields,
+  createEnvironmentFields,
+  depleteField,
+  fieldMean,
+  stepFields
+} from './fields';
+import { biomeAt } from './biomes';
+import { carcassEnergy, createCarcass, decayCarcasses } from './carcasses';
+import { Perception, sensoryRange, steer } from './steering';
+import { BrainDecision, brainInputs, createBrain, decide, inheritBrain } from './brain';
+import { DEFAULT_SIMULATION_CONFIG, SimulationConfig, resolveSimulationConfig } from './config';
+import { advanceClimate, climateConditions, climateShift, createClimateState, impactsAt, isActive } from './climate';
+import { EnergyLedger, createEnergyLedger, energyStock, recordSink, recordSource } from './energy';
+import { assertInvariants } from './invariants';
+import { TRAIT_NAMES } from './traits';
 
 // Constants for simulation
-const WORLD_SIZE = { x: 100, y: 100, z: 100 };
-const BASE_ENERGY_CONSUMPTION = 0.1;
-const MUTATION_RATE = 0.1;
-const MUTATION_STRENGTH = 0.1;
-const MAX_AGE = 100;
-const REPRODUCTION_ENERGY_COST = 10;
-const REPRODUCTION_ENERGY_THRESHOLD = 20;
+export const DEFAULT_ENVIRONMENT: Environment = {
+  temperature: 0.5, // Normalized value 0-1
+  lightLevel: 0.8,
+  moisture: 0.6,
+  resources: {
+    organic: 100,
+    minerals: 100,
+    light: 100
+  }
+};
+const SPATIAL_CELL_SIZE = 10; // Matches the largest possible sensory range
+
+// killed: removed by the user from the inspector; catastrophe: struck by a meteor or a plague
+export type DeathCause = 'starvation' | 'old_age' | 'predation' | 'killed' | 'catastrophe';
+
+export interface DeathEvent {
+  id: string;
+  cause: DeathCause;
+  age: number;
+  killerId?: string;
+}
+
+/**
+ * Births, deaths and energy flows that happened during one call to simulateGeneration
+ */
+export interface GenerationEvents {
+  births: Organism[];
+  deaths: DeathEvent[];
+  species?: SpeciesEvent[]; // Foundings and extinctions, when the run tracks species
+  energy?: EnergyLedger;
+}
+
+export interface SimulationOptions {
+  strict?: boolean; // Check the engine's invariants after every generation
+}
 
 // Utils
 /**
  * Generate a random UUID for organism identification
  */
-const generateId = (): string => {
-  return Math.random().toString(36).substring(2, 15) + 
-         Math.random().toString(36).substring(2, 15);
+export const generateId = (rng: Rng): string => {
+  return rng.next().toString(36).substring(2, 15) + 
+         rng.next().toString(36).substring(2, 15);
 };
 
 /**
  * Calculate Euclidean distance between two positions
  */
 const calculateDistance = (pos1: Position, pos2: Position): number => {
-  return Math.sqrt(
-    Math.pow(pos2.x - pos1.x, 2) + 
-    Math.pow(pos2.y - pos1.y, 2) + 
-    Math.pow(pos2.z - pos1.z, 2)
-  );
+  const dx = pos2.x - pos1.x;
+  const dy = pos2.y - pos1.y;
+  const dz = pos2.z - pos1.z;
+  return Math.sqrt(dx * dx + dy * dy + dz * dz);
 };
 
 /**
- * Inherit traits from parent with possible mutations
+ * Clamp a position to the world cube
  */
-const inheritTraits = (parentTraits: OrganismTraits): OrganismTraits => {
-  const mutateValue = (value: number): number => {
-    if (Math.random() < MUTATION_RATE) {
-      // Apply mutation
-      const mutationAmount = (Math.random() * 2 - 1) * MUTATION_STRENGTH;
+const clampToWorld = (position: Position, config: SimulationConfig): Position => {
+  const half = config.worldSize / 2;
+  return {
+    x: Math.max(-half, Math.min(half, position.x)),
+    y: Math.max(-half, Math.min(half, position.y)),
+    z: Math.max(-half, Math.min(half, position.z))
+  };
+};
+
+/**
+ * Inherit traits from parent with possible mutations, biased by the parent's behavior
+ */
+const inheritTraits = (
+  parentTraits: OrganismTraits,
+  bias: MutationBias,
+  config: SimulationConfig,
+  rng: Rng
+): OrganismTraits => {
+  const mutateValue = (value: number, traitBias = { direction: 0, rateBoost: 0 }): number => {
+    if (rng.next() < config.mutationRate + traitBias.rateBoost) {
+      // Apply mutation, shifted towards the direction the behavior favors
+      const mutationAmount = (rng.next() * 2 - 1 + traitBias.direction) * config.mutationStrength;
       value += mutationAmount;
       // Clamp values between 0 and 1
       value = Math.max(0, Math.min(1, value));
@@ -45,34 +119,70 @@ const inheritTraits = (parentTraits: OrganismTraits): OrganismTraits => {
   };
 
   return {
-    motility: mutateValue(parentTraits.motility),
-    photosynthesis: mutateValue(parentTraits.photosynthesis),
-    predation: mutateValue(parentTraits.predation),
-    defense: mutateValue(parentTraits.defense),
-    sensory: mutateValue(parentTraits.sensory),
-    reproduction: mutateValue(parentTraits.reproduction),
-    metabolism: mutateValue(parentTraits.metabolism),
+    motility: mutateValue(parentTraits.motility, bias.motility),
+    photosynthesis: mutateValue(parentTraits.photosynthesis, bias.photosynthesis),
+    predation: mutateValue(parentTraits.predation, bias.predation),
+    defense: mutateValue(parentTraits.defense, bias.defense),
+    sensory: mutateValue(parentTraits.sensory, bias.sensory),
+    reproduction: mutateValue(parentTraits.reproduction, bias.reproduction),
+    metabolism: mutateValue(parentTraits.metabolism, bias.metabolism),
+    mating: mutateValue(parentTraits.mating, bias.mating),
+    temperatureTolerance: mutateValue(parentTraits.temperatureTolerance, bias.temperatureTolerance),
   };
 };
 
+/**
+ * Combine two parents' traits, taking each trait from either parent, then mutate
+ */
+const crossoverTraits = (
+  traitsA: OrganismTraits,
+  traitsB: OrganismTraits,
+  bias: MutationBias,
+  config: SimulationConfig,
+  rng: Rng
+): OrganismTraits => {
+  const combined = { ...traitsA };
+  for (const trait of TRAIT_NAMES) {
+    if (rng.next() < 0.5) {
+      combined[trait] = traitsB[trait];
+    }
+  }
+  return inheritTraits(combined, bias, config, rng);
+};
+
+/**
+ * Similarity of two trait vectors, from 0 (opposite) to 1 (identical)
+ */
+const traitSimilarity = (traitsA: OrganismTraits, traitsB: OrganismTraits): number => {
+  let difference = 0;
+  for (const trait of TRAIT_NAMES) {
+    difference += Math.abs(traitsA[trait] - traitsB[trait]);
+  }
+  return 1 - difference / TRAIT_NAMES.length;
+};
+
 /**
  * Get random position within world bounds
  */
-const getRandomPosition = (): Position => {
+const getRandomPosition = (config: SimulationConfig, rng: Rng): Position => {
   return {
-    x: Math.random() * WORLD_SIZE.x - WORLD_SIZE.x / 2,
-    y: Math.random() * WORLD_SIZE.y - WORLD_SIZE.y / 2,
-    z: Math.random() * WORLD_SIZE.z - WORLD_SIZE.z / 2
+    x: rng.next() * config.worldSize - config.worldSize / 2,
+    y: rng.next() * config.worldSize - config.worldSize / 2,
+    z: rng.next() * config.worldSize - config.worldSize / 2
   };
 };
 
 /**
  * Create a new organism with default traits
  */
-export const createInitialOrganism = (initialSettings: InitialOrganismSettings): Organism => {
-  const position = getRandomPosition();
+export const createInitialOrganism = (
+  initialSettings: InitialOrganismSettings,
+  rng: Rng,
+  config: SimulationConfig = DEFAULT_SIMULATION_CONFIG
+): Organism => {
+  const position = getRandomPosition(config, rng);
   return {
-    id: generateId(),
+    id: generateId(rng),
     position: position,
     previousPosition: position, // Initialize previous position to be the same as current
     targetPosition: position,   // Initialize target position to be the same as current
@@ -84,36 +194,51 @@ export const createInitialOrganism = (initialSettings: InitialOrganismSettings):
       defense: initialSettings.defense ?? 0.1,
       sensory: initialSettings.sensory ?? 0.1,
       reproduction: initialSettings.reproduction ?? 0.3,
-      metabolism: initialSettings.metabolism ?? 0.5
+      metabolism: initialSettings.metabolism ?? 0.5,
+      mating: initialSettings.mating ?? 0,
+      temperatureTolerance: initialSettings.temperatureTolerance ?? 0.1
     },
-    energy: 25, // Start with enough energy to reproduce
+    energy: config.initialEnergy,
     age: 0,
     generation: 0,
-    actions: []
+    actions: [],
+    behavior: createBehaviorCounters()
   };
 };
 
 /**
  * Create multiple initial organisms with the same traits but different positions
  */
-export const createInitialPopulation = (initialSettings: InitialOrganismSettings, count: number): Organism[] => {
+export const createInitialPopulation = (
+  initialSettings: InitialOrganismSettings,
+  count: number,
+  rng: Rng,
+  config: SimulationConfig = DEFAULT_SIMULATION_CONFIG
+): Organism[] => {
   const organisms: Organism[] = [];
   
   // Generate a central position for the colony
-  const centerPosition = getRandomPosition();
+  const centerPosition = getRandomPosition(config, rng);
+  
+  // The first of them are born with a brain
+  const brainCount = Math.round(count * (initialSettings.brainShare ?? 0));
   
   // Create organisms around that central point
   for (let i = 0; i < count; i++) {
     // Create the organism with default position first
-    const organism = createInitialOrganism(initialSettings);
+    const organism = createInitialOrganism(initialSettings, rng, config);
     
     // Then override its position to be near the center point (within a 10 unit radius)
     organism.position = {
-      x: centerPosition.x + (Math.random() - 0.5) * 10,
-      y: centerPosition.y + (Math.random() - 0.5) * 10, 
-      z: centerPosition.z + (Math.random() - 0.5) * 10
+      x: centerPosition.x + (rng.next() - 0.5) * 10,
+      y: centerPosition.y + (rng.next() - 0.5) * 10, 
+      z: centerPosition.z + (rng.next() - 0.5) * 10
     };
     
+    if (i < brainCount) {
+      organism.brain = createBrain(rng);
+    }
+    
     organisms.push(organism);
   }
   
@@ -121,109 +246,168 @@ export const createInitialPopulation = (initialSettings: InitialOrganismSettings
 };
 
 /**
- * Move organism based on its motility trait
+ * Steer the organism by what it perceives, or where its brain decided to go.
+ * Motility caps its speed, and the energy spent grows with the distance
+ * covered; some biomes are harder to move through.
  */
-const moveOrganism = (organism: Organism, environment: any): Organism => {
+const moveOrganism = (
+  organism: Organism,
+  perception: Perception,
+  decision: BrainDecision | null,
+  config: SimulationConfig,
+  rng: Rng
+): Organism => {
   if (organism.energy <= 0) return organism;
-
-  const motilityFactor = organism.traits.motility;
-  const movementCost = motilityFactor * 0.5;
   
-  if (organism.energy < movementCost) return organism;
+  if (decision?.rest) {
+    return { ...organism, actions: [...organism.actions, 'rested'] };
+  }
 
-  // Random movement direction
-  const angle = Math.random() * Math.PI * 2;
-  const distance = motilityFactor * 2; // Max movement distance
+  const maxDistance = organism.traits.motility * config.maxSpeed;
+  const biome = biomeAt(perception.fields, perception.cell);
+  const costPerUnit = config.movementCost * (biome?.movementCost ?? 1);
   
-  const newPosition = {
-    x: organism.position.x + Math.cos(angle) * distance,
-    y: organism.position.y + Math.sin(angle) * distance,
-    z: organism.position.z + (Math.random() - 0.5) * distance
-  };
+  // Organisms that can't afford to move at full speed stay put
+  if (organism.energy < maxDistance * costPerUnit) return organism;
+
+  const steering = decision ?? steer(organism, perception, config.steeringWeights, rng);
+  const distance = maxDistance * steering.throttle;
   
   // Keep within world bounds
-  newPosition.x = Math.max(-WORLD_SIZE.x/2, Math.min(WORLD_SIZE.x/2, newPosition.x));
-  newPosition.y = Math.max(-WORLD_SIZE.y/2, Math.min(WORLD_SIZE.y/2, newPosition.y));
-  newPosition.z = Math.max(-WORLD_SIZE.z/2, Math.min(WORLD_SIZE.z/2, newPosition.z));
+  const newPosition = clampToWorld({
+    x: organism.position.x + steering.direction.x * distance,
+    y: organism.position.y + steering.direction.y * distance,
+    z: organism.position.z + steering.direction.z * distance
+  }, config);
   
   return {
     ...organism,
     previousPosition: organism.position, // Store the current position as previous
     position: organism.position,         // Keep current position unchanged
     targetPosition: newPosition,         // Set target position for interpolation
-    energy: organism.energy - movementCost,
-    actions: [...organism.actions, 'moved']
+    energy: organism.energy - distance * costPerUnit,
+    actions: [...organism.actions, 'moved', 'dominant' in steering ? steering.dominant : 'decided'],
+    behavior: {
+      ...organism.behavior,
+      distanceMoved: organism.behavior.distanceMoved + calculateDistance(organism.position, newPosition)
+    }
+  };
+};
+
+/**
+ * Move a player-controlled organism one step in the given direction
+ */
+export const movePlayerOrganism = (
+  organism: Organism,
+  direction: { x: number, y: number, z: number },
+  config: SimulationConfig = DEFAULT_SIMULATION_CONFIG
+): Organism => {
+  const movementSpeed = organism.traits.motility * 3; // Use motility for movement speed
+  // Keep within world bounds
+  const newPosition = clampToWorld({
+    x: organism.position.x + direction.x * movementSpeed,
+    y: organism.position.y + direction.y * movementSpeed,
+    z: organism.position.z + direction.z * movementSpeed
+  }, config);
+  
+  // Update organism with new position and energy cost
+  return {
+    ...organism,
+    previousPosition: organism.position,
+    position: newPosition,
+    targetPosition: newPosition,
+    energy: organism.energy - (organism.traits.motility * 0.3), // Small energy cost for movement
+    actions: [...organism.actions, 'player_moved'],
+    behavior: {
+      ...organism.behavior,
+      distanceMoved: organism.behavior.distanceMoved + calculateDistance(organism.position, newPosition)
+    }
   };
 };
 
 /**
- * Process photosynthesis for an organism
+ * Process photosynthesis for an organism, using up light and minerals in its cell
  */
-const processPhotosynthesis = (organism: Organism, environment: any): Organism => {
+const processPhotosynthesis = (
+  organism: Organism,
+  fields: EnvironmentFields,
+  cell: number,
+  config: SimulationConfig
+): Organism => {
   if (organism.traits.photosynthesis <= 0) return organism;
   
-  // Light level diminishes with depth (z axis)
-  const depthFactor = 1 - Math.abs(organism.position.z / (WORLD_SIZE.z / 2));
-  const lightAvailability = environment.lightLevel * depthFactor;
+  // Light diminishes with depth and is shaded by other photosynthesizers in the cell
+  const lightAvailability = fields.values.light[cell] / 100;
+  const nutrientAvailability = Math.min(1, fields.values.minerals[cell] / config.mineralSaturation);
+  const waterAvailability = Math.max(0, Math.min(1, fields.values.moisture[cell] / config.moistureSaturation));
   
   // Calculate energy gained from photosynthesis
-  const energyGain = organism.traits.photosynthesis * lightAvailability * environment.resources.light / 100;
+  const energyGain = organism.traits.photosynthesis * lightAvailability * nutrientAvailability * waterAvailability;
+  depleteField(fields, 'light', cell, energyGain * config.lightShading);
+  depleteField(fields, 'minerals', cell, energyGain * config.mineralUptake);
   
   return {
     ...organism,
     energy: organism.energy + energyGain,
-    actions: [...organism.actions, 'photosynthesis']
+    actions: [...organism.actions, 'photosynthesis'],
+    behavior: energyGain > 0 ?
+      { ...organism.behavior, photosynthesisTicks: organism.behavior.photosynthesisTicks + 1 } :
+      organism.behavior
   };
 };
 
+interface PredationOutcome {
+  prey: Organism;
+  killed: boolean;
+}
+
 /**
- * Process predation behavior for an organism
+ * Process predation behavior for an organism, choosing its prey among the candidates
  */
-const processPredation = (organism: Organism, organisms: Organism[]): [Organism, Organism[]] => {
+const processPredation = (
+  organism: Organism,
+  candidates: Organism[],
+  config: SimulationConfig,
+  rng: Rng
+): [Organism, PredationOutcome | null] => {
   if (organism.traits.predation <= 0 || organism.energy <= 0) {
-    return [organism, organisms];
+    return [organism, null];
   }
   
-  // Find nearby prey
-  const sensoryRange = organism.traits.sensory * 10;
-  const potentialPrey = organisms.filter(other => 
-    other.id !== organism.id && 
-    calculateDistance(organism.position, other.position) <= sensoryRange &&
-    other.size < organism.size * 1.2 // Can only prey on smaller or similar sized organisms
-  );
+  // Find the most vulnerable nearby prey, weighing proximity against defense
+  let prey: Organism | null = null;
+  let preyVulnerability = -Infinity;
   
-  if (potentialPrey.length === 0) return [organism, organisms];
+  for (const other of candidates) {
+    // Can only prey on smaller or similar sized organisms
+    if (other.id === organism.id || other.size >= organism.size * 1.2) continue;
+    
+    const vulnerability = (1 - other.traits.defense) / calculateDistance(organism.position, other.position);
+    if (prey === null || vulnerability > preyVulnerability) {
+      prey = other;
+      preyVulnerability = vulnerability;
+    }
+  }
   
-  // Sort by proximity and vulnerability (inverse of defense)
-  potentialPrey.sort((a, b) => {
-    const distA = calculateDistance(organism.position, a.position);
-    const distB = calculateDistance(organism.position, b.position);
-    const vulnA = (1 - a.traits.defense) / distA;
-    const vulnB = (1 - b.traits.defense) / distB;
-    return vulnB - vulnA;
-  });
+  if (prey === null) return [organism, null];
   
   // Attempt to prey on the most vulnerable organism
-  const prey = potentialPrey[0];
-  const preyDistance = calculateDistance(organism.position, prey.position);
   const predationSuccess = organism.traits.predation > prey.traits.defense && 
-                          Math.random() < (organism.traits.predation - prey.traits.defense + 0.2);
+                          rng.next() < (organism.traits.predation - prey.traits.defense + 0.2);
   
   // Predation is successful
   if (predationSuccess) {
-    // Energy gained is proportional to prey's energy and size
-    const energyGained = prey.energy * 0.7 + prey.size * 3;
-    
-    // Remove the prey from the organisms list
-    const updatedOrganisms = organisms.filter(o => o.id !== prey.id);
+    // Energy gained is proportional to prey's energy and size; the rest is left as scraps
+    const energyGained = prey.energy * (1 - config.predationScraps) + prey.size * config.carcassBodyEnergy;
     
     return [
       {
         ...organism,
         energy: organism.energy + energyGained,
-        actions: [...organism.actions, 'predation']
+        actions: [...organism.actions, 'predation'],
+        behavior: { ...organism.behavior, predationSuccesses: organism.behavior.predationSuccesses + 1 }
       },
-      updatedOrganisms
+      { prey, killed: true }
     ];
   }
   
@@ -234,80 +418,233 @@ const processPredation = (organism: Organism, organisms: Organism[]): [Organism,
   const updatedPrey = {
     ...prey,
     energy: prey.energy - preyEnergyLoss,
-    actions: [...prey.actions, 'defended']
+    actions: [...prey.actions, 'defended'],
+    behavior: { ...prey.behavior, defensesSurvived: prey.behavior.defensesSurvived + 1 }
   };
   
-  const updatedOrganisms = organisms.map(o => 
-    o.id === prey.id ? updatedPrey : o
-  );
-  
   return [
     {
       ...organism,
       energy: organism.energy - predatorEnergyLoss,
       actions: [...organism.actions, 'failed_predation']
     },
-    updatedOrganisms
+    { prey: updatedPrey, killed: false }
   ];
 };
 
 /**
- * Process reproduction for an organism
+ * Eat from the nearest of the carcasses in sensory range; predators are the best scavengers
  */
-const processReproduction = (organism: Organism): [Organism, Organism | null] => {
-  // Check if organism has enough energy to reproduce
-  if (organism.energy < REPRODUCTION_ENERGY_THRESHOLD || 
-      Math.random() > organism.traits.reproduction) {
+const processScavenging = (
+  organism: Organism,
+  nearbyCarcasses: Carcass[],
+  config: SimulationConfig
+): [Organism, Carcass | null] => {
+  if (organism.traits.predation <= 0 || organism.energy <= 0) {
     return [organism, null];
   }
   
-  // Create position for offspring near parent
-  const offspringPosition = {
-    x: organism.position.x + (Math.random() - 0.5) * 2,
-    y: organism.position.y + (Math.random() - 0.5) * 2,
-    z: organism.position.z + (Math.random() - 0.5) * 2
+  let nearest: Carcass | null = null;
+  let nearestDistance = Infinity;
+  
+  for (const carcass of nearbyCarcasses) {
+    const distance = calculateDistance(organism.position, carcass.position);
+    if (distance < nearestDistance) {
+      nearest = carcass;
+      nearestDistance = distance;
+    }
+  }
+  
+  if (nearest === null) return [organism, null];
+  
+  const bite = Math.min(nearest.energy, config.scavengeBite * organism.traits.predation);
+  return [
+    {
+      ...organism,
+      energy: organism.energy + bite * config.scavengeEfficiency,
+      actions: [...organism.actions, 'scavenged']
+    },
+    { ...nearest, energy: nearest.energy - bite }
+  ];
+};
+
+/**
+ * Absorb organic matter from the organism's cell. Organisms that don't
+ * photosynthesize rely on this the most.
+ */
+const processDecomposition = (
+  organism: Organism,
+  fields: EnvironmentFields,
+  cell: number,
+  config: SimulationConfig
+): Organism => {
+  const heterotrophy = 1 - organism.traits.photosynthesis;
+  if (heterotrophy <= 0) return organism;
+  
+  const absorbed = depleteField(fields, 'organic', cell, config.decompositionRate * heterotrophy);
+  if (absorbed <= 0) return organism;
+  
+  return {
+    ...organism,
+    energy: organism.energy + absorbed * config.organicEnergy,
+    actions: [...organism.actions, 'decomposed']
   };
+};
+
+interface ReproductionOutcome {
+  offspring: Organism;
+  mate: Organism | null; // The partner after paying its share, for sexual reproduction
+}
+
+/**
+ * Find the most similar willing partner among the living organisms within sensory range
+ */
+const findMate = (organism: Organism, candidates: Organism[], config: SimulationConfig): Organism | null => {
+  let mate: Organism | null = null;
+  let mateSimilarity = config.mateSimilarityThreshold;
+
+  for (const other of candidates) {
+    // Partners must also reproduce sexually and be able to pay their share
+    if (other.id === organism.id || other.traits.mating <= 0 ||
+        other.energy < config.reproductionEnergyThreshold / 2) continue;
+
+    const similarity = traitSimilarity(organism.traits, other.traits);
+    if (similarity >= mateSimilarity) {
+      mate = other;
+      mateSimilarity = similarity;
+    }
+  }
+
+  return mate;
+};
+
+/**
+ * Process reproduction for an organism.
+ *
+ * The mating trait is the chance that an organism seeks a partner instead of
+ * cloning itself. Sexual reproduction splits the energy cost between the two
+ * parents, but fails when no similar partner is in sensory range. Organisms
+ * with a brain seek a partner when it decides to mate.
+ */
+const processReproduction = (
+  organism: Organism,
+  partners: () => Organism[], // Looked up only if the organism seeks a mate
+  biasTable: MutationBiasTable,
+  decision: BrainDecision | null,
+  config: SimulationConfig,
+  rng: Rng
+): [Organism, ReproductionOutcome | null] => {
+  // Check if organism has enough energy to reproduce
+  if (organism.energy < config.reproductionEnergyThreshold || 
+      rng.next() > organism.traits.reproduction) {
+    return [organism, null];
+  }
+  
+  // Purely asexual organisms don't draw from the generator, keeping their runs unchanged
+  const seeksMate = organism.traits.mating > 0 &&
+    (decision ? decision.mate : rng.next() < organism.traits.mating);
+  const mate = seeksMate ? findMate(organism, partners(), config) : null;
+  if (seeksMate && !mate) {
+    return [organism, null];
+  }
+  
+  // Create position for offspring near parent, inside the world
+  const offspringPosition = clampToWorld({
+    x: organism.position.x + (rng.next() - 0.5) * 2,
+    y: organism.position.y + (rng.next() - 0.5) * 2,
+    z: organism.position.z + (rng.next() - 0.5) * 2
+  }, config);
+  
+  // What the parents did during their lives biases the offspring's mutations
+  const mutationBias = computeMutationBias(
+    mate ? combineBehavior(organism.behavior, mate.behavior) : organism.behavior,
+    biasTable
+  );
   
   // Create offspring with inherited traits
   const offspring: Organism = {
-    id: generateId(),
+    id: generateId(rng),
     position: offspringPosition,
     previousPosition: offspringPosition, // Initialize previous position
     targetPosition: offspringPosition,   // Initialize target position
-    size: organism.size * (0.8 + Math.random() * 0.4), // Slight variation in size
-    traits: inheritTraits(organism.traits),
-    energy: REPRODUCTION_ENERGY_COST * 0.7, // Offspring gets part of the energy invested
+    size: (mate ? (organism.size + mate.size) / 2 : organism.size) * (0.8 + rng.next() * 0.4), // Slight variation in size
+    traits: mate ?
+      crossoverTraits(organism.traits, mate.traits, mutationBias, config, rng) :
+      inheritTraits(organism.traits, mutationBias, config, rng),
+    energy: config.reproductionEnergyCost * 0.7, // Offspring gets part of the energy invested
     age: 0,
-    generation: organism.generation + 1,
+    generation: Math.max(organism.generation, mate?.generation ?? 0) + 1,
     parentId: organism.id,
-    actions: ['born']
+    actions: ['born'],
+    behavior: createBehaviorCounters()
   };
   
-  // Parent loses energy from reproduction
-  const updatedOrganism = {
-    ...organism,
-    energy: organism.energy - REPRODUCTION_ENERGY_COST,
-    actions: [...organism.actions, 'reproduction']
-  };
+  const brain = inheritBrain(organism, mate, rng, config);
+  if (brain) {
+    offspring.brain = brain;
+  }
+  
+  if (!mate) {
+    // Parent loses energy from reproduction
+    const updatedOrganism = {
+      ...organism,
+      energy: organism.energy - config.reproductionEnergyCost,
+      actions: [...organism.actions, 'reproduction']
+    };
+    
+    return [updatedOrganism, { offspring, mate: null }];
+  }
   
-  return [updatedOrganism, offspring];
+  offspring.parentIds = [organism.id, mate.id];
+  
+  // Both parents pay half of the energy cost
+  return [
+    {
+      ...organism,
+      energy: organism.energy - config.reproductionEnergyCost / 2,
+      actions: [...organism.actions, 'mated']
+    },
+    {
+      offspring,
+      mate: {
+        ...mate,
+        energy: mate.energy - config.reproductionEnergyCost / 2,
+        actions: [...mate.actions, 'mated']
+      }
+    }
+  ];
 };
 
 /**
  * Apply metabolism energy cost and aging
  */
-const processMetabolism = (organism: Organism): Organism => {
-  // Base metabolism cost plus scaling with size and traits
-  const metabolismCost = BASE_ENERGY_CONSUMPTION * 
+const processMetabolism = (
+  organism: Organism,
+  fields: EnvironmentFields,
+  cell: number,
+  config: SimulationConfig
+): Organism => {
+  // Keeping warm or cool beyond the range the organism tolerates costs extra
+  const temperature = fields.values.temperature[cell];
+  const tolerated = organism.traits.temperatureTolerance * config.toleranceRange;
+  const discomfort = Math.max(0, Math.abs(temperature - config.comfortTemperature) - tolerated);
+  const temperatureStress = 1 + config.temperatureStress * discomfort;
+  
+  // Base metabolism cost plus scaling with size and traits; keeping senses sharp
+  // and staying hardy to the temperature cost extra
+  const metabolismCost = config.baseEnergyConsumption * 
                         (1 + organism.traits.metabolism) * 
-                        (1 + organism.size * 0.5);
+                        (1 + organism.size * 0.5) *
+                        temperatureStress +
+                        organism.traits.sensory * config.sensingCost +
+                        organism.traits.temperatureTolerance * config.toleranceCost;
   
   // Increment age
   const newAge = organism.age + 1;
   
   // Energy decreases with age past a certain point
-  const ageDegeneration = newAge > MAX_AGE * 0.7 ? 
-                         (newAge - MAX_AGE * 0.7) * 0.01 : 0;
+  const ageDegeneration = newAge > config.maxAge * 0.7 ? 
+                         (newAge - config.maxAge * 0.7) * 0.01 : 0;
   
   return {
     ...organism,
@@ -318,70 +655,322 @@ const processMetabolism = (organism: Organism): Organism => {
 };
 
 /**
- * Simulate a generation for all organisms
+ * Simulate a generation for all organisms. In strict mode, an InvariantError
+ * is thrown if the generation breaks one of the engine's invariants.
  */
-export const simulateGeneration = (state: any): any => {
+export const simulateGeneration = (state: any, options: SimulationOptions = {}): any => {
   let { organisms, environment } = state;
-  let newOrganisms: Organism[] = [];
+  const generation = (state.currentGeneration ?? 0) + 1;
+  const events: GenerationEvents = { births: [], deaths: [] };
+  
+  // Resume the random sequence where the previous generation left off
+  const rng = createRng(state.rngState ?? seedToState(state.seed ?? 0));
+  const biasTable: MutationBiasTable = state.mutationBias ?? DEFAULT_MUTATION_BIAS;
+  const config = resolveSimulationConfig(state.config);
+  
+  // Every change to the energy held by organisms and carcasses is accounted for
+  const ledger = createEnergyLedger(energyStock(organisms, state.carcasses ?? []));
+  
+  // A dead organism's carcass holds its energy, less any debt, and the energy in its body
+  const recordDeath = (organism: Organism) => {
+    recordSource(ledger, 'bodies', organism.size * config.carcassBodyEnergy);
+    recordSource(ledger, 'debts', Math.max(0, -organism.energy));
+  };
+  
+  // Organisms deplete a working copy of the fields during the generation
+  const fields = cloneFields(environment.fields ?? createEnvironmentFields(environment, config.worldSize));
+  
+  // The climate moves on first, so that catastrophes starting now strike this generation
+  const climate = advanceClimate(environment.climate ?? createClimateState(), config, generation, rng);
+  const impacts = impactsAt(climate, generation);
+  const plague = isActive(climate, 'plague');
+  const struckByCatastrophe = (organism: Organism): boolean => {
+    if (impacts.some(impact => calculateDistance(impact, organism.position) <= config.meteorRadius)) return true;
+    // Defense protects against disease as well as predators
+    return plague && rng.next() < config.plagueMortality * (1 - organism.traits.defense);
+  };
+  
+  // Organisms processed so far this generation, by slot. Eaten organisms
+  // leave a null slot so that removal doesn't shift the array.
+  const processed: (Organism | null)[] = [];
+  const slotById = new Map<string, number>();
+  
+  const addOrganism = (organism: Organism) => {
+    slotById.set(organism.id, processed.length);
+    processed.push(organism);
+  };
+  
+  // Offspring born this generation, indexed as they aren't in the population below
+  const newborns = createSpatialIndex<Organism>(SPATIAL_CELL_SIZE);
+  
+  // Carcasses by id, indexed for scavengers. Eaten-up carcasses are removed.
+  const carcasses = new Map<string, Carcass>();
+  const carcassIndex = createSpatialIndex<Carcass>(SPATIAL_CELL_SIZE);
+  
+  const addCarcass = (carcass: Carcass) => {
+    carcasses.set(carcass.id, carcass);
+    carcassIndex.insert(carcass.id, carcass.position, carcass);
+  };
+  
+  for (const carcass of state.carcasses ?? []) {
+    addCarcass(carcass);
+  }
+  
+  // Everyone arrives where they were heading before anyone looks around, so
+  // perception sees the whole living population in place
+  const population = createSpatialIndex<Organism>(SPATIAL_CELL_SIZE);
+  const arrived: Organism[] = organisms.map((organism: Organism) => {
+    // Clear previous actions
+    const updated: Organism = { ...organism, actions: [] };
+    
+    // For non-player controlled organisms, move the position to the target
+    if (!updated.isPlayerControlled) {
+      updated.previousPosition = { ...updated.position };
+      updated.position = { ...updated.targetPosition };
+    }
+    
+    if (updated.energy > 0 && updated.age < config.maxAge) {
+      population.insert(updated.id, updated.position, updated);
+    }
+    return updated;
+  });
+  
+  // Organisms not processed yet whose energy a partner's reproduction already changed
+  const waiting = new Map<string, Organism>();
+  
+  // Of the nearby organisms, those still living as they are now, whether processed yet or not
+  const partnersAmong = (nearby: Organism[]): Organism[] => {
+    const partners: Organism[] = [];
+    for (const other of nearby) {
+      if (!population.get(other.id)) continue;
+      const slot = slotById.get(other.id);
+      const current = slot !== undefined ? processed[slot] : waiting.get(other.id) ?? other;
+      if (current) partners.push(current);
+    }
+    return partners;
+  };
+  
+  // Predators only hunt organisms already processed this generation, including newborns
+  const preyAmong = (nearby: Organism[], position: Position, range: number): Organism[] => {
+    const candidates: Organism[] = [];
+    const addCurrent = (other: Organism) => {
+      const slot = slotById.get(other.id);
+      const current = slot !== undefined ? processed[slot] : null;
+      if (current) candidates.push(current);
+    };
+    nearby.forEach(addCurrent);
+    newborns.queryRadius(position, range).forEach(addCurrent);
+    return candidates;
+  };
   
   // Process each organism
-  for (const organism of organisms) {
+  for (const arrivedOrganism of arrived) {
+    const organism = waiting.get(arrivedOrganism.id) ?? arrivedOrganism;
+    
     // Skip dead organisms
-    if (organism.energy <= 0 || organism.age >= MAX_AGE) {
+    if (organism.energy <= 0 || organism.age >= config.maxAge) {
+      events.deaths.push({
+        id: organism.id,
+        cause: organism.energy <= 0 ? 'starvation' : 'old_age',
+        age: organism.age
+      });
+      addCarcass(createCarcass(organism, carcassEnergy(organism, config), generation));
+      recordDeath(organism);
       continue;
     }
     
-    // Clear previous actions
-    let updatedOrganism: Organism = { ...organism, actions: [] };
-    
-    // Update position from target
-    if (!updatedOrganism.isPlayerControlled) {
-      // For non-player controlled organisms, move the position to the target
-      updatedOrganism.previousPosition = { ...updatedOrganism.position };
-      updatedOrganism.position = { ...updatedOrganism.targetPosition };
+    if (struckByCatastrophe(organism)) {
+      events.deaths.push({ id: organism.id, cause: 'catastrophe', age: organism.age });
+      addCarcass(createCarcass(organism, carcassEnergy(organism, config), generation));
+      recordDeath(organism);
+      population.remove(organism.id);
+      continue;
     }
     
+    // The organism stays in the cell it arrived in for the rest of the generation
+    const cell = cellIndexAt(fields, organism.position);
+    
     // Apply metabolism and aging
-    updatedOrganism = processMetabolism(updatedOrganism);
+    let updatedOrganism = processMetabolism(organism, fields, cell, config);
+    recordSink(ledger, 'metabolism', organism.energy - updatedOrganism.energy);
     
     // Skip if organism died from metabolism
     if (updatedOrganism.energy <= 0) {
+      events.deaths.push({ id: updatedOrganism.id, cause: 'starvation', age: updatedOrganism.age });
+      addCarcass(createCarcass(updatedOrganism, carcassEnergy(updatedOrganism, config), generation));
+      recordDeath(updatedOrganism);
+      population.remove(updatedOrganism.id);
       continue;
     }
     
-    // Process movement only for non-player controlled organisms
+    // The organism stays where it is for the rest of the generation, so one
+    // look around serves steering, its brain, hunting and finding a mate.
+    // Carcasses only interest predators.
+    const range = sensoryRange(updatedOrganism);
+    const nearby: Organism[] = [];
+    for (const other of population.queryRadius(updatedOrganism.position, range)) {
+      if (other.id !== updatedOrganism.id) nearby.push(other);
+    }
+    const nearbyCarcasses = updatedOrganism.traits.predation > 0 ?
+      carcassIndex.queryRadius(updatedOrganism.position, range) :
+      [];
+    
+    // Process movement only for non-player controlled organisms. Those with
+    // a brain decide once what to do this generation from what they perceive.
+    let decision: BrainDecision | null = null;
     if (!updatedOrganism.isPlayerControlled) {
-      updatedOrganism = moveOrganism(updatedOrganism, environment);
+      const perception: Perception = {
+        neighbors: nearby,
+        carcasses: nearbyCarcasses,
+        fields,
+        cell
+      };
+      if (updatedOrganism.brain) {
+        decision = decide(updatedOrganism.brain, brainInputs(updatedOrganism, perception, config.maxAge));
+      }
+      const resting = updatedOrganism.energy;
+      updatedOrganism = moveOrganism(updatedOrganism, perception, decision, config, rng);
+      recordSink(ledger, 'movement', resting - updatedOrganism.energy);
     }
     
     // Process photosynthesis
-    updatedOrganism = processPhotosynthesis(updatedOrganism, environment);
+    const unfed = updatedOrganism.energy;
+    updatedOrganism = processPhotosynthesis(updatedOrganism, fields, cell, config);
+    recordSource(ledger, 'photosynthesis', updatedOrganism.energy - unfed);
+    
+    // Process decomposition of organic matter
+    const undecomposed = updatedOrganism.energy;
+    updatedOrganism = processDecomposition(updatedOrganism, fields, cell, config);
+    recordSource(ledger, 'decomposition', updatedOrganism.energy - undecomposed);
     
-    // Process predation
-    let remainingOrganisms = [...newOrganisms];
-    [updatedOrganism, remainingOrganisms] = processPredation(updatedOrganism, remainingOrganisms);
-    newOrganisms = remainingOrganisms;
+    // Process predation, unless the organism's brain decided not to eat
+    let predation: PredationOutcome | null = null;
+    const eats = decision?.eat ?? true;
+    const hungry = updatedOrganism.energy;
+    if (eats) {
+      const candidates = preyAmong(nearby, updatedOrganism.position, range);
+      [updatedOrganism, predation] = processPredation(updatedOrganism, candidates, config, rng);
+    }
+    
+    if (predation) {
+      const slot = slotById.get(predation.prey.id) as number;
+      if (predation.killed) {
+        // The prey's energy and body go to the predator, less the scraps left in its carcass
+        recordSource(ledger, 'bodies', predation.prey.size * config.carcassBodyEnergy);
+        recordSource(ledger, 'debts', Math.max(0, -predation.prey.energy) * config.predationScraps);
+        processed[slot] = null;
+        population.remove(predation.prey.id);
+        events.deaths.push({
+          id: predation.prey.id,
+          cause: 'predation',
+          age: predation.prey.age,
+          killerId: updatedOrganism.id
+        });
+        addCarcass(createCarcass(predation.prey, Math.max(0, predation.prey.energy) * config.predationScraps, generation));
+      } else {
+        const unharmed = processed[slot] as Organism;
+        recordSink(ledger, 'fighting', hungry - updatedOrganism.energy + unharmed.energy - predation.prey.energy);
+        processed[slot] = predation.prey;
+      }
+    }
+    
+    // Organisms that didn't make a kill can scavenge instead
+    if (eats && !predation?.killed) {
+      let carcass: Carcass | null = null;
+      const scavenger = updatedOrganism.energy;
+      [updatedOrganism, carcass] = processScavenging(updatedOrganism, nearbyCarcasses, config);
+      
+      if (carcass) {
+        const bite = (carcasses.get(carcass.id) as Carcass).energy - carcass.energy;
+        recordSink(ledger, 'scavenging', bite - (updatedOrganism.energy - scavenger));
+      }
+      if (carcass && carcass.energy > 0) {
+        carcasses.set(carcass.id, carcass);
+        carcassIndex.update(carcass.id, carcass);
+      } else if (carcass) {
+        carcasses.delete(carcass.id);
+        carcassIndex.remove(carcass.id);
+      }
+    }
     
     // Process reproduction
-    let offspring: Organism | null = null;
-    [updatedOrganism, offspring] = processReproduction(updatedOrganism);
+    let reproduction: ReproductionOutcome | null = null;
+    const childless = updatedOrganism.energy;
+    [updatedOrganism, reproduction] = processReproduction(
+      updatedOrganism,
+      () => partnersAmong(nearby),
+      biasTable,
+      decision,
+      config,
+      rng
+    );
+    
+    if (reproduction) {
+      // The parents invest more than the offspring receives
+      let invested = childless - updatedOrganism.energy;
+      const { mate } = reproduction;
+      if (mate) {
+        const slot = slotById.get(mate.id);
+        if (slot !== undefined) {
+          invested += (processed[slot] as Organism).energy - mate.energy;
+          processed[slot] = mate;
+        } else {
+          // The mate pays its share now and is processed later in the generation
+          invested += (waiting.get(mate.id) ?? population.get(mate.id) as Organism).energy - mate.energy;
+          waiting.set(mate.id, mate);
+        }
+      }
+      recordSink(ledger, 'reproduction', invested - reproduction.offspring.energy);
+    }
     
     // Add the updated organism to the new list
-    newOrganisms.push(updatedOrganism);
+    addOrganism(updatedOrganism);
     
     // Add offspring if reproduction occurred
-    if (offspring) {
-      newOrganisms.push(offspring);
+    if (reproduction) {
+      addOrganism(reproduction.offspring);
+      newborns.insert(reproduction.offspring.id, reproduction.offspring.position, reproduction.offspring);
+      events.births.push(reproduction.offspring);
     }
   }
   
-  // Update environment - simple model with some resource regeneration
+  const survivors = processed.filter((organism): organism is Organism => organism !== null);
+  
+  // Sort newborns into species when the run tracks them
+  const speciation = state.species ?
+    updateSpecies(state.species, survivors, organisms, generation, config.speciesThreshold) :
+    null;
+  const newOrganisms = speciation ? speciation.organisms : survivors;
+  if (speciation) {
+    events.species = speciation.events;
+  }
+  
+  // Record births and deaths in the lineage registry when the run tracks one
+  const lineage = state.lineage ?
+    updateLineage(state.lineage, events, generation, new Set(newOrganisms.map(organism => organism.id))) :
+    state.lineage;
+  
+  // Carcasses decay into the fields, which then diffuse and regenerate towards
+  // the levels the climate sets; the global values summarize them
+  const decaying = Array.from(carcasses.values());
+  const remainingCarcasses = decayCarcasses(decaying, fields, config);
+  recordSink(ledger, 'decay', energyStock([], decaying) - energyStock([], remainingCarcasses));
+  ledger.closing = energyStock(newOrganisms, remainingCarcasses);
+  events.energy = ledger;
+  if (options.strict) {
+    assertInvariants(newOrganisms, ledger, config, generation);
+  }
+  const updatedFields = stepFields(fields, climateShift(climateConditions(climate, config, generation)));
   const updatedEnvironment = {
     ...environment,
+    fields: updatedFields,
+    climate,
+    temperature: fieldMean(updatedFields, 'temperature'),
+    moisture: fieldMean(updatedFields, 'moisture'),
     resources: {
-      organic: Math.min(100, environment.resources.organic + 0.5),
-      minerals: Math.min(100, environment.resources.minerals + 0.2),
-      light: 100 // Light is constant
+      organic: fieldMean(updatedFields, 'organic'),
+      minerals: fieldMean(updatedFields, 'minerals'),
+      light: fieldMean(updatedFields, 'light')
     }
   };
   
@@ -389,24 +978,29 @@ export const simulateGeneration = (state: any): any => {
   return {
     ...state,
     organisms: newOrganisms,
-    environment: updatedEnvironment
+    carcasses: remainingCarcasses,
+    environment: updatedEnvironment,
+    rngState: rng.getState(),
+    lineage,
+    species: speciation ? speciation.species : state.species,
+    events
   };
 };
 
 /**
  * Fast forward simulation by multiple generations
  */
-export const fastForward = (state: any, generations: number): any => {
+export const fastForward = (state: any, generations: number, options: SimulationOptions = {}): any => {
   let currentState = { ...state };
   
   for (let i = 0; i < generations; i++) {
-    currentState = simulateGeneration(currentState);
+    currentState = {
+      ...simulateGeneration(currentState, options),
+      currentGeneration: currentState.currentGeneration + 1
+    };
   }
   
-  return {
-    ...currentState,
-    currentGeneration: state.currentGeneration + generations
-  };
+  return currentState;
 };
 
 /**
@@ -0,0 +1,57 @@
+import { DEFAULT_ENVIRONMENT, createInitialOrganism, simulateGeneration } from './core';
+import { DEFAULT_SIMULATION_CONFIG } from './config';
+import { createRng, seedToState } from './random';
+import { createCarcass } from './carcasses';
+import { createEnergyLedger, energyImbalance, energyStock, isBalanced, recordSink, recordSource } from './energy';
+
+const config = DEFAULT_SIMULATION_CONFIG;
+
+// An organism that neither moves nor feeds, so only what a test sets up changes its energy
+const createIdler = (energy: number, settings = {}) => {
+  const rng = createRng(seedToState(2));
+  const organism = createInitialOrganism({ motility: 0, photosynthesis: 1, predation: 0, reproduction: 0, ...settings }, rng);
+  return { ...organism, energy };
+};
+
+const darkness = { ...DEFAULT_ENVIRONMENT, lightLevel: 0 };
+
+describe('Energy Ledger', () => {
+  test('the stock counts organisms, debts included, and carcasses', () => {
+    const idler = createIdler(12);
+
+    expect(energyStock([idler, createIdler(-2)], [createCarcass(idler, 5, 0)])).toBe(15);
+  });
+
+  test('a ledger balances when its flows explain the change in stock', () => {
+    const ledger = createEnergyLedger(50);
+    recordSource(ledger, 'photosynthesis', 8);
+    recordSink(ledger, 'metabolism', 3);
+    ledger.closing = 55;
+
+    expect(energyImbalance(ledger)).toBe(0);
+    expect(isBalanced(ledger)).toBe(true);
+    expect(isBalanced({ ...ledger, closing: 54 })).toBe(false);
+  });
+
+  test('reproduction loses the share of the investment the offspring does not receive', () => {
+    const parent = createIdler(100, { reproduction: 1, mating: 0 });
+
+    const { events } = simulateGeneration({ organisms: [parent], environment: darkness, config });
+
+    expect(events.births).toHaveLength(1);
+    expect(events.energy.sinks.reproduction).toBeCloseTo(config.reproductionEnergyCost - events.births[0].energy);
+    expect(isBalanced(events.energy)).toBe(true);
+  });
+
+  test('the dead leave their bodies and write off their debts', () => {
+    const starved = createIdler(-4);
+
+    const { events, carcasses } = simulateGeneration({ organisms: [starved], environment: darkness, config });
+
+    expect(events.energy.sources.bodies).toBeCloseTo(starved.size * config.carcassBodyEnergy);
+    expect(events.energy.sources.debts).toBe(4);
+    expect(events.energy.sinks.decay).toBeCloseTo(starved.size * config.carcassBodyEnergy - carcasses[0].energy);
+    expect(events.energy.closing).toBeCloseTo(carcasses[0].energy);
+    expect(isBalanced(events.energy)).toBe(true);
+  });
+});
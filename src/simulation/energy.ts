@@ -0,0 +1,97 @@
+import { Carcass, Organism } from '../frontend/stores/simulationStore';
+
+/**
+ * Energy accounting.
+ *
+ * The energy in the simulation is what living organisms and carcasses hold.
+ * Energy passed from one to the other, such as prey eaten by a predator,
+ * stays in that stock; everything else that changes it is recorded in a
+ * ledger as a source or a sink, so that over a generation the opening
+ * balance plus the sources, less the sinks, gives the closing balance.
+ */
+
+export const ENERGY_SOURCES = [
+  'photosynthesis', // Light turned into energy
+  'decomposition',  // Organic matter absorbed from the fields
+  'bodies',         // Energy locked up in the bodies of the dead, freed as food
+  'debts'           // Energy the dead owed when they starved below zero, written off
+] as const;
+
+export const ENERGY_SINKS = [
+  'metabolism',   // Living, including temperature stress and aging
+  'movement',
+  'fighting',     // Lost by both sides of a failed predation attempt
+  'scavenging',   // Wasted when eating carcasses
+  'reproduction', // The share of the parents' investment the offspring doesn't receive
+  'decay'         // Carcasses decaying into the fields
+] as const;
+
+export type EnergySource = typeof ENERGY_SOURCES[number];
+export type EnergySink = typeof ENERGY_SINKS[number];
+
+export interface EnergyFlows {
+  sources: Record<EnergySource, number>;
+  sinks: Record<EnergySink, number>;
+}
+
+export interface EnergyLedger extends EnergyFlows {
+  opening: number; // Energy held before the generation
+  closing: number; // Energy held after it
+}
+
+const zeros = <T extends string>(names: readonly T[]): Record<T, number> => {
+  return Object.fromEntries(names.map(name => [name, 0])) as Record<T, number>;
+};
+
+export const createEnergyFlows = (): EnergyFlows => ({
+  sources: zeros(ENERGY_SOURCES),
+  sinks: zeros(ENERGY_SINKS)
+});
+
+export const createEnergyLedger = (opening: number): EnergyLedger => ({
+  ...createEnergyFlows(),
+  opening,
+  closing: opening
+});
+
+/**
+ * Energy held by organisms and carcasses. Organisms that starved below zero
+ * count with their debt until they are removed.
+ */
+export const energyStock = (organisms: Organism[], carcasses: Carcass[]): number => {
+  let total = 0;
+  for (const organism of organisms) {
+    total += organism.energy;
+  }
+  for (const carcass of carcasses) {
+    total += carcass.energy;
+  }
+  return total;
+};
+
+export const recordSource = (ledger: EnergyLedger, source: EnergySource, amount: number): void => {
+  ledger.sources[source] += amount;
+};
+
+export const recordSink = (ledger: EnergyLedger, sink: EnergySink, amount: number): void => {
+  ledger.sinks[sink] += amount;
+};
+
+export const totalFlow = (flows: Record<string, number>): number => {
+  return Object.values(flows).reduce((sum, amount) => sum + amount, 0);
+};
+
+/**
+ * Energy the ledger can't account for; zero up to floating point error
+ */
+export const energyImbalance = (ledger: EnergyLedger): number => {
+  return ledger.opening + totalFlow(ledger.sources) - totalFlow(ledger.sinks) - ledger.closing;
+};
+
+/**
+ * Whether the ledger balances, allowing for floating point error relative to the energy involved
+ */
+export const isBalanced = (ledger: EnergyLedger): boolean => {
+  const scale = Math.max(1, Math.abs(ledger.opening) + totalFlow(ledger.sources) + totalFlow(ledger.sinks));
+  return Math.abs(energyImbalance(ledger)) <= scale * 1e-9;
+};
@@ -0,0 +1,307 @@
+import { createInitialPopulation, fastForward } from './core';
+import { createEngineHost } from './engine';
+import { EngineEvent, EngineState } from './protocol';
+import { createRng, seedToState } from './random';
+import { createLineage } from './lineage';
+import { createSpeciesRegistry } from './species';
+import { DEFAULT_SIMULATION_CONFIG } from './config';
+
+const createState = (seed: number): EngineState => {
+  const rng = createRng(seedToState(seed));
+  const organisms = createInitialPopulation({ motility: 0.5, reproduction: 0.6 }, 8, rng);
+  return {
+    organisms,
+    carcasses: [],
+    environment: {
+      temperature: 0.5,
+      lightLevel: 0.8,
+      moisture: 0.6,
+      resources: {
+        organic: 100,
+        minerals: 100,
+        light: 100
+      }
+    },
+    currentGeneration: 0,
+    seed,
+    rngState: rng.getState(),
+    config: DEFAULT_SIMULATION_CONFIG,
+    lineage: createLineage(organisms, 0),
+    species: createSpeciesRegistry(),
+    interventionLog: []
+  };
+};
+
+const createHost = () => {
+  const events: EngineEvent[] = [];
+  const host = createEngineHost(event => events.push(event));
+  return { host, events };
+};
+
+const lastSnapshot = (host: ReturnType<typeof createHost>['host'], events: EngineEvent[]): EngineState => {
+  host.handle({ type: 'snapshot', requestId: 1 });
+  const event = events[events.length - 1];
+  if (event.type !== 'snapshot') throw new Error(`Expected a snapshot, got ${event.type}`);
+  return event.state;
+};
+
+describe('Engine Host', () => {
+  beforeEach(() => {
+    jest.useFakeTimers();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  test('load sends a reset diff with the full population', () => {
+    const { host, events } = createHost();
+    const state = createState(1);
+
+    host.handle({ type: 'load', state });
+
+    expect(events).toHaveLength(1);
+    const event = events[0];
+    expect(event.type).toBe('diff');
+    if (event.type === 'diff') {
+      expect(event.diff.reset).toBe(true);
+      expect(event.diff.added).toEqual(state.organisms);
+    }
+  });
+
+  test('seeking rewinds and replays to the same generations', () => {
+    const { host, events } = createHost();
+    host.handle({ type: 'load', state: createState(6) });
+    for (let i = 0; i < 25; i++) {
+      host.handle({ type: 'step' });
+    }
+    const original = lastSnapshot(host, events);
+
+    host.handle({ type: 'seek', generation: 13 });
+    const rewound = events[events.length - 1];
+    expect(rewound.type === 'diff' && rewound.diff).toMatchObject({
+      reset: true,
+      currentGeneration: 13,
+      replayedFrom: 10,
+      timeline: { start: 0, end: 25 }
+    });
+
+    host.handle({ type: 'seek', generation: 25 });
+    const replayed = lastSnapshot(host, events);
+    expect(replayed.organisms).toEqual(original.organisms);
+    expect(replayed.rngState).toBe(original.rngState);
+  });
+
+  test('branching from the past drops the old future and diverges', () => {
+    const { host, events } = createHost();
+    host.handle({ type: 'load', state: createState(7) });
+    for (let i = 0; i < 20; i++) {
+      host.handle({ type: 'step' });
+    }
+    const original = lastSnapshot(host, events);
+
+    host.handle({ type: 'seek', generation: 5 });
+    host.handle({ type: 'branch', seed: 1234 });
+    const branched = events[events.length - 1];
+    expect(branched.type === 'diff' && branched.diff.timeline).toEqual({ start: 0, end: 5 });
+
+    for (let i = 0; i < 15; i++) {
+      host.handle({ type: 'step' });
+    }
+    const diverged = lastSnapshot(host, events);
+    expect(diverged.currentGeneration).toBe(20);
+    expect(diverged.seed).toBe(1234);
+    expect(diverged.rngState).not.toBe(original.rngState);
+  });
+
+  test('seeking back restores the config and seed the earlier generations ran with', () => {
+    const { host, events } = createHost();
+    host.handle({ type: 'load', state: createState(8) });
+    for (let i = 0; i < 10; i++) {
+      host.handle({ type: 'step' });
+    }
+    host.handle({ type: 'setConfig', config: { ...DEFAULT_SIMULATION_CONFIG, maxAge: 3 } });
+    host.handle({ type: 'branch', seed: 99 });
+    for (let i = 0; i < 10; i++) {
+      host.handle({ type: 'step' });
+    }
+
+    host.handle({ type: 'seek', generation: 5 });
+    const rewound = events[events.length - 1];
+    expect(rewound.type === 'diff' && rewound.diff).toMatchObject({
+      reset: true,
+      config: DEFAULT_SIMULATION_CONFIG,
+      seed: 8
+    });
+
+    host.handle({ type: 'step' });
+    const stepped = events[events.length - 1];
+    expect(stepped.type === 'diff' && stepped.diff.config).toBeUndefined();
+  });
+
+  test('config changes apply from the next generation', () => {
+    const { host, events } = createHost();
+    host.handle({ type: 'load', state: createState(4) });
+
+    host.handle({ type: 'setConfig', config: { ...DEFAULT_SIMULATION_CONFIG, maxAge: 1 } });
+    for (let i = 0; i < 3; i++) {
+      host.handle({ type: 'step' });
+    }
+
+    const state = lastSnapshot(host, events);
+    expect(state.config.maxAge).toBe(1);
+    expect(state.organisms.every(organism => organism.age <= 1)).toBe(true);
+  });
+
+  test('a new world size waits for the next new simulation', () => {
+    const { host, events } = createHost();
+    host.handle({ type: 'load', state: createState(4) });
+    host.handle({ type: 'step' });
+
+    host.handle({ type: 'setConfig', config: { ...DEFAULT_SIMULATION_CONFIG, worldSize: 20, maxAge: 50 } });
+    host.handle({ type: 'step' });
+
+    const state = lastSnapshot(host, events);
+    expect(state.config.maxAge).toBe(50);
+    expect(state.config.worldSize).toBe(DEFAULT_SIMULATION_CONFIG.worldSize);
+    expect(state.environment.fields?.worldSize).toBe(DEFAULT_SIMULATION_CONFIG.worldSize);
+  });
+
+  test('steps produce incremental diffs and advance the generation', () => {
+    const { host, events } = createHost();
+    host.handle({ type: 'load', state: createState(2) });
+
+    host.handle({ type: 'step' });
+
+    const event = events[events.length - 1];
+    expect(event.type).toBe('diff');
+    if (event.type === 'diff') {
+      expect(event.diff.reset).toBe(false);
+      expect(event.diff.currentGeneration).toBe(1);
+      expect(event.diff.updated.length + event.diff.removed.length).toBeGreaterThan(0);
+    }
+  });
+
+  test('running on a timer matches the core fast forward', () => {
+    const { host, events } = createHost();
+    host.handle({ type: 'load', state: createState(3) });
+
+    host.handle({ type: 'start', speed: 10 });
+    jest.advanceTimersByTime(1000);
+    host.handle({ type: 'pause' });
+    jest.advanceTimersByTime(1000);
+
+    const expected = fastForward(createState(3), 10);
+    const actual = lastSnapshot(host, events);
+    expect(actual.currentGeneration).toBe(10);
+    expect(actual.organisms).toEqual(expected.organisms);
+    expect(actual.rngState).toBe(expected.rngState);
+  });
+
+  test('fast forward reports completion and resumes the timer', () => {
+    const { host, events } = createHost();
+    host.handle({ type: 'load', state: createState(4) });
+    host.handle({ type: 'start', speed: 1 });
+
+    // The fake clock doesn't move, so the whole fast forward fits in one chunk
+    host.handle({ type: 'fastForward', generations: 25 });
+
+    const done = events.find(event => event.type === 'fastForwardDone');
+    expect(done).toEqual({ type: 'fastForwardDone', completed: 25, total: 25, cancelled: false });
+    expect(lastSnapshot(host, events).currentGeneration).toBe(25);
+
+    jest.advanceTimersByTime(1000);
+    expect(lastSnapshot(host, events).currentGeneration).toBe(26);
+    host.dispose();
+  });
+
+  test('fast forward can be cancelled between chunks', () => {
+    const { host, events } = createHost();
+    host.handle({ type: 'load', state: createState(5) });
+
+    // Make every chunk run exactly one generation
+    let now = 0;
+    const dateSpy = jest.spyOn(Date, 'now').mockImplementation(() => (now += 100));
+
+    host.handle({ type: 'fastForward', generations: 1000 });
+    expect(events[events.length - 1]).toEqual({ type: 'fastForwardProgress', completed: 1, total: 1000 });
+
+    host.handle({ type: 'cancelFastForward' });
+    jest.runOnlyPendingTimers();
+    dateSpy.mockRestore();
+
+    const done = events.find(event => event.type === 'fastForwardDone');
+    expect(done).toEqual({ type: 'fastForwardDone', completed: 1, total: 1000, cancelled: true });
+    expect(lastSnapshot(host, events).currentGeneration).toBe(1);
+  });
+
+  test('diffs carry statistics for every generation since the last diff', () => {
+    const { host, events } = createHost();
+    host.handle({ type: 'load', state: createState(7) });
+
+    host.handle({ type: 'fastForward', generations: 12 });
+
+    const stats = events.flatMap(event => (event.type === 'diff' ? event.diff.stats : []));
+    expect(stats.map(entry => entry.generation)).toEqual(Array.from({ length: 13 }, (_, i) => i));
+  });
+
+  test('player control moves only the controlled organism', () => {
+    const { host, events } = createHost();
+    const state = createState(6);
+    const target = state.organisms[0];
+    host.handle({ type: 'load', state });
+
+    host.handle({ type: 'intervene', intervention: { type: 'control', organismId: target.id } });
+    host.handle({ type: 'intervene', intervention: { type: 'move', direction: { x: 1, y: 0, z: 0 } } });
+
+    const event = events[events.length - 1];
+    expect(event.type).toBe('diff');
+    if (event.type === 'diff') {
+      expect(event.diff.updated).toHaveLength(1);
+      expect(event.diff.updated[0].id).toBe(target.id);
+      expect(event.diff.updated[0].position.x).toBeGreaterThan(target.position.x);
+    }
+  });
+
+  test('killed organisms are counted with the next generation', () => {
+    const { host, events } = createHost();
+    const state = createState(3);
+    const victim = state.organisms[0];
+    host.handle({ type: 'load', state });
+
+    host.handle({ type: 'intervene', intervention: { type: 'kill', organismId: victim.id } });
+    const diff = events[events.length - 1];
+    expect(diff.type === 'diff' && diff.diff.removed).toEqual([victim.id]);
+    expect(diff.type === 'diff' && diff.diff.carcasses.map(carcass => carcass.id)).toEqual([victim.id]);
+
+    host.handle({ type: 'step' });
+    const step = events[events.length - 1];
+    expect(step.type === 'diff' && step.diff.stats[0].deaths.killed).toBe(1);
+  });
+
+  test('interventions are logged with the generation they followed', () => {
+    const { host, events } = createHost();
+    host.handle({ type: 'load', state: createState(5) });
+    host.handle({ type: 'step' });
+    host.handle({ type: 'step' });
+    const [first, second] = lastSnapshot(host, events).organisms;
+
+    host.handle({ type: 'intervene', intervention: { type: 'clone', organismId: first.id } });
+    host.handle({ type: 'intervene', intervention: { type: 'kill', organismId: 'missing' } });
+    host.handle({ type: 'step' });
+    host.handle({ type: 'intervene', intervention: { type: 'editTraits', organismId: second.id, traits: { predation: 1 } } });
+
+    host.handle({ type: 'interventionLog', requestId: 2 });
+    const event = events[events.length - 1];
+    expect(event.type === 'interventionLog' && event.log).toEqual([
+      { generation: 2, intervention: { type: 'clone', organismId: first.id } },
+      { generation: 3, intervention: { type: 'editTraits', organismId: second.id, traits: { predation: 1 } } }
+    ]);
+
+    // Rewinding to before an intervention goes back to the log as it was then
+    host.handle({ type: 'seek', generation: 1 });
+    expect(lastSnapshot(host, events).interventionLog).toEqual([]);
+    host.handle({ type: 'seek', generation: 2 });
+    expect(lastSnapshot(host, events).interventionLog).toHaveLength(1);
+  });
+});
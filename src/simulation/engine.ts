@@ -0,0 +1,313 @@
+import { Organism } from '../frontend/stores/simulationStore';
+import { DeathEvent, simulateGeneration } from './core';
+import { EngineState, EngineCommand, EngineEvent, EngineDiff } from './protocol';
+import { GenerationStats, computeGenerationStats, createRingBuffer, DEFAULT_ANALYTICS_CAPACITY } from './analytics';
+import { DEFAULT_HISTORY_BUDGET, createHistory } from './history';
+import { seedToState } from './random';
+import { applyIntervention } from './interventions';
+
+/**
+ * Engine host: owns the simulation state and executes protocol commands.
+ *
+ * The host knows nothing about workers; it only receives commands and emits
+ * events through a callback. worker.ts wires it to postMessage, and the UI
+ * falls back to running it in-thread where workers are unavailable.
+ */
+
+// Upper bound on how long a fast-forward chunk may hold the thread before
+// yielding, so that progress is reported and cancel commands get through
+const FAST_FORWARD_CHUNK_MS = 50;
+
+export interface EngineHost {
+  handle: (command: EngineCommand) => void;
+  dispose: () => void;
+}
+
+interface FastForwardJob {
+  completed: number;
+  total: number;
+  cancelled: boolean;
+}
+
+export const createEngineHost = (
+  emit: (event: EngineEvent) => void,
+  historyBudget: number = DEFAULT_HISTORY_BUDGET
+): EngineHost => {
+  let state: EngineState | null = null;
+  let speed = 1;
+  let running = false;
+  let intervalId: ReturnType<typeof setInterval> | null = null;
+  let fastForwardJob: FastForwardJob | null = null;
+
+  // Organisms as of the last diff, used to work out what changed
+  let lastSent = new Map<string, Organism>();
+  
+  // Statistics gathered since the last diff. Bounded so that a long
+  // fast-forward only reports the most recent generations.
+  const pendingStats = createRingBuffer<GenerationStats>(DEFAULT_ANALYTICS_CAPACITY);
+  
+  // Keyframes to rewind to, and the generations that can be reached
+  const history = createHistory(historyBudget);
+
+  // Organisms killed by the user, counted with the next generation's statistics
+  let pendingDeaths: DeathEvent[] = [];
+
+  const sendDiff = (reset = false, replayedFrom?: number): void => {
+    if (!state) return;
+    if (reset) {
+      lastSent = new Map();
+    }
+
+    const current = new Map<string, Organism>();
+    const added: Organism[] = [];
+    const updated: Organism[] = [];
+
+    for (const organism of state.organisms) {
+      current.set(organism.id, organism);
+      const previous = lastSent.get(organism.id);
+      if (!previous) {
+        added.push(organism);
+      } else if (previous !== organism) {
+        updated.push(organism);
+      }
+    }
+
+    const removed: string[] = [];
+    lastSent.forEach((_, id) => {
+      if (!current.has(id)) removed.push(id);
+    });
+
+    lastSent = current;
+
+    const diff: EngineDiff = {
+      reset,
+      currentGeneration: state.currentGeneration,
+      rngState: state.rngState,
+      environment: state.environment,
+      added,
+      updated,
+      removed,
+      carcasses: state.carcasses,
+      species: state.species,
+      stats: pendingStats.toArray(),
+      timeline: history.timeline(),
+      replayedFrom,
+      config: reset ? state.config : undefined,
+      seed: reset ? state.seed : undefined
+    };
+    pendingStats.clear();
+    emit({ type: 'diff', diff });
+  };
+
+  const advance = (): void => {
+    if (!state) return;
+    const next = simulateGeneration(state);
+    const generation = state.currentGeneration + 1;
+    const events = pendingDeaths.length > 0 ?
+      { ...next.events, deaths: [...pendingDeaths, ...next.events.deaths] } :
+      next.events;
+    pendingDeaths = [];
+    pendingStats.push(computeGenerationStats(next.organisms, events, next.environment, generation));
+    state = {
+      organisms: next.organisms,
+      carcasses: next.carcasses,
+      environment: next.environment,
+      currentGeneration: generation,
+      seed: state.seed,
+      rngState: next.rngState,
+      config: state.config,
+      lineage: next.lineage,
+      species: next.species,
+      interventionLog: state.interventionLog
+    };
+    history.record(state);
+  };
+
+  const stopTimer = (): void => {
+    if (intervalId !== null) {
+      clearInterval(intervalId);
+      intervalId = null;
+    }
+  };
+
+  const startTimer = (): void => {
+    stopTimer();
+    intervalId = setInterval(() => {
+      advance();
+      sendDiff();
+    }, 1000 / speed);
+  };
+
+  const runFastForwardChunk = (): void => {
+    const job = fastForwardJob;
+    if (!job) return;
+
+    // Always make progress, even if one generation outlasts the chunk budget
+    const chunkStart = Date.now();
+    while (!job.cancelled && job.completed < job.total) {
+      advance();
+      job.completed++;
+      if (Date.now() - chunkStart >= FAST_FORWARD_CHUNK_MS) break;
+    }
+
+    if (job.cancelled || job.completed >= job.total) {
+      fastForwardJob = null;
+      sendDiff();
+      emit({ type: 'fastForwardDone', completed: job.completed, total: job.total, cancelled: job.cancelled });
+      // Pick the regular tick back up if the simulation is meant to be running
+      if (running) {
+        startTimer();
+      }
+      return;
+    }
+
+    emit({ type: 'fastForwardProgress', completed: job.completed, total: job.total });
+    // Yield so that queued commands, such as a cancel, can be handled
+    setTimeout(runFastForwardChunk, 0);
+  };
+
+  // Changes from outside the simulation can't be replayed, so they start a new branch
+  const changeState = (change: (current: EngineState) => EngineState): void => {
+    if (!state) return;
+    state = change(state);
+    history.branch(state);
+    sendDiff();
+  };
+
+  const handle = (command: EngineCommand): void => {
+    try {
+      switch (command.type) {
+        case 'load':
+          if (fastForwardJob) {
+            fastForwardJob.cancelled = true;
+          }
+          state = command.state;
+          history.reset(state);
+          pendingDeaths = [];
+          pendingStats.clear();
+          pendingStats.push(computeGenerationStats(
+            state.organisms,
+            { births: [], deaths: [] },
+            state.environment,
+            state.currentGeneration
+          ));
+          sendDiff(true);
+          break;
+
+        case 'start':
+          speed = command.speed;
+          running = true;
+          if (!fastForwardJob) startTimer();
+          break;
+
+        case 'pause':
+          running = false;
+          stopTimer();
+          break;
+
+        case 'step':
+          if (fastForwardJob) break;
+          advance();
+          sendDiff();
+          break;
+
+        case 'setSpeed':
+          speed = command.speed;
+          if (running && !fastForwardJob) startTimer();
+          break;
+
+        case 'setConfig':
+          // The fields and biomes are laid out for the size the run started
+          // with, so a new world size waits for the next new simulation
+          changeState(current => ({
+            ...current,
+            config: { ...command.config, worldSize: current.config.worldSize }
+          }));
+          break;
+
+        case 'fastForward':
+          if (fastForwardJob || !state) break;
+          stopTimer();
+          fastForwardJob = {
+            completed: 0,
+            total: command.generations,
+            cancelled: false
+          };
+          runFastForwardChunk();
+          break;
+
+        case 'cancelFastForward':
+          if (fastForwardJob) {
+            fastForwardJob.cancelled = true;
+          }
+          break;
+
+        case 'seek': {
+          if (fastForwardJob || !state) break;
+          const { start, end } = history.timeline();
+          const target = Math.min(end, Math.max(start, command.generation));
+          const keyframe = history.keyframeBefore(target);
+          if (!keyframe) break;
+          state = keyframe.state;
+          pendingDeaths = [];
+          pendingStats.clear();
+          while (state.currentGeneration < target) {
+            advance();
+          }
+          sendDiff(true, keyframe.generation);
+          break;
+        }
+
+        case 'branch':
+          if (fastForwardJob || !state) break;
+          state = { ...state, seed: command.seed, rngState: seedToState(command.seed) };
+          history.branch(state);
+          sendDiff();
+          break;
+
+        case 'snapshot':
+          if (state) {
+            emit({ type: 'snapshot', requestId: command.requestId, state });
+          } else {
+            emit({ type: 'error', message: 'No simulation has been loaded', requestId: command.requestId });
+          }
+          break;
+
+        case 'lineage':
+          if (state) {
+            emit({ type: 'lineage', requestId: command.requestId, lineage: state.lineage });
+          } else {
+            emit({ type: 'error', message: 'No simulation has been loaded', requestId: command.requestId });
+          }
+          break;
+
+        case 'interventionLog':
+          if (state) {
+            emit({ type: 'interventionLog', requestId: command.requestId, log: state.interventionLog });
+          } else {
+            emit({ type: 'error', message: 'No simulation has been loaded', requestId: command.requestId });
+          }
+          break;
+
+        case 'intervene':
+          changeState(current => {
+            const { state: next, deaths } = applyIntervention(current, command.intervention);
+            pendingDeaths.push(...deaths);
+            return next;
+          });
+          break;
+      }
+    } catch (error) {
+      emit({ type: 'error', message: error instanceof Error ? error.message : String(error) });
+    }
+  };
+
+  const dispose = (): void => {
+    stopTimer();
+    if (fastForwardJob) {
+      fastForwardJob.cancelled = true;
+    }
+  };
+
+  return { handle, dispose };
+};
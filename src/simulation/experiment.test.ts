@@ -0,0 +1,111 @@
+import {
+  DEFAULT_EXPERIMENT_CONFIG,
+  ExperimentConfig,
+  createRunState,
+  expandRuns,
+  parseExperimentConfig,
+  runExperiment
+} from './experiment';
+import { GenerationStats } from './analytics';
+import { simulateGeneration } from './core';
+import { applyIntervention } from './interventions';
+import { EngineState } from './protocol';
+import { createSnapshot, loadSnapshot } from './snapshot';
+
+const config: ExperimentConfig = {
+  ...DEFAULT_EXPERIMENT_CONFIG,
+  generations: 20,
+  seeds: [1, 2],
+  initialSettings: { reproduction: 0.5 }
+};
+
+describe('Experiments', () => {
+  test('runs cover every combination of seed and swept setting', () => {
+    const runs = expandRuns({ ...config, sweep: { mating: [0, 0.5], predation: [0.1, 0.3] } });
+
+    expect(runs).toHaveLength(8);
+    expect(new Set(runs.map(run => run.name)).size).toBe(8);
+    expect(runs[0]).toEqual({
+      name: 'mating-0_predation-0.1_seed-1',
+      seed: 1,
+      initialSettings: { reproduction: 0.5, mating: 0, predation: 0.1 }
+    });
+  });
+
+  test('a run reports every generation and is reproducible', () => {
+    const [run] = expandRuns(config);
+    const stats: GenerationStats[] = [];
+
+    const summary = runExperiment(run, config, entry => stats.push(entry));
+    const again = runExperiment(run, config);
+
+    expect(stats.map(entry => entry.generation)).toEqual(Array.from({ length: 20 }, (_, i) => i + 1));
+    expect(summary.generations).toBe(20);
+    expect(summary.finalPopulation).toBe(stats[stats.length - 1].population);
+    expect({ ...again, elapsedMs: 0 }).toEqual({ ...summary, elapsedMs: 0 });
+    // Strict mode only checks the run
+    expect({ ...runExperiment(run, { ...config, strict: true }), elapsedMs: 0 }).toEqual({ ...summary, elapsedMs: 0 });
+  });
+
+  test('runs stop when the population dies out', () => {
+    const [run] = expandRuns({ ...config, initialSettings: { metabolism: 1, photosynthesis: 0, reproduction: 0 } });
+    const summary = runExperiment(run, { ...config, generations: 500 });
+
+    expect(summary.finalPopulation).toBe(0);
+    expect(summary.extinctAt).toBe(summary.generations);
+    expect(summary.generations).toBeLessThan(500);
+  });
+
+  test('run states can be saved as snapshots', () => {
+    const [run] = expandRuns(config);
+    const state = createRunState(run, config);
+
+    expect(() => loadSnapshot(JSON.parse(JSON.stringify(createSnapshot({ ...state, simulationSpeed: 1 }))))).not.toThrow();
+  });
+
+  test('replaying an intervention log reproduces the run it was logged in', () => {
+    const [run] = expandRuns(config);
+    let played = createRunState(run, config);
+    while (played.currentGeneration < config.generations) {
+      if (played.currentGeneration === 3) {
+        const mean = played.organisms.reduce((sum, organism) => sum + organism.traits.motility, 0) / played.organisms.length;
+        played = applyIntervention(played, { type: 'cull', filter: { trait: 'motility', comparison: 'above', value: mean } }).state;
+        played = applyIntervention(played, { type: 'inject', design: { predation: 0.8 }, position: { x: 5, y: 0, z: 5 } }).state;
+      }
+      if (played.currentGeneration === 8) {
+        played = applyIntervention(played, { type: 'clone', organismId: played.organisms[0].id }).state;
+      }
+      const next = simulateGeneration(played);
+      played = { ...played, ...next, currentGeneration: played.currentGeneration + 1 };
+    }
+
+    let replayed: EngineState | null = null;
+    runExperiment(run, { ...config, interventions: played.interventionLog }, (_, state) => {
+      replayed = state;
+    });
+
+    expect(played.interventionLog).toHaveLength(3);
+    expect(replayed!.organisms).toEqual(played.organisms);
+    expect(replayed!.interventionLog).toEqual(played.interventionLog);
+  });
+
+  test('scheduled catastrophes are part of every run', () => {
+    const [run] = expandRuns(config);
+    const state = createRunState(run, { ...config, catastrophes: [{ kind: 'plague', generation: 3 }] });
+
+    expect(state.environment.climate?.scheduled).toEqual([{ kind: 'plague', generation: 3 }]);
+  });
+
+  test('rejects malformed configs', () => {
+    expect(parseExperimentConfig({ generations: 10, sweep: { mating: [0, 1] } })).toEqual({ generations: 10, sweep: { mating: [0, 1] } });
+    expect(() => parseExperimentConfig([])).toThrow('must be a JSON object');
+    expect(() => parseExperimentConfig({ generation: 10 })).toThrow('Unknown config field "generation"');
+    expect(() => parseExperimentConfig({ seeds: [] })).toThrow('seeds');
+    expect(() => parseExperimentConfig({ initialSettings: { wings: 1 } })).toThrow('initialSettings.wings');
+    expect(() => parseExperimentConfig({ sweep: { mating: ['lots'] } })).toThrow('sweep.mating[0].mating');
+    expect(() => parseExperimentConfig({ worldPreset: 'mars' })).toThrow('worldPreset');
+    expect(() => parseExperimentConfig({ interventions: [{ generation: 1 }] })).toThrow('interventions[0].intervention');
+    expect(() => parseExperimentConfig({ catastrophes: [{ kind: 'flood', generation: 1 }] })).toThrow('catastrophes[0].kind');
+    expect(() => parseExperimentConfig({ strict: 'yes' })).toThrow('strict must be a boolean');
+  });
+});
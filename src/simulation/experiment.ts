@@ -0,0 +1,311 @@
+import { InitialOrganismSettings, OrganismTraits } from '../frontend/stores/simulationStore';
+import { DEFAULT_ENVIRONMENT, DeathEvent, createInitialPopulation, simulateGeneration } from './core';
+import { TRAIT_NAMES } from './traits';
+import { createRng, seedToState } from './random';
+import { createLineage } from './lineage';
+import { createSpeciesRegistry, updateSpecies } from './species';
+import { WORLD_PRESETS, WorldPresetName, generateWorld } from './biomes';
+import { GenerationStats, computeGenerationStats } from './analytics';
+import { EngineState } from './protocol';
+import { ConfigError, SimulationConfigChanges, resolveSimulationConfig, validateConfigChanges } from './config';
+import { InterventionError, InterventionRecord, applyIntervention, validateInterventionLog } from './interventions';
+import { ClimateError, ScheduledCatastrophe, createClimateState, validateScheduledCatastrophes } from './climate';
+
+/**
+ * Headless batch experiments.
+ *
+ * An experiment runs the engine without a UI for a number of generations,
+ * once for every combination of seed and swept initial setting. Callers
+ * observe each generation to write out statistics and snapshots; every run
+ * ends with a summary. Catastrophes can be scheduled for every run, and an
+ * intervention log saved from the app can be replayed to reproduce a run
+ * the player intervened in. In strict mode, a run that breaks one of the
+ * engine's invariants fails with an InvariantError.
+ */
+
+export interface ExperimentConfig {
+  generations: number;
+  seeds: number[];
+  population: number;                          // Initial population per run
+  initialSettings: InitialOrganismSettings;
+  worldPreset: WorldPresetName;
+  simulation: SimulationConfigChanges;         // Simulation parameters that differ from the defaults
+  sweep: Partial<Record<keyof InitialOrganismSettings, number[]>>; // Values to try for each swept setting
+  snapshotEvery: number;                       // Generations between snapshots; 0 for only the final one
+  stopOnExtinction: boolean;
+  interventions: InterventionRecord[];         // Replayed after the generations they were logged at
+  catastrophes: ScheduledCatastrophe[];        // Strike every run at the given generations
+  strict: boolean;                             // Stop a run at the first generation that breaks an engine invariant
+}
+
+export const DEFAULT_EXPERIMENT_CONFIG: ExperimentConfig = {
+  generations: 1000,
+  seeds: [1],
+  population: 5,
+  initialSettings: {},
+  worldPreset: 'uniform',
+  simulation: {},
+  sweep: {},
+  snapshotEvery: 0,
+  stopOnExtinction: true,
+  interventions: [],
+  catastrophes: [],
+  strict: false
+};
+
+const INITIAL_SETTING_NAMES: (keyof InitialOrganismSettings)[] = [...TRAIT_NAMES, 'size', 'brainShare'];
+
+export class ExperimentConfigError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ExperimentConfigError';
+  }
+}
+
+export interface ExperimentRun {
+  name: string; // Unique within the experiment, safe to use as a directory name
+  seed: number;
+  initialSettings: InitialOrganismSettings;
+}
+
+export interface RunSummary {
+  name: string;
+  seed: number;
+  initialSettings: InitialOrganismSettings;
+  generations: number;         // Generations actually simulated
+  finalPopulation: number;
+  peakPopulation: number;
+  extinctAt: number | null;    // Generation the population died out, if it did
+  births: number;
+  deaths: number;
+  meanTraits: Record<keyof OrganismTraits, number>; // Of the final population
+  elapsedMs: number;
+}
+
+const isObject = (value: unknown): value is Record<string, any> => {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+};
+
+const isNonNegativeInteger = (value: unknown): value is number => {
+  return typeof value === 'number' && Number.isInteger(value) && value >= 0;
+};
+
+const validateSettings = (value: unknown, path: string): InitialOrganismSettings => {
+  if (!isObject(value)) {
+    throw new ExperimentConfigError(`${path} must be an object`);
+  }
+  for (const [key, setting] of Object.entries(value)) {
+    if (!INITIAL_SETTING_NAMES.includes(key as keyof InitialOrganismSettings)) {
+      throw new ExperimentConfigError(`${path}.${key} is not an initial setting`);
+    }
+    if (typeof setting !== 'number' || !Number.isFinite(setting)) {
+      throw new ExperimentConfigError(`${path}.${key} must be a finite number`);
+    }
+  }
+  return value as InitialOrganismSettings;
+};
+
+/**
+ * Check an experiment config read from JSON. Every field is optional;
+ * missing ones fall back to the defaults when the config is resolved.
+ */
+export const parseExperimentConfig = (data: unknown): Partial<ExperimentConfig> => {
+  if (!isObject(data)) {
+    throw new ExperimentConfigError('Experiment config must be a JSON object');
+  }
+
+  const known = Object.keys(DEFAULT_EXPERIMENT_CONFIG);
+  for (const key of Object.keys(data)) {
+    if (!known.includes(key)) {
+      throw new ExperimentConfigError(`Unknown config field "${key}"`);
+    }
+  }
+
+  if (data.generations !== undefined && !isNonNegativeInteger(data.generations)) {
+    throw new ExperimentConfigError('generations must be a non-negative integer');
+  }
+  if (data.seeds !== undefined && (
+    !Array.isArray(data.seeds) || data.seeds.length === 0 || !data.seeds.every(isNonNegativeInteger)
+  )) {
+    throw new ExperimentConfigError('seeds must be a non-empty array of non-negative integers');
+  }
+  if (data.population !== undefined && (!isNonNegativeInteger(data.population) || data.population === 0)) {
+    throw new ExperimentConfigError('population must be a positive integer');
+  }
+  if (data.initialSettings !== undefined) {
+    validateSettings(data.initialSettings, 'initialSettings');
+  }
+  if (data.worldPreset !== undefined && !(data.worldPreset in WORLD_PRESETS)) {
+    throw new ExperimentConfigError(`worldPreset must be one of ${Object.keys(WORLD_PRESETS).join(', ')}`);
+  }
+  if (data.simulation !== undefined) {
+    try {
+      validateConfigChanges(data.simulation, 'simulation');
+    } catch (error) {
+      throw error instanceof ConfigError ? new ExperimentConfigError(error.message) : error;
+    }
+  }
+  if (data.sweep !== undefined) {
+    if (!isObject(data.sweep)) {
+      throw new ExperimentConfigError('sweep must be an object');
+    }
+    for (const [key, values] of Object.entries(data.sweep)) {
+      if (!Array.isArray(values) || values.length === 0) {
+        throw new ExperimentConfigError(`sweep.${key} must be a non-empty array`);
+      }
+      values.forEach((value, index) => validateSettings({ [key]: value }, `sweep.${key}[${index}]`));
+    }
+  }
+  if (data.snapshotEvery !== undefined && !isNonNegativeInteger(data.snapshotEvery)) {
+    throw new ExperimentConfigError('snapshotEvery must be a non-negative integer');
+  }
+  if (data.stopOnExtinction !== undefined && typeof data.stopOnExtinction !== 'boolean') {
+    throw new ExperimentConfigError('stopOnExtinction must be a boolean');
+  }
+  if (data.strict !== undefined && typeof data.strict !== 'boolean') {
+    throw new ExperimentConfigError('strict must be a boolean');
+  }
+  if (data.interventions !== undefined) {
+    try {
+      validateInterventionLog(data.interventions, 'interventions');
+    } catch (error) {
+      throw error instanceof InterventionError ? new ExperimentConfigError(error.message) : error;
+    }
+  }
+  if (data.catastrophes !== undefined) {
+    try {
+      validateScheduledCatastrophes(data.catastrophes, 'catastrophes');
+    } catch (error) {
+      throw error instanceof ClimateError ? new ExperimentConfigError(error.message) : error;
+    }
+  }
+
+  return data as Partial<ExperimentConfig>;
+};
+
+/**
+ * Every combination of seed and swept setting value, in a stable order
+ */
+export const expandRuns = (config: ExperimentConfig): ExperimentRun[] => {
+  let combinations: { label: string[]; settings: InitialOrganismSettings }[] = [
+    { label: [], settings: config.initialSettings }
+  ];
+
+  for (const [key, values] of Object.entries(config.sweep)) {
+    combinations = combinations.flatMap(combination => (values as number[]).map(value => ({
+      label: [...combination.label, `${key}-${value}`],
+      settings: { ...combination.settings, [key]: value }
+    })));
+  }
+
+  return combinations.flatMap(combination => config.seeds.map(seed => ({
+    name: [...combination.label, `seed-${seed}`].join('_'),
+    seed,
+    initialSettings: combination.settings
+  })));
+};
+
+/**
+ * The state a run starts from, built the same way as a new simulation in the app
+ */
+export const createRunState = (run: ExperimentRun, config: ExperimentConfig): EngineState => {
+  const simulationConfig = resolveSimulationConfig(config.simulation);
+  const rng = createRng(seedToState(run.seed));
+  const population = createInitialPopulation(run.initialSettings, config.population, rng, simulationConfig);
+  const { organisms, species } = updateSpecies(createSpeciesRegistry(), population, [], 0, simulationConfig.speciesThreshold);
+
+  return {
+    organisms,
+    carcasses: [],
+    environment: {
+      ...DEFAULT_ENVIRONMENT,
+      fields: generateWorld(DEFAULT_ENVIRONMENT, config.worldPreset, run.seed, simulationConfig.worldSize),
+      climate: createClimateState(config.catastrophes)
+    },
+    currentGeneration: 0,
+    seed: run.seed,
+    rngState: rng.getState(),
+    config: simulationConfig,
+    lineage: createLineage(organisms, 0),
+    species,
+    interventionLog: []
+  };
+};
+
+/**
+ * Simulate one run to the end, calling onGeneration after every generation
+ */
+export const runExperiment = (
+  run: ExperimentRun,
+  config: ExperimentConfig,
+  onGeneration: (stats: GenerationStats, state: EngineState) => void = () => {}
+): RunSummary => {
+  const startedAt = Date.now();
+  let state = createRunState(run, config);
+  let peakPopulation = state.organisms.length;
+  let extinctAt: number | null = null;
+  let births = 0;
+  let deaths = 0;
+  let replayed = 0;
+  let pendingDeaths: DeathEvent[] = [];
+
+  while (state.currentGeneration < config.generations) {
+    // Interventions come between generations, as they did in the engine
+    while (replayed < config.interventions.length && config.interventions[replayed].generation <= state.currentGeneration) {
+      const applied = applyIntervention(state, config.interventions[replayed++].intervention);
+      state = applied.state;
+      pendingDeaths.push(...applied.deaths);
+    }
+
+    const next = simulateGeneration(state, { strict: config.strict });
+    const generation = state.currentGeneration + 1;
+    const events = pendingDeaths.length > 0 ?
+      { ...next.events, deaths: [...pendingDeaths, ...next.events.deaths] } :
+      next.events;
+    pendingDeaths = [];
+    state = {
+      organisms: next.organisms,
+      carcasses: next.carcasses,
+      environment: next.environment,
+      currentGeneration: generation,
+      seed: state.seed,
+      rngState: next.rngState,
+      config: state.config,
+      lineage: next.lineage,
+      species: next.species,
+      interventionLog: state.interventionLog
+    };
+
+    const stats = computeGenerationStats(state.organisms, events, state.environment, generation);
+    births += stats.births;
+    deaths += events.deaths.length;
+    peakPopulation = Math.max(peakPopulation, stats.population);
+    onGeneration(stats, state);
+
+    if (stats.population === 0) {
+      extinctAt = extinctAt ?? generation;
+      if (config.stopOnExtinction) break;
+    }
+  }
+
+  const meanTraits = {} as Record<keyof OrganismTraits, number>;
+  for (const trait of TRAIT_NAMES) {
+    meanTraits[trait] = state.organisms.length > 0 ?
+      state.organisms.reduce((sum, organism) => sum + organism.traits[trait], 0) / state.organisms.length :
+      0;
+  }
+
+  return {
+    name: run.name,
+    seed: run.seed,
+    initialSettings: run.initialSettings,
+    generations: state.currentGeneration,
+    finalPopulation: state.organisms.length,
+    peakPopulation,
+    extinctAt,
+    births,
+    deaths,
+    meanTraits,
+    elapsedMs: Date.now() - startedAt
+  };
+};
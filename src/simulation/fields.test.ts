@@ -0,0 +1,110 @@
+import { createInitialOrganism, simulateGeneration } from './core';
+import { DEFAULT_SIMULATION_CONFIG } from './config';
+import { createRng, seedToState } from './random';
+import {
+  FIELD_NAMES,
+  cellCenter,
+  cellIndexAt,
+  createEnvironmentFields,
+  sampleField,
+  stepFields
+} from './fields';
+
+const environment = {
+  temperature: 0.5,
+  lightLevel: 0.8,
+  moisture: 0.6,
+  resources: {
+    organic: 100,
+    minerals: 100,
+    light: 100
+  }
+};
+
+const createFields = () => createEnvironmentFields(environment, DEFAULT_SIMULATION_CONFIG.worldSize);
+
+// Photosynthesizers that stay put at the given position
+const createPlants = (count: number, position = { x: 2, y: 2, z: 2 }) => {
+  const rng = createRng(seedToState(1));
+  return Array.from({ length: count }, () => {
+    const organism = createInitialOrganism({ photosynthesis: 1, motility: 0, reproduction: 0 }, rng);
+    organism.position = position;
+    organism.targetPosition = position;
+    return organism;
+  });
+};
+
+describe('Environment Fields', () => {
+  test('cell indices and centers agree', () => {
+    const fields = createFields();
+    const cellCount = fields.resolution ** 3;
+
+    for (const index of [0, 1, 57, 420, cellCount - 1]) {
+      expect(cellIndexAt(fields, cellCenter(fields, index))).toBe(index);
+    }
+    // Positions outside the world are clamped to the edge cells
+    expect(cellIndexAt(fields, { x: -500, y: -500, z: -500 })).toBe(0);
+    expect(cellIndexAt(fields, { x: 500, y: 500, z: 500 })).toBe(cellCount - 1);
+  });
+
+  test('light falls off with depth', () => {
+    const fields = createFields();
+
+    const surface = sampleField(fields, 'light', { x: 0, y: 0, z: 1 });
+    const deep = sampleField(fields, 'light', { x: 0, y: 0, z: 45 });
+
+    expect(surface).toBeGreaterThan(deep);
+    expect(surface).toBeLessThanOrEqual(environment.lightLevel * 100);
+  });
+
+  test('diffusion spreads a depleted cell out and regeneration refills it', () => {
+    let fields = createFields();
+    const index = cellIndexAt(fields, { x: 0, y: 0, z: 0 });
+    const neighbor = index + 1;
+    fields.values.minerals[index] = 0;
+
+    fields = stepFields(fields);
+    expect(fields.values.minerals[index]).toBeGreaterThan(0);
+    expect(fields.values.minerals[neighbor]).toBeLessThan(100);
+
+    for (let i = 0; i < 500; i++) {
+      fields = stepFields(fields);
+    }
+    expect(fields.values.minerals[index]).toBeGreaterThan(99);
+  });
+
+  test('stepping returns new grids and leaves the input untouched', () => {
+    const fields = createFields();
+    const next = stepFields(fields);
+
+    for (const field of FIELD_NAMES) {
+      expect(next.values[field]).not.toBe(fields.values[field]);
+      expect(next.values[field]).toHaveLength(fields.resolution ** 3);
+    }
+    expect(next.capacity).toBe(fields.capacity);
+  });
+
+  test('photosynthesizers deplete the cell they occupy', () => {
+    const fields = createFields();
+    const position = { x: 2, y: 2, z: 2 };
+    const index = cellIndexAt(fields, position);
+
+    const next = simulateGeneration({ organisms: createPlants(10, position), environment: { ...environment, fields } });
+
+    expect(next.environment.fields.values.minerals[index]).toBeLessThan(100);
+    expect(next.environment.fields.values.minerals[0]).toBeCloseTo(100);
+    // The input state isn't modified
+    expect(fields.values.minerals[index]).toBe(100);
+  });
+
+  test('crowded photosynthesizers shade each other', () => {
+    const energyGained = (count: number) => {
+      const plants = createPlants(count);
+      const next = simulateGeneration({ organisms: plants, environment: { ...environment, fields: createFields() } });
+      const total = next.organisms.reduce((sum: number, organism: { energy: number }) => sum + organism.energy, 0);
+      return total / count;
+    };
+
+    expect(energyGained(40)).toBeLessThan(energyGained(1));
+  });
+});
@@ -0,0 +1,225 @@
+import { Environment, Position } from '../frontend/stores/simulationStore';
+
+/**
+ * Spatially varying environment fields.
+ *
+ * The world cube is divided into a grid of cells, each holding a value for
+ * every field. Organisms sample and deplete the cell they occupy; between
+ * generations the fields diffuse into neighboring cells and regenerate
+ * towards a per-cell capacity.
+ */
+
+export const FIELD_NAMES = ['light', 'temperature', 'moisture', 'organic', 'minerals'] as const;
+
+export type FieldName = typeof FIELD_NAMES[number];
+
+export const FIELD_RESOLUTION = 10; // Cells along each axis
+
+export interface EnvironmentFields {
+  resolution: number;
+  worldSize: number; // Edge length of the world cube, centered on the origin
+  values: Record<FieldName, number[]>;
+  capacity: Record<FieldName, number[]>; // Level each cell regenerates towards
+  biome?: number[];             // Index into BIOME_NAMES per cell; absent in a uniform world
+  regenerationScale?: number[]; // Per-cell multiplier of resource regeneration
+}
+
+/**
+ * Changes to the levels cells regenerate towards, as capacity * scale + offset
+ */
+export type CapacityShift = Partial<Record<FieldName, { scale: number; offset: number }>>;
+
+interface FieldDynamics {
+  diffusion: number;    // Fraction of the difference to the neighbor average evened out per generation
+  regeneration: number; // Fraction of the gap to capacity restored per generation
+  resource: boolean;    // Whether regeneration follows the cell's regenerationScale
+}
+
+const FIELD_DYNAMICS: Record<FieldName, FieldDynamics> = {
+  // Light comes back every generation, so it's only contested within a generation
+  light: { diffusion: 0, regeneration: 1, resource: false },
+  temperature: { diffusion: 0.1, regeneration: 0.05, resource: false },
+  moisture: { diffusion: 0.1, regeneration: 0.02, resource: true },
+  // Organic matter only comes from decaying carcasses
+  organic: { diffusion: 0.05, regeneration: 0, resource: true },
+  minerals: { diffusion: 0.05, regeneration: 0.01, resource: true }
+};
+
+/**
+ * Index of the cell containing a position, clamped to the grid
+ */
+export const cellIndexAt = (fields: EnvironmentFields, position: Position): number => {
+  const { resolution, worldSize } = fields;
+  // Called several times per organism per generation, so kept free of closures
+  const last = resolution - 1;
+  const x = Math.max(0, Math.min(last, Math.floor((position.x / worldSize + 0.5) * resolution)));
+  const y = Math.max(0, Math.min(last, Math.floor((position.y / worldSize + 0.5) * resolution)));
+  const z = Math.max(0, Math.min(last, Math.floor((position.z / worldSize + 0.5) * resolution)));
+  return (z * resolution + y) * resolution + x;
+};
+
+/**
+ * World position of the center of a cell
+ */
+export const cellCenter = (fields: EnvironmentFields, index: number): Position => {
+  const { resolution, worldSize } = fields;
+  const cellSize = worldSize / resolution;
+  const toWorld = (cell: number) => (cell + 0.5) * cellSize - worldSize / 2;
+  return {
+    x: toWorld(index % resolution),
+    y: toWorld(Math.floor(index / resolution) % resolution),
+    z: toWorld(Math.floor(index / (resolution * resolution)))
+  };
+};
+
+/**
+ * Build fields from the global environment parameters. Light falls off with
+ * depth and it gets colder further from the surface; everything else starts
+ * out uniform.
+ */
+export const createEnvironmentFields = (
+  environment: Environment,
+  worldSize: number,
+  resolution = FIELD_RESOLUTION
+): EnvironmentFields => {
+  const cellCount = resolution * resolution * resolution;
+  const capacity = {} as Record<FieldName, number[]>;
+  for (const field of FIELD_NAMES) {
+    capacity[field] = new Array(cellCount);
+  }
+
+  const fields: EnvironmentFields = { resolution, worldSize, values: capacity, capacity };
+  for (let index = 0; index < cellCount; index++) {
+    const depthFactor = 1 - Math.abs(cellCenter(fields, index).z / (worldSize / 2));
+    capacity.light[index] = environment.lightLevel * depthFactor * 100;
+    capacity.temperature[index] = environment.temperature * (0.75 + 0.25 * depthFactor);
+    capacity.moisture[index] = environment.moisture;
+    capacity.organic[index] = environment.resources.organic;
+    capacity.minerals[index] = environment.resources.minerals;
+  }
+
+  return { ...fields, values: copyValues(capacity) };
+};
+
+const copyValues = (values: Record<FieldName, number[]>): Record<FieldName, number[]> => {
+  const copy = {} as Record<FieldName, number[]>;
+  for (const field of FIELD_NAMES) {
+    copy[field] = values[field].slice();
+  }
+  return copy;
+};
+
+/**
+ * Copy the field values so that a generation can deplete them in place
+ */
+export const cloneFields = (fields: EnvironmentFields): EnvironmentFields => ({
+  ...fields,
+  values: copyValues(fields.values)
+});
+
+export const sampleField = (fields: EnvironmentFields, field: FieldName, position: Position): number => {
+  return fields.values[field][cellIndexAt(fields, position)];
+};
+
+/**
+ * Take up to amount from a cell, returning how much was available
+ */
+export const depleteField = (fields: EnvironmentFields, field: FieldName, index: number, amount: number): number => {
+  const taken = Math.min(fields.values[field][index], amount);
+  fields.values[field][index] -= taken;
+  return taken;
+};
+
+/**
+ * Add to a cell; values may exceed capacity and settle back through diffusion and regeneration
+ */
+export const enrichField = (fields: EnvironmentFields, field: FieldName, index: number, amount: number): void => {
+  fields.values[field][index] += amount;
+};
+
+// Difference between the neighbors on either side of a cell along one axis; the edges are closed
+const difference = (values: number[], index: number, coordinate: number, stride: number, resolution: number): number => {
+  const below = coordinate > 0 ? values[index - stride] : values[index];
+  const above = coordinate < resolution - 1 ? values[index + stride] : values[index];
+  return above - below;
+};
+
+/**
+ * Direction in which a field increases around a cell, as a unit vector;
+ * zero where the neighboring cells are level
+ */
+export const fieldGradient = (fields: EnvironmentFields, field: FieldName, index: number): Position => {
+  const { resolution } = fields;
+  const values = fields.values[field];
+  const x = index % resolution;
+  const y = Math.floor(index / resolution) % resolution;
+  const z = Math.floor(index / (resolution * resolution));
+  
+  // Sampled by every organism every generation, so kept free of closures
+  const dx = difference(values, index, x, 1, resolution);
+  const dy = difference(values, index, y, resolution, resolution);
+  const dz = difference(values, index, z, resolution * resolution, resolution);
+  const length = Math.sqrt(dx * dx + dy * dy + dz * dz);
+  return length > 0 ?
+    { x: dx / length, y: dy / length, z: dz / length } :
+    { x: 0, y: 0, z: 0 };
+};
+
+/**
+ * Advance the fields by one generation: diffuse, then regenerate towards
+ * their capacity, shifted for the climate if given
+ */
+export const stepFields = (fields: EnvironmentFields, shift: CapacityShift = {}): EnvironmentFields => {
+  const { resolution } = fields;
+  const values = {} as Record<FieldName, number[]>;
+
+  for (const field of FIELD_NAMES) {
+    const { diffusion, regeneration, resource } = FIELD_DYNAMICS[field];
+    const current = fields.values[field];
+    const capacity = fields.capacity[field];
+    const scale = resource ? fields.regenerationScale : undefined;
+    const { scale: targetScale, offset: targetOffset } = shift[field] ?? { scale: 1, offset: 0 };
+    const next = new Array(current.length);
+
+    for (let index = 0; index < current.length; index++) {
+      let value = current[index];
+
+      if (diffusion > 0) {
+        // Average over the face neighbors inside the grid; the edges are closed
+        const x = index % resolution;
+        const y = Math.floor(index / resolution) % resolution;
+        const z = Math.floor(index / (resolution * resolution));
+        let sum = 0;
+        let count = 0;
+        if (x > 0) { sum += current[index - 1]; count++; }
+        if (x < resolution - 1) { sum += current[index + 1]; count++; }
+        if (y > 0) { sum += current[index - resolution]; count++; }
+        if (y < resolution - 1) { sum += current[index + resolution]; count++; }
+        if (z > 0) { sum += current[index - resolution * resolution]; count++; }
+        if (z < resolution - 1) { sum += current[index + resolution * resolution]; count++; }
+        if (count > 0) {
+          value += (sum / count - value) * diffusion;
+        }
+      }
+
+      const rate = scale ? Math.min(1, regeneration * scale[index]) : regeneration;
+      next[index] = value + (capacity[index] * targetScale + targetOffset - value) * rate;
+    }
+
+    values[field] = next;
+  }
+
+  return { ...fields, values };
+};
+
+/**
+ * Mean value of a field over the whole world
+ */
+export const fieldMean = (fields: EnvironmentFields, field: FieldName): number => {
+  const values = fields.values[field];
+  let sum = 0;
+  for (const value of values) {
+    sum += value;
+  }
+  return values.length > 0 ? sum / values.length : 0;
+};
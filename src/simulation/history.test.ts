@@ -0,0 +1,98 @@
+import { createInitialPopulation, simulateGeneration } from './core';
+import { DEFAULT_SIMULATION_CONFIG } from './config';
+import { createRng, seedToState } from './random';
+import { createLineage } from './lineage';
+import { createSpeciesRegistry } from './species';
+import { EngineState } from './protocol';
+import { createHistory, estimateStateBytes } from './history';
+
+const createState = (seed: number): EngineState => {
+  const rng = createRng(seedToState(seed));
+  const organisms = createInitialPopulation({ reproduction: 0.6 }, 8, rng);
+  return {
+    organisms,
+    carcasses: [],
+    environment: {
+      temperature: 0.5,
+      lightLevel: 0.8,
+      moisture: 0.6,
+      resources: {
+        organic: 100,
+        minerals: 100,
+        light: 100
+      }
+    },
+    currentGeneration: 0,
+    seed,
+    rngState: rng.getState(),
+    config: DEFAULT_SIMULATION_CONFIG,
+    lineage: createLineage(organisms, 0),
+    species: createSpeciesRegistry(),
+    interventionLog: []
+  };
+};
+
+const nextState = (state: EngineState): EngineState => {
+  const next = simulateGeneration(state);
+  return {
+    ...state,
+    organisms: next.organisms,
+    carcasses: next.carcasses,
+    environment: next.environment,
+    currentGeneration: state.currentGeneration + 1,
+    rngState: next.rngState,
+    lineage: next.lineage
+  };
+};
+
+describe('Simulation History', () => {
+  test('keeps a keyframe every interval and tracks the latest generation', () => {
+    const history = createHistory(Infinity, 5);
+    let state = createState(1);
+    history.reset(state);
+    for (let i = 0; i < 12; i++) {
+      state = nextState(state);
+      history.record(state);
+    }
+
+    expect(history.timeline()).toEqual({ start: 0, end: 12 });
+    expect(history.keyframeBefore(12)?.generation).toBe(10);
+    expect(history.keyframeBefore(9)?.generation).toBe(5);
+    expect(history.keyframeBefore(7)?.state.currentGeneration).toBe(5);
+  });
+
+  test('drops the oldest keyframes once over budget', () => {
+    const states = [createState(2)];
+    for (let i = 0; i < 6; i++) {
+      states.push(nextState(states[i]));
+    }
+    const budget = estimateStateBytes(states[6]) * 2.5;
+    const history = createHistory(budget, 1);
+    history.reset(states[0]);
+    states.slice(1).forEach(history.record);
+
+    const { start, end } = history.timeline();
+    expect(start).toBeGreaterThan(0);
+    expect(end).toBe(6);
+    expect(history.bytes()).toBeLessThanOrEqual(budget);
+    expect(history.keyframeBefore(start - 1)).toBeUndefined();
+  });
+
+  test('branching forgets the generations after the branch point', () => {
+    const history = createHistory(Infinity, 2);
+    let state = createState(3);
+    history.reset(state);
+    const states = [state];
+    for (let i = 0; i < 8; i++) {
+      state = nextState(state);
+      history.record(state);
+      states.push(state);
+    }
+
+    const branched = { ...states[3], seed: 99 };
+    history.branch(branched);
+
+    expect(history.timeline()).toEqual({ start: 0, end: 3 });
+    expect(history.keyframeBefore(8)?.state).toBe(branched);
+  });
+});
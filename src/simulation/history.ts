@@ -0,0 +1,128 @@
+import { EngineState } from './protocol';
+import { FIELD_NAMES } from './fields';
+
+/**
+ * Rewindable simulation history.
+ *
+ * Instead of every generation, the history keeps keyframes: complete engine
+ * states taken every few generations. Any generation in between is rebuilt
+ * by replaying from the keyframe before it, which reproduces it exactly
+ * because generations are deterministic. Once the keyframes outgrow the
+ * memory budget the oldest are dropped, so the timeline starts later.
+ */
+
+export const DEFAULT_KEYFRAME_INTERVAL = 10;
+export const DEFAULT_HISTORY_BUDGET = 64 * 1024 * 1024; // Bytes
+
+// Rough sizes of the parts of a state that aren't shared with the previous
+// keyframe, for budgeting rather than exact accounting
+const ORGANISM_BYTES = 1000;
+const CARCASS_BYTES = 200;
+const NUMBER_BYTES = 8;
+const LINEAGE_ENTRY_BYTES = 50; // Records are shared between states; only the index is new
+
+export interface Keyframe {
+  generation: number;
+  state: EngineState;
+  bytes: number; // Estimated
+}
+
+/**
+ * Generations that can be reached: from the oldest keyframe up to the
+ * latest generation simulated
+ */
+export interface Timeline {
+  start: number;
+  end: number;
+}
+
+export interface History {
+  /** Note a newly simulated state, keeping it if a keyframe is due */
+  record: (state: EngineState) => void;
+  /** Start again from a state, forgetting everything before it */
+  reset: (state: EngineState) => void;
+  /** Keep a state that was changed from outside the simulation, forgetting the generations after it */
+  branch: (state: EngineState) => void;
+  /** The latest keyframe at or before a generation */
+  keyframeBefore: (generation: number) => Keyframe | undefined;
+  timeline: () => Timeline;
+  bytes: () => number;
+}
+
+/**
+ * Estimate how much memory keeping a state as a keyframe costs
+ */
+export const estimateStateBytes = (state: EngineState): number => {
+  let bytes = state.carcasses.length * CARCASS_BYTES;
+  for (const organism of state.organisms) {
+    bytes += ORGANISM_BYTES;
+    if (organism.brain) {
+      bytes += organism.brain.weights.reduce((sum, layer) => sum + layer.length, 0) * NUMBER_BYTES;
+    }
+  }
+  const fields = state.environment.fields;
+  if (fields) {
+    bytes += FIELD_NAMES.length * fields.values[FIELD_NAMES[0]].length * NUMBER_BYTES;
+  }
+  return bytes + Object.keys(state.lineage.records).length * LINEAGE_ENTRY_BYTES;
+};
+
+export const createHistory = (
+  budget: number = DEFAULT_HISTORY_BUDGET,
+  interval: number = DEFAULT_KEYFRAME_INTERVAL
+): History => {
+  let keyframes: Keyframe[] = []; // Ordered by generation
+  let totalBytes = 0;
+  let end = 0;
+
+  // Add a keyframe, replacing any at the same generation
+  const keep = (state: EngineState): void => {
+    const keyframe = { generation: state.currentGeneration, state, bytes: estimateStateBytes(state) };
+    let index = keyframes.length;
+    while (index > 0 && keyframes[index - 1].generation > keyframe.generation) {
+      index--;
+    }
+    const replaced = index > 0 && keyframes[index - 1].generation === keyframe.generation;
+    if (replaced) {
+      totalBytes -= keyframes[index - 1].bytes;
+      keyframes[index - 1] = keyframe;
+    } else {
+      keyframes.splice(index, 0, keyframe);
+    }
+    totalBytes += keyframe.bytes;
+
+    // The newest keyframe always stays so that the present can be rebuilt
+    while (totalBytes > budget && keyframes.length > 1) {
+      totalBytes -= keyframes.shift()!.bytes;
+    }
+  };
+
+  return {
+    record: (state) => {
+      end = Math.max(end, state.currentGeneration);
+      if (state.currentGeneration % interval === 0) {
+        keep(state);
+      }
+    },
+    reset: (state) => {
+      keyframes = [];
+      totalBytes = 0;
+      end = state.currentGeneration;
+      keep(state);
+    },
+    branch: (state) => {
+      keyframes = keyframes.filter(keyframe => keyframe.generation <= state.currentGeneration);
+      totalBytes = keyframes.reduce((sum, keyframe) => sum + keyframe.bytes, 0);
+      end = state.currentGeneration;
+      keep(state);
+    },
+    keyframeBefore: (generation) => {
+      for (let i = keyframes.length - 1; i >= 0; i--) {
+        if (keyframes[i].generation <= generation) return keyframes[i];
+      }
+      return undefined;
+    },
+    timeline: () => ({ start: keyframes.length > 0 ? keyframes[0].generation : end, end }),
+    bytes: () => totalBytes
+  };
+};
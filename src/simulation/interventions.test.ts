@@ -0,0 +1,228 @@
+import { createInitialPopulation, simulateGeneration } from './core';
+import { createRng, seedToState } from './random';
+import { createLineage, updateLineage } from './lineage';
+import { createSpeciesRegistry } from './species';
+import { DEFAULT_SIMULATION_CONFIG } from './config';
+import {
+  InterventionError,
+  applyGeneDrive,
+  applyIntervention,
+  cloneOrganism,
+  cullOrganisms,
+  editTraits,
+  injectOrganism,
+  killOrganism,
+  validateInterventionLog
+} from './interventions';
+import { EngineState } from './protocol';
+
+const createState = (): EngineState => {
+  const rng = createRng(seedToState(4));
+  const organisms = createInitialPopulation({ motility: 0.5 }, 4, rng);
+  return {
+    organisms,
+    carcasses: [],
+    environment: {
+      temperature: 0.5,
+      lightLevel: 0.8,
+      moisture: 0.6,
+      resources: {
+        organic: 100,
+        minerals: 100,
+        light: 100
+      }
+    },
+    currentGeneration: 5,
+    seed: 4,
+    rngState: rng.getState(),
+    config: DEFAULT_SIMULATION_CONFIG,
+    lineage: createLineage(organisms, 5),
+    species: createSpeciesRegistry(),
+    interventionLog: []
+  };
+};
+
+describe('Interventions', () => {
+  test('a clone copies the original and is recorded as its offspring', () => {
+    const state = createState();
+    const original = { ...state.organisms[0], age: 12, actions: ['moved'] };
+    const before = { ...state, organisms: [original, ...state.organisms.slice(1)] };
+
+    const after = cloneOrganism(before, original.id);
+    const clone = after.organisms[after.organisms.length - 1];
+
+    expect(after.organisms).toHaveLength(before.organisms.length + 1);
+    expect(clone.id).not.toBe(original.id);
+    expect(clone).toMatchObject({ traits: original.traits, size: original.size, energy: original.energy, age: 0 });
+    expect(clone.parentId).toBe(original.id);
+    expect(after.lineage.records[clone.id]).toMatchObject({ parentId: original.id, bornAt: 5 });
+    expect(after.rngState).not.toBe(before.rngState);
+
+    // The cloned run carries on like any other
+    expect(() => simulateGeneration(after)).not.toThrow();
+  });
+
+  test('killing an organism leaves a carcass and records the death', () => {
+    const state = createState();
+    const victim = state.organisms[1];
+
+    const { state: after, death } = killOrganism(state, victim.id);
+
+    expect(death).toEqual({ id: victim.id, cause: 'killed', age: victim.age });
+    expect(after.organisms.map(organism => organism.id)).not.toContain(victim.id);
+    expect(after.carcasses).toHaveLength(1);
+    expect(after.carcasses[0].energy).toBeGreaterThan(victim.energy);
+    expect(after.lineage.records[victim.id]).toMatchObject({ diedAt: 5, deathCause: 'killed' });
+    expect(after.rngState).toBe(state.rngState);
+  });
+
+  test('unknown organisms are ignored', () => {
+    const state = createState();
+
+    expect(cloneOrganism(state, 'missing')).toBe(state);
+    expect(killOrganism(state, 'missing')).toEqual({ state, death: null });
+  });
+
+  test('trait edits are clamped and only change the target', () => {
+    const state = createState();
+    const [target, other] = state.organisms;
+
+    const after = editTraits(state, target.id, { predation: 1.5, defense: -1 });
+
+    expect(after.organisms[0].traits).toEqual({ ...target.traits, predation: 1, defense: 0 });
+    expect(after.organisms[0].actions).toContain('edited');
+    expect(after.organisms[1]).toBe(other);
+    expect(editTraits(state, 'missing', { predation: 1 })).toBe(state);
+  });
+
+  test('injected organisms join a species and the lineage inside the world', () => {
+    const state = createState();
+
+    const after = injectOrganism(state, { photosynthesis: 0.9, size: 1.5 }, { x: 1000, y: 0, z: -3 });
+    const injected = after.organisms[after.organisms.length - 1];
+
+    expect(after.organisms).toHaveLength(state.organisms.length + 1);
+    expect(injected.position).toEqual({ x: state.config.worldSize / 2, y: 0, z: -3 });
+    expect(injected).toMatchObject({ generation: 5, size: 1.5, actions: ['injected'] });
+    expect(injected.traits.photosynthesis).toBe(0.9);
+    expect(injected.speciesId).toBeDefined();
+    expect(after.lineage.records[injected.id]).toMatchObject({ bornAt: 5 });
+    expect(after.lineage.records[injected.id].parentId).toBeUndefined();
+    expect(after.rngState).not.toBe(state.rngState);
+  });
+
+  test('injected designs have their traits clamped', () => {
+    const after = injectOrganism(createState(), { predation: 1.7, defense: -0.4 }, { x: 0, y: 0, z: 0 });
+    const injected = after.organisms[after.organisms.length - 1];
+
+    expect(injected.traits.predation).toBe(1);
+    expect(injected.traits.defense).toBe(0);
+  });
+
+  test('gene drives reach descendants but not relatives', () => {
+    const state = createState();
+    const [ancestor, unrelated] = state.organisms;
+    const withChild = cloneOrganism(state, ancestor.id);
+    const child = withChild.organisms[withChild.organisms.length - 1];
+    const withGrandchild = cloneOrganism(withChild, child.id);
+    const grandchild = withGrandchild.organisms[withGrandchild.organisms.length - 1];
+
+    const after = applyGeneDrive(withGrandchild, child.id, 'defense', 0.3);
+    const defenseOf = (id: string) => after.organisms.find(organism => organism.id === id)!.traits.defense;
+
+    expect(defenseOf(child.id)).toBeCloseTo(Math.min(1, child.traits.defense + 0.3));
+    expect(defenseOf(grandchild.id)).toBeCloseTo(Math.min(1, grandchild.traits.defense + 0.3));
+    expect(defenseOf(ancestor.id)).toBe(ancestor.traits.defense);
+    expect(defenseOf(unrelated.id)).toBe(unrelated.traits.defense);
+    expect(applyGeneDrive(state, 'missing', 'defense', 0.3)).toBe(state);
+  });
+
+  test('gene drives reach offspring the organism fathered as a mate', () => {
+    const state = createState();
+    const [mother, father, unrelated] = state.organisms;
+    const offspring = {
+      ...mother,
+      id: 'offspring',
+      parentId: mother.id,
+      parentIds: [mother.id, father.id] as [string, string],
+      generation: 1
+    };
+    const organisms = [...state.organisms, offspring];
+    const withOffspring = {
+      ...state,
+      organisms,
+      lineage: updateLineage(
+        state.lineage,
+        { births: [offspring], deaths: [] },
+        state.currentGeneration,
+        new Set(organisms.map(organism => organism.id))
+      )
+    };
+
+    const after = applyGeneDrive(withOffspring, father.id, 'defense', 0.3);
+    const defenseOf = (id: string) => after.organisms.find(organism => organism.id === id)!.traits.defense;
+
+    expect(defenseOf(offspring.id)).toBeCloseTo(offspring.traits.defense + 0.3);
+    expect(defenseOf(father.id)).toBeCloseTo(father.traits.defense + 0.3);
+    expect(defenseOf(mother.id)).toBe(mother.traits.defense);
+    expect(defenseOf(unrelated.id)).toBe(unrelated.traits.defense);
+  });
+
+  test('culls kill every matching organism', () => {
+    const state = createState();
+    const organisms = state.organisms.map((organism, index) => ({
+      ...organism,
+      traits: { ...organism.traits, predation: index % 2 === 0 ? 0.9 : 0.1 }
+    }));
+
+    const { state: after, deaths } = cullOrganisms({ ...state, organisms }, { trait: 'predation', comparison: 'above', value: 0.5 });
+
+    expect(deaths).toHaveLength(2);
+    expect(deaths.every(death => death.cause === 'killed')).toBe(true);
+    expect(after.organisms.map(organism => organism.id)).toEqual([organisms[1].id, organisms[3].id]);
+    expect(after.carcasses.map(carcass => carcass.id)).toEqual([organisms[0].id, organisms[2].id]);
+    expect(after.lineage.records[organisms[0].id].deathCause).toBe('killed');
+    expect(after.lineage.records[organisms[2].id].diedAt).toBe(state.currentGeneration);
+  });
+
+  test('only interventions that change the state are logged', () => {
+    const state = createState();
+
+    const { state: after, deaths } = applyIntervention(state, { type: 'kill', organismId: state.organisms[0].id });
+    const ignored = applyIntervention(after, { type: 'kill', organismId: state.organisms[0].id });
+
+    expect(deaths).toHaveLength(1);
+    expect(after.interventionLog).toEqual([{ generation: 5, intervention: { type: 'kill', organismId: state.organisms[0].id } }]);
+    expect(ignored.state).toBe(after);
+    expect(validateInterventionLog(JSON.parse(JSON.stringify(after.interventionLog)))).toEqual(after.interventionLog);
+  });
+
+  test('catastrophes are scheduled into the climate', () => {
+    const state = createState();
+
+    const { state: after } = applyIntervention(state, { type: 'catastrophe', kind: 'drought', generation: 20 });
+
+    expect(after.environment.climate?.scheduled).toEqual([{ kind: 'drought', generation: 20 }]);
+    expect(after.organisms).toBe(state.organisms);
+    expect(after.interventionLog).toHaveLength(1);
+  });
+
+  test('invalid intervention logs are rejected with the offending field', () => {
+    const clone = { type: 'clone', organismId: 'a' };
+
+    expect(() => validateInterventionLog({})).toThrow(InterventionError);
+    expect(() => validateInterventionLog([{ generation: -1, intervention: clone }])).toThrow('interventionLog[0].generation');
+    expect(() => validateInterventionLog([{ generation: 2, intervention: clone }, { generation: 1, intervention: clone }]))
+      .toThrow('interventionLog[1] is out of generation order');
+    expect(() => validateInterventionLog([{ generation: 0, intervention: { type: 'teleport' } }]))
+      .toThrow('"teleport" is not an intervention');
+    expect(() => validateInterventionLog([{ generation: 0, intervention: { type: 'editTraits', organismId: 'a', traits: { wings: 1 } } }]))
+      .toThrow('interventionLog[0].intervention.traits.wings is not a trait');
+    expect(() => validateInterventionLog([{ generation: 0, intervention: { type: 'inject', design: { predation: 1.7 }, position: { x: 0, y: 0, z: 0 } } }]))
+      .toThrow('interventionLog[0].intervention.design.predation must be between 0 and 1');
+    expect(() => validateInterventionLog([{ generation: 0, intervention: { type: 'cull', filter: { trait: 'predation', comparison: 'equals', value: 1 } } }]))
+      .toThrow('filter.comparison');
+    expect(() => validateInterventionLog([{ generation: 0, intervention: { type: 'catastrophe', kind: 'flood', generation: 1 } }]))
+      .toThrow('interventionLog[0].intervention.kind');
+  });
+});
@@ -0,0 +1,460 @@
+import { InitialOrganismSettings, Organism, OrganismTraits, Position } from '../frontend/stores/simulationStore';
+import { DeathEvent, createInitialOrganism, generateId, movePlayerOrganism } from './core';
+import { TRAIT_NAMES } from './traits';
+import { createBehaviorCounters } from './behavior';
+import { carcassEnergy, createCarcass } from './carcasses';
+import { updateLineage } from './lineage';
+import { updateSpecies } from './species';
+import { createRng } from './random';
+import { EngineState } from './protocol';
+import { CATASTROPHE_KINDS, CatastropheKind, createClimateState, scheduleCatastrophe } from './climate';
+
+/**
+ * Changes the user makes to organisms from outside the simulation.
+ *
+ * Each intervention takes the engine state and returns the state after it.
+ * They only draw from the generator when they are used, so runs without
+ * interventions stay deterministic. applyIntervention also appends every
+ * intervention that changed something to the state's log, which can be
+ * replayed to reproduce a run.
+ */
+
+export interface TraitFilter {
+  trait: keyof OrganismTraits;
+  comparison: 'above' | 'below';
+  value: number;
+}
+
+/**
+ * Traits and size of an organism designed to be injected
+ */
+export type OrganismDesign = Omit<InitialOrganismSettings, 'brainShare'>;
+
+export type Intervention =
+  | { type: 'control'; organismId: string | null }
+  | { type: 'move'; direction: Position }
+  | { type: 'clone'; organismId: string }
+  | { type: 'kill'; organismId: string }
+  | { type: 'editTraits'; organismId: string; traits: Partial<OrganismTraits> }
+  | { type: 'inject'; design: OrganismDesign; position: Position }
+  | { type: 'geneDrive'; organismId: string; trait: keyof OrganismTraits; amount: number }
+  | { type: 'cull'; filter: TraitFilter }
+  | { type: 'catastrophe'; kind: CatastropheKind; generation: number };
+
+export interface InterventionRecord {
+  generation: number; // Applied after this generation was simulated
+  intervention: Intervention;
+}
+
+export class InterventionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'InterventionError';
+  }
+}
+
+const CLONE_SPREAD = 2; // Largest distance on each axis between a clone and its original
+
+const livingIds = (organisms: Organism[]): Set<string> => new Set(organisms.map(organism => organism.id));
+
+/**
+ * Add a copy of an organism next to it: same traits, brain, size and
+ * energy, but newborn. The clone is recorded as the original's offspring.
+ */
+export const cloneOrganism = (state: EngineState, organismId: string): EngineState => {
+  const original = state.organisms.find(organism => organism.id === organismId);
+  if (!original) return state;
+
+  const rng = createRng(state.rngState);
+  const position = {
+    x: original.position.x + (rng.next() - 0.5) * CLONE_SPREAD,
+    y: original.position.y + (rng.next() - 0.5) * CLONE_SPREAD,
+    z: original.position.z + (rng.next() - 0.5) * CLONE_SPREAD
+  };
+  const clone: Organism = {
+    ...original,
+    id: generateId(rng),
+    position,
+    previousPosition: position,
+    targetPosition: position,
+    age: 0,
+    generation: original.generation + 1,
+    parentId: original.id,
+    parentIds: undefined,
+    actions: ['cloned'],
+    behavior: createBehaviorCounters(),
+    isPlayerControlled: false
+  };
+
+  const organisms = [...state.organisms, clone];
+  return {
+    ...state,
+    organisms,
+    rngState: rng.getState(),
+    lineage: updateLineage(state.lineage, { births: [clone], deaths: [] }, state.currentGeneration, livingIds(organisms))
+  };
+};
+
+// Remove the victims in one pass, recording all their deaths in the lineage at once
+const removeOrganisms = (state: EngineState, victims: Organism[]): { state: EngineState; deaths: DeathEvent[] } => {
+  const deaths = victims.map((victim): DeathEvent => ({ id: victim.id, cause: 'killed', age: victim.age }));
+  const killed = new Set(victims);
+  const organisms = state.organisms.filter(organism => !killed.has(organism));
+  const carcasses = victims.map(victim => createCarcass(victim, carcassEnergy(victim, state.config), state.currentGeneration));
+  return {
+    state: {
+      ...state,
+      organisms,
+      carcasses: [...state.carcasses, ...carcasses],
+      lineage: updateLineage(state.lineage, { births: [], deaths }, state.currentGeneration, livingIds(organisms))
+    },
+    deaths
+  };
+};
+
+/**
+ * Remove an organism, leaving its carcass behind as if it had starved.
+ * Returns the death so that it can be counted with the next generation's.
+ */
+export const killOrganism = (
+  state: EngineState,
+  organismId: string
+): { state: EngineState; death: DeathEvent | null } => {
+  const victim = state.organisms.find(organism => organism.id === organismId);
+  if (!victim) return { state, death: null };
+
+  const { state: next, deaths: [death] } = removeOrganisms(state, [victim]);
+  return { state: next, death };
+};
+
+const clampTrait = (value: number): number => Math.max(0, Math.min(1, value));
+
+/**
+ * Set some of an organism's traits, clamped to 0-1. Only the organism
+ * changes; its offspring inherit the edited traits.
+ */
+export const editTraits = (state: EngineState, organismId: string, traits: Partial<OrganismTraits>): EngineState => {
+  const target = state.organisms.find(organism => organism.id === organismId);
+  if (!target) return state;
+
+  const edited = { ...target.traits };
+  for (const trait of TRAIT_NAMES) {
+    const value = traits[trait];
+    if (value !== undefined) edited[trait] = clampTrait(value);
+  }
+  return {
+    ...state,
+    organisms: state.organisms.map(organism => (
+      organism === target ? { ...organism, traits: edited, actions: [...organism.actions, 'edited'] } : organism
+    ))
+  };
+};
+
+/**
+ * Add an organism of the given design at a position inside the world, its
+ * traits clamped to 0-1. It has no parent, starts with the initial energy
+ * and joins the nearest species, or founds one.
+ */
+export const injectOrganism = (state: EngineState, design: OrganismDesign, position: Position): EngineState => {
+  const rng = createRng(state.rngState);
+  const clamped = { ...design };
+  for (const trait of TRAIT_NAMES) {
+    const value = design[trait];
+    if (value !== undefined) clamped[trait] = clampTrait(value);
+  }
+  const half = state.config.worldSize / 2;
+  const inside = {
+    x: Math.max(-half, Math.min(half, position.x)),
+    y: Math.max(-half, Math.min(half, position.y)),
+    z: Math.max(-half, Math.min(half, position.z))
+  };
+  const injected: Organism = {
+    ...createInitialOrganism(clamped, rng, state.config),
+    position: inside,
+    previousPosition: inside,
+    targetPosition: inside,
+    generation: state.currentGeneration,
+    actions: ['injected']
+  };
+
+  const { organisms, species } = updateSpecies(
+    state.species,
+    [...state.organisms, injected],
+    state.organisms,
+    state.currentGeneration,
+    state.config.speciesThreshold
+  );
+  return {
+    ...state,
+    organisms,
+    species,
+    rngState: rng.getState(),
+    lineage: updateLineage(state.lineage, { births: [injected], deaths: [] }, state.currentGeneration, livingIds(organisms))
+  };
+};
+
+/**
+ * Push a trait by amount in an organism and all its living descendants
+ */
+export const applyGeneDrive = (
+  state: EngineState,
+  organismId: string,
+  trait: keyof OrganismTraits,
+  amount: number
+): EngineState => {
+  // Walk each organism's ancestry through both parents until it reaches the
+  // roots or ancestors already decided. Lineages run for thousands of
+  // generations, so the walk keeps its own stack rather than recursing.
+  const records = state.lineage.records;
+  const inLineage = new Map<string, boolean>([[organismId, true]]);
+  const parentsOf = (id: string): string[] => {
+    const record = records[id];
+    return [record?.parentId, record?.mateId].filter((parent): parent is string => parent !== undefined);
+  };
+  const descends = (id: string): boolean => {
+    const stack = [id];
+    while (stack.length > 0) {
+      const current = stack[stack.length - 1];
+      if (inLineage.has(current)) {
+        stack.pop();
+        continue;
+      }
+      const parents = parentsOf(current);
+      const undecided = parents.filter(parent => !inLineage.has(parent));
+      if (undecided.length > 0) {
+        stack.push(...undecided);
+        continue;
+      }
+      inLineage.set(current, parents.some(parent => inLineage.get(parent)));
+      stack.pop();
+    }
+    return inLineage.get(id) as boolean;
+  };
+
+  let changed = false;
+  const organisms = state.organisms.map(organism => {
+    if (!descends(organism.id)) return organism;
+    changed = true;
+    return {
+      ...organism,
+      traits: { ...organism.traits, [trait]: clampTrait(organism.traits[trait] + amount) },
+      actions: [...organism.actions, 'gene_drive']
+    };
+  });
+  return changed ? { ...state, organisms } : state;
+};
+
+export const matchesFilter = (organism: Organism, filter: TraitFilter): boolean => {
+  const value = organism.traits[filter.trait];
+  return filter.comparison === 'above' ? value > filter.value : value < filter.value;
+};
+
+/**
+ * Kill every organism that matches the filter
+ */
+export const cullOrganisms = (state: EngineState, filter: TraitFilter): { state: EngineState; deaths: DeathEvent[] } => {
+  const victims = state.organisms.filter(organism => matchesFilter(organism, filter));
+  if (victims.length === 0) return { state, deaths: [] };
+  return removeOrganisms(state, victims);
+};
+
+const setPlayerControl = (state: EngineState, organismId: string | null): EngineState => {
+  return {
+    ...state,
+    organisms: state.organisms.map(organism => {
+      const controlled = organism.id === organismId;
+      return Boolean(organism.isPlayerControlled) === controlled ? organism : { ...organism, isPlayerControlled: controlled };
+    })
+  };
+};
+
+/**
+ * Apply an intervention and log it. Deaths it caused are returned so that
+ * they can be counted with the next generation's. Interventions that
+ * change nothing, such as killing an organism that already died, are not
+ * logged.
+ */
+export const applyIntervention = (
+  state: EngineState,
+  intervention: Intervention
+): { state: EngineState; deaths: DeathEvent[] } => {
+  let result: { state: EngineState; deaths: DeathEvent[] };
+  switch (intervention.type) {
+    case 'control':
+      result = { state: setPlayerControl(state, intervention.organismId), deaths: [] };
+      break;
+    case 'move':
+      result = {
+        state: {
+          ...state,
+          organisms: state.organisms.map(organism => (
+            organism.isPlayerControlled ? movePlayerOrganism(organism, intervention.direction, state.config) : organism
+          ))
+        },
+        deaths: []
+      };
+      break;
+    case 'clone':
+      result = { state: cloneOrganism(state, intervention.organismId), deaths: [] };
+      break;
+    case 'kill': {
+      const { state: next, death } = killOrganism(state, intervention.organismId);
+      result = { state: next, deaths: death ? [death] : [] };
+      break;
+    }
+    case 'editTraits':
+      result = { state: editTraits(state, intervention.organismId, intervention.traits), deaths: [] };
+      break;
+    case 'inject':
+      result = { state: injectOrganism(state, intervention.design, intervention.position), deaths: [] };
+      break;
+    case 'geneDrive':
+      result = {
+        state: applyGeneDrive(state, intervention.organismId, intervention.trait, intervention.amount),
+        deaths: []
+      };
+      break;
+    case 'cull':
+      result = cullOrganisms(state, intervention.filter);
+      break;
+    case 'catastrophe': {
+      const climate = state.environment.climate ?? createClimateState();
+      const catastrophe = { kind: intervention.kind, generation: intervention.generation };
+      result = {
+        state: { ...state, environment: { ...state.environment, climate: scheduleCatastrophe(climate, catastrophe) } },
+        deaths: []
+      };
+      break;
+    }
+  }
+
+  if (result.state === state) return result;
+  const record: InterventionRecord = { generation: state.currentGeneration, intervention };
+  return {
+    state: { ...result.state, interventionLog: [...state.interventionLog, record] },
+    deaths: result.deaths
+  };
+};
+
+const isObject = (value: unknown): value is Record<string, any> => {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+};
+
+const isFiniteNumber = (value: unknown): value is number => {
+  return typeof value === 'number' && Number.isFinite(value);
+};
+
+const expectPosition = (value: unknown, path: string): void => {
+  if (!isObject(value) || !isFiniteNumber(value.x) || !isFiniteNumber(value.y) || !isFiniteNumber(value.z)) {
+    throw new InterventionError(`${path} must have finite x, y and z`);
+  }
+};
+
+const expectTraitName = (value: unknown, path: string): void => {
+  if (!TRAIT_NAMES.includes(value as keyof OrganismTraits)) {
+    throw new InterventionError(`${path} must be one of ${TRAIT_NAMES.join(', ')}`);
+  }
+};
+
+const expectNumbers = (value: unknown, names: string[], path: string): void => {
+  if (!isObject(value)) {
+    throw new InterventionError(`${path} must be an object`);
+  }
+  for (const [key, entry] of Object.entries(value)) {
+    if (!names.includes(key)) {
+      throw new InterventionError(`${path}.${key} is not a trait`);
+    }
+    if (!isFiniteNumber(entry)) {
+      throw new InterventionError(`${path}.${key} must be a finite number`);
+    }
+  }
+};
+
+const validateIntervention = (value: unknown, path: string): Intervention => {
+  if (!isObject(value)) {
+    throw new InterventionError(`${path} must be an object`);
+  }
+  const expectId = (id: unknown, nullable = false): void => {
+    if (!(typeof id === 'string' && id.length > 0) && !(nullable && id === null)) {
+      throw new InterventionError(`${path}.organismId must be a non-empty string`);
+    }
+  };
+
+  switch (value.type) {
+    case 'control':
+      expectId(value.organismId, true);
+      break;
+    case 'move':
+      expectPosition(value.direction, `${path}.direction`);
+      break;
+    case 'clone':
+    case 'kill':
+      expectId(value.organismId);
+      break;
+    case 'editTraits':
+      expectId(value.organismId);
+      expectNumbers(value.traits, TRAIT_NAMES, `${path}.traits`);
+      break;
+    case 'inject':
+      expectNumbers(value.design, [...TRAIT_NAMES, 'size'], `${path}.design`);
+      for (const trait of TRAIT_NAMES) {
+        const setting = value.design[trait];
+        if (setting !== undefined && (setting < 0 || setting > 1)) {
+          throw new InterventionError(`${path}.design.${trait} must be between 0 and 1`);
+        }
+      }
+      expectPosition(value.position, `${path}.position`);
+      break;
+    case 'geneDrive':
+      expectId(value.organismId);
+      expectTraitName(value.trait, `${path}.trait`);
+      if (!isFiniteNumber(value.amount)) {
+        throw new InterventionError(`${path}.amount must be a finite number`);
+      }
+      break;
+    case 'cull':
+      if (!isObject(value.filter)) {
+        throw new InterventionError(`${path}.filter must be an object`);
+      }
+      expectTraitName(value.filter.trait, `${path}.filter.trait`);
+      if (value.filter.comparison !== 'above' && value.filter.comparison !== 'below') {
+        throw new InterventionError(`${path}.filter.comparison must be "above" or "below"`);
+      }
+      if (!isFiniteNumber(value.filter.value)) {
+        throw new InterventionError(`${path}.filter.value must be a finite number`);
+      }
+      break;
+    case 'catastrophe':
+      if (!CATASTROPHE_KINDS.includes(value.kind)) {
+        throw new InterventionError(`${path}.kind must be one of ${CATASTROPHE_KINDS.join(', ')}`);
+      }
+      if (!Number.isInteger(value.generation) || value.generation < 0) {
+        throw new InterventionError(`${path}.generation must be a non-negative integer`);
+      }
+      break;
+    default:
+      throw new InterventionError(`${path}.type "${value.type}" is not an intervention`);
+  }
+  return value as Intervention;
+};
+
+/**
+ * Check an intervention log read from JSON, e.g. from a snapshot or an
+ * experiment config. Records must be in generation order.
+ */
+export const validateInterventionLog = (value: unknown, path = 'interventionLog'): InterventionRecord[] => {
+  if (!Array.isArray(value)) {
+    throw new InterventionError(`${path} must be an array`);
+  }
+  value.forEach((record: unknown, index: number) => {
+    const recordPath = `${path}[${index}]`;
+    if (!isObject(record) || !Number.isInteger(record.generation) || record.generation < 0) {
+      throw new InterventionError(`${recordPath}.generation must be a non-negative integer`);
+    }
+    if (index > 0 && record.generation < value[index - 1].generation) {
+      throw new InterventionError(`${recordPath} is out of generation order`);
+    }
+    validateIntervention(record.intervention, `${recordPath}.intervention`);
+  });
+  return value as InterventionRecord[];
+};
@@ -0,0 +1,148 @@
+import { Organism } from '../frontend/stores/simulationStore';
+import { DEFAULT_ENVIRONMENT, createInitialPopulation, simulateGeneration } from './core';
+import { DEFAULT_SIMULATION_CONFIG } from './config';
+import { createRng, seedToState } from './random';
+import { WORLD_PRESETS, WorldPresetName } from './biomes';
+import { CATASTROPHE_KINDS } from './climate';
+import { DEFAULT_EXPERIMENT_CONFIG, ExperimentConfig, createRunState } from './experiment';
+import { ENERGY_SINKS, ENERGY_SOURCES, createEnergyLedger, isBalanced } from './energy';
+import { InvariantError, assertInvariants, findViolations } from './invariants';
+import { EngineState } from './protocol';
+
+// Property-based checks over many generated runs
+const CASES = 40;
+const GENERATIONS = 25;
+const MAX_POPULATION = 300; // Runs that grow past this stop early to keep the suite fast
+
+const createOrganisms = (count: number): Organism[] => {
+  return createInitialPopulation({}, count, createRng(seedToState(1)));
+};
+
+/**
+ * An experiment with settings, parameters and catastrophes drawn from the case's seed
+ */
+const generateCase = (seed: number): ExperimentConfig => {
+  const rng = createRng(seedToState(seed + 1000));
+  const between = (min: number, max: number) => min + rng.next() * (max - min);
+  const presets = Object.keys(WORLD_PRESETS) as WorldPresetName[];
+
+  return {
+    ...DEFAULT_EXPERIMENT_CONFIG,
+    seeds: [seed],
+    population: 5 + Math.floor(rng.next() * 30),
+    worldPreset: presets[Math.floor(rng.next() * presets.length)],
+    initialSettings: {
+      motility: rng.next(),
+      photosynthesis: rng.next(),
+      predation: rng.next(),
+      defense: rng.next(),
+      sensory: rng.next(),
+      reproduction: rng.next(),
+      metabolism: rng.next(),
+      mating: rng.next() < 0.5 ? 0 : rng.next(),
+      temperatureTolerance: rng.next(),
+      size: between(0.5, 2),
+      brainShare: rng.next() < 0.3 ? rng.next() : 0
+    },
+    simulation: {
+      worldSize: Math.round(between(20, 120)),
+      maxAge: Math.round(between(5, 100)),
+      mutationRate: rng.next(),
+      mutationStrength: rng.next(),
+      predationScraps: rng.next(),
+      scavengeEfficiency: rng.next(),
+      carcassDecayRate: between(0.5, 1),
+      plagueMortality: rng.next(),
+      catastropheChance: between(0, 0.1)
+    },
+    catastrophes: [{
+      kind: CATASTROPHE_KINDS[Math.floor(rng.next() * CATASTROPHE_KINDS.length)],
+      generation: Math.floor(rng.next() * GENERATIONS)
+    }]
+  };
+};
+
+const simulateCase = (seed: number, onGeneration: (before: EngineState, after: any) => void = () => {}): any => {
+  const config = generateCase(seed);
+  let state: any = createRunState({ name: `case-${seed}`, seed, initialSettings: config.initialSettings }, config);
+  for (let generation = 0; generation < GENERATIONS && state.organisms.length <= MAX_POPULATION; generation++) {
+    const next = simulateGeneration(state, { strict: true });
+    onGeneration(state, next);
+    state = { ...next, currentGeneration: state.currentGeneration + 1 };
+  }
+  return state;
+};
+
+describe('Engine Invariants', () => {
+  test('trait bounds, duplicate ids and positions outside the world are reported', () => {
+    const [first, second] = createOrganisms(2);
+    const outside = { ...second, position: { ...second.position, x: DEFAULT_SIMULATION_CONFIG.worldSize } };
+    const mutant = { ...first, traits: { ...first.traits, predation: 1.5 } };
+
+    expect(findViolations([first, second], null, DEFAULT_SIMULATION_CONFIG)).toEqual([]);
+    expect(findViolations([first, first], null, DEFAULT_SIMULATION_CONFIG))
+      .toEqual([`organism ${first.id} appears more than once`]);
+    expect(findViolations([mutant], null, DEFAULT_SIMULATION_CONFIG))
+      .toEqual([`organism ${first.id} has predation 1.5, outside 0 to 1`]);
+    expect(findViolations([outside], null, DEFAULT_SIMULATION_CONFIG))
+      .toEqual([`organism ${second.id} is outside the world`]);
+  });
+
+  test('an unbalanced ledger breaks the invariants', () => {
+    const ledger = { ...createEnergyLedger(100), closing: 90 };
+
+    expect(findViolations([], ledger, DEFAULT_SIMULATION_CONFIG)).toEqual(['the energy ledger is off by 10']);
+    expect(() => assertInvariants([], ledger, DEFAULT_SIMULATION_CONFIG, 7)).toThrow(InvariantError);
+    expect(() => assertInvariants([], ledger, DEFAULT_SIMULATION_CONFIG, 7)).toThrow('Generation 7');
+  });
+
+  test('strict mode stops at the generation that breaks an invariant', () => {
+    const organisms = createOrganisms(3).map(organism => ({ ...organism, traits: { ...organism.traits, defense: -0.5 } }));
+    const state = { organisms, environment: DEFAULT_ENVIRONMENT };
+
+    expect(() => simulateGeneration(state)).not.toThrow();
+    expect(() => simulateGeneration(state, { strict: true })).toThrow('defense -0.5');
+  });
+
+  describe('properties over generated runs', () => {
+    const seeds = Array.from({ length: CASES }, (_, index) => index + 1);
+
+    test.each(seeds)('case %i keeps every invariant in strict mode', seed => {
+      expect(() => simulateCase(seed)).not.toThrow();
+    });
+
+    test('every generation accounts for its organisms and energy', () => {
+      for (const seed of seeds.slice(0, 10)) {
+        simulateCase(seed, (before, after) => {
+          const { births, deaths, energy } = after.events;
+          const ids = new Set(after.organisms.map((organism: Organism) => organism.id));
+          const previous = new Map(before.organisms.map(organism => [organism.id, organism]));
+
+          // Everyone alive before either survived, a generation older, or died
+          expect(after.organisms.length).toBe(before.organisms.length + births.length - deaths.length);
+          for (const death of deaths) {
+            expect(ids.has(death.id)).toBe(false);
+          }
+          for (const organism of after.organisms as Organism[]) {
+            const earlier = previous.get(organism.id);
+            expect(organism.age).toBe(earlier ? earlier.age + 1 : 0);
+          }
+
+          expect(isBalanced(energy)).toBe(true);
+          for (const source of ENERGY_SOURCES) {
+            expect(energy.sources[source]).toBeGreaterThanOrEqual(0);
+          }
+          for (const sink of ENERGY_SINKS) {
+            expect(energy.sinks[sink]).toBeGreaterThanOrEqual(0);
+          }
+        });
+      }
+    });
+
+    test('generated runs are reproducible', () => {
+      for (const seed of seeds.slice(0, 5)) {
+        expect(JSON.stringify(simulateCase(seed))).toBe(JSON.stringify(simulateCase(seed)));
+      }
+    });
+  });
+});
@@ -0,0 +1,75 @@
+import { Organism, Position } from '../frontend/stores/simulationStore';
+import { SimulationConfig } from './config';
+import { TRAIT_NAMES } from './traits';
+import { EnergyLedger, energyImbalance, isBalanced } from './energy';
+
+/**
+ * Engine invariants.
+ *
+ * Strict mode checks these after every generation and stops the run at the
+ * first generation that breaks one, so that bugs surface where they happen
+ * rather than generations later. Tests and headless runs turn it on; the
+ * app leaves it off.
+ */
+
+export class InvariantError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'InvariantError';
+  }
+}
+
+const insideWorld = (position: Position, half: number): boolean => {
+  return [position.x, position.y, position.z].every(value => Number.isFinite(value) && Math.abs(value) <= half);
+};
+
+/**
+ * Describe every invariant the organisms and the generation's ledger break
+ */
+export const findViolations = (
+  organisms: Organism[],
+  ledger: EnergyLedger | null,
+  config: SimulationConfig
+): string[] => {
+  const violations: string[] = [];
+  const seen = new Set<string>();
+  const half = config.worldSize / 2;
+
+  for (const organism of organisms) {
+    if (seen.has(organism.id)) {
+      violations.push(`organism ${organism.id} appears more than once`);
+    }
+    seen.add(organism.id);
+
+    for (const trait of TRAIT_NAMES) {
+      const value = organism.traits[trait];
+      if (!(value >= 0 && value <= 1)) {
+        violations.push(`organism ${organism.id} has ${trait} ${value}, outside 0 to 1`);
+      }
+    }
+    if (!Number.isFinite(organism.energy)) {
+      violations.push(`organism ${organism.id} has energy ${organism.energy}`);
+    }
+    if (!insideWorld(organism.position, half) || !insideWorld(organism.targetPosition, half)) {
+      violations.push(`organism ${organism.id} is outside the world`);
+    }
+  }
+
+  if (ledger && !isBalanced(ledger)) {
+    violations.push(`the energy ledger is off by ${energyImbalance(ledger)}`);
+  }
+
+  return violations;
+};
+
+export const assertInvariants = (
+  organisms: Organism[],
+  ledger: EnergyLedger | null,
+  config: SimulationConfig,
+  generation: number
+): void => {
+  const violations = findViolations(organisms, ledger, config);
+  if (violations.length > 0) {
+    throw new InvariantError(`Generation ${generation} broke the engine's invariants: ${violations.join('; ')}`);
+  }
+};
@@ -0,0 +1,135 @@
+import { createInitialPopulation, fastForward } from './core';
+import { createRng, seedToState } from './random';
+import { LineageRegistry, createLineage, compactLineage, getAncestors } from './lineage';
+import { OrganismTraits } from '../frontend/stores/simulationStore';
+
+const createState = (seed: number, budget?: number) => {
+  const rng = createRng(seedToState(seed));
+  // Settings that sustain a population for hundreds of generations
+  const organisms = createInitialPopulation({
+    motility: 0.1,
+    photosynthesis: 1,
+    metabolism: 0,
+    predation: 0.3,
+    sensory: 0.8,
+    reproduction: 0.6
+  }, 10, rng);
+  return {
+    organisms,
+    environment: {
+      temperature: 0.5,
+      lightLevel: 0.8,
+      moisture: 0.6,
+      resources: {
+        organic: 100,
+        minerals: 100,
+        light: 100
+      }
+    },
+    currentGeneration: 0,
+    rngState: rng.getState(),
+    lineage: createLineage(organisms, 0, budget)
+  };
+};
+
+const traits: OrganismTraits = {
+  motility: 0.5,
+  photosynthesis: 0.5,
+  predation: 0.5,
+  defense: 0.5,
+  sensory: 0.5,
+  reproduction: 0.5,
+  metabolism: 0.5,
+  mating: 0,
+  temperatureTolerance: 0.5
+};
+
+// Build a registry from [id, parentId, bornAt] tuples
+const buildRegistry = (entries: [string, string | undefined, number][]): LineageRegistry => {
+  const records: LineageRegistry['records'] = {};
+  for (const [id, parentId, bornAt] of entries) {
+    records[id] = { id, parentId, bornAt, lineageDepth: 0, traits, size: 1, diedAt: bornAt + 1 };
+  }
+  return { records, budget: 100 };
+};
+
+describe('Lineage Registry', () => {
+  test('records births with their traits and deaths with a cause and lifespan', () => {
+    const state = fastForward(createState(1), 40);
+    const records = Object.values(state.lineage.records) as LineageRegistry['records'][string][];
+
+    const born = records.filter(record => record.bornAt > 0);
+    expect(born.length).toBeGreaterThan(0);
+    born.forEach(record => {
+      expect(record.parentId).toBeDefined();
+      expect(record.traits.motility).toBeGreaterThanOrEqual(0);
+    });
+
+    const dead = records.filter(record => record.diedAt !== undefined);
+    expect(dead.length).toBeGreaterThan(0);
+    dead.forEach(record => {
+      expect(['starvation', 'old_age', 'predation']).toContain(record.deathCause);
+      expect(record.lifespan).toBeGreaterThanOrEqual(0);
+    });
+
+    // Everything alive has a record that hasn't died
+    for (const organism of state.organisms) {
+      expect(state.lineage.records[organism.id]).toBeDefined();
+      expect(state.lineage.records[organism.id].diedAt).toBeUndefined();
+    }
+  });
+
+  test('ancestors of living organisms can be traced back through the registry', () => {
+    const state = fastForward(createState(2), 30);
+    const descendant = state.organisms.find((organism: { generation: number }) => organism.generation > 1);
+    expect(descendant).toBeDefined();
+
+    const ancestors = getAncestors(state.lineage, descendant.id);
+    expect(ancestors[0].id).toBe(descendant.parentId);
+    expect(ancestors.length).toBe(descendant.generation);
+  });
+
+  test('stays within its budget over a long run and keeps living organisms', () => {
+    const state = fastForward(createState(3, 200), 300);
+
+    expect(state.organisms.length).toBeGreaterThan(0);
+    expect(Object.keys(state.lineage.records).length).toBeLessThanOrEqual(200);
+    for (const organism of state.organisms) {
+      expect(state.lineage.records[organism.id]).toBeDefined();
+    }
+  });
+
+  test('compaction prunes extinct branches before touching living ancestry', () => {
+    // root -> a -> living
+    //      -> b -> c (extinct branch)
+    const registry = buildRegistry([
+      ['root', undefined, 0],
+      ['a', 'root', 1],
+      ['living', 'a', 2],
+      ['b', 'root', 1],
+      ['c', 'b', 2]
+    ]);
+
+    const compacted = compactLineage(registry, new Set(['living']), 3);
+
+    expect(Object.keys(compacted.records).sort()).toEqual(['a', 'living', 'root']);
+  });
+
+  test('compaction splices unbranched ancestors and remembers how many', () => {
+    const registry = buildRegistry([
+      ['root', undefined, 0],
+      ['a', 'root', 1],
+      ['b', 'a', 2],
+      ['x', 'b', 3],
+      ['y', 'b', 3]
+    ]);
+
+    const compacted = compactLineage(registry, new Set(['x', 'y']), 3);
+
+    // root and a form an unbranched chain above the branch point b
+    expect(Object.keys(compacted.records).sort()).toEqual(['b', 'x', 'y']);
+    expect(compacted.records.b.parentId).toBeUndefined();
+    expect(compacted.records.b.splicedAncestors).toBe(2);
+    expect(compacted.records.x.parentId).toBe('b');
+  });
+});
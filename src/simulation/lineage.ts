@@ -0,0 +1,219 @@
+import { Organism, OrganismTraits } from '../frontend/stores/simulationStore';
+import { DeathCause, GenerationEvents } from './core';
+
+/**
+ * Lineage registry: a record of every birth and death in a run.
+ *
+ * Records outlive the organisms they describe so that evolutionary trees can
+ * be drawn after the ancestors are gone. To keep memory bounded over long
+ * runs the registry is compacted whenever it grows past its budget: extinct
+ * side branches go first, then unbranched runs of dead ancestors are spliced
+ * out, and as a last resort the oldest roots are dropped.
+ */
+
+export const DEFAULT_LINEAGE_BUDGET = 5000;
+
+export interface LineageRecord {
+  id: string;
+  parentId?: string;
+  mateId?: string;          // Second parent of sexually produced offspring
+  lineageDepth: number;     // Organism.generation: number of ancestors
+  bornAt: number;           // Simulation generation of birth
+  traits: OrganismTraits;   // Trait vector at birth
+  size: number;
+  diedAt?: number;
+  deathCause?: DeathCause;
+  lifespan?: number;
+  splicedAncestors?: number; // Ancestors removed between this record and its parent by compaction
+}
+
+export interface LineageRegistry {
+  records: Record<string, LineageRecord>;
+  budget: number;
+}
+
+const createRecord = (organism: Organism, bornAt: number): LineageRecord => ({
+  id: organism.id,
+  parentId: organism.parentId,
+  mateId: organism.parentIds?.[1],
+  lineageDepth: organism.generation,
+  bornAt,
+  traits: { ...organism.traits },
+  size: organism.size
+});
+
+/**
+ * Start a registry from an existing population
+ */
+export const createLineage = (
+  organisms: Organism[],
+  currentGeneration: number,
+  budget: number = DEFAULT_LINEAGE_BUDGET
+): LineageRegistry => {
+  const records: Record<string, LineageRecord> = {};
+  for (const organism of organisms) {
+    records[organism.id] = createRecord(organism, currentGeneration - organism.age);
+  }
+  return { records, budget };
+};
+
+/**
+ * Remove records until the registry fits in the given size
+ */
+export const compactLineage = (
+  registry: LineageRegistry,
+  livingIds: Set<string>,
+  targetSize: number
+): LineageRegistry => {
+  const records = { ...registry.records };
+  let count = Object.keys(records).length;
+  if (count <= targetSize) return registry;
+
+  const childCounts = new Map<string, number>();
+  for (const id in records) {
+    const parentId = records[id].parentId;
+    if (parentId && records[parentId]) {
+      childCounts.set(parentId, (childCounts.get(parentId) ?? 0) + 1);
+    }
+  }
+
+  const removeRecord = (id: string): void => {
+    const parentId = records[id].parentId;
+    delete records[id];
+    count--;
+    if (parentId && records[parentId]) {
+      childCounts.set(parentId, (childCounts.get(parentId) as number) - 1);
+    }
+  };
+
+  const oldestFirst = (ids: string[]): string[] => {
+    return ids.sort((a, b) => records[a].bornAt - records[b].bornAt);
+  };
+
+  // 1. Prune extinct branches: dead leaves, repeatedly, oldest first
+  let leaves = oldestFirst(Object.keys(records).filter(id => !livingIds.has(id) && !childCounts.get(id)));
+  while (count > targetSize && leaves.length > 0) {
+    const nextLeaves: string[] = [];
+    for (const id of leaves) {
+      if (count <= targetSize) break;
+      const parentId = records[id].parentId;
+      removeRecord(id);
+      if (parentId && records[parentId] && !livingIds.has(parentId) && !childCounts.get(parentId)) {
+        nextLeaves.push(parentId);
+      }
+    }
+    leaves = oldestFirst(nextLeaves);
+  }
+
+  // 2. Splice out dead ancestors with a single child, keeping the branch points
+  if (count > targetSize) {
+    const unbranched = oldestFirst(Object.keys(records).filter(id => (
+      !livingIds.has(id) && childCounts.get(id) === 1
+    )));
+    const childOf = new Map<string, string>();
+    for (const id in records) {
+      const parentId = records[id].parentId;
+      if (parentId && records[parentId]) childOf.set(parentId, id);
+    }
+
+    for (const id of unbranched) {
+      if (count <= targetSize) break;
+      const childId = childOf.get(id) as string;
+      const record = records[id];
+      const child = records[childId];
+      records[childId] = {
+        ...child,
+        parentId: record.parentId,
+        splicedAncestors: (child.splicedAncestors ?? 0) + (record.splicedAncestors ?? 0) + 1
+      };
+      if (record.parentId && records[record.parentId]) {
+        childOf.set(record.parentId, childId);
+      }
+      delete records[id];
+      count--;
+    }
+  }
+
+  // 3. Drop the oldest dead records outright; their children become roots
+  if (count > targetSize) {
+    for (const id of oldestFirst(Object.keys(records).filter(id => !livingIds.has(id)))) {
+      if (count <= targetSize) break;
+      delete records[id];
+      count--;
+    }
+  }
+
+  return { ...registry, records };
+};
+
+/**
+ * Record one generation's births and deaths, compacting if over budget
+ */
+export const updateLineage = (
+  registry: LineageRegistry,
+  events: GenerationEvents,
+  generation: number,
+  livingIds: Set<string>
+): LineageRegistry => {
+  const records = { ...registry.records };
+
+  for (const organism of events.births) {
+    records[organism.id] = createRecord(organism, generation);
+  }
+
+  for (const death of events.deaths) {
+    const record = records[death.id];
+    if (!record) continue;
+    records[death.id] = {
+      ...record,
+      diedAt: generation,
+      deathCause: death.cause,
+      lifespan: death.age
+    };
+  }
+
+  const updated = { ...registry, records };
+  if (Object.keys(records).length <= registry.budget) {
+    return updated;
+  }
+
+  // Compact below the budget so that compaction doesn't run every generation
+  return compactLineage(updated, livingIds, Math.floor(registry.budget * 0.8));
+};
+
+/**
+ * The known ancestors of a record, nearest first
+ */
+export const getAncestors = (registry: LineageRegistry, id: string): LineageRecord[] => {
+  const ancestors: LineageRecord[] = [];
+  let parentId = registry.records[id]?.parentId;
+
+  while (parentId && registry.records[parentId]) {
+    const parent = registry.records[parentId];
+    ancestors.push(parent);
+    parentId = parent.parentId;
+  }
+
+  return ancestors;
+};
+
+/**
+ * Map each record to the records that name it as their parent
+ */
+export const getChildren = (registry: LineageRegistry): Map<string, LineageRecord[]> => {
+  const children = new Map<string, LineageRecord[]>();
+
+  for (const id in registry.records) {
+    const record = registry.records[id];
+    if (!record.parentId || !registry.records[record.parentId]) continue;
+
+    const siblings = children.get(record.parentId);
+    if (siblings) {
+      siblings.push(record);
+    } else {
+      children.set(record.parentId, [record]);
+    }
+  }
+
+  return children;
+};
@@ -0,0 +1,80 @@
+import { Organism, Environment, Carcass } from '../frontend/stores/simulationStore';
+import { LineageRegistry } from './lineage';
+import { GenerationStats } from './analytics';
+import { SimulationConfig } from './config';
+import { Timeline } from './history';
+import { SpeciesRegistry } from './species';
+import { Intervention, InterventionRecord } from './interventions';
+
+/**
+ * Message protocol between the UI and the simulation engine worker.
+ *
+ * The worker owns the authoritative simulation state. The UI sends commands
+ * and receives diffs describing how the organisms changed, so it never has
+ * to run a generation on the main thread.
+ */
+
+/**
+ * The part of the simulation state owned by the engine
+ */
+export interface EngineState {
+  organisms: Organism[];
+  carcasses: Carcass[];
+  environment: Environment;
+  currentGeneration: number;
+  seed: number;
+  rngState: number;
+  config: SimulationConfig;
+  lineage: LineageRegistry;
+  species: SpeciesRegistry;
+  interventionLog: InterventionRecord[]; // Every intervention so far, oldest first
+}
+
+export type EngineCommand =
+  | { type: 'load'; state: EngineState }
+  | { type: 'start'; speed: number }
+  | { type: 'pause' }
+  | { type: 'step' }
+  | { type: 'setSpeed'; speed: number }
+  | { type: 'setConfig'; config: SimulationConfig } // Takes effect from the next generation, bar the world size
+  | { type: 'fastForward'; generations: number }
+  | { type: 'cancelFastForward' }
+  | { type: 'seek'; generation: number }      // Rewind or replay to a generation on the timeline
+  | { type: 'branch'; seed: number }          // Drop the generations after the current one and reseed
+  | { type: 'snapshot'; requestId: number }
+  | { type: 'lineage'; requestId: number }
+  | { type: 'interventionLog'; requestId: number }
+  | { type: 'intervene'; intervention: Intervention };
+
+/**
+ * Changes to the engine state since the previous diff
+ */
+export interface EngineDiff {
+  // When set, added holds the complete organism list and replaces the old one
+  reset: boolean;
+  currentGeneration: number;
+  rngState: number;
+  environment: Environment;
+  added: Organism[];
+  updated: Organism[];
+  removed: string[];
+  carcasses: Carcass[]; // Complete list; carcasses change every generation as they decay
+  species: SpeciesRegistry;
+  stats: GenerationStats[]; // One entry per generation simulated since the previous diff
+  timeline: Timeline;
+  // Set when the state was restored from a keyframe at this generation and
+  // replayed; statistics after it were superseded
+  replayedFrom?: number;
+  // Set on reset diffs, whose state may predate a config change or a branch
+  config?: SimulationConfig;
+  seed?: number;
+}
+
+export type EngineEvent =
+  | { type: 'diff'; diff: EngineDiff }
+  | { type: 'fastForwardProgress'; completed: number; total: number }
+  | { type: 'fastForwardDone'; completed: number; total: number; cancelled: boolean }
+  | { type: 'snapshot'; requestId: number; state: EngineState }
+  | { type: 'lineage'; requestId: number; lineage: LineageRegistry }
+  | { type: 'interventionLog'; requestId: number; log: InterventionRecord[] }
+  | { type: 'error'; message: string; requestId?: number };
@@ -0,0 +1,51 @@
+/**
+ * Seedable pseudo-random number generator for the simulation engine.
+ *
+ * The engine never calls Math.random() directly: every random decision is
+ * drawn from an Rng so that a given seed and settings always reproduce the
+ * same run. The generator state is a single 32-bit integer, which makes it
+ * trivial to store in the simulation state between generations.
+ */
+
+export interface Rng {
+  /** Returns a float in [0, 1) */
+  next: () => number;
+  /** Returns the current internal state, suitable for createRng() */
+  getState: () => number;
+}
+
+/**
+ * Create a mulberry32 generator starting from the given state
+ */
+export const createRng = (state: number): Rng => {
+  let s = state >>> 0;
+
+  return {
+    next: () => {
+      s = (s + 0x6D2B79F5) >>> 0;
+      let t = s;
+      t = Math.imul(t ^ (t >>> 15), t | 1);
+      t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+      return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    },
+    getState: () => s
+  };
+};
+
+/**
+ * Normalize a user-supplied seed into a 32-bit generator state
+ */
+export const seedToState = (seed: number): number => {
+  // Mix the seed so that consecutive seeds start far apart in the sequence
+  let h = (Math.floor(seed) ^ 0x9E3779B9) >>> 0;
+  h = Math.imul(h ^ (h >>> 16), 0x85EBCA6B);
+  h = Math.imul(h ^ (h >>> 13), 0xC2B2AE35);
+  return (h ^ (h >>> 16)) >>> 0;
+};
+
+/**
+ * Pick a fresh seed for a new simulation when the user hasn't chosen one
+ */
+export const randomSeed = (): number => {
+  return Math.floor(Math.random() * 1000000);
+};
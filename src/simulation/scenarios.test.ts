@@ -0,0 +1,127 @@
+import {
+  BUILT_IN_SCENARIOS,
+  ScenarioDefinition,
+  ScenarioError,
+  ScenarioProgress,
+  createScenarioProgress,
+  createScenarioState,
+  evaluateScenario,
+  isInterventionAllowed,
+  parseScenario
+} from './scenarios';
+import { GenerationStats, computeGenerationStats } from './analytics';
+import { DEFAULT_ENVIRONMENT } from './core';
+
+const scenario: ScenarioDefinition = {
+  id: 'test',
+  name: 'Test',
+  description: 'A test scenario',
+  population: 10,
+  initialSettings: { predation: 0.1 },
+  worldPreset: 'uniform',
+  simulation: { maxAge: 50 },
+  allowedInterventions: ['clone'],
+  objectives: [
+    {
+      description: 'Evolve predation above 0.7 within 5 generations',
+      metric: 'predation',
+      comparison: 'above',
+      value: 0.7,
+      kind: 'reach',
+      generations: 5
+    },
+    {
+      description: 'Keep more than 2 organisms for 3 generations',
+      metric: 'population',
+      comparison: 'above',
+      value: 2,
+      kind: 'sustain',
+      generations: 3
+    }
+  ]
+};
+
+const statsAt = (generation: number, population: number, predation: number): GenerationStats => {
+  const stats = computeGenerationStats([], { births: [], deaths: [] }, DEFAULT_ENVIRONMENT, generation);
+  return { ...stats, population, traits: { ...stats.traits, predation: { ...stats.traits.predation, mean: predation } } };
+};
+
+const play = (entries: GenerationStats[]): ScenarioProgress => {
+  return entries.reduce((progress, stats) => evaluateScenario(scenario, progress, stats), createScenarioProgress(scenario));
+};
+
+describe('Scenarios', () => {
+  test('the built-in scenarios are valid scenario files', () => {
+    for (const builtIn of BUILT_IN_SCENARIOS) {
+      expect(parseScenario(JSON.parse(JSON.stringify(builtIn)))).toEqual(builtIn);
+    }
+    expect(new Set(BUILT_IN_SCENARIOS.map(entry => entry.id)).size).toBe(BUILT_IN_SCENARIOS.length);
+  });
+
+  test('invalid scenarios are rejected with the offending field', () => {
+    expect(() => parseScenario([])).toThrow(ScenarioError);
+    expect(() => parseScenario({ ...scenario, objectives: undefined })).toThrow('missing "objectives"');
+    expect(() => parseScenario({ ...scenario, extra: 1 })).toThrow('Unknown scenario field "extra"');
+    expect(() => parseScenario({ ...scenario, allowedInterventions: ['teleport'] })).toThrow('allowedInterventions');
+    expect(() => parseScenario({ ...scenario, simulation: { maxAge: -1 } })).toThrow(ScenarioError);
+    expect(() => parseScenario({ ...scenario, initialSettings: { wings: 1 } })).toThrow(ScenarioError);
+    expect(() => parseScenario({
+      ...scenario,
+      objectives: [{ ...scenario.objectives[0], metric: 'happiness' }]
+    })).toThrow('objectives[0].metric');
+  });
+
+  test('a scenario is won once every objective is met', () => {
+    const progress = play([statsAt(0, 10, 0.1), statsAt(1, 10, 0.5), statsAt(2, 10, 0.8), statsAt(3, 10, 0.6)]);
+
+    expect(progress.status).toBe('won');
+    expect(progress.endedAt).toBe(3);
+    // A reached objective stays met even if the value falls back
+    expect(progress.objectives.map(objective => objective.status)).toEqual(['won', 'won']);
+    expect(progress.objectives[0].value).toBe(0.6);
+  });
+
+  test('missing a deadline or breaking a sustained condition loses', () => {
+    const late = play([0, 1, 2, 3, 4, 5].map(generation => statsAt(generation, 10, 0.1)));
+    expect(late.status).toBe('lost');
+    expect(late.endedAt).toBe(5);
+    expect(late.reason).toContain('predation');
+
+    const shrunk = play([statsAt(0, 10, 0.1), statsAt(1, 2, 0.1)]);
+    expect(shrunk.status).toBe('lost');
+    expect(shrunk.reason).toContain('Keep more than 2');
+  });
+
+  test('extinction loses the scenario', () => {
+    const reachOnly = { ...scenario, objectives: [scenario.objectives[0]] };
+    const extinct = [statsAt(0, 10, 0.1), statsAt(1, 0, 0)].reduce(
+      (progress, stats) => evaluateScenario(reachOnly, progress, stats),
+      createScenarioProgress(reachOnly)
+    );
+
+    expect(extinct.status).toBe('lost');
+    expect(extinct.endedAt).toBe(1);
+    expect(extinct.reason).toBe('The population died out');
+  });
+
+  test('generations already evaluated are ignored', () => {
+    const progress = play([statsAt(0, 10, 0.1), statsAt(1, 10, 0.1)]);
+
+    expect(evaluateScenario(scenario, progress, statsAt(1, 0, 0.9))).toBe(progress);
+  });
+
+  test('interventions are only limited inside a scenario', () => {
+    expect(isInterventionAllowed(null, 'kill')).toBe(true);
+    expect(isInterventionAllowed(scenario, 'clone')).toBe(true);
+    expect(isInterventionAllowed(scenario, 'kill')).toBe(false);
+  });
+
+  test('scenario states use the scenario setup', () => {
+    const state = createScenarioState(scenario, 4);
+
+    expect(state.organisms).toHaveLength(10);
+    expect(state.config.maxAge).toBe(50);
+    expect(state.seed).toBe(4);
+    expect(state.organisms.every(organism => organism.traits.predation === 0.1)).toBe(true);
+  });
+});
@@ -0,0 +1,369 @@
+import { InitialOrganismSettings, OrganismTraits } from '../frontend/stores/simulationStore';
+import { TRAIT_NAMES } from './traits';
+import { WORLD_PRESETS, WorldPresetName } from './biomes';
+import { GenerationStats } from './analytics';
+import { EngineState } from './protocol';
+import { ConfigError, SimulationConfigChanges, validateConfigChanges } from './config';
+import { DEFAULT_EXPERIMENT_CONFIG, ExperimentConfigError, createRunState, parseExperimentConfig } from './experiment';
+
+/**
+ * Scenario challenges.
+ *
+ * A scenario sets up a simulation, limits which interventions the player may
+ * use, and lists objectives to meet. Objectives are checked against the
+ * statistics of every generation, so fast-forwarded generations count the
+ * same as watched ones. The scenario is won once every objective has been
+ * met, and lost as soon as one fails or the population dies out.
+ */
+
+export const SCENARIO_INTERVENTIONS = ['control', 'clone', 'kill', 'engineering', 'catastrophes', 'sandbox', 'timeline'] as const;
+
+export type ScenarioIntervention = typeof SCENARIO_INTERVENTIONS[number];
+
+// Traits are measured as the population mean
+export type ScenarioMetric = 'population' | 'species' | keyof OrganismTraits;
+
+export interface ScenarioObjective {
+  description: string;
+  metric: ScenarioMetric;
+  comparison: 'above' | 'below';
+  value: number;
+  // reach: meet the condition by the given generation.
+  // sustain: keep meeting it every generation up to the given generation.
+  kind: 'reach' | 'sustain';
+  generations: number;
+}
+
+export interface ScenarioDefinition {
+  id: string;
+  name: string;
+  description: string;
+  seed?: number;                // Plays the same world every time when set
+  population: number;
+  initialSettings: InitialOrganismSettings;
+  worldPreset: WorldPresetName;
+  simulation: SimulationConfigChanges; // Simulation parameters that differ from the defaults
+  allowedInterventions: ScenarioIntervention[];
+  objectives: ScenarioObjective[];
+}
+
+export type ScenarioStatus = 'active' | 'won' | 'lost';
+
+export interface ObjectiveProgress {
+  status: ScenarioStatus;
+  value: number | null; // Latest measurement, null before the first generation
+}
+
+export interface ScenarioProgress {
+  status: ScenarioStatus;
+  objectives: ObjectiveProgress[];
+  generation: number | null; // Last generation evaluated
+  endedAt: number | null;    // Generation the scenario was won or lost
+  reason: string | null;     // Why it was lost
+}
+
+export class ScenarioError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ScenarioError';
+  }
+}
+
+const METRICS: ScenarioMetric[] = ['population', 'species', ...TRAIT_NAMES];
+
+const isObject = (value: unknown): value is Record<string, any> => {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+};
+
+const isPositiveInteger = (value: unknown): value is number => {
+  return typeof value === 'number' && Number.isInteger(value) && value > 0;
+};
+
+const isNonEmptyString = (value: unknown): value is string => {
+  return typeof value === 'string' && value.trim().length > 0;
+};
+
+const validateObjective = (value: unknown, path: string): ScenarioObjective => {
+  if (!isObject(value)) {
+    throw new ScenarioError(`${path} must be an object`);
+  }
+  if (!isNonEmptyString(value.description)) {
+    throw new ScenarioError(`${path}.description must be a non-empty string`);
+  }
+  if (!METRICS.includes(value.metric)) {
+    throw new ScenarioError(`${path}.metric must be one of ${METRICS.join(', ')}`);
+  }
+  if (value.comparison !== 'above' && value.comparison !== 'below') {
+    throw new ScenarioError(`${path}.comparison must be "above" or "below"`);
+  }
+  if (typeof value.value !== 'number' || !Number.isFinite(value.value)) {
+    throw new ScenarioError(`${path}.value must be a finite number`);
+  }
+  if (value.kind !== 'reach' && value.kind !== 'sustain') {
+    throw new ScenarioError(`${path}.kind must be "reach" or "sustain"`);
+  }
+  if (!isPositiveInteger(value.generations)) {
+    throw new ScenarioError(`${path}.generations must be a positive integer`);
+  }
+  return value as ScenarioObjective;
+};
+
+/**
+ * Check a scenario read from JSON. Unlike experiment configs, every field
+ * except the seed is required, so a scenario file says exactly what it plays.
+ */
+export const parseScenario = (data: unknown): ScenarioDefinition => {
+  if (!isObject(data)) {
+    throw new ScenarioError('Scenario must be a JSON object');
+  }
+
+  const required = ['id', 'name', 'description', 'population', 'initialSettings', 'worldPreset',
+    'simulation', 'allowedInterventions', 'objectives'];
+  for (const key of required) {
+    if (data[key] === undefined) {
+      throw new ScenarioError(`Scenario is missing "${key}"`);
+    }
+  }
+  for (const key of Object.keys(data)) {
+    if (key !== 'seed' && !required.includes(key)) {
+      throw new ScenarioError(`Unknown scenario field "${key}"`);
+    }
+  }
+
+  for (const key of ['id', 'name', 'description']) {
+    if (!isNonEmptyString(data[key])) {
+      throw new ScenarioError(`${key} must be a non-empty string`);
+    }
+  }
+  if (data.seed !== undefined && !(Number.isInteger(data.seed) && data.seed >= 0)) {
+    throw new ScenarioError('seed must be a non-negative integer');
+  }
+  if (!isPositiveInteger(data.population)) {
+    throw new ScenarioError('population must be a positive integer');
+  }
+  if (!(data.worldPreset in WORLD_PRESETS)) {
+    throw new ScenarioError(`worldPreset must be one of ${Object.keys(WORLD_PRESETS).join(', ')}`);
+  }
+  try {
+    parseExperimentConfig({ initialSettings: data.initialSettings });
+    validateConfigChanges(data.simulation, 'simulation');
+  } catch (error) {
+    if (error instanceof ExperimentConfigError || error instanceof ConfigError) {
+      throw new ScenarioError(error.message);
+    }
+    throw error;
+  }
+  if (!Array.isArray(data.allowedInterventions) ||
+      !data.allowedInterventions.every(intervention => SCENARIO_INTERVENTIONS.includes(intervention))) {
+    throw new ScenarioError(`allowedInterventions must only list ${SCENARIO_INTERVENTIONS.join(', ')}`);
+  }
+  if (!Array.isArray(data.objectives) || data.objectives.length === 0) {
+    throw new ScenarioError('objectives must be a non-empty array');
+  }
+  data.objectives.forEach((objective, index) => validateObjective(objective, `objectives[${index}]`));
+
+  return data as ScenarioDefinition;
+};
+
+/**
+ * The state a scenario starts from, built the same way as an experiment run
+ */
+export const createScenarioState = (scenario: ScenarioDefinition, seed: number): EngineState => {
+  return createRunState(
+    { name: scenario.id, seed, initialSettings: scenario.initialSettings },
+    {
+      ...DEFAULT_EXPERIMENT_CONFIG,
+      population: scenario.population,
+      worldPreset: scenario.worldPreset,
+      simulation: scenario.simulation
+    }
+  );
+};
+
+export const isInterventionAllowed = (
+  scenario: ScenarioDefinition | null,
+  intervention: ScenarioIntervention
+): boolean => {
+  return scenario === null || scenario.allowedInterventions.includes(intervention);
+};
+
+export const measureMetric = (stats: GenerationStats, metric: ScenarioMetric): number => {
+  switch (metric) {
+    case 'population':
+      return stats.population;
+    case 'species':
+      return Object.keys(stats.species).length;
+    default:
+      return stats.traits[metric].mean;
+  }
+};
+
+const isMet = (objective: ScenarioObjective, value: number): boolean => {
+  return objective.comparison === 'above' ? value > objective.value : value < objective.value;
+};
+
+export const createScenarioProgress = (scenario: ScenarioDefinition): ScenarioProgress => ({
+  status: 'active',
+  objectives: scenario.objectives.map(() => ({ status: 'active', value: null })),
+  generation: null,
+  endedAt: null,
+  reason: null
+});
+
+const evaluateObjective = (
+  objective: ScenarioObjective,
+  progress: ObjectiveProgress,
+  stats: GenerationStats
+): ObjectiveProgress => {
+  const value = measureMetric(stats, objective.metric);
+  if (progress.status !== 'active') return { ...progress, value };
+
+  const met = isMet(objective, value);
+  if (objective.kind === 'reach') {
+    const status = met ? 'won' : stats.generation >= objective.generations ? 'lost' : 'active';
+    return { status, value };
+  }
+  const status = !met ? 'lost' : stats.generation >= objective.generations ? 'won' : 'active';
+  return { status, value };
+};
+
+/**
+ * Advance a scenario by one generation's statistics. Generations that were
+ * already evaluated, and any after the scenario ended, change nothing.
+ */
+export const evaluateScenario = (
+  scenario: ScenarioDefinition,
+  progress: ScenarioProgress,
+  stats: GenerationStats
+): ScenarioProgress => {
+  if (progress.status !== 'active') return progress;
+  if (progress.generation !== null && stats.generation <= progress.generation) return progress;
+
+  // Trait means of an empty population are meaningless, so extinction is judged first
+  if (stats.population === 0) {
+    return {
+      ...progress,
+      status: 'lost',
+      generation: stats.generation,
+      endedAt: stats.generation,
+      reason: 'The population died out'
+    };
+  }
+
+  const objectives = scenario.objectives.map((objective, index) => (
+    evaluateObjective(objective, progress.objectives[index], stats)
+  ));
+  const failed = objectives.findIndex(objective => objective.status === 'lost');
+
+  let status: ScenarioStatus = 'active';
+  let reason: string | null = null;
+  if (failed >= 0) {
+    status = 'lost';
+    reason = `Failed: ${scenario.objectives[failed].description}`;
+  } else if (objectives.every(objective => objective.status === 'won')) {
+    status = 'won';
+  }
+
+  return {
+    status,
+    objectives,
+    generation: stats.generation,
+    endedAt: status === 'active' ? null : stats.generation,
+    reason
+  };
+};
+
+export const BUILT_IN_SCENARIOS: ScenarioDefinition[] = [
+  {
+    id: 'apex-predator',
+    name: 'Apex Predator',
+    description: 'A meadow of grazing photosynthesizers. Breed a population of hunters out of it.',
+    seed: 7,
+    population: 20,
+    initialSettings: { photosynthesis: 0.8, predation: 0.1, motility: 0.2 },
+    worldPreset: 'temperate',
+    simulation: {},
+    allowedInterventions: ['control', 'clone', 'kill'],
+    objectives: [
+      {
+        description: 'Evolve mean predation above 0.7 within 500 generations',
+        metric: 'predation',
+        comparison: 'above',
+        value: 0.7,
+        kind: 'reach',
+        generations: 500
+      }
+    ]
+  },
+  {
+    id: 'stable-colony',
+    name: 'Stable Colony',
+    description: 'Old age comes early and the first generation will crash. Keep the colony from collapsing.',
+    seed: 21,
+    population: 60,
+    initialSettings: { photosynthesis: 0.6, reproduction: 0.4 },
+    worldPreset: 'uniform',
+    simulation: { maxAge: 80 },
+    allowedInterventions: ['clone', 'kill', 'control'],
+    objectives: [
+      {
+        description: 'Keep the population above 50 for 1000 generations',
+        metric: 'population',
+        comparison: 'above',
+        value: 50,
+        kind: 'sustain',
+        generations: 1000
+      }
+    ]
+  },
+  {
+    id: 'radiation',
+    name: 'Adaptive Radiation',
+    description: 'One founding species and fast, strong mutation. Help it split into many without dying out.',
+    seed: 3,
+    population: 30,
+    initialSettings: { photosynthesis: 0.5, motility: 0.3 },
+    worldPreset: 'uniform',
+    simulation: { mutationRate: 0.2, mutationStrength: 0.2 },
+    allowedInterventions: ['control', 'clone', 'kill', 'sandbox', 'timeline'],
+    objectives: [
+      {
+        description: 'Have more than 5 living species within 400 generations',
+        metric: 'species',
+        comparison: 'above',
+        value: 5,
+        kind: 'reach',
+        generations: 400
+      },
+      {
+        description: 'Keep more than 5 organisms alive for 400 generations',
+        metric: 'population',
+        comparison: 'above',
+        value: 5,
+        kind: 'sustain',
+        generations: 400
+      }
+    ]
+  },
+  {
+    id: 'into-the-dark',
+    name: 'Into the Dark',
+    description: 'Photosynthesizers stranded in caves. Find another way to live before the light runs out.',
+    seed: 11,
+    population: 20,
+    initialSettings: { photosynthesis: 0.7, predation: 0.1, sensory: 0.2 },
+    worldPreset: 'underworld',
+    simulation: {},
+    allowedInterventions: ['control', 'sandbox'],
+    objectives: [
+      {
+        description: 'Bring mean photosynthesis below 0.2 within 400 generations',
+        metric: 'photosynthesis',
+        comparison: 'below',
+        value: 0.2,
+        kind: 'reach',
+        generations: 400
+      }
+    ]
+  }
+];
@@ -0,0 +1,301 @@
+import { createInitialPopulation, fastForward, simulateGeneration } from './core';
+import { DEFAULT_SIMULATION_CONFIG } from './config';
+import { cellIndexAt, createEnvironmentFields } from './fields';
+import { generateWorld } from './biomes';
+import { BRAIN_INPUTS } from './brain';
+import { createRng, seedToState } from './random';
+import { createLineage } from './lineage';
+import { createSpeciesRegistry } from './species';
+import {
+  SNAPSHOT_VERSION,
+  SnapshotError,
+  createSnapshot,
+  serializeSnapshot,
+  deserializeSnapshot,
+  loadSnapshot
+} from './snapshot';
+
+// How runs saved before version 10 differ from today's defaults: a calm
+// climate, milder temperature stress and photosynthesis never short of water
+const BEFORE_VERSION_10 = {
+  temperatureStress: 0.5,
+  moistureSaturation: 0.01,
+  seasonalAmplitude: 0,
+  daylightAmplitude: 0,
+  climateDrift: 0,
+  catastropheChance: 0
+};
+
+const createState = (seed: number) => {
+  const rng = createRng(seedToState(seed));
+  const organisms = createInitialPopulation({ motility: 0.5, reproduction: 0.6 }, 8, rng);
+  const environment = {
+    temperature: 0.5,
+    lightLevel: 0.8,
+    moisture: 0.6,
+    resources: {
+      organic: 100,
+      minerals: 100,
+      light: 100
+    }
+  };
+  return {
+    organisms,
+    carcasses: [],
+    environment: { ...environment, fields: createEnvironmentFields(environment, DEFAULT_SIMULATION_CONFIG.worldSize) },
+    currentGeneration: 0,
+    simulationSpeed: 1,
+    seed,
+    rngState: rng.getState(),
+    config: DEFAULT_SIMULATION_CONFIG,
+    lineage: createLineage(organisms, 0),
+    species: createSpeciesRegistry(),
+    interventionLog: []
+  };
+};
+
+describe('Simulation Snapshots', () => {
+  test('snapshots survive a JSON round trip', () => {
+    const snapshot = createSnapshot(fastForward(createState(3), 10));
+    const restored = deserializeSnapshot(serializeSnapshot(snapshot));
+
+    expect(restored).toEqual(snapshot);
+    expect(restored.version).toBe(SNAPSHOT_VERSION);
+  });
+
+  test('a restored snapshot continues exactly like the original run', () => {
+    const midway = fastForward(createState(11), 20);
+    const restored = deserializeSnapshot(serializeSnapshot(createSnapshot(midway)));
+
+    const original = fastForward(midway, 20);
+    const resumed = fastForward(restored, 20);
+
+    expect(resumed.organisms).toEqual(original.organisms);
+    expect(resumed.rngState).toBe(original.rngState);
+  });
+
+  test('player control is not persisted', () => {
+    const state = createState(5);
+    state.organisms[0].isPlayerControlled = true;
+
+    const snapshot = createSnapshot(state);
+
+    expect(snapshot.organisms[0].isPlayerControlled).toBeUndefined();
+  });
+
+  test('rejects malformed snapshots', () => {
+    const snapshot = createSnapshot(createState(1));
+
+    expect(() => deserializeSnapshot('not json')).toThrow(SnapshotError);
+    expect(() => loadSnapshot({ ...snapshot, organisms: 'none' })).toThrow('organisms must be an array');
+    expect(() => loadSnapshot({ ...snapshot, rngState: undefined })).toThrow('rngState');
+
+    const badOrganism = { ...snapshot.organisms[0], traits: { ...snapshot.organisms[0].traits, defense: 'high' } };
+    expect(() => loadSnapshot({ ...snapshot, organisms: [badOrganism] })).toThrow('organisms[0].traits.defense');
+
+    const duplicate = snapshot.organisms[0];
+    expect(() => loadSnapshot({ ...snapshot, organisms: [duplicate, duplicate] })).toThrow('duplicated');
+  });
+
+  test('migrates version 1 snapshots by starting a lineage from the population', () => {
+    const { lineage, ...snapshot } = createSnapshot(fastForward(createState(8), 5));
+    const migrated = loadSnapshot({ ...snapshot, version: 1 });
+
+    expect(migrated.version).toBe(SNAPSHOT_VERSION);
+    expect(Object.keys(migrated.lineage.records).sort()).toEqual(snapshot.organisms.map(o => o.id).sort());
+  });
+
+  test('version 1 snapshots carry on with a calm climate', () => {
+    const snapshot = createSnapshot(fastForward(createState(8), 5));
+
+    const migrated = loadSnapshot({ ...snapshot, version: 1 });
+
+    expect(migrated.config).toEqual({ ...DEFAULT_SIMULATION_CONFIG, ...BEFORE_VERSION_10 });
+  });
+
+  test('migrates version 2 snapshots to asexual organisms', () => {
+    const snapshot = createSnapshot(createState(9));
+    const stripMating = ({ mating, ...traits }: typeof snapshot.organisms[0]['traits']) => traits;
+    const organisms = snapshot.organisms.map(organism => ({ ...organism, traits: stripMating(organism.traits) }));
+    const records: Record<string, unknown> = {};
+    for (const [id, record] of Object.entries(snapshot.lineage.records)) {
+      records[id] = { ...record, traits: stripMating(record.traits) };
+    }
+
+    const migrated = loadSnapshot({ ...snapshot, version: 2, organisms, lineage: { ...snapshot.lineage, records } });
+
+    expect(migrated.organisms.every(organism => organism.traits.mating === 0)).toBe(true);
+    expect(Object.values(migrated.lineage.records).every(record => record.traits.mating === 0)).toBe(true);
+  });
+
+  test('migrates version 3 snapshots by starting behavior counters from zero', () => {
+    const snapshot = createSnapshot(fastForward(createState(10), 5));
+    const organisms = snapshot.organisms.map(({ behavior, ...organism }) => organism);
+
+    const migrated = loadSnapshot({ ...snapshot, version: 3, organisms });
+
+    expect(migrated.organisms.map(organism => organism.behavior.distanceMoved)).toEqual(organisms.map(() => 0));
+    expect(() => loadSnapshot({ ...snapshot, organisms })).toThrow('organisms[0].behavior');
+  });
+
+  test('migrates version 4 snapshots by building fields from the global environment', () => {
+    const snapshot = createSnapshot(createState(12));
+    const { fields, ...environment } = snapshot.environment;
+
+    const migrated = loadSnapshot({ ...snapshot, version: 4, environment });
+
+    expect(migrated.environment.fields).toEqual(fields);
+    expect(() => loadSnapshot({ ...snapshot, environment })).toThrow('environment.fields');
+  });
+
+  test('migrates version 5 snapshots without carcasses and validates carcasses', () => {
+    const { carcasses, ...snapshot } = createSnapshot(fastForward(createState(14), 10));
+
+    const migrated = loadSnapshot({ ...snapshot, version: 5 });
+
+    expect(migrated.carcasses).toEqual([]);
+    expect(() => loadSnapshot(snapshot)).toThrow('carcasses must be an array');
+
+    const badCarcass = { id: 'dead', position: { x: 0, y: 0, z: 0 }, size: 1, energy: 'lots', diedAt: 3 };
+    expect(() => loadSnapshot({ ...snapshot, carcasses: [badCarcass] })).toThrow('carcasses[0].energy');
+  });
+
+  test('biome maps are saved and validated', () => {
+    const state = createState(13);
+    const fields = generateWorld(state.environment, 'temperate', 13, DEFAULT_SIMULATION_CONFIG.worldSize);
+    const snapshot = createSnapshot({ ...state, environment: { ...state.environment, fields } });
+
+    expect(deserializeSnapshot(serializeSnapshot(snapshot)).environment.fields).toEqual(fields);
+
+    const badFields = { ...fields, biome: (fields.biome as number[]).map(() => 99) };
+    expect(() => loadSnapshot({ ...snapshot, environment: { ...snapshot.environment, fields: badFields } }))
+      .toThrow('environment.fields.biome');
+  });
+
+  test('brains are saved and validated', () => {
+    const rng = createRng(seedToState(15));
+    const organisms = createInitialPopulation({ brainShare: 1 }, 2, rng);
+    const snapshot = createSnapshot({ ...createState(15), organisms, rngState: rng.getState() });
+
+    expect(deserializeSnapshot(serializeSnapshot(snapshot)).organisms).toEqual(organisms);
+
+    const [brainy] = snapshot.organisms;
+    const badBrain = { ...brainy.brain, weights: [[1, 2, 3]] };
+    expect(() => loadSnapshot({ ...snapshot, organisms: [{ ...brainy, brain: badBrain }] }))
+      .toThrow('organisms[0].brain');
+  });
+
+  test('brains shaped for other inputs or outputs are rejected', () => {
+    const rng = createRng(seedToState(15));
+    const organisms = createInitialPopulation({ brainShare: 1 }, 1, rng);
+    const snapshot = createSnapshot({ ...createState(15), organisms, rngState: rng.getState() });
+    const [brainy] = snapshot.organisms;
+    // Consistent in itself, but three inputs and two outputs
+    const misshapen = { layerSizes: [3, 2], weights: [[0, 0, 0, 0, 0, 0]], biases: [[0, 0]] };
+
+    expect(() => loadSnapshot({ ...snapshot, organisms: [{ ...brainy, brain: misshapen }] }))
+      .toThrow(`organisms[0].brain.layerSizes must start with ${BRAIN_INPUTS.length} inputs`);
+  });
+
+  test('migrates version 6 snapshots to the default config and validates configs', () => {
+    const { config, ...snapshot } = createSnapshot(createState(16));
+
+    expect(loadSnapshot({ ...snapshot, version: 6 }).config).toEqual({ ...DEFAULT_SIMULATION_CONFIG, ...BEFORE_VERSION_10 });
+    expect(() => loadSnapshot(snapshot)).toThrow('config must be an object');
+
+    const tuned = { ...config, maxAge: 250 };
+    expect(loadSnapshot({ ...snapshot, config: tuned }).config.maxAge).toBe(250);
+    expect(() => loadSnapshot({ ...snapshot, config: { ...config, maxAge: -1 } })).toThrow('config.maxAge');
+    const { mutationRate, ...incomplete } = config;
+    expect(() => loadSnapshot({ ...snapshot, config: incomplete })).toThrow('config.mutationRate is missing');
+  });
+
+  test('migrates version 7 snapshots by clustering the population into species', () => {
+    const { species, ...snapshot } = createSnapshot(fastForward(createState(17), 5));
+    const { speciesThreshold, ...config } = snapshot.config;
+
+    const migrated = loadSnapshot({ ...snapshot, version: 7, config });
+
+    expect(migrated.config.speciesThreshold).toBe(DEFAULT_SIMULATION_CONFIG.speciesThreshold);
+    expect(migrated.organisms.every(organism => migrated.species.species[organism.speciesId!])).toBe(true);
+    expect(() => loadSnapshot(snapshot)).toThrow('species.species must be an object');
+
+    const [first] = migrated.organisms;
+    expect(() => loadSnapshot({ ...migrated, organisms: [{ ...first, speciesId: 999 }] }))
+      .toThrow('organisms[0].speciesId 999 is not a known species');
+  });
+
+  test('older snapshots photosynthesize and suffer heat stress as they did before loading', () => {
+    // A lone photosynthesizer in a hot, dry world, where today's defaults would tell
+    const rng = createRng(seedToState(21));
+    const [organism] = createInitialPopulation({ motility: 0, photosynthesis: 0.8 }, 1, rng);
+    const environment = {
+      temperature: 0.9,
+      lightLevel: 0.8,
+      moisture: 0.2,
+      resources: { organic: 100, minerals: 100, light: 100 }
+    };
+    const fields = createEnvironmentFields(environment, DEFAULT_SIMULATION_CONFIG.worldSize);
+    const snapshot = createSnapshot({
+      ...createState(21),
+      organisms: [organism],
+      environment: { ...environment, fields },
+      rngState: rng.getState(),
+      lineage: createLineage([organism], 0)
+    });
+    const { temperatureTolerance, ...traits } = organism.traits;
+    const { config: current, ...version6 } = { ...snapshot, organisms: [{ ...organism, traits }] };
+    const {
+      speciesThreshold, toleranceRange, toleranceCost, moistureSaturation, seasonLength, seasonalAmplitude,
+      dayLength, daylightAmplitude, climateDrift, catastropheChance, meteorRadius, plagueMortality, ...config
+    } = current;
+
+    // The photosynthesis and metabolism version 7 worked out for the cell the organism arrives in
+    const cell = cellIndexAt(fields, organism.targetPosition);
+    const photosynthesis = traits.photosynthesis * fields.values.light[cell] / 100 *
+      Math.min(1, fields.values.minerals[cell] / 20);
+    const metabolism = 0.1 * (1 + traits.metabolism) * (1 + organism.size * 0.5) *
+      (1 + 0.5 * Math.abs(fields.values.temperature[cell] - 0.5)) +
+      traits.sensory * 0.05;
+
+    const version7Config = { ...config, temperatureStress: 0.5 };
+    for (const older of [{ ...version6, version: 6 }, { ...version6, version: 7, config: version7Config }]) {
+      const { events } = simulateGeneration(loadSnapshot(older));
+      expect(events.energy.sources.photosynthesis).toBeCloseTo(photosynthesis);
+      expect(events.energy.sinks.metabolism).toBeCloseTo(metabolism);
+    }
+  });
+
+  test('migrates version 8 snapshots with an empty intervention log and validates logs', () => {
+    const { interventionLog, ...snapshot } = createSnapshot(createState(3));
+
+    expect(loadSnapshot({ ...snapshot, version: 8 }).interventionLog).toEqual([]);
+    expect(() => loadSnapshot({ ...snapshot, interventionLog: [{ generation: 0, intervention: { type: 'clone' } }] }))
+      .toThrow('interventionLog[0].intervention.organismId');
+  });
+
+  test('migrates version 9 snapshots to a calm climate and organisms without tolerance', () => {
+    const snapshot = createSnapshot(createState(9));
+    const { climate, ...environment } = snapshot.environment;
+    const { seasonalAmplitude, daylightAmplitude, climateDrift, catastropheChance, ...config } = snapshot.config;
+    const organisms = snapshot.organisms.map(organism => {
+      const { temperatureTolerance, ...traits } = organism.traits;
+      return { ...organism, traits };
+    });
+
+    const migrated = loadSnapshot({ ...snapshot, version: 9, config, environment, organisms });
+
+    expect(migrated.config).toMatchObject({ seasonalAmplitude: 0, daylightAmplitude: 0, climateDrift: 0, catastropheChance: 0 });
+    expect(migrated.environment.climate).toEqual({ drift: 0, active: [], scheduled: [] });
+    expect(migrated.organisms.every(organism => organism.traits.temperatureTolerance === 0)).toBe(true);
+    expect(() => loadSnapshot({ ...snapshot, environment: { ...environment, climate: { drift: 0 } } }))
+      .toThrow('environment.climate.active');
+  });
+
+  test('rejects snapshots without a version or from a newer version', () => {
+    const snapshot = createSnapshot(createState(1));
+
+    expect(() => loadSnapshot({ ...snapshot, version: undefined })).toThrow('missing a version');
+    expect(() => loadSnapshot({ ...snapshot, version: SNAPSHOT_VERSION + 1 })).toThrow('newer than supported');
+  });
+});
@@ -0,0 +1,618 @@
+import { Organism, Environment, Position, BehaviorCounters, Carcass, Brain } from '../frontend/stores/simulationStore';
+import { TRAIT_NAMES } from './traits';
+import { LineageRegistry, createLineage } from './lineage';
+import { createBehaviorCounters } from './behavior';
+import { EnvironmentFields, FIELD_NAMES, createEnvironmentFields } from './fields';
+import { BIOME_NAMES } from './biomes';
+import { ConfigError, DEFAULT_SIMULATION_CONFIG, SimulationConfig, validateSimulationConfig } from './config';
+import { SpeciesRegistry, createSpeciesRegistry, updateSpecies } from './species';
+import { InterventionError, InterventionRecord, validateInterventionLog } from './interventions';
+import { ClimateError, createClimateState, validateClimateState } from './climate';
+import { BRAIN_INPUTS, BRAIN_OUTPUTS } from './brain';
+
+/**
+ * Versioned JSON snapshots of a simulation run.
+ *
+ * A snapshot holds everything needed to resume a run exactly where it was
+ * saved, including the PRNG state. Whenever the shape changes, bump
+ * SNAPSHOT_VERSION and add a migration from the previous version so that
+ * older saves keep loading.
+ */
+
+export const SNAPSHOT_VERSION = 10;
+
+export interface SimulationSnapshot {
+  version: number;
+  savedAt: string;
+  currentGeneration: number;
+  simulationSpeed: number;
+  seed: number;
+  rngState: number;
+  config: SimulationConfig;
+  environment: Environment;
+  organisms: Organism[];
+  carcasses: Carcass[];
+  lineage: LineageRegistry;
+  species: SpeciesRegistry;
+  interventionLog: InterventionRecord[];
+}
+
+/**
+ * The subset of simulation state captured by a snapshot
+ */
+export type SnapshotState = Omit<SimulationSnapshot, 'version' | 'savedAt'>;
+
+export class SnapshotError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SnapshotError';
+  }
+}
+
+type Migration = (snapshot: any) => any;
+
+/**
+ * Migrations keyed by the version they upgrade from
+ */
+const migrations: Record<number, Migration> = {
+  // Version 2 added the lineage registry; older saves start one from the living population
+  1: snapshot => ({
+    ...snapshot,
+    version: 2,
+    lineage: createLineage(
+      Array.isArray(snapshot.organisms) ? snapshot.organisms : [],
+      isFiniteNumber(snapshot.currentGeneration) ? snapshot.currentGeneration : 0
+    )
+  }),
+  // Version 3 added the mating trait; older populations reproduced asexually
+  2: snapshot => ({
+    ...snapshot,
+    version: 3,
+    organisms: Array.isArray(snapshot.organisms) ?
+      snapshot.organisms.map(withMatingTrait) :
+      snapshot.organisms,
+    lineage: isObject(snapshot.lineage) && isObject(snapshot.lineage.records) ?
+      {
+        ...snapshot.lineage,
+        records: Object.fromEntries(
+          Object.entries(snapshot.lineage.records).map(([id, record]) => [id, withMatingTrait(record)])
+        )
+      } :
+      snapshot.lineage
+  }),
+  // Version 4 added lifetime behavior counters, which start over from zero
+  3: snapshot => ({
+    ...snapshot,
+    version: 4,
+    organisms: Array.isArray(snapshot.organisms) ?
+      snapshot.organisms.map((organism: any) => (
+        isObject(organism) ? { ...organism, behavior: createBehaviorCounters() } : organism
+      )) :
+      snapshot.organisms
+  }),
+  // Version 5 added spatial environment fields, built from the global values
+  4: snapshot => ({
+    ...snapshot,
+    version: 5,
+    environment: isObject(snapshot.environment) && isObject(snapshot.environment.resources) ?
+      { ...snapshot.environment, fields: createEnvironmentFields(snapshot.environment as Environment, DEFAULT_SIMULATION_CONFIG.worldSize) } :
+      snapshot.environment
+  }),
+  // Version 6 added carcasses; older saves never kept their dead
+  5: snapshot => ({
+    ...snapshot,
+    version: 6,
+    carcasses: []
+  }),
+  // Version 7 added the simulation config; older saves ran with its defaults
+  6: snapshot => ({
+    ...snapshot,
+    version: 7,
+    config: VERSION_7_CONFIG
+  }),
+  // Version 8 added species; older populations are clustered afresh
+  7: snapshot => {
+    const config = isObject(snapshot.config) ?
+      { speciesThreshold: DEFAULT_SIMULATION_CONFIG.speciesThreshold, ...snapshot.config } :
+      snapshot.config;
+    if (!Array.isArray(snapshot.organisms) || !snapshot.organisms.every(isObject)) {
+      return { ...snapshot, version: 8, config, species: createSpeciesRegistry() };
+    }
+    const { organisms, species } = updateSpecies(
+      createSpeciesRegistry(),
+      snapshot.organisms.map(({ speciesId, ...organism }: any) => organism),
+      [],
+      isFiniteNumber(snapshot.currentGeneration) ? snapshot.currentGeneration : 0,
+      isFiniteNumber(config?.speciesThreshold) ? config.speciesThreshold : DEFAULT_SIMULATION_CONFIG.speciesThreshold
+    );
+    return { ...snapshot, version: 8, config, organisms, species };
+  },
+  // Version 9 added the intervention log; older saves didn't record theirs
+  8: snapshot => ({
+    ...snapshot,
+    version: 9,
+    interventionLog: []
+  }),
+  // Version 10 added the climate, its parameters and the temperature tolerance
+  // trait; older runs had a calm climate and organisms without tolerance
+  9: snapshot => ({
+    ...snapshot,
+    version: 10,
+    config: isObject(snapshot.config) ?
+      { ...CALM_CLIMATE, ...snapshot.config } :
+      snapshot.config,
+    environment: isObject(snapshot.environment) ?
+      { ...snapshot.environment, climate: createClimateState() } :
+      snapshot.environment,
+    organisms: Array.isArray(snapshot.organisms) ?
+      snapshot.organisms.map(withoutTemperatureTolerance) :
+      snapshot.organisms,
+    lineage: isObject(snapshot.lineage) && isObject(snapshot.lineage.records) ?
+      {
+        ...snapshot.lineage,
+        records: Object.fromEntries(
+          Object.entries(snapshot.lineage.records).map(([id, record]) => [id, withoutTemperatureTolerance(record)])
+        )
+      } :
+      snapshot.lineage,
+    species: isObject(snapshot.species) && isObject(snapshot.species.species) ?
+      {
+        ...snapshot.species,
+        species: Object.fromEntries(
+          Object.entries(snapshot.species.species).map(([id, entry]: [string, any]) => [
+            id,
+            isObject(entry) && isObject(entry.representative) ?
+              { ...entry, representative: { temperatureTolerance: 0, ...entry.representative } } :
+              entry
+          ])
+        )
+      } :
+      snapshot.species
+  })
+};
+
+// Parameters added in version 10, set so that older runs carry on as they
+// were: the weather holds still, and photosynthesis never runs short of water
+// (no biome is drier than this).
+const CALM_CLIMATE: Partial<SimulationConfig> = {
+  toleranceRange: 0.3,
+  toleranceCost: 0.02,
+  moistureSaturation: 0.01,
+  seasonLength: 100,
+  seasonalAmplitude: 0,
+  dayLength: 10,
+  daylightAmplitude: 0,
+  climateDrift: 0,
+  catastropheChance: 0,
+  meteorRadius: 20,
+  plagueMortality: 0.05
+};
+
+// The defaults as version 7 knew them, kept as they were rather than following
+// today's. Parameters added since are left for the later migrations to fill in.
+const VERSION_7_CONFIG: Partial<SimulationConfig> = {
+  worldSize: 100,
+  initialEnergy: 25,
+  baseEnergyConsumption: 0.1,
+  maxAge: 100,
+  comfortTemperature: 0.5,
+  temperatureStress: 0.5,
+  reproductionEnergyCost: 10,
+  reproductionEnergyThreshold: 20,
+  mateSimilarityThreshold: 0.8,
+  mutationRate: 0.1,
+  mutationStrength: 0.1,
+  brainMutationRate: 0.1,
+  brainMutationStrength: 0.5,
+  lightShading: 5,
+  mineralUptake: 0.1,
+  mineralSaturation: 20,
+  predationScraps: 0.3,
+  scavengeBite: 2,
+  scavengeEfficiency: 0.5,
+  decompositionRate: 0.5,
+  organicEnergy: 0.5,
+  carcassBodyEnergy: 3,
+  carcassDecayRate: 0.1,
+  maxSpeed: 2,
+  movementCost: 0.25,
+  sensingCost: 0.05,
+  steeringWeights: { seekFood: 1, fleePredators: 1.5, seekLight: 0.8, flockKin: 0.3, wander: 0.5 }
+};
+
+/**
+ * Give a version 9 organism or lineage record no temperature tolerance, as before it existed
+ */
+const withoutTemperatureTolerance = (value: any): any => {
+  if (!isObject(value) || !isObject(value.traits)) return value;
+  return { ...value, traits: { temperatureTolerance: 0, ...value.traits } };
+};
+
+/**
+ * Give a version 2 organism or lineage record the asexual default for the mating trait
+ */
+const withMatingTrait = (value: any): any => {
+  if (!isObject(value) || !isObject(value.traits)) return value;
+  return { ...value, traits: { mating: 0, ...value.traits } };
+};
+
+const BEHAVIOR_COUNTERS = Object.keys(createBehaviorCounters()) as (keyof BehaviorCounters)[];
+
+const isObject = (value: unknown): value is Record<string, any> => {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+};
+
+const isFiniteNumber = (value: unknown): value is number => {
+  return typeof value === 'number' && Number.isFinite(value);
+};
+
+const expectNumber = (value: unknown, path: string): void => {
+  if (!isFiniteNumber(value)) {
+    throw new SnapshotError(`${path} must be a finite number`);
+  }
+};
+
+const validatePosition = (value: unknown, path: string): Position => {
+  if (!isObject(value)) {
+    throw new SnapshotError(`${path} must be an object`);
+  }
+  expectNumber(value.x, `${path}.x`);
+  expectNumber(value.y, `${path}.y`);
+  expectNumber(value.z, `${path}.z`);
+  return value as Position;
+};
+
+const validateBrain = (value: unknown, path: string): Brain => {
+  if (!isObject(value)) {
+    throw new SnapshotError(`${path} must be an object`);
+  }
+  const { layerSizes, weights, biases } = value;
+  if (
+    !Array.isArray(layerSizes) || layerSizes.length < 2 ||
+    !layerSizes.every(size => Number.isInteger(size) && size > 0)
+  ) {
+    throw new SnapshotError(`${path}.layerSizes must be at least two positive integers`);
+  }
+  // The network is fed and read by name, so its ends have to match the engine's
+  if (layerSizes[0] !== BRAIN_INPUTS.length || layerSizes[layerSizes.length - 1] !== BRAIN_OUTPUTS.length) {
+    throw new SnapshotError(
+      `${path}.layerSizes must start with ${BRAIN_INPUTS.length} inputs and end with ${BRAIN_OUTPUTS.length} outputs`
+    );
+  }
+  if (!Array.isArray(weights) || !Array.isArray(biases) ||
+      weights.length !== layerSizes.length - 1 || biases.length !== layerSizes.length - 1) {
+    throw new SnapshotError(`${path} must have weights and biases for every layer after the inputs`);
+  }
+  for (let layer = 1; layer < layerSizes.length; layer++) {
+    const layerWeights = weights[layer - 1];
+    const layerBiases = biases[layer - 1];
+    const weightCount = layerSizes[layer] * layerSizes[layer - 1];
+    if (!Array.isArray(layerWeights) || layerWeights.length !== weightCount || !layerWeights.every(isFiniteNumber)) {
+      throw new SnapshotError(`${path}.weights[${layer - 1}] must be ${weightCount} finite numbers`);
+    }
+    if (!Array.isArray(layerBiases) || layerBiases.length !== layerSizes[layer] || !layerBiases.every(isFiniteNumber)) {
+      throw new SnapshotError(`${path}.biases[${layer - 1}] must be ${layerSizes[layer]} finite numbers`);
+    }
+  }
+
+  return value as unknown as Brain;
+};
+
+const validateOrganism = (value: unknown, path: string): Organism => {
+  if (!isObject(value)) {
+    throw new SnapshotError(`${path} must be an object`);
+  }
+  if (typeof value.id !== 'string' || value.id.length === 0) {
+    throw new SnapshotError(`${path}.id must be a non-empty string`);
+  }
+  validatePosition(value.position, `${path}.position`);
+  validatePosition(value.previousPosition, `${path}.previousPosition`);
+  validatePosition(value.targetPosition, `${path}.targetPosition`);
+  expectNumber(value.size, `${path}.size`);
+  expectNumber(value.energy, `${path}.energy`);
+  expectNumber(value.age, `${path}.age`);
+  expectNumber(value.generation, `${path}.generation`);
+
+  if (!isObject(value.traits)) {
+    throw new SnapshotError(`${path}.traits must be an object`);
+  }
+  for (const key of TRAIT_NAMES) {
+    expectNumber(value.traits[key], `${path}.traits.${key}`);
+  }
+
+  if (value.parentId !== undefined && typeof value.parentId !== 'string') {
+    throw new SnapshotError(`${path}.parentId must be a string`);
+  }
+  if (value.parentIds !== undefined && (
+    !Array.isArray(value.parentIds) || value.parentIds.length !== 2 ||
+    value.parentIds.some((id: unknown) => typeof id !== 'string')
+  )) {
+    throw new SnapshotError(`${path}.parentIds must be a pair of strings`);
+  }
+  if (!Array.isArray(value.actions) || value.actions.some((a: unknown) => typeof a !== 'string')) {
+    throw new SnapshotError(`${path}.actions must be an array of strings`);
+  }
+  if (!isObject(value.behavior)) {
+    throw new SnapshotError(`${path}.behavior must be an object`);
+  }
+  for (const key of BEHAVIOR_COUNTERS) {
+    expectNumber(value.behavior[key], `${path}.behavior.${key}`);
+  }
+  if (value.brain !== undefined) {
+    validateBrain(value.brain, `${path}.brain`);
+  }
+  if (value.speciesId !== undefined && !Number.isInteger(value.speciesId)) {
+    throw new SnapshotError(`${path}.speciesId must be an integer`);
+  }
+
+  return value as Organism;
+};
+
+const validateCarcass = (value: unknown, path: string): Carcass => {
+  if (!isObject(value)) {
+    throw new SnapshotError(`${path} must be an object`);
+  }
+  if (typeof value.id !== 'string' || value.id.length === 0) {
+    throw new SnapshotError(`${path}.id must be a non-empty string`);
+  }
+  validatePosition(value.position, `${path}.position`);
+  expectNumber(value.size, `${path}.size`);
+  expectNumber(value.energy, `${path}.energy`);
+  expectNumber(value.diedAt, `${path}.diedAt`);
+
+  return value as Carcass;
+};
+
+const validateFields = (value: unknown): EnvironmentFields => {
+  if (!isObject(value)) {
+    throw new SnapshotError('environment.fields must be an object');
+  }
+  if (!Number.isInteger(value.resolution) || value.resolution < 1) {
+    throw new SnapshotError('environment.fields.resolution must be a positive integer');
+  }
+  expectNumber(value.worldSize, 'environment.fields.worldSize');
+
+  const cellCount = value.resolution * value.resolution * value.resolution;
+  for (const grid of ['values', 'capacity']) {
+    if (!isObject(value[grid])) {
+      throw new SnapshotError(`environment.fields.${grid} must be an object`);
+    }
+    for (const field of FIELD_NAMES) {
+      const cells = value[grid][field];
+      if (!Array.isArray(cells) || cells.length !== cellCount || !cells.every(isFiniteNumber)) {
+        throw new SnapshotError(`environment.fields.${grid}.${field} must be ${cellCount} finite numbers`);
+      }
+    }
+  }
+
+  // Uniform worlds have no biome map
+  if (value.biome !== undefined && (
+    !Array.isArray(value.biome) || value.biome.length !== cellCount ||
+    !value.biome.every((biome: unknown) => Number.isInteger(biome) && BIOME_NAMES[biome as number] !== undefined)
+  )) {
+    throw new SnapshotError(`environment.fields.biome must be ${cellCount} biome indices`);
+  }
+  if (value.regenerationScale !== undefined && (
+    !Array.isArray(value.regenerationScale) || value.regenerationScale.length !== cellCount ||
+    !value.regenerationScale.every(isFiniteNumber)
+  )) {
+    throw new SnapshotError(`environment.fields.regenerationScale must be ${cellCount} finite numbers`);
+  }
+
+  return value as unknown as EnvironmentFields;
+};
+
+const validateEnvironment = (value: unknown): Environment => {
+  if (!isObject(value)) {
+    throw new SnapshotError('environment must be an object');
+  }
+  expectNumber(value.temperature, 'environment.temperature');
+  expectNumber(value.lightLevel, 'environment.lightLevel');
+  expectNumber(value.moisture, 'environment.moisture');
+
+  if (!isObject(value.resources)) {
+    throw new SnapshotError('environment.resources must be an object');
+  }
+  expectNumber(value.resources.organic, 'environment.resources.organic');
+  expectNumber(value.resources.minerals, 'environment.resources.minerals');
+  expectNumber(value.resources.light, 'environment.resources.light');
+  validateFields(value.fields);
+  try {
+    validateClimateState(value.climate, 'environment.climate');
+  } catch (error) {
+    throw error instanceof ClimateError ? new SnapshotError(error.message) : error;
+  }
+
+  return value as Environment;
+};
+
+const validateLineage = (value: unknown): LineageRegistry => {
+  if (!isObject(value) || !isObject(value.records)) {
+    throw new SnapshotError('lineage.records must be an object');
+  }
+  expectNumber(value.budget, 'lineage.budget');
+
+  for (const id in value.records) {
+    const path = `lineage.records.${id}`;
+    const record = value.records[id];
+    if (!isObject(record) || record.id !== id) {
+      throw new SnapshotError(`${path} must be a record with a matching id`);
+    }
+    expectNumber(record.bornAt, `${path}.bornAt`);
+    expectNumber(record.lineageDepth, `${path}.lineageDepth`);
+    if (!isObject(record.traits)) {
+      throw new SnapshotError(`${path}.traits must be an object`);
+    }
+    for (const key of TRAIT_NAMES) {
+      expectNumber(record.traits[key], `${path}.traits.${key}`);
+    }
+  }
+
+  return value as unknown as LineageRegistry;
+};
+
+const validateSpecies = (value: unknown): SpeciesRegistry => {
+  if (!isObject(value) || !isObject(value.species)) {
+    throw new SnapshotError('species.species must be an object');
+  }
+  if (!Number.isInteger(value.nextId) || value.nextId < 1) {
+    throw new SnapshotError('species.nextId must be a positive integer');
+  }
+
+  for (const id in value.species) {
+    const path = `species.species.${id}`;
+    const entry = value.species[id];
+    if (!isObject(entry) || String(entry.id) !== id || !Number.isInteger(entry.id) || entry.id >= value.nextId) {
+      throw new SnapshotError(`${path} must be a species with a matching id below nextId`);
+    }
+    if (typeof entry.name !== 'string' || typeof entry.color !== 'string' || typeof entry.founderId !== 'string') {
+      throw new SnapshotError(`${path} must have a name, color and founderId`);
+    }
+    expectNumber(entry.foundedAt, `${path}.foundedAt`);
+    expectNumber(entry.population, `${path}.population`);
+    expectNumber(entry.peakPopulation, `${path}.peakPopulation`);
+    if (entry.extinctAt !== undefined) {
+      expectNumber(entry.extinctAt, `${path}.extinctAt`);
+    }
+    if (!isObject(entry.representative)) {
+      throw new SnapshotError(`${path}.representative must be an object`);
+    }
+    for (const key of TRAIT_NAMES) {
+      expectNumber(entry.representative[key], `${path}.representative.${key}`);
+    }
+  }
+
+  return value as unknown as SpeciesRegistry;
+};
+
+/**
+ * Check that data is a well-formed snapshot of the current version
+ */
+export const validateSnapshot = (data: unknown): SimulationSnapshot => {
+  if (!isObject(data)) {
+    throw new SnapshotError('Snapshot must be a JSON object');
+  }
+  if (data.version !== SNAPSHOT_VERSION) {
+    throw new SnapshotError(`Expected snapshot version ${SNAPSHOT_VERSION}, got ${data.version}`);
+  }
+  if (typeof data.savedAt !== 'string') {
+    throw new SnapshotError('savedAt must be a string');
+  }
+  expectNumber(data.currentGeneration, 'currentGeneration');
+  expectNumber(data.simulationSpeed, 'simulationSpeed');
+  expectNumber(data.seed, 'seed');
+  expectNumber(data.rngState, 'rngState');
+  validateEnvironment(data.environment);
+
+  if (!Array.isArray(data.organisms)) {
+    throw new SnapshotError('organisms must be an array');
+  }
+  const ids = new Set<string>();
+  data.organisms.forEach((organism: unknown, index: number) => {
+    const validated = validateOrganism(organism, `organisms[${index}]`);
+    if (ids.has(validated.id)) {
+      throw new SnapshotError(`organisms[${index}].id "${validated.id}" is duplicated`);
+    }
+    ids.add(validated.id);
+  });
+
+  if (!Array.isArray(data.carcasses)) {
+    throw new SnapshotError('carcasses must be an array');
+  }
+  data.carcasses.forEach((carcass: unknown, index: number) => {
+    validateCarcass(carcass, `carcasses[${index}]`);
+  });
+  validateLineage(data.lineage);
+  validateSpecies(data.species);
+  data.organisms.forEach((organism: Organism, index: number) => {
+    if (organism.speciesId !== undefined && !isObject(data.species.species[organism.speciesId])) {
+      throw new SnapshotError(`organisms[${index}].speciesId ${organism.speciesId} is not a known species`);
+    }
+  });
+  try {
+    validateSimulationConfig(data.config);
+  } catch (error) {
+    throw error instanceof ConfigError ? new SnapshotError(error.message) : error;
+  }
+  try {
+    validateInterventionLog(data.interventionLog);
+  } catch (error) {
+    throw error instanceof InterventionError ? new SnapshotError(error.message) : error;
+  }
+
+  return data as unknown as SimulationSnapshot;
+};
+
+/**
+ * Upgrade a snapshot from any older version to the current one
+ */
+export const migrateSnapshot = (data: unknown): unknown => {
+  if (!isObject(data) || !isFiniteNumber(data.version)) {
+    throw new SnapshotError('Snapshot is missing a version number');
+  }
+  if (data.version > SNAPSHOT_VERSION) {
+    throw new SnapshotError(
+      `Snapshot version ${data.version} is newer than supported version ${SNAPSHOT_VERSION}`
+    );
+  }
+
+  let current: any = data;
+  while (current.version < SNAPSHOT_VERSION) {
+    const migrate = migrations[current.version];
+    if (!migrate) {
+      throw new SnapshotError(`No migration available from snapshot version ${current.version}`);
+    }
+    current = migrate(current);
+  }
+
+  return current;
+};
+
+/**
+ * Capture a snapshot of the given simulation state
+ */
+export const createSnapshot = (state: SnapshotState): SimulationSnapshot => {
+  return {
+    version: SNAPSHOT_VERSION,
+    savedAt: new Date().toISOString(),
+    currentGeneration: state.currentGeneration,
+    simulationSpeed: state.simulationSpeed,
+    seed: state.seed,
+    rngState: state.rngState,
+    config: state.config,
+    environment: { ...state.environment, climate: state.environment.climate ?? createClimateState() },
+    carcasses: state.carcasses,
+    lineage: state.lineage,
+    species: state.species,
+    interventionLog: state.interventionLog,
+    // Player control is a UI concern and is never persisted
+    organisms: state.organisms.map(({ isPlayerControlled, ...organism }) => organism)
+  };
+};
+
+/**
+ * Migrate and validate raw snapshot data, e.g. from JSON.parse
+ */
+export const loadSnapshot = (data: unknown): SimulationSnapshot => {
+  return validateSnapshot(migrateSnapshot(data));
+};
+
+/**
+ * Serialize a snapshot to a JSON string
+ */
+export const serializeSnapshot = (snapshot: SimulationSnapshot): string => {
+  return JSON.stringify(snapshot);
+};
+
+/**
+ * Parse and load a snapshot from a JSON string
+ */
+export const deserializeSnapshot = (json: string): SimulationSnapshot => {
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch (error) {
+    throw new SnapshotError('Snapshot is not valid JSON');
+  }
+  return loadSnapshot(data);
+};
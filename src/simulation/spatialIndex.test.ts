@@ -0,0 +1,57 @@
+import { createSpatialIndex } from './spatialIndex';
+import { createRng, seedToState } from './random';
+import { Position } from '../frontend/stores/simulationStore';
+
+const distance = (a: Position, b: Position) => Math.sqrt(
+  (a.x - b.x) ** 2 + (a.y - b.y) ** 2 + (a.z - b.z) ** 2
+);
+
+describe('Spatial Index', () => {
+  test('queryRadius matches a brute force search', () => {
+    const rng = createRng(seedToState(9));
+    const points = Array.from({ length: 500 }, (_, i) => ({
+      id: `p${i}`,
+      position: { x: rng.next() * 100 - 50, y: rng.next() * 100 - 50, z: rng.next() * 100 - 50 }
+    }));
+    
+    const index = createSpatialIndex<{ id: string; position: Position }>(10);
+    points.forEach(point => index.insert(point.id, point.position, point));
+    
+    for (let i = 0; i < 50; i++) {
+      const center = { x: rng.next() * 100 - 50, y: rng.next() * 100 - 50, z: rng.next() * 100 - 50 };
+      const radius = rng.next() * 25;
+      
+      const expected = points.filter(p => distance(p.position, center) <= radius).map(p => p.id).sort();
+      const actual = index.queryRadius(center, radius).map(p => p.id).sort();
+      
+      expect(actual).toEqual(expected);
+    }
+  });
+  
+  test('supports removing, moving and updating items', () => {
+    const index = createSpatialIndex<string>(5);
+    index.insert('a', { x: 0, y: 0, z: 0 }, 'first');
+    index.insert('b', { x: 1, y: 0, z: 0 }, 'second');
+    
+    index.update('a', 'updated');
+    expect(index.get('a')).toBe('updated');
+    expect(index.queryRadius({ x: 0, y: 0, z: 0 }, 2).sort()).toEqual(['second', 'updated']);
+    
+    index.insert('b', { x: 40, y: 0, z: 0 }, 'moved');
+    expect(index.queryRadius({ x: 0, y: 0, z: 0 }, 2)).toEqual(['updated']);
+    expect(index.queryRadius({ x: 40, y: 0, z: 0 }, 1)).toEqual(['moved']);
+    
+    index.remove('a');
+    expect(index.get('a')).toBeUndefined();
+    expect(index.queryRadius({ x: 0, y: 0, z: 0 }, 2)).toEqual([]);
+    expect(index.size()).toBe(1);
+  });
+  
+  test('handles negative coordinates and cell boundaries', () => {
+    const index = createSpatialIndex<string>(10);
+    index.insert('edge', { x: -10, y: -0.001, z: 9.999 }, 'edge');
+    
+    expect(index.queryRadius({ x: -9.5, y: 0.5, z: 10.5 }, 1)).toEqual(['edge']);
+    expect(index.queryRadius({ x: 0, y: 0, z: 0 }, 5)).toEqual([]);
+  });
+});
@@ -0,0 +1,130 @@
+import { Position } from '../frontend/stores/simulationStore';
+
+/**
+ * Uniform grid spatial index for neighbor queries.
+ *
+ * The world is bucketed into cubic cells of a fixed size, so a radius query
+ * only has to look at the cells overlapping the query sphere instead of the
+ * whole population. The engine rebuilds one of these every generation.
+ */
+
+export interface SpatialIndex<T> {
+  /** Add an item, or move it if the id is already indexed */
+  insert: (id: string, position: Position, item: T) => void;
+  /** Replace the item stored under an id without moving it */
+  update: (id: string, item: T) => void;
+  remove: (id: string) => void;
+  get: (id: string) => T | undefined;
+  /** All items within radius of position, in no particular order */
+  queryRadius: (position: Position, radius: number) => T[];
+  size: () => number;
+}
+
+// Coordinates are copied out of the position so that every entry has the
+// same shape, whatever object the position came from
+interface Entry<T> {
+  key: number; // Key of the cell the entry is in
+  x: number;
+  y: number;
+  z: number;
+  item: T;
+}
+
+// Cell coordinates are packed into a single number; this bounds the grid to
+// CELL_RANGE cells per axis, which is plenty for any sensible cell size.
+// Keys stay below 2^30, so they are small integers that maps look up fast.
+const CELL_RANGE = 1024;
+const CELL_OFFSET = CELL_RANGE / 2;
+
+const cellKey = (ix: number, iy: number, iz: number): number => {
+  return ((ix + CELL_OFFSET) * CELL_RANGE + (iy + CELL_OFFSET)) * CELL_RANGE + (iz + CELL_OFFSET);
+};
+
+/**
+ * Create an empty uniform grid index
+ */
+export const createSpatialIndex = <T>(cellSize: number): SpatialIndex<T> => {
+  // Cells are plain arrays, which are much faster to scan than maps; removal
+  // keeps the order entries were inserted in
+  const cells = new Map<number, Entry<T>[]>();
+  const entries = new Map<string, Entry<T>>();
+
+  const toCell = (value: number): number => Math.floor(value / cellSize);
+
+  const remove = (id: string): void => {
+    const entry = entries.get(id);
+    if (!entry) return;
+
+    const cell = cells.get(entry.key) as Entry<T>[];
+    cell.splice(cell.indexOf(entry), 1);
+    if (cell.length === 0) {
+      cells.delete(entry.key);
+    }
+    entries.delete(id);
+  };
+
+  const insert = (id: string, position: Position, item: T): void => {
+    remove(id);
+
+    const key = cellKey(toCell(position.x), toCell(position.y), toCell(position.z));
+    let cell = cells.get(key);
+    if (!cell) {
+      cell = [];
+      cells.set(key, cell);
+    }
+    const entry = { key, x: position.x, y: position.y, z: position.z, item };
+    cell.push(entry);
+    entries.set(id, entry);
+  };
+
+  const update = (id: string, item: T): void => {
+    const entry = entries.get(id);
+    if (entry) {
+      entry.item = item;
+    }
+  };
+
+  const get = (id: string): T | undefined => entries.get(id)?.item;
+
+  const queryRadius = (position: Position, radius: number): T[] => {
+    const results: T[] = [];
+    if (radius < 0 || entries.size === 0) return results;
+
+    const { x, y, z } = position;
+    const radiusSquared = radius * radius;
+    const minX = toCell(x - radius), maxX = toCell(x + radius);
+    const minY = toCell(y - radius), maxY = toCell(y + radius);
+    const minZ = toCell(z - radius), maxZ = toCell(z + radius);
+
+    for (let ix = minX; ix <= maxX; ix++) {
+      for (let iy = minY; iy <= maxY; iy++) {
+        // Neighboring cells along z have consecutive keys
+        const rowKey = cellKey(ix, iy, minZ);
+        for (let iz = 0; iz <= maxZ - minZ; iz++) {
+          const cell = cells.get(rowKey + iz);
+          if (!cell) continue;
+
+          for (const entry of cell) {
+            const dx = entry.x - x;
+            const dy = entry.y - y;
+            const dz = entry.z - z;
+            if (dx * dx + dy * dy + dz * dz <= radiusSquared) {
+              results.push(entry.item);
+            }
+          }
+        }
+      }
+    }
+
+    return results;
+  };
+
+  return {
+    insert,
+    update,
+    remove,
+    get,
+    queryRadius,
+    size: () => entries.size
+  };
+};
@@ -0,0 +1,104 @@
+import { createInitialOrganism, createInitialPopulation, fastForward } from './core';
+import { DEFAULT_SIMULATION_CONFIG } from './config';
+import { createRng, seedToState } from './random';
+import { createLineage } from './lineage';
+import {
+  MAX_EXTINCT_SPECIES,
+  createSpeciesRegistry,
+  livingSpecies,
+  speciesName,
+  traitDistance,
+  updateSpecies
+} from './species';
+import { Organism } from '../frontend/stores/simulationStore';
+
+const environment = {
+  temperature: 0.5,
+  lightLevel: 0.8,
+  moisture: 0.6,
+  resources: {
+    organic: 100,
+    minerals: 100,
+    light: 100
+  }
+};
+
+const THRESHOLD = DEFAULT_SIMULATION_CONFIG.speciesThreshold;
+
+const organismWith = (traits: Partial<Organism['traits']>, id: string, parentId?: string): Organism => ({
+  ...createInitialOrganism(traits, createRng(1)),
+  id,
+  parentId
+});
+
+describe('Species', () => {
+  test('similar organisms share a species and distant ones found their own', () => {
+    const plants = [organismWith({ photosynthesis: 0.9 }, 'a'), organismWith({ photosynthesis: 0.85 }, 'b')];
+    const hunter = organismWith({ photosynthesis: 0, predation: 0.9 }, 'c');
+
+    const { species, organisms, events } = updateSpecies(createSpeciesRegistry(), [...plants, hunter], [], 0, THRESHOLD);
+
+    expect(organisms[0].speciesId).toBe(organisms[1].speciesId);
+    expect(organisms[2].speciesId).not.toBe(organisms[0].speciesId);
+    expect(livingSpecies(species).map(entry => entry.population)).toEqual([2, 1]);
+    expect(events.map(event => event.type)).toEqual(['founded', 'founded']);
+  });
+
+  test('offspring join their parent species while close enough, and split off beyond it', () => {
+    const first = updateSpecies(createSpeciesRegistry(), [organismWith({ motility: 0.2 }, 'parent')], [], 0, THRESHOLD);
+    const [parent] = first.organisms;
+
+    const child = organismWith({ motility: 0.3 }, 'child', 'parent');
+    const mutant = organismWith({ motility: 0.2 + THRESHOLD * 2 }, 'mutant', 'parent');
+    const second = updateSpecies(first.species, [parent, child, mutant], first.organisms, 1, THRESHOLD);
+
+    expect(second.organisms[1].speciesId).toBe(parent.speciesId);
+    const split = second.species.species[second.organisms[2].speciesId!];
+    expect(split.parentSpeciesId).toBe(parent.speciesId);
+    expect(split.foundedAt).toBe(1);
+  });
+
+  test('species die out with their last member and old records are bounded', () => {
+    let registry = createSpeciesRegistry();
+    let previous: Organism[] = [];
+    for (let generation = 0; generation <= MAX_EXTINCT_SPECIES + 5; generation++) {
+      // A completely different organism every generation
+      const traits = generation % 2 === 0 ? { motility: 1, photosynthesis: 0 } : { motility: 0, photosynthesis: 1 };
+      const result = updateSpecies(registry, [organismWith(traits, `o${generation}`)], previous, generation, 0.01);
+      expect(result.events.some(event => event.type === 'extinct') || generation === 0).toBe(true);
+      registry = result.species;
+      previous = result.organisms;
+    }
+
+    expect(livingSpecies(registry)).toHaveLength(1);
+    expect(Object.keys(registry.species).length).toBeLessThanOrEqual(MAX_EXTINCT_SPECIES + 1);
+  });
+
+  test('names and distances are deterministic', () => {
+    const traits = createInitialOrganism({ predation: 0.9 }, createRng(1)).traits;
+
+    expect(speciesName(7, traits)).toBe(speciesName(7, traits));
+    expect(speciesName(7, traits)).not.toBe(speciesName(8, traits));
+    expect(speciesName(7, traits)).toMatch(/rapax$/);
+    expect(traitDistance(traits, traits)).toBe(0);
+  });
+
+  test('species keep their ids across generations of a run', () => {
+    const rng = createRng(seedToState(4));
+    const population = createInitialPopulation({ reproduction: 0.8 }, 10, rng);
+    const { organisms, species } = updateSpecies(createSpeciesRegistry(), population, [], 0, THRESHOLD);
+    const founders = livingSpecies(species).map(entry => entry.id);
+
+    const later = fastForward({
+      organisms,
+      environment,
+      currentGeneration: 0,
+      rngState: rng.getState(),
+      lineage: createLineage(organisms, 0),
+      species
+    }, 20);
+
+    expect(later.organisms.every((organism: Organism) => organism.speciesId !== undefined)).toBe(true);
+    expect(later.organisms.some((organism: Organism) => founders.includes(organism.speciesId!))).toBe(true);
+  });
+});
@@ -0,0 +1,214 @@
+import { Organism, OrganismTraits } from '../frontend/stores/simulationStore';
+
+/**
+ * Emergent species.
+ *
+ * Species are found by distance-threshold clustering of trait vectors, as
+ * in NEAT. Every species keeps a representative: the mean traits of its
+ * living members. An organism is classified once, at birth: it joins its
+ * parent's species if its traits are within the threshold of the
+ * representative, otherwise the nearest species that is, and otherwise it
+ * founds a new species. Representatives follow their members as they
+ * evolve, so a species keeps its ID across generations until it dies out
+ * or drifting offspring split off into a new one.
+ */
+
+export const MAX_EXTINCT_SPECIES = 200; // Extinct species kept in the registry, most recent first
+
+export interface Species {
+  id: number;
+  name: string;
+  color: string;                   // CSS color
+  representative: OrganismTraits;  // Mean traits of the living members
+  founderId: string;
+  parentSpeciesId?: number;        // Species the founder's parent belonged to
+  foundedAt: number;
+  extinctAt?: number;
+  population: number;
+  peakPopulation: number;
+}
+
+export interface SpeciesRegistry {
+  species: Record<string, Species>; // By id
+  nextId: number;
+}
+
+export interface SpeciesEvent {
+  type: 'founded' | 'extinct';
+  speciesId: number;
+  generation: number;
+}
+
+const GENUS_STARTS = [
+  'Ar', 'Bel', 'Cor', 'Dra', 'El', 'Fen', 'Gal', 'Hal', 'Ix', 'Jun', 'Kal', 'Lum',
+  'Mor', 'Nex', 'Or', 'Pyr', 'Quel', 'Ros', 'Syl', 'Tor', 'Ul', 'Vor', 'Xan', 'Zen'
+];
+const GENUS_MIDDLES = ['a', 'e', 'i', 'o', 'u', 'ae'];
+const GENUS_ENDS = ['ra', 'nis', 'lus', 'tha', 'mos', 'dex', 'ria', 'nax', 'phe', 'lia'];
+const GENUS_COUNT = GENUS_STARTS.length * GENUS_MIDDLES.length * GENUS_ENDS.length;
+const GENUS_STRIDE = 7919; // Coprime with GENUS_COUNT, so consecutive ids get dissimilar names
+
+// The epithet describes the founder's strongest trait
+const EPITHETS: Record<keyof OrganismTraits, string> = {
+  motility: 'velox',
+  photosynthesis: 'lucens',
+  predation: 'rapax',
+  defense: 'armatus',
+  sensory: 'vigilans',
+  reproduction: 'fecundus',
+  metabolism: 'ardens',
+  mating: 'amans',
+  temperatureTolerance: 'durus'
+};
+
+/**
+ * Euclidean distance between two trait vectors
+ */
+export const traitDistance = (a: OrganismTraits, b: OrganismTraits): number => {
+  let sum = 0;
+  for (const trait in a) {
+    const difference = a[trait as keyof OrganismTraits] - b[trait as keyof OrganismTraits];
+    sum += difference * difference;
+  }
+  return Math.sqrt(sum);
+};
+
+/**
+ * A two-part name, unique among the first few thousand species
+ */
+export const speciesName = (id: number, traits: OrganismTraits): string => {
+  const index = (id * GENUS_STRIDE) % GENUS_COUNT;
+  const genus = GENUS_STARTS[index % GENUS_STARTS.length] +
+    GENUS_MIDDLES[Math.floor(index / GENUS_STARTS.length) % GENUS_MIDDLES.length] +
+    GENUS_ENDS[Math.floor(index / (GENUS_STARTS.length * GENUS_MIDDLES.length))];
+  const strongest = (Object.keys(traits) as (keyof OrganismTraits)[])
+    .reduce((best, trait) => (traits[trait] > traits[best] ? trait : best));
+  const cycle = Math.floor(id / GENUS_COUNT);
+  return `${genus} ${EPITHETS[strongest] ?? 'communis'}${cycle > 0 ? ` ${cycle + 1}` : ''}`;
+};
+
+/**
+ * Well-separated hues for consecutive ids
+ */
+export const speciesColor = (id: number): string => {
+  return `hsl(${Math.round((id * 137.508) % 360)}, 70%, 55%)`;
+};
+
+export const createSpeciesRegistry = (): SpeciesRegistry => ({ species: {}, nextId: 1 });
+
+/**
+ * Living species, oldest first
+ */
+export const livingSpecies = (registry: SpeciesRegistry): Species[] => {
+  return Object.values(registry.species)
+    .filter(species => species.extinctAt === undefined)
+    .sort((a, b) => a.id - b.id);
+};
+
+/**
+ * Classify organisms that don't belong to a species yet, then update every
+ * species' representative and population and record foundings and
+ * extinctions. previous is the population before this generation, where
+ * the parents of newborns are found.
+ */
+export const updateSpecies = (
+  registry: SpeciesRegistry,
+  organisms: Organism[],
+  previous: Organism[],
+  generation: number,
+  threshold: number
+): { species: SpeciesRegistry; organisms: Organism[]; events: SpeciesEvent[] } => {
+  const species = { ...registry.species };
+  let nextId = registry.nextId;
+  const events: SpeciesEvent[] = [];
+
+  const speciesOf = new Map<string, number>();
+  for (const organism of previous) {
+    if (organism.speciesId !== undefined) speciesOf.set(organism.id, organism.speciesId);
+  }
+  const candidates = livingSpecies(registry);
+
+  const classify = (organism: Organism): number => {
+    const parentSpeciesId = organism.parentId !== undefined ? speciesOf.get(organism.parentId) : undefined;
+    const parentSpecies = parentSpeciesId !== undefined ? species[parentSpeciesId] : undefined;
+    if (parentSpecies && parentSpecies.extinctAt === undefined &&
+        traitDistance(organism.traits, parentSpecies.representative) <= threshold) {
+      return parentSpecies.id;
+    }
+
+    let nearest: Species | null = null;
+    let nearestDistance = threshold;
+    for (const candidate of candidates) {
+      const distance = traitDistance(organism.traits, candidate.representative);
+      if (distance <= nearestDistance) {
+        nearest = candidate;
+        nearestDistance = distance;
+      }
+    }
+    if (nearest) return nearest.id;
+
+    const founded: Species = {
+      id: nextId++,
+      name: '',
+      color: '',
+      representative: { ...organism.traits },
+      founderId: organism.id,
+      parentSpeciesId,
+      foundedAt: generation,
+      population: 0,
+      peakPopulation: 0
+    };
+    founded.name = speciesName(founded.id, organism.traits);
+    founded.color = speciesColor(founded.id);
+    species[founded.id] = founded;
+    candidates.push(founded);
+    events.push({ type: 'founded', speciesId: founded.id, generation });
+    return founded.id;
+  };
+
+  const classified = organisms.map(organism => {
+    if (organism.speciesId !== undefined && species[organism.speciesId]) return organism;
+    return { ...organism, speciesId: classify(organism) };
+  });
+
+  // Representatives move to the mean of the living members
+  const members = new Map<number, Organism[]>();
+  for (const organism of classified) {
+    const list = members.get(organism.speciesId!);
+    if (list) {
+      list.push(organism);
+    } else {
+      members.set(organism.speciesId!, [organism]);
+    }
+  }
+
+  for (const current of candidates) {
+    const living = members.get(current.id);
+    if (!living) {
+      species[current.id] = { ...current, population: 0, extinctAt: generation };
+      events.push({ type: 'extinct', speciesId: current.id, generation });
+      continue;
+    }
+    const representative = { ...current.representative };
+    for (const trait in representative) {
+      const key = trait as keyof OrganismTraits;
+      representative[key] = living.reduce((sum, organism) => sum + organism.traits[key], 0) / living.length;
+    }
+    species[current.id] = {
+      ...current,
+      representative,
+      population: living.length,
+      peakPopulation: Math.max(current.peakPopulation, living.length)
+    };
+  }
+
+  // Forget the longest-extinct species beyond the limit
+  const extinct = Object.values(species)
+    .filter(entry => entry.extinctAt !== undefined)
+    .sort((a, b) => b.extinctAt! - a.extinctAt! || b.id - a.id);
+  for (const entry of extinct.slice(MAX_EXTINCT_SPECIES)) {
+    delete species[entry.id];
+  }
+
+  return { species: { species, nextId }, organisms: classified, events };
+};
@@ -0,0 +1,106 @@
+import { createInitialOrganism, simulateGeneration } from './core';
+import { DEFAULT_SIMULATION_CONFIG } from './config';
+import { createRng, seedToState } from './random';
+import { EnvironmentFields, cellIndexAt, createEnvironmentFields } from './fields';
+import { DEFAULT_STEERING_WEIGHTS, Perception, SteeringBehavior, SteeringWeights, isKin, steer } from './steering';
+import { InitialOrganismSettings, Organism, Position } from '../frontend/stores/simulationStore';
+
+const environment = {
+  temperature: 0.5,
+  lightLevel: 0.8,
+  moisture: 0.6,
+  resources: {
+    organic: 100,
+    minerals: 100,
+    light: 100
+  }
+};
+
+const fields = createEnvironmentFields(environment, DEFAULT_SIMULATION_CONFIG.worldSize);
+
+const createAt = (settings: InitialOrganismSettings, position: Position, seed = 1): Organism => {
+  const organism = createInitialOrganism(settings, createRng(seedToState(seed)));
+  return { ...organism, position, targetPosition: position };
+};
+
+const perceive = (organism: Organism, neighbors: Organism[], perceivedFields: EnvironmentFields = fields): Perception => ({
+  neighbors,
+  carcasses: [],
+  fields: perceivedFields,
+  cell: cellIndexAt(perceivedFields, organism.position)
+});
+
+// Weights with every behavior but one switched off
+const only = (behavior: SteeringBehavior): SteeringWeights => ({
+  seekFood: 0,
+  fleePredators: 0,
+  seekLight: 0,
+  flockKin: 0,
+  wander: 0,
+  [behavior]: 1
+});
+
+const dot = (a: Position, b: Position) => a.x * b.x + a.y * b.y + a.z * b.z;
+
+const towards = (from: Position, to: Position): Position => ({ x: to.x - from.x, y: to.y - from.y, z: to.z - from.z });
+
+describe('Steering', () => {
+  const predator = createAt({ predation: 0.9, sensory: 1, size: 2 }, { x: 0, y: 0, z: 0 }, 1);
+  const prey = createAt({ defense: 0.1, sensory: 1 }, { x: 5, y: 0, z: 0 }, 2);
+
+  test('predators head for prey in sensory range', () => {
+    const steering = steer(predator, perceive(predator, [prey]), only('seekFood'), createRng(1));
+
+    expect(dot(steering.direction, towards(predator.position, prey.position))).toBeGreaterThan(0.9 * 5);
+    expect(steering.dominant).toBe('seekFood');
+  });
+
+  test('prey flee from predators in sensory range', () => {
+    const steering = steer(prey, perceive(prey, [predator]), only('fleePredators'), createRng(1));
+
+    expect(dot(steering.direction, towards(predator.position, prey.position))).toBeGreaterThan(0.9 * 5);
+    expect(steering.dominant).toBe('fleePredators');
+  });
+
+  test('photosynthesizers head up towards the light', () => {
+    const plant = createAt({ photosynthesis: 1 }, { x: 0, y: 0, z: -30 });
+    const steering = steer(plant, perceive(plant, []), only('seekLight'), createRng(1));
+
+    expect(steering.direction.z).toBeGreaterThan(0.9);
+  });
+
+  test('organisms flock with their kin but not with strangers', () => {
+    const parent = createAt({}, { x: 0, y: 0, z: 0 }, 1);
+    const child = { ...createAt({}, { x: 0, y: 6, z: 0 }, 2), parentId: parent.id };
+    const stranger = createAt({}, { x: 0, y: -6, z: 0 }, 3);
+
+    expect(isKin(parent, child)).toBe(true);
+    expect(isKin(parent, stranger)).toBe(false);
+
+    const steering = steer(parent, perceive(parent, [child, stranger]), only('flockKin'), createRng(1));
+    expect(steering.direction.y).toBeCloseTo(1);
+  });
+
+  test('organisms that perceive nothing wander at reduced speed', () => {
+    const loner = createAt({ photosynthesis: 0, predation: 0 }, { x: 0, y: 0, z: 0 });
+    // Level organic matter leaves nothing to graze towards
+    const barren = { ...fields, values: { ...fields.values, organic: fields.capacity.organic.map(() => 0) } };
+    const steering = steer(loner, perceive(loner, [], barren), DEFAULT_STEERING_WEIGHTS, createRng(1));
+
+    expect(steering.dominant).toBe('wander');
+    expect(steering.throttle).toBeCloseTo(DEFAULT_STEERING_WEIGHTS.wander);
+  });
+
+  test('hunters close in on prey no faster than their motility allows', () => {
+    const hunter = createAt({ predation: 0.9, sensory: 1, size: 2, motility: 0.5, photosynthesis: 0, reproduction: 0 }, { x: 0, y: 0, z: 0 }, 1);
+    const target = createAt({ defense: 0, motility: 0, reproduction: 0 }, { x: 9, y: 0, z: 0 }, 2);
+
+    const next = simulateGeneration({ organisms: [hunter, target], environment, rngState: 7 });
+    const moved = next.organisms.find((organism: Organism) => organism.id === hunter.id);
+    const distance = Math.hypot(moved.targetPosition.x, moved.targetPosition.y, moved.targetPosition.z);
+
+    expect(distance).toBeLessThanOrEqual(0.5 * 2 + 1e-9);
+    expect(moved.targetPosition.x).toBeGreaterThan(0);
+    expect(moved.actions).toContain('seekFood');
+  });
+});
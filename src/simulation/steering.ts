@@ -0,0 +1,277 @@
+import { Carcass, Organism, Position } from '../frontend/stores/simulationStore';
+import { Rng } from './random';
+import { EnvironmentFields, fieldGradient } from './fields';
+
+/**
+ * Sensory-driven steering.
+ *
+ * Every generation an organism perceives the organisms and carcasses within
+ * its sensory range and the fields around it. Each steering behavior turns
+ * that perception into a desired direction with a strength from 0 to 1; the
+ * weighted sum decides where the organism heads and how hard it pushes.
+ * Motility caps how far it can get.
+ */
+
+export const STEERING_BEHAVIORS = ['seekFood', 'fleePredators', 'seekLight', 'flockKin', 'wander'] as const;
+
+export type SteeringBehavior = typeof STEERING_BEHAVIORS[number];
+
+export type SteeringWeights = Record<SteeringBehavior, number>;
+
+export const DEFAULT_STEERING_WEIGHTS: SteeringWeights = {
+  seekFood: 1,
+  fleePredators: 1.5, // Getting away matters more than the next meal
+  seekLight: 0.8,
+  flockKin: 0.3,
+  wander: 0.5
+};
+
+export interface Perception {
+  neighbors: Organism[];   // Other living organisms within sensory range
+  carcasses: Carcass[];    // Carcasses within sensory range
+  fields: EnvironmentFields;
+  cell: number;            // Field cell the organism is in
+}
+
+// Behaviors that respond to what the organism perceives
+export type Stimulus = Exclude<SteeringBehavior, 'wander'>;
+
+export interface Steering {
+  direction: Position;        // Unit vector
+  throttle: number;           // Fraction of top speed, 0-1
+  dominant: SteeringBehavior; // Behavior that contributed the most
+}
+
+const ZERO: Position = { x: 0, y: 0, z: 0 };
+
+export const sensoryRange = (organism: Organism): number => organism.traits.sensory * 10;
+
+/**
+ * Whether predator is big and strong enough to try to eat prey
+ */
+export const canPrey = (predator: Organism, prey: Organism): boolean => {
+  return predator.traits.predation > prey.traits.defense && prey.size < predator.size * 1.2;
+};
+
+const parentsOf = (organism: Organism): string[] => {
+  return organism.parentIds ?? (organism.parentId ? [organism.parentId] : []);
+};
+
+const hasParent = (organism: Organism, id: string): boolean => {
+  return organism.parentIds ? organism.parentIds.includes(id) : organism.parentId === id;
+};
+
+// Kinship test for when the first organism's parents are already at hand
+const related = (a: Organism, parentsA: string[], b: Organism): boolean => {
+  if (parentsA.includes(b.id) || hasParent(b, a.id)) return true;
+  for (const id of parentsA) {
+    if (hasParent(b, id)) return true;
+  }
+  return false;
+};
+
+/**
+ * Parents, offspring and siblings count as kin
+ */
+export const isKin = (a: Organism, b: Organism): boolean => related(a, parentsOf(a), b);
+
+const vector = (x: number, y: number, z: number): Position => ({ x, y, z });
+
+const length = (v: Position): number => Math.sqrt(v.x * v.x + v.y * v.y + v.z * v.z);
+
+const scale = (v: Position, factor: number): Position => vector(v.x * factor, v.y * factor, v.z * factor);
+
+// The unit vector along x, y, z scaled by strength, without building the
+// intermediate vectors of normalizing and then scaling
+const direction = (x: number, y: number, z: number, strength: number): Position => {
+  const magnitude = Math.sqrt(x * x + y * y + z * z);
+  if (magnitude <= 0) return ZERO;
+  const inverse = 1 / magnitude;
+  return vector(x * inverse * strength, y * inverse * strength, z * inverse * strength);
+};
+
+// What the organism makes of its neighbors, gathered in a single pass over them
+interface NeighborSense {
+  prey: Position | null;        // Nearest organism it could eat, if a predator
+  preyDistanceSquared: number;
+  threat: Position;             // Sum of the pulls away from everything that could eat it
+  kin: Position | null;         // Center of the nearby kin
+}
+
+const senseNeighbors = (organism: Organism, perception: Perception): NeighborSense => {
+  // Read once rather than for every neighbor; the loop below is the hottest in the engine
+  const { position, size } = organism;
+  const { predation, defense } = organism.traits;
+  const range = sensoryRange(organism);
+  const parents = parentsOf(organism);
+  let prey = null as Position | null;
+  let preyDistanceSquared = Infinity;
+  let threatX = 0;
+  let threatY = 0;
+  let threatZ = 0;
+  let kinX = 0;
+  let kinY = 0;
+  let kinZ = 0;
+  let kinCount = 0;
+
+  for (const other of perception.neighbors) {
+    const otherPosition = other.position;
+    const otherTraits = other.traits;
+    const dx = otherPosition.x - position.x;
+    const dy = otherPosition.y - position.y;
+    const dz = otherPosition.z - position.z;
+    const distanceSquared = dx * dx + dy * dy + dz * dz;
+
+    // As canPrey, both ways round
+    if (predation > 0 && predation > otherTraits.defense && other.size < size * 1.2 &&
+        distanceSquared > 0 && distanceSquared < preyDistanceSquared) {
+      prey = otherPosition;
+      preyDistanceSquared = distanceSquared;
+    }
+
+    if (otherTraits.predation > defense && size < other.size * 1.2) {
+      const distance = Math.sqrt(distanceSquared);
+      if (distance > 0 && distance < range) {
+        // Unit vector away from the threat, scaled by how close it is
+        const urgency = (1 - distance / range) / distance;
+        threatX += -dx * urgency;
+        threatY += -dy * urgency;
+        threatZ += -dz * urgency;
+      }
+    }
+
+    if (related(organism, parents, other)) {
+      kinX += otherPosition.x;
+      kinY += otherPosition.y;
+      kinZ += otherPosition.z;
+      kinCount++;
+    }
+  }
+
+  return {
+    prey,
+    preyDistanceSquared,
+    threat: vector(threatX, threatY, threatZ),
+    kin: kinCount > 0 ? vector(kinX / kinCount, kinY / kinCount, kinZ / kinCount) : null
+  };
+};
+
+/**
+ * Head for the nearest prey or carcass if a predator, and up the organic
+ * gradient in proportion to how little the organism photosynthesizes
+ */
+const seekFood = (organism: Organism, perception: Perception, sense: NeighborSense): Position => {
+  const { position, traits } = organism;
+  let target = sense.prey;
+  let nearest = sense.preyDistanceSquared;
+
+  if (traits.predation > 0) {
+    for (const carcass of perception.carcasses) {
+      const dx = carcass.position.x - position.x;
+      const dy = carcass.position.y - position.y;
+      const dz = carcass.position.z - position.z;
+      const distanceSquared = dx * dx + dy * dy + dz * dz;
+      if (distanceSquared > 0 && distanceSquared < nearest) {
+        target = carcass.position;
+        nearest = distanceSquared;
+      }
+    }
+  }
+
+  const hunt = target === null ?
+    ZERO :
+    direction(target.x - position.x, target.y - position.y, target.z - position.z, traits.predation);
+  const appetite = (1 - traits.photosynthesis) * (1 - traits.predation);
+  if (appetite <= 0) return hunt;
+
+  const graze = fieldGradient(perception.fields, 'organic', perception.cell);
+  return vector(hunt.x + graze.x * appetite, hunt.y + graze.y * appetite, hunt.z + graze.z * appetite);
+};
+
+/**
+ * Move away from everything that could eat the organism, closer threats
+ * counting for more. Good defenses make organisms bolder.
+ */
+const fleePredators = (organism: Organism, sense: NeighborSense): Position => {
+  const away = sense.threat;
+  return direction(away.x, away.y, away.z, Math.min(1, length(away)) * (1 - organism.traits.defense));
+};
+
+const seekLight = (organism: Organism, perception: Perception): Position => {
+  if (organism.traits.photosynthesis <= 0) return ZERO;
+  return scale(fieldGradient(perception.fields, 'light', perception.cell), organism.traits.photosynthesis);
+};
+
+/**
+ * Close in on the center of nearby kin
+ */
+const flockKin = (organism: Organism, sense: NeighborSense): Position => {
+  if (sense.kin === null) return ZERO;
+  const { kin } = sense;
+  return direction(kin.x - organism.position.x, kin.y - organism.position.y, kin.z - organism.position.z, 1);
+};
+
+/**
+ * Random heading, mostly horizontal
+ */
+const wander = (rng: Rng): Position => {
+  const angle = rng.next() * Math.PI * 2;
+  return direction(Math.cos(angle), Math.sin(angle), rng.next() - 0.5, 1);
+};
+
+/**
+ * Directions the perceived stimuli pull the organism in, each with a strength from 0 to 1
+ */
+export const senseStimuli = (organism: Organism, perception: Perception): Record<Stimulus, Position> => {
+  const sense = senseNeighbors(organism, perception);
+  return {
+    seekFood: seekFood(organism, perception, sense),
+    fleePredators: fleePredators(organism, sense),
+    seekLight: seekLight(organism, perception),
+    flockKin: flockKin(organism, sense)
+  };
+};
+
+/**
+ * Combine the steering behaviors into a heading. The wander heading is drawn
+ * every time so the random sequence doesn't depend on what was perceived.
+ */
+export const steer = (
+  organism: Organism,
+  perception: Perception,
+  weights: SteeringWeights,
+  rng: Rng
+): Steering => {
+  const stimuli = senseStimuli(organism, perception);
+  const vectors: Record<SteeringBehavior, Position> = {
+    seekFood: stimuli.seekFood,
+    fleePredators: stimuli.fleePredators,
+    seekLight: stimuli.seekLight,
+    flockKin: stimuli.flockKin,
+    wander: wander(rng)
+  };
+
+  let x = 0;
+  let y = 0;
+  let z = 0;
+  let dominant: SteeringBehavior = 'wander';
+  let strongest = -Infinity;
+  for (const behavior of STEERING_BEHAVIORS) {
+    const weight = weights[behavior];
+    const v = vectors[behavior];
+    x += v.x * weight;
+    y += v.y * weight;
+    z += v.z * weight;
+    const strength = length(v) * Math.abs(weight);
+    if (strength > strongest) {
+      strongest = strength;
+      dominant = behavior;
+    }
+  }
+
+  const magnitude = Math.sqrt(x * x + y * y + z * z);
+  if (magnitude === 0) {
+    return { direction: vectors.wander, throttle: 1, dominant: 'wander' };
+  }
+  return { direction: direction(x, y, z, 1), throttle: Math.min(1, magnitude), dominant };
+};
@@ -0,0 +1,16 @@
+import { OrganismTraits } from '../frontend/stores/simulationStore';
+
+/**
+ * Every trait an organism's genome carries, each a value from 0 to 1
+ */
+export const TRAIT_NAMES: (keyof OrganismTraits)[] = [
+  'motility',
+  'photosynthesis',
+  'predation',
+  'defense',
+  'sensory',
+  'reproduction',
+  'metabolism',
+  'mating',
+  'temperatureTolerance'
+];
@@ -0,0 +1,14 @@
+import { createEngineHost } from './engine';
+import { EngineCommand, EngineEvent } from './protocol';
+
+/**
+ * Web Worker entry point hosting the simulation engine off the main thread
+ */
+
+const ctx = self as unknown as Worker;
+
+const host = createEngineHost((event: EngineEvent) => ctx.postMessage(event));
+
+ctx.onmessage = (event: MessageEvent<EngineCommand>) => {
+  host.handle(event.data);
+};
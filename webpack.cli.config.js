@@ -0,0 +1,31 @@
+const path = require('path');
+const webpack = require('webpack');
+
+// Bundles the headless command-line runner for Node
+module.exports = {
+  target: 'node',
+  entry: './src/cli/vibelife.ts',
+  output: {
+    filename: 'vibelife.js',
+    path: path.resolve(__dirname, 'dist-cli'),
+    clean: true,
+  },
+  resolve: {
+    extensions: ['.ts', '.js'],
+  },
+  module: {
+    rules: [
+      {
+        test: /\.ts$/,
+        use: 'ts-loader',
+        exclude: /node_modules/,
+      },
+    ],
+  },
+  plugins: [
+    new webpack.BannerPlugin({ banner: '#!/usr/bin/env node', raw: true }),
+  ],
+  optimization: {
+    minimize: false,
+  },
+};